@@ -0,0 +1,48 @@
+import { runCompaction } from '@/lib/server';
+import { isPlatformSupported, getPlatform, getBinaryPath, configExists } from '@/lib/server';
+
+const DOCKER_URL = 'https://hub.docker.com/r/rabbyte-tech/kontexted';
+
+export const command = 'compact';
+export const desc = 'Thin out old note revisions according to the retention policy';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const builder = (yargs: any) => {
+  return yargs.option('dry-run', {
+    type: 'boolean',
+    description: 'Report what would be removed without changing anything',
+    default: false,
+  });
+};
+
+export const handler = async (argv: { dryRun?: boolean }) => {
+  // Check prerequisites
+  if (!isPlatformSupported()) {
+    console.error('Error:', `Platform not supported: ${getPlatform()}. Consider using Docker: ${DOCKER_URL}`);
+    process.exit(1);
+  }
+
+  if (!getBinaryPath()) {
+    console.error('Error:', 'Server binary not found.');
+    process.exit(1);
+  }
+
+  if (!configExists()) {
+    console.error('Error:', 'Configuration not found. Run `kontexted server init` first.');
+    process.exit(1);
+  }
+
+  const dryRun = argv.dryRun ?? false;
+  console.log(dryRun ? 'Checking which revisions would be compacted...\n' : 'Compacting revisions...\n');
+
+  const result = await runCompaction({ dryRun });
+
+  if (!result.success) {
+    console.error('\nError:', result.error);
+    process.exit(1);
+  }
+
+  if (!dryRun) {
+    console.log('\n✓ Compaction completed successfully.');
+  }
+};
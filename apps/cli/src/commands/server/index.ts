@@ -7,6 +7,7 @@ import * as statusCmd from './status';
 import * as logsCmd from './logs';
 import * as doctorCmd from './doctor';
 import * as migrateCmd from './migrate';
+import * as compactCmd from './compact';
 import * as showInviteCmd from './show-invite';
 
 // Yargs-style exports (as requested by user)
@@ -23,6 +24,7 @@ export const builder = (yargs: any) => {
     .command(logsCmd)
     .command(doctorCmd)
     .command(migrateCmd)
+    .command(compactCmd)
     .command(showInviteCmd)
     .demandCommand()
     .help();
@@ -124,6 +126,19 @@ export function registerServerCommand(program: Command): void {
         .parse();
     });
 
+  // compact
+  serverCmd
+    .command('compact')
+    .description(compactCmd.desc)
+    .option('--dry-run', 'Report what would be removed without changing anything')
+    .action(async (opts) => {
+      const args = opts.dryRun ? ['compact', '--dry-run'] : ['compact'];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await yargs(args)
+        .command(compactCmd as any)
+        .parse();
+    });
+
   // show-invite
   serverCmd
     .command('show-invite')
@@ -1,10 +1,18 @@
 import type { Command } from "commander";
 import * as readline from "readline";
+import { readFile } from "node:fs/promises";
 import { readConfig } from "@/lib/config";
 import { listProfiles } from "@/lib/profile";
 import type { Profile } from "@/types";
 import { ApiClient } from "@/lib/api-client";
-import { getProvider, allTemplates } from "@/skill-init/index";
+import {
+  getProvider,
+  allTemplates,
+  availableProviders,
+  detectProviders,
+  isProviderId,
+  type SkillProvider,
+} from "@/skill-init/index";
 import { initSkill } from "@/skill-init/utils";
 import { createAuthenticatedClient } from "@/lib/sync/auth-utils";
 
@@ -47,6 +55,23 @@ async function executeSearchNotes(
   return response.json();
 }
 
+/**
+ * Execute query-notes skill via the API
+ */
+async function executeQueryNotes(
+  client: ApiClient,
+  workspaceSlug: string,
+  query: Record<string, unknown>
+): Promise<unknown> {
+  const response = await client.post("/api/skill/query-notes", { workspaceSlug, ...query });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Query notes skill failed: ${response.status} ${errorText}`);
+  }
+
+  return response.json();
+}
+
 /**
  * Execute note-by-id skill via the API
  */
@@ -126,21 +151,219 @@ async function executeUpdateNoteContent(
   client: ApiClient,
   workspaceSlug: string,
   notePublicId: string,
-  content: string
+  content: string,
+  expectedRevisionId?: number
 ): Promise<unknown> {
-  const response = await client.post("/api/skill/update-note-content", {
+  const body: Record<string, unknown> = { workspaceSlug, notePublicId, content };
+  if (expectedRevisionId !== undefined) {
+    body.expectedRevisionId = expectedRevisionId;
+  }
+
+  const response = await client.post("/api/skill/update-note-content", body);
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Update note content skill failed: ${response.status} ${errorText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Execute delete-note skill via the API
+ */
+async function executeDeleteNote(
+  client: ApiClient,
+  workspaceSlug: string,
+  notePublicId: string
+): Promise<unknown> {
+  const response = await client.post("/api/skill/delete-note", {
     workspaceSlug,
     notePublicId,
-    content,
   });
   if (!response.ok) {
     const errorText = await response.text();
-    throw new Error(`Update note content skill failed: ${response.status} ${errorText}`);
+    throw new Error(`Delete note skill failed: ${response.status} ${errorText}`);
   }
 
   return response.json();
 }
 
+/**
+ * Execute restore-note skill via the API
+ */
+async function executeRestoreNote(
+  client: ApiClient,
+  workspaceSlug: string,
+  notePublicId: string
+): Promise<unknown> {
+  const response = await client.post("/api/skill/restore-note", {
+    workspaceSlug,
+    notePublicId,
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Restore note skill failed: ${response.status} ${errorText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Execute delete-folder skill via the API
+ */
+async function executeDeleteFolder(
+  client: ApiClient,
+  workspaceSlug: string,
+  folderPublicId: string
+): Promise<unknown> {
+  const response = await client.post("/api/skill/delete-folder", {
+    workspaceSlug,
+    folderPublicId,
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Delete folder skill failed: ${response.status} ${errorText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Execute move-note skill via the API
+ */
+async function executeMoveNote(
+  client: ApiClient,
+  workspaceSlug: string,
+  notePublicId: string,
+  folderPublicId?: string
+): Promise<unknown> {
+  const response = await client.post("/api/skill/move-note", {
+    workspaceSlug,
+    notePublicId,
+    folderPublicId: folderPublicId ?? null,
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Move note skill failed: ${response.status} ${errorText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Execute rename-note skill via the API
+ */
+async function executeRenameNote(
+  client: ApiClient,
+  workspaceSlug: string,
+  notePublicId: string,
+  name?: string,
+  title?: string
+): Promise<unknown> {
+  const body: Record<string, unknown> = { workspaceSlug, notePublicId };
+  if (name !== undefined) {
+    body.name = name;
+  }
+  if (title !== undefined) {
+    body.title = title;
+  }
+
+  const response = await client.post("/api/skill/rename-note", body);
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Rename note skill failed: ${response.status} ${errorText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Execute move-folder skill via the API
+ */
+async function executeMoveFolder(
+  client: ApiClient,
+  workspaceSlug: string,
+  folderPublicId: string,
+  parentPublicId?: string
+): Promise<unknown> {
+  const response = await client.post("/api/skill/move-folder", {
+    workspaceSlug,
+    folderPublicId,
+    parentPublicId: parentPublicId ?? null,
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Move folder skill failed: ${response.status} ${errorText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Execute rename-folder skill via the API
+ */
+async function executeRenameFolder(
+  client: ApiClient,
+  workspaceSlug: string,
+  folderPublicId: string,
+  name?: string,
+  displayName?: string
+): Promise<unknown> {
+  const body: Record<string, unknown> = { workspaceSlug, folderPublicId };
+  if (name !== undefined) {
+    body.name = name;
+  }
+  if (displayName !== undefined) {
+    body.displayName = displayName;
+  }
+
+  const response = await client.post("/api/skill/rename-folder", body);
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Rename folder skill failed: ${response.status} ${errorText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Execute batch skill via the API
+ */
+async function executeBatch(
+  client: ApiClient,
+  workspaceSlug: string,
+  operations: unknown[]
+): Promise<unknown> {
+  const response = await client.post("/api/skill/batch", { workspaceSlug, operations });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Batch skill failed: ${response.status} ${errorText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Parse the operations of a batch from JSON text: an array, or an object
+ * with an operations array
+ */
+function parseBatchOperations(text: string): unknown[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid batch operations JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const operations = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { operations?: unknown } | null)?.operations;
+  if (!Array.isArray(operations)) {
+    throw new Error("Batch operations must be a JSON array of operations");
+  }
+  return operations;
+}
+
 /**
  * Helper function to create an API client from a profile alias
  */
@@ -158,6 +381,30 @@ async function createApiClient(alias: string): Promise<{ client: ApiClient; prof
   }
 }
 
+/**
+ * Collect a repeatable option into an array
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Turn repeated key=value options into a fields object; a bare key only
+ * requires the key to be present
+ */
+function parseFields(entries: string[]): Record<string, string | null> {
+  const fields: Record<string, string | null> = {};
+  for (const entry of entries) {
+    const separator = entry.indexOf("=");
+    if (separator === -1) {
+      fields[entry.trim()] = null;
+    } else {
+      fields[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+    }
+  }
+  return fields;
+}
+
 /**
  * Display results from a skill execution
  */
@@ -273,6 +520,41 @@ export function registerSkillCommand(program: Command): void {
       }
     });
 
+  skillCommand
+    .command("query-notes")
+    .description("Find notes by frontmatter tags and fields, folder, author or update time")
+    .requiredOption("--alias <name>", "Profile alias to use")
+    .option("--tag <tag>", "Required tag (repeatable)", collect, [])
+    .option("--field <key=value>", "Required frontmatter field, or just <key> to require the key (repeatable)", collect, [])
+    .option("--folder <path>", "Only notes in this folder or its subfolders, e.g. specs/api")
+    .option("--author <user>", "User ID, email or name of someone who edited the note")
+    .option("--updated-after <date>", "Only notes updated at or after this ISO 8601 date")
+    .option("--updated-before <date>", "Only notes updated at or before this ISO 8601 date")
+    .option("--limit <number>", "Maximum number of results (default: 20, max: 50)", parseInt)
+    .option("--offset <number>", "Number of results to skip (default: 0)", parseInt)
+    .action(async (options) => {
+      try {
+        const { client: apiClient, profile } = await createApiClient(options.alias);
+
+        const result = await executeQueryNotes(apiClient, profile.workspace, {
+          tags: options.tag,
+          fields: parseFields(options.field),
+          folderPath: options.folder,
+          author: options.author,
+          updatedAfter: options.updatedAfter,
+          updatedBefore: options.updatedBefore,
+          limit: options.limit,
+          offset: options.offset,
+        });
+        displayResult(result);
+      } catch (error) {
+        console.error(
+          error instanceof Error ? error.message : String(error)
+        );
+        process.exit(1);
+      }
+    });
+
   skillCommand
     .command("note-by-id")
     .description("Get a specific note by its public ID")
@@ -364,6 +646,7 @@ export function registerSkillCommand(program: Command): void {
     .requiredOption("--alias <name>", "Profile alias to use")
     .requiredOption("--note-id <notePublicId>", "Public ID of the note to update")
     .requiredOption("--content <content>", "New content for the note")
+    .option("--expected-revision <revisionId>", "Fail instead of overwriting if the note has changed since this revision", parseInt)
     .action(async (options) => {
       try {
         const { client: apiClient, profile } = await createApiClient(options.alias);
@@ -377,7 +660,180 @@ export function registerSkillCommand(program: Command): void {
           apiClient,
           profile.workspace,
           options.noteId,
-          options.content
+          options.content,
+          options.expectedRevision
+        );
+        displayResult(result);
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+    });
+
+  skillCommand
+    .command("delete-note")
+    .description("Move a note to the trash")
+    .requiredOption("--alias <name>", "Profile alias to use")
+    .requiredOption("--note-id <notePublicId>", "Public ID of the note to delete")
+    .action(async (options) => {
+      try {
+        const { client: apiClient, profile } = await createApiClient(options.alias);
+
+        if (!profile.write) {
+          console.error("Error: Write operations not enabled for this profile. Re-login with 'kontexted login --alias <alias> --write' to enable write access.");
+          process.exit(1);
+        }
+
+        const result = await executeDeleteNote(apiClient, profile.workspace, options.noteId);
+        displayResult(result);
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+    });
+
+  skillCommand
+    .command("restore-note")
+    .description("Restore a note from the trash")
+    .requiredOption("--alias <name>", "Profile alias to use")
+    .requiredOption("--note-id <notePublicId>", "Public ID of the deleted note")
+    .action(async (options) => {
+      try {
+        const { client: apiClient, profile } = await createApiClient(options.alias);
+
+        if (!profile.write) {
+          console.error("Error: Write operations not enabled for this profile. Re-login with 'kontexted login --alias <alias> --write' to enable write access.");
+          process.exit(1);
+        }
+
+        const result = await executeRestoreNote(apiClient, profile.workspace, options.noteId);
+        displayResult(result);
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+    });
+
+  skillCommand
+    .command("delete-folder")
+    .description("Move a folder and everything in it to the trash")
+    .requiredOption("--alias <name>", "Profile alias to use")
+    .requiredOption("--folder-id <folderPublicId>", "Public ID of the folder to delete")
+    .action(async (options) => {
+      try {
+        const { client: apiClient, profile } = await createApiClient(options.alias);
+
+        if (!profile.write) {
+          console.error("Error: Write operations not enabled for this profile. Re-login with 'kontexted login --alias <alias> --write' to enable write access.");
+          process.exit(1);
+        }
+
+        const result = await executeDeleteFolder(apiClient, profile.workspace, options.folderId);
+        displayResult(result);
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+    });
+
+  skillCommand
+    .command("move-note")
+    .description("Move a note to another folder or to the workspace root")
+    .requiredOption("--alias <name>", "Profile alias to use")
+    .requiredOption("--note-id <notePublicId>", "Public ID of the note to move")
+    .option("--folder-id <folderPublicId>", "Public ID of the target folder (omit for root level)")
+    .action(async (options) => {
+      try {
+        const { client: apiClient, profile } = await createApiClient(options.alias);
+
+        if (!profile.write) {
+          console.error("Error: Write operations not enabled for this profile. Re-login with 'kontexted login --alias <alias> --write' to enable write access.");
+          process.exit(1);
+        }
+
+        const result = await executeMoveNote(apiClient, profile.workspace, options.noteId, options.folderId);
+        displayResult(result);
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+    });
+
+  skillCommand
+    .command("rename-note")
+    .description("Change the name and/or title of a note")
+    .requiredOption("--alias <name>", "Profile alias to use")
+    .requiredOption("--note-id <notePublicId>", "Public ID of the note to rename")
+    .option("--name <name>", "New URL-safe note name")
+    .option("--title <title>", "New human-readable note title")
+    .action(async (options) => {
+      try {
+        const { client: apiClient, profile } = await createApiClient(options.alias);
+
+        if (!profile.write) {
+          console.error("Error: Write operations not enabled for this profile. Re-login with 'kontexted login --alias <alias> --write' to enable write access.");
+          process.exit(1);
+        }
+
+        const result = await executeRenameNote(
+          apiClient,
+          profile.workspace,
+          options.noteId,
+          options.name,
+          options.title
+        );
+        displayResult(result);
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+    });
+
+  skillCommand
+    .command("move-folder")
+    .description("Move a folder under another folder or to the workspace root")
+    .requiredOption("--alias <name>", "Profile alias to use")
+    .requiredOption("--folder-id <folderPublicId>", "Public ID of the folder to move")
+    .option("--parent-id <parentPublicId>", "Public ID of the new parent folder (omit for root level)")
+    .action(async (options) => {
+      try {
+        const { client: apiClient, profile } = await createApiClient(options.alias);
+
+        if (!profile.write) {
+          console.error("Error: Write operations not enabled for this profile. Re-login with 'kontexted login --alias <alias> --write' to enable write access.");
+          process.exit(1);
+        }
+
+        const result = await executeMoveFolder(apiClient, profile.workspace, options.folderId, options.parentId);
+        displayResult(result);
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+    });
+
+  skillCommand
+    .command("rename-folder")
+    .description("Change the name and/or display name of a folder")
+    .requiredOption("--alias <name>", "Profile alias to use")
+    .requiredOption("--folder-id <folderPublicId>", "Public ID of the folder to rename")
+    .option("--name <name>", "New URL-safe folder name")
+    .option("--display-name <displayName>", "New human-readable display name")
+    .action(async (options) => {
+      try {
+        const { client: apiClient, profile } = await createApiClient(options.alias);
+
+        if (!profile.write) {
+          console.error("Error: Write operations not enabled for this profile. Re-login with 'kontexted login --alias <alias> --write' to enable write access.");
+          process.exit(1);
+        }
+
+        const result = await executeRenameFolder(
+          apiClient,
+          profile.workspace,
+          options.folderId,
+          options.name,
+          options.displayName
         );
         displayResult(result);
       } catch (error) {
@@ -386,22 +842,68 @@ export function registerSkillCommand(program: Command): void {
       }
     });
 
+  skillCommand
+    .command("batch")
+    .description("Apply several folder and note writes in one transaction (all or nothing)")
+    .requiredOption("--alias <name>", "Profile alias to use")
+    .option("--operations <json>", "JSON array of operations")
+    .option("--file <path>", "Read the JSON array of operations from a file ('-' for stdin)")
+    .action(async (options) => {
+      try {
+        if (!options.operations === !options.file) {
+          console.error("Error: Pass the operations with either --operations or --file.");
+          process.exit(1);
+        }
+
+        const { client: apiClient, profile } = await createApiClient(options.alias);
+
+        if (!profile.write) {
+          console.error("Error: Write operations not enabled for this profile. Re-login with 'kontexted login --alias <alias> --write' to enable write access.");
+          process.exit(1);
+        }
+
+        const text = options.file
+          ? await readFile(options.file === "-" ? "/dev/stdin" : options.file, "utf-8")
+          : options.operations;
+        const result = await executeBatch(apiClient, profile.workspace, parseBatchOperations(text));
+        displayResult(result);
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+    });
+
   skillCommand
     .command("init")
     .description("Initialize AI agent skills for the current project")
-    .option("--provider <name>", "Provider to use (default: opencode)", "opencode")
+    .option(
+      "--provider <names>",
+      `Comma-separated providers to use: ${availableProviders.join(", ")} (default: agents detected in the project)`
+    )
     .option("--all", "Generate all available skills without prompting", false)
     .option("--no-prompt", "Skip profile selection, use generic template", false)
     .action(async (options) => {
       try {
-        // Get the provider
-        let provider;
-        try {
-          provider = getProvider(options.provider);
-        } catch {
-          console.error(`Unknown skill provider: ${options.provider}`);
-          console.error(`Available providers: ${["opencode"].join(", ")}`);
-          process.exit(1);
+        // Get the providers, from --provider or by detecting the agents in the project
+        let providers: SkillProvider[];
+        if (options.provider) {
+          const ids = [...new Set<string>(String(options.provider).split(",").map((id) => id.trim()).filter(Boolean))];
+          const unknown = ids.filter((id) => !isProviderId(id));
+          if (unknown.length > 0) {
+            console.error(`Unknown skill provider: ${unknown.join(", ")}`);
+            console.error(`Available providers: ${availableProviders.join(", ")}`);
+            process.exit(1);
+          }
+          providers = ids.filter(isProviderId).map(getProvider);
+        } else {
+          providers = await detectProviders(process.cwd());
+          if (providers.length > 0) {
+            console.log(`Detected agents: ${providers.map((provider) => provider.name).join(", ")}`);
+          } else {
+            providers = [getProvider("opencode")];
+            console.log("No AI agents detected in this project, using OpenCode.");
+            console.log("Use --provider to choose others.");
+          }
         }
 
         // Resolve alias and write permissions through interactive selection
@@ -429,10 +931,12 @@ export function registerSkillCommand(program: Command): void {
         }
 
         // Show what will be generated
-        console.log(`This will generate the following skills for ${provider.name}:`);
-        for (const template of allTemplates) {
-          const skillPath = provider.getSkillPath(template.name);
-          console.log(`  - ${template.name} → ${skillPath}`);
+        for (const provider of providers) {
+          console.log(`This will generate the following skills for ${provider.name}:`);
+          for (const template of allTemplates) {
+            const skillPath = provider.getSkillPath(template.name);
+            console.log(`  - ${template.name} → ${skillPath}`);
+          }
         }
 
         // Check if we should prompt for confirmation
@@ -458,23 +962,25 @@ export function registerSkillCommand(program: Command): void {
         // Generate all skills
         const results: Array<{ name: string; path: string; created: boolean }> = [];
 
-        for (const template of allTemplates) {
-          console.log(`Generating skill: ${template.name}`);
+        for (const provider of providers) {
+          for (const template of allTemplates) {
+            console.log(`Generating skill: ${template.name} (${provider.name})`);
 
-          const result = await initSkill({
-            skill: template,
-            provider,
-            alias,
-            hasWrite,
-          });
+            const result = await initSkill({
+              skill: template,
+              provider,
+              alias,
+              hasWrite,
+            });
 
-          const status = result.created ? "Created" : "Updated";
-          console.log(`✓ ${status} ${result.path}`);
-          results.push({
-            name: result.name,
-            path: result.path,
-            created: result.created,
-          });
+            const status = result.created ? "Created" : "Updated";
+            console.log(`✓ ${status} ${result.path}`);
+            results.push({
+              name: result.name,
+              path: result.path,
+              created: result.created,
+            });
+          }
         }
 
         // Show summary
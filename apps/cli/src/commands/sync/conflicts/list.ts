@@ -75,7 +75,11 @@ function displayConflicts(conflicts: ConflictLogEntry[]): void {
   for (let i = 0; i < conflicts.length; i++) {
     const conflict = conflicts[i];
     const winnerText =
-      conflict.winner === "local" ? "local wins" : "remote wins";
+      conflict.winner === "merge"
+        ? "merged with conflict markers"
+        : conflict.winner === "local"
+          ? "local wins"
+          : "remote wins";
     const timestamp = formatTimestamp(conflict.timestamp);
     console.log(`  ${i + 1}. ${conflict.filePath} (${winnerText}, ${timestamp})`);
   }
@@ -1,43 +1,24 @@
 import type { Command } from "commander";
 import fs from "node:fs/promises";
 import path from "node:path";
-import type { ConflictLogEntry, SyncState } from "@/lib/sync/types";
-
-/**
- * Default sync directory name
- */
-const DEFAULT_SYNC_DIR = ".kontexted";
-
-/**
- * Find the sync directory by looking for .kontexted/ or using --dir option
- */
-async function findSyncDir(cwd: string, dirArg?: string): Promise<string> {
-  // If --dir was provided, use it
-  if (dirArg) {
-    const syncDir = path.resolve(cwd, dirArg);
-    try {
-      await fs.access(syncDir);
-      return syncDir;
-    } catch {
-      console.error(`Error: Directory not found: ${syncDir}`);
-      process.exit(1);
-    }
-  }
-
-  // Otherwise, look for .kontexted/ in current directory
-  const defaultSyncDir = path.join(cwd, DEFAULT_SYNC_DIR);
-  try {
-    await fs.access(defaultSyncDir);
-    return defaultSyncDir;
-  } catch {
-    console.error(`Error: Sync directory not found.`);
-    console.error(
-      `Expected to find '${DEFAULT_SYNC_DIR}/' in current directory or specify --dir option.`
-    );
-    console.error(`Run 'kontexted sync init' first to initialize sync.`);
-    process.exit(1);
-  }
-}
+import { createAuthenticatedClient } from "@/lib/sync/auth-utils";
+import { writeBaseSnapshot } from "@/lib/sync/base-snapshots";
+import { findSyncDir, loadSyncConfig, loadSyncState, saveSyncState } from "@/lib/sync/command-utils";
+import { sha256 } from "@/lib/sync/crypto";
+import {
+  containsConflictMarkers,
+  resolveRegionsInteractively,
+  resolveWithMergeTool,
+  type ConflictVersions,
+} from "@/lib/sync/interactive-merge";
+import { parseMarkdown } from "@/lib/sync/utils";
+import type {
+  ConflictLogEntry,
+  FileSyncState,
+  SyncConfig,
+  SyncPushRequest,
+  SyncPushResponse,
+} from "@/lib/sync/types";
 
 /**
  * Read and parse conflicts.log to get all conflict entries
@@ -69,28 +50,64 @@ async function writeConflicts(
 }
 
 /**
- * Load sync state from .sync/state.json
+ * Read the local, remote and base versions of a conflicting file.
+ * The file itself holds the winner (or the merge with conflict markers);
+ * the other versions are the shadow copies under .sync/conflicts.
  */
-async function loadSyncState(syncDir: string): Promise<SyncState | null> {
-  const statePath = path.join(syncDir, ".sync", "state.json");
+async function loadConflictVersions(syncDir: string, conflict: ConflictLogEntry): Promise<ConflictVersions> {
+  const read = (relativePath: string) => fs.readFile(path.join(syncDir, relativePath), "utf-8");
+  const base = conflict.basePath ? await read(conflict.basePath).catch(() => null) : null;
 
-  try {
-    const stateRaw = await fs.readFile(statePath, "utf-8");
-    return JSON.parse(stateRaw) as SyncState;
-  } catch (error) {
-    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
-      return null;
+  if (conflict.winner === "merge") {
+    if (!conflict.remotePath) {
+      throw new Error("The remote version of this conflict was not preserved");
     }
-    throw error;
+    return { local: await read(conflict.loserPath), remote: await read(conflict.remotePath), base };
   }
+
+  const current = await read(conflict.filePath);
+  const loser = await read(conflict.loserPath);
+  return conflict.winner === "local"
+    ? { local: current, remote: loser, base }
+    : { local: loser, remote: current, base };
 }
 
 /**
- * Save sync state to .sync/state.json
+ * Push resolved content to the server, overwriting the remote version
+ *
+ * @returns Whether the server accepted the update
  */
-async function saveSyncState(syncDir: string, state: SyncState): Promise<void> {
-  const statePath = path.join(syncDir, ".sync", "state.json");
-  await fs.writeFile(statePath, JSON.stringify(state, null, 2), "utf-8");
+async function pushResolvedContent(
+  syncConfig: SyncConfig,
+  fileState: FileSyncState,
+  filePath: string,
+  content: string
+): Promise<boolean> {
+  const { client } = await createAuthenticatedClient(syncConfig.alias);
+  const { title, body } = parseMarkdown(content);
+  const name = path.basename(filePath, ".md");
+
+  const request: SyncPushRequest = {
+    workspaceSlug: syncConfig.workspaceSlug,
+    changes: [
+      {
+        type: "update",
+        publicId: fileState.publicId,
+        name,
+        title: title || name,
+        content: body,
+        folderPath: fileState.folderPath,
+        expectedMtime: "", // The user resolved the conflict - overwrite the remote version
+      },
+    ],
+  };
+
+  const response = await client.post("/api/sync/push", request);
+  if (!response.ok) {
+    throw new Error(`Push failed: ${response.status}`);
+  }
+  const data = (await response.json()) as SyncPushResponse;
+  return Boolean(data.accepted?.[0]);
 }
 
 /**
@@ -98,13 +115,15 @@ async function saveSyncState(syncDir: string, state: SyncState): Promise<void> {
  */
 export async function handler(argv: {
   id: string;
-  keep: "local" | "remote";
+  keep?: "local" | "remote";
+  tool?: string | boolean;
   dir?: string;
 }): Promise<void> {
   const cwd = process.cwd();
 
   // Find the sync directory
   const syncDir = await findSyncDir(cwd, argv.dir);
+  const syncConfig = await loadSyncConfig(syncDir);
 
   // Parse the conflict ID (1-based index)
   const conflictId = parseInt(argv.id, 10);
@@ -126,37 +145,86 @@ export async function handler(argv: {
 
   const conflict = conflicts[conflictIndex];
 
-  // Resolve the conflict
-  const localFilePath = path.join(syncDir, conflict.filePath);
+  let versions: ConflictVersions;
+  try {
+    versions = await loadConflictVersions(syncDir, conflict);
+  } catch (error) {
+    console.error(`Error: Could not read the versions of ${conflict.filePath}`);
+    console.error(`Details: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
 
-  if (argv.keep === "local") {
-    // Keep local version - already in place, just remove conflict entry
-    console.log(`Resolved conflict #${conflictId}: keeping local version`);
-    console.log(`  File: ${conflict.filePath}`);
+  // Resolve the conflict
+  let resolved: string | null;
+  if (argv.keep) {
+    resolved = versions[argv.keep];
+  } else if (argv.tool) {
+    const command = typeof argv.tool === "string" ? argv.tool : syncConfig.mergeTool;
+    try {
+      resolved = await resolveWithMergeTool(versions, command);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      console.error("Conflict left unresolved.");
+      process.exit(1);
+    }
   } else {
-    // Keep remote version - copy loser (shadow) to main file
-    const loserPath = path.join(syncDir, conflict.loserPath);
-    const loserContent = await fs.readFile(loserPath, "utf-8");
-    await fs.writeFile(localFilePath, loserContent, "utf-8");
-    console.log(`Resolved conflict #${conflictId}: keeping remote version`);
-    console.log(`  File: ${conflict.filePath}`);
-    console.log(`  Copied from: ${conflict.loserPath}`);
+    if (!process.stdin.isTTY) {
+      console.error("Error: Interactive resolution needs a terminal.");
+      console.error("Use --keep <local|remote> or --tool instead.");
+      process.exit(1);
+    }
+    console.log(`Resolving conflict #${conflictId}: ${conflict.filePath}`);
+    resolved = await resolveRegionsInteractively(versions, {
+      local: conflict.winner === "remote" ? `local (${conflict.loserPath})` : "local",
+      remote: conflict.winner === "local" ? `remote (${conflict.loserPath})` : "remote",
+      base: conflict.basePath ? `base (${conflict.basePath})` : "base",
+    });
+  }
+
+  if (resolved === null) {
+    console.log("Aborted. Conflict left unresolved.");
+    return;
+  }
+  if (containsConflictMarkers(resolved)) {
+    console.error("Error: The resolved content still has conflict markers.");
+    console.error("Conflict left unresolved.");
+    process.exit(1);
   }
 
-  // Update sync state - mark file as synced with the new hash
-  let state = await loadSyncState(syncDir);
-  if (state) {
-    // Get the new content hash
-    const newContent = await fs.readFile(localFilePath, "utf-8");
-    const newHash = await hashContent(newContent);
-
-    // Update the file state
-    if (state.files[conflict.filePath]) {
-      state.files[conflict.filePath].localHash = newHash;
-      state.files[conflict.filePath].remoteHash = newHash;
-      await saveSyncState(syncDir, state);
-      console.log(`  Updated sync state for ${conflict.filePath}`);
+  const localFilePath = path.join(syncDir, conflict.filePath);
+  await fs.writeFile(localFilePath, resolved, "utf-8");
+  console.log(`Resolved conflict #${conflictId}${argv.keep ? `: keeping ${argv.keep} version` : ""}`);
+  console.log(`  File: ${conflict.filePath}`);
+
+  // Push the resolved content and mark the file as synced
+  const state = await loadSyncState(syncDir);
+  const fileState = state?.files[conflict.filePath];
+  if (state && fileState) {
+    let pushed = false;
+    try {
+      pushed = await pushResolvedContent(syncConfig, fileState, conflict.filePath, resolved);
+    } catch (error) {
+      console.warn(`  Warning: ${error instanceof Error ? error.message : String(error)}`);
     }
+
+    if (pushed) {
+      const now = new Date().toISOString();
+      state.files[conflict.filePath] = {
+        ...fileState,
+        localHash: sha256(resolved),
+        remoteHash: sha256(parseMarkdown(resolved).body),
+        localMtime: now,
+        remoteMtime: now,
+        lastSync: now,
+        baseHash: await writeBaseSnapshot(syncDir, fileState.publicId, resolved),
+      };
+      console.log("  Pushed resolved content to server");
+    } else {
+      // Forget the local hash so the next sync pushes the file
+      state.files[conflict.filePath] = { ...fileState, localHash: null };
+      console.warn("  Could not push to server; the file will be pushed on the next sync");
+    }
+    await saveSyncState(syncDir, state);
   }
 
   // Remove the conflict from the log
@@ -166,18 +234,10 @@ export async function handler(argv: {
   console.log(`  Conflict removed from conflicts.log`);
 }
 
-/**
- * Simple hash function for content (SHA-256 via crypto)
- */
-async function hashContent(content: string): Promise<string> {
-  const crypto = await import("node:crypto");
-  return crypto.createHash("sha256").update(content).digest("hex");
-}
-
 // ============ Yargs Command Module ============
 
 export const command = "resolve";
-export const desc = "Manually resolve conflict";
+export const desc = "Resolve a conflict interactively, in a merge tool, or by keeping one version";
 
 export const builder = () => {};
 
@@ -185,7 +245,8 @@ export const builder = () => {};
 export async function handlerYargs(argv: any): Promise<void> {
   await handler({
     id: argv.id,
-    keep: argv.keep as "local" | "remote",
+    keep: argv.keep as "local" | "remote" | undefined,
+    tool: argv.tool,
     dir: argv.dir,
   });
 }
@@ -199,24 +260,28 @@ export function registerConflictsResolveCommand(conflictsCommand: Command): void
   conflictsCommand
     .command("resolve <id>")
     .description(desc)
-    .requiredOption(
+    .option(
       "--keep <local|remote>",
-      "Which version to keep: 'local' or 'remote'"
+      "Keep one version of the whole file: 'local' or 'remote'"
+    )
+    .option(
+      "--tool [command]",
+      "Resolve in a merge tool run with $LOCAL, $REMOTE, $BASE and $MERGED (default: mergeTool from .sync/config.json, else $EDITOR)"
     )
     .option("--dir <directory>", "Sync directory")
     .action(async (id: string, opts) => {
-      if (!opts.keep) {
-        console.error("Error: --keep option is required");
-        console.error("Usage: kontexted sync conflicts resolve <id> --keep <local|remote>");
+      if (opts.keep && opts.keep !== "local" && opts.keep !== "remote") {
+        console.error("Error: --keep must be 'local' or 'remote'");
         process.exit(1);
       }
-      if (opts.keep !== "local" && opts.keep !== "remote") {
-        console.error("Error: --keep must be 'local' or 'remote'");
+      if (opts.keep && opts.tool) {
+        console.error("Error: Use either --keep or --tool, not both");
         process.exit(1);
       }
       await handlerYargs({
         id,
         keep: opts.keep,
+        tool: opts.tool,
         dir: opts.dir,
       });
     });
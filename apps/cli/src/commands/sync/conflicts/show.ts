@@ -101,6 +101,26 @@ export async function handler(argv: { id: string; dir?: string }): Promise<void>
   const localFilePath = path.join(syncDir, conflict.filePath);
   const localContent = await fs.readFile(localFilePath, "utf-8");
 
+  // Merged file: show it with its conflict markers and both preserved versions
+  if (conflict.winner === "merge") {
+    console.log("--- merged file (with conflict markers) ---");
+    console.log(localContent);
+    console.log();
+    console.log(`--- local version (at ${conflict.loserPath}) ---`);
+    console.log(await fs.readFile(path.join(syncDir, conflict.loserPath), "utf-8"));
+    if (conflict.remotePath) {
+      console.log();
+      console.log(`--- remote version (at ${conflict.remotePath}) ---`);
+      console.log(await fs.readFile(path.join(syncDir, conflict.remotePath), "utf-8"));
+    }
+    if (conflict.basePath) {
+      console.log();
+      console.log(`--- base version (at ${conflict.basePath}) ---`);
+      console.log(await fs.readFile(path.join(syncDir, conflict.basePath), "utf-8"));
+    }
+    return;
+  }
+
   // Read the loser file (shadow copy)
   const loserPath = path.join(syncDir, conflict.loserPath);
   const loserContent = await fs.readFile(loserPath, "utf-8");
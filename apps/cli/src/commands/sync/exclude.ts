@@ -0,0 +1,100 @@
+import type { Command } from "commander";
+import {
+  applySyncScopeChange,
+  findSyncDir,
+  loadSyncConfig,
+  printSyncScope,
+} from "@/lib/sync/command-utils";
+import { normalizePattern } from "@/lib/sync/selective";
+
+/**
+ * Handler for the sync exclude command
+ */
+export async function handler(argv: { patterns?: string[]; remove?: boolean; dir?: string }): Promise<void> {
+  const cwd = process.cwd();
+
+  // Find the sync directory
+  const syncDir = await findSyncDir(cwd, argv.dir);
+  const syncConfig = await loadSyncConfig(syncDir);
+
+  const patterns = (argv.patterns ?? []).map(normalizePattern).filter(Boolean);
+  if (patterns.length === 0) {
+    printSyncScope(syncConfig);
+    return;
+  }
+
+  const current = syncConfig.exclude ?? [];
+
+  let updated: string[];
+  if (argv.remove) {
+    for (const pattern of patterns.filter((pattern) => !current.includes(pattern))) {
+      console.warn(`Warning: Not in the exclude patterns: ${pattern}`);
+    }
+    updated = current.filter((pattern) => !patterns.includes(pattern));
+  } else {
+    updated = [...current, ...patterns.filter((pattern) => !current.includes(pattern))];
+  }
+
+  if (updated.length > 0) {
+    syncConfig.exclude = updated;
+  } else {
+    delete syncConfig.exclude;
+  }
+
+  await applySyncScopeChange(syncDir, syncConfig, Boolean(argv.remove));
+
+  console.log();
+  printSyncScope(syncConfig);
+}
+
+// ============ Yargs Command Module ============
+
+export const command = "exclude [patterns..]";
+export const desc = "Leave notes matching glob patterns out of sync";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const builder = (yargs: any) => {
+  return yargs
+    .positional("patterns", {
+      type: "string",
+      array: true,
+      description: "Glob patterns relative to the workspace root, e.g. 'backend/archive/**'",
+    })
+    .option("remove", {
+      type: "boolean",
+      description: "Remove the patterns instead of adding them",
+      default: false,
+    })
+    .option("dir", {
+      type: "string",
+      description: "Sync directory (default: .kontexted in current directory)",
+    });
+};
+
+export async function handlerYargs(argv: { patterns?: string[]; remove?: boolean; dir?: string }): Promise<void> {
+  await handler({
+    patterns: argv.patterns,
+    remove: argv.remove,
+    dir: argv.dir,
+  });
+}
+
+// ============ Register with Commander ============
+
+/**
+ * Register the sync exclude command with the sync command.
+ */
+export function registerExcludeCommand(syncCommand: Command): void {
+  syncCommand
+    .command("exclude [patterns...]")
+    .description(desc)
+    .option("--remove", "Remove the patterns instead of adding them")
+    .option("--dir <directory>", "Sync directory (default: .kontexted in current directory)")
+    .action(async (patterns: string[], opts) => {
+      await handlerYargs({
+        patterns,
+        remove: opts.remove,
+        dir: opts.dir,
+      });
+    });
+}
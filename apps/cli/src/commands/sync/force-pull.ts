@@ -4,7 +4,9 @@ import path from "node:path";
 import { ApiClient } from "@/lib/api-client";
 import { ensureDirectoryExists, formatMarkdown, computeFilePath } from "@/lib/sync/utils";
 import { sha256 } from "@/lib/sync/crypto";
+import { writeBaseSnapshot } from "@/lib/sync/base-snapshots";
 import { createAuthenticatedClient } from "@/lib/sync/auth-utils";
+import { createSyncScope, hasSelectiveSync, untrackOutOfScopeFiles } from "@/lib/sync/selective";
 import {
   findSyncDir,
   loadSyncConfig,
@@ -105,9 +107,13 @@ export async function handler(argv: { force?: boolean; dir?: string; alias?: str
   }
 
   const pullData = (await response.json()) as SyncPullResponse;
-  const remoteNotes = pullData.notes;
+  const scope = createSyncScope(syncConfig);
+  const remoteNotes = pullData.notes.filter((note) => scope.includesFile(computeFilePath(note)));
 
-  console.log(`Found ${remoteNotes.length} notes on server.`);
+  console.log(`Found ${pullData.notes.length} notes on server.`);
+  if (hasSelectiveSync(syncConfig)) {
+    console.log(`${remoteNotes.length} of them are in the sync scope.`);
+  }
 
   // Step 8: Load current state
   let state = await loadSyncState(syncDir);
@@ -143,11 +149,18 @@ export async function handler(argv: { force?: boolean; dir?: string; alias?: str
       publicId: note.publicId,
       noteId: note.id,
       folderPath: note.folderPath,
+      baseHash: await writeBaseSnapshot(syncDir, note.publicId, content),
     };
 
     updatedCount++;
   }
 
+  // Files that left the sync scope are no longer synced
+  const { untracked } = await untrackOutOfScopeFiles(syncDir, state, scope);
+  if (untracked.length > 0) {
+    console.log(`Stopped syncing ${untracked.length} files outside the sync scope.`);
+  }
+
   // Step 10: Update last full sync timestamp
   state.lastFullSync = new Date().toISOString();
 
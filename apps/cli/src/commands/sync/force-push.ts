@@ -5,6 +5,7 @@ import { readConfig } from "@/lib/config";
 import { ApiClient } from "@/lib/api-client";
 import { parseMarkdown } from "@/lib/sync/utils";
 import { createAuthenticatedClient } from "@/lib/sync/auth-utils";
+import { createSyncScope } from "@/lib/sync/selective";
 import {
   DEFAULT_SYNC_DIR,
   findSyncDir,
@@ -75,9 +76,10 @@ export async function handler(argv: { force?: boolean; dir?: string; alias?: str
     state = { files: {}, folders: {}, lastFullSync: null, version: 1 };
   }
 
-  // Step 8: Get all local markdown files
+  // Step 8: Get all local markdown files in the sync scope
   console.log("Scanning local files...");
-  const localFiles = await getMarkdownFiles(syncDir, syncDir);
+  const scope = createSyncScope(syncConfig);
+  const localFiles = (await getMarkdownFiles(syncDir, syncDir)).filter((file) => scope.includesFile(file));
   console.log(`Found ${localFiles.length} local files.`);
 
   // Step 9: Build push request
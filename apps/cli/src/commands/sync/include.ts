@@ -0,0 +1,127 @@
+import type { Command } from "commander";
+import {
+  applySyncScopeChange,
+  findSyncDir,
+  loadSyncConfig,
+  printSyncScope,
+} from "@/lib/sync/command-utils";
+import { normalizePattern } from "@/lib/sync/selective";
+
+/**
+ * Handler for the sync include command
+ */
+export async function handler(argv: {
+  patterns?: string[];
+  folder?: boolean;
+  remove?: boolean;
+  dir?: string;
+}): Promise<void> {
+  const cwd = process.cwd();
+
+  // Find the sync directory
+  const syncDir = await findSyncDir(cwd, argv.dir);
+  const syncConfig = await loadSyncConfig(syncDir);
+
+  const patterns = (argv.patterns ?? []).map(normalizePattern).filter(Boolean);
+  if (patterns.length === 0) {
+    printSyncScope(syncConfig);
+    return;
+  }
+
+  // Include patterns and sparse folders together limit the sync scope
+  const countScopeLimits = () => (syncConfig.include?.length ?? 0) + (syncConfig.sparseFolders?.length ?? 0);
+  const limitsBefore = countScopeLimits();
+
+  const key = argv.folder ? "sparseFolders" : "include";
+  const label = argv.folder ? "sparse folders" : "include patterns";
+  const current = syncConfig[key] ?? [];
+
+  let updated: string[];
+  if (argv.remove) {
+    for (const pattern of patterns.filter((pattern) => !current.includes(pattern))) {
+      console.warn(`Warning: Not in the ${label}: ${pattern}`);
+    }
+    updated = current.filter((pattern) => !patterns.includes(pattern));
+  } else {
+    updated = [...current, ...patterns.filter((pattern) => !current.includes(pattern))];
+  }
+
+  if (updated.length > 0) {
+    syncConfig[key] = updated;
+  } else {
+    delete syncConfig[key];
+  }
+
+  // Adding the first pattern or folder narrows the scope, adding to existing ones
+  // widens it; removing the last one widens it to the whole workspace
+  const limitsAfter = countScopeLimits();
+  await applySyncScopeChange(syncDir, syncConfig, argv.remove ? limitsAfter === 0 : limitsBefore > 0);
+
+  console.log();
+  printSyncScope(syncConfig);
+}
+
+// ============ Yargs Command Module ============
+
+export const command = "include [patterns..]";
+export const desc = "Only sync notes matching glob patterns or inside folders";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const builder = (yargs: any) => {
+  return yargs
+    .positional("patterns", {
+      type: "string",
+      array: true,
+      description: "Glob patterns relative to the workspace root, e.g. 'backend/**'",
+    })
+    .option("folder", {
+      type: "boolean",
+      description: "Add folders to the sparse folders instead of patterns",
+      default: false,
+    })
+    .option("remove", {
+      type: "boolean",
+      description: "Remove the patterns instead of adding them",
+      default: false,
+    })
+    .option("dir", {
+      type: "string",
+      description: "Sync directory (default: .kontexted in current directory)",
+    });
+};
+
+export async function handlerYargs(argv: {
+  patterns?: string[];
+  folder?: boolean;
+  remove?: boolean;
+  dir?: string;
+}): Promise<void> {
+  await handler({
+    patterns: argv.patterns,
+    folder: argv.folder,
+    remove: argv.remove,
+    dir: argv.dir,
+  });
+}
+
+// ============ Register with Commander ============
+
+/**
+ * Register the sync include command with the sync command.
+ */
+export function registerIncludeCommand(syncCommand: Command): void {
+  syncCommand
+    .command("include [patterns...]")
+    .description(desc)
+    .option("--folder", "Add folders to the sparse folders instead of patterns")
+    .option("--remove", "Remove the patterns instead of adding them")
+    .option("--dir <directory>", "Sync directory (default: .kontexted in current directory)")
+    .action(async (patterns: string[], opts) => {
+      await handlerYargs({
+        patterns,
+        folder: opts.folder,
+        remove: opts.remove,
+        dir: opts.dir,
+      });
+    });
+}
@@ -9,6 +9,8 @@ import * as resetCmd from './reset';
 import { registerConflictsCommand, conflictsCmd } from './conflicts';
 import * as forcePullCmd from './force-pull';
 import * as forcePushCmd from './force-push';
+import * as includeCmd from './include';
+import * as excludeCmd from './exclude';
 
 // Yargs-style exports
 export const command = 'sync';
@@ -25,6 +27,8 @@ export const builder = (yargs: any) => {
     .command(conflictsCmd)
     .command(forcePullCmd)
     .command(forcePushCmd)
+    .command(includeCmd)
+    .command(excludeCmd)
     .demandCommand()
     .help();
 };
@@ -187,4 +191,8 @@ export function registerSyncCommand(program: Command): void {
           .parse()
       );
     });
+
+  // include / exclude
+  includeCmd.registerIncludeCommand(syncCmd);
+  excludeCmd.registerExcludeCommand(syncCmd);
 }
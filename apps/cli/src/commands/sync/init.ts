@@ -6,8 +6,17 @@ import { getProfile, profileExists } from "@/lib/profile";
 import { ApiClient } from "@/lib/api-client";
 import { createAuthenticatedClient } from "@/lib/sync/auth-utils";
 import { logDebug } from "@/lib/logger";
-import type { SyncConfig, SyncState, FileSyncState, FolderSyncState, RemoteNote, RemoteFolder } from "@/lib/sync/types";
+import type {
+  SyncConfig,
+  SyncState,
+  FileSyncState,
+  FolderSyncState,
+  RemoteNote,
+  RemoteFolder,
+  ConflictStrategy,
+} from "@/lib/sync/types";
 import { sha256 } from "@/lib/sync/crypto";
+import { writeBaseSnapshot } from "@/lib/sync/base-snapshots";
 import { updateGitignore, formatMarkdown, ensureDirectoryExists } from "@/lib/sync/utils";
 import Database from "better-sqlite3";
 
@@ -66,10 +75,22 @@ export const builder = (yargs: any) => {
       type: "string",
       description: "Directory to sync (default: current directory)",
       default: ".",
+    })
+    .option("conflict-strategy", {
+      type: "string",
+      description: "How to resolve conflicting edits: newer-wins, local-wins, remote-wins or merge",
+      default: "newer-wins",
     });
 };
 
-export const handler = async (argv: { alias?: string; workspace?: string; dir?: string }) => {
+const CONFLICT_STRATEGIES: ConflictStrategy[] = ["newer-wins", "local-wins", "remote-wins", "merge"];
+
+export const handler = async (argv: {
+  alias?: string;
+  workspace?: string;
+  dir?: string;
+  conflictStrategy?: string;
+}) => {
   const projectRoot = process.cwd();
   const syncDirName = ".kontexted";
   const syncDir = join(projectRoot, syncDirName);
@@ -86,6 +107,12 @@ export const handler = async (argv: { alias?: string; workspace?: string; dir?:
     process.exit(1);
   }
 
+  const conflictStrategy = (argv.conflictStrategy ?? "newer-wins") as ConflictStrategy;
+  if (!CONFLICT_STRATEGIES.includes(conflictStrategy)) {
+    console.error(`Error: --conflict-strategy must be one of: ${CONFLICT_STRATEGIES.join(", ")}`);
+    process.exit(1);
+  }
+
   let config = await readConfig();
 
   if (!profileExists(config, alias)) {
@@ -208,6 +235,7 @@ export const handler = async (argv: { alias?: string; workspace?: string; dir?:
       publicId: note.publicId,
       noteId: note.id,
       folderPath: note.folderPath || null,
+      baseHash: await writeBaseSnapshot(syncDir, note.publicId, markdownContent),
     };
 
     logDebug(`Synced: ${relativePath}`);
@@ -268,7 +296,7 @@ export const handler = async (argv: { alias?: string; workspace?: string; dir?:
     alias,
     serverUrl: profile.serverUrl,
     syncMode: "auto",
-    conflictStrategy: "newer-wins",
+    conflictStrategy,
     initializedAt: new Date().toISOString(),
     daemonPid: null,
     syncDir: syncDirName,
@@ -334,11 +362,17 @@ export function registerInitCommand(syncCommand: Command): void {
     .option("-a, --alias <alias>", "Alias for the workspace to sync with")
     .option("-w, --workspace <slug>", "Workspace slug to sync with")
     .option("-d, --dir <directory>", "Directory to sync (default: current directory)", ".")
+    .option(
+      "--conflict-strategy <strategy>",
+      "How to resolve conflicting edits: newer-wins, local-wins, remote-wins or merge",
+      "newer-wins"
+    )
     .action(async (opts) => {
       await handler({
         alias: opts.alias,
         workspace: opts.workspace,
         dir: opts.dir,
+        conflictStrategy: opts.conflictStrategy,
       });
     });
 }
@@ -6,7 +6,20 @@ import type { McpTool } from "@/types";
 import { logError } from "@/lib/logger";
 
 // Tools that modify data
-const WRITE_TOOLS = new Set(["createFolder", "createNote", "updateNoteContent", "deleteNote", "deleteFolder"]);
+const WRITE_TOOLS = new Set([
+  "createFolder",
+  "createNote",
+  "updateNoteContent",
+  "patchNoteSection",
+  "deleteNote",
+  "restoreNote",
+  "deleteFolder",
+  "moveNote",
+  "renameNote",
+  "moveFolder",
+  "renameFolder",
+  "batchWrite",
+]);
 
 /**
  * Convert JSON schema to Zod schema, removing workspaceSlug
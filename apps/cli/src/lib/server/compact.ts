@@ -0,0 +1,49 @@
+import { spawn } from 'child_process';
+import { getBinaryPath } from './binary.js';
+
+export interface CompactionResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Runs revision compaction using the server binary
+ * The server reads its retention policy and database from the config file
+ */
+export async function runCompaction(options: { dryRun?: boolean } = {}): Promise<CompactionResult> {
+  const binaryPath = getBinaryPath();
+
+  if (!binaryPath) {
+    return {
+      success: false,
+      error: 'Server binary not found. Ensure the platform package is installed.'
+    };
+  }
+
+  const args = options.dryRun ? ['compact', '--dry-run'] : ['compact'];
+
+  return new Promise((resolve) => {
+    const child = spawn(binaryPath, args, {
+      env: process.env,
+      stdio: 'inherit', // Show the report directly
+    });
+
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve({ success: true });
+      } else {
+        resolve({
+          success: false,
+          error: `Compaction exited with code ${code}`
+        });
+      }
+    });
+
+    child.on('error', (err) => {
+      resolve({
+        success: false,
+        error: `Failed to run compaction: ${err.message}`
+      });
+    });
+  });
+}
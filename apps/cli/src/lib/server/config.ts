@@ -25,6 +25,14 @@ export function validateNamingConvention(value: unknown): NamingConvention {
   return 'kebab-case';
 }
 
+/**
+ * Revisions older than afterDays keep only the latest revision per hour, day or week
+ */
+export interface RevisionRetentionTier {
+  afterDays: number;
+  keep: 'hourly' | 'daily' | 'weekly';
+}
+
 /**
  * Server configuration interface
  */
@@ -58,6 +66,14 @@ export interface ServerConfig {
   naming: {
     defaultConvention: NamingConvention;
   };
+  trash?: {
+    /** Days a deleted note is kept before it is purged; 0 keeps it forever */
+    retentionDays: number;
+  };
+  revisions?: {
+    /** Thinning tiers ordered by age; an empty list keeps every revision */
+    retention: RevisionRetentionTier[];
+  };
   paths?: {
     publicDir?: string;
     migrationsDir?: string;
@@ -122,6 +138,16 @@ export function getDefaultConfig(): ServerConfig {
     naming: {
       defaultConvention: 'kebab-case',
     },
+    trash: {
+      retentionDays: 30,
+    },
+    revisions: {
+      retention: [
+        { afterDays: 7, keep: 'hourly' },
+        { afterDays: 30, keep: 'daily' },
+        { afterDays: 180, keep: 'weekly' },
+      ],
+    },
   };
 
   // Add paths if platform package is available
@@ -199,6 +225,12 @@ export function loadConfig(): ServerConfig | null {
       naming: {
         defaultConvention: validateNamingConvention(parsed.naming?.defaultConvention),
       },
+      ...(parsed.trash && Number.isInteger(parsed.trash.retentionDays) && parsed.trash.retentionDays >= 0
+        ? { trash: { retentionDays: parsed.trash.retentionDays } }
+        : {}),
+      ...(Array.isArray(parsed.revisions?.retention)
+        ? { revisions: { retention: parsed.revisions.retention } }
+        : {}),
       paths: {
         publicDir: parsed.paths?.publicDir,
         migrationsDir: parsed.paths?.migrationsDir,
@@ -3,3 +3,4 @@ export * from './binary.js';
 export * from './config.js';
 export * from './daemon.js';
 export * from './migrate.js';
+export * from './compact.js';
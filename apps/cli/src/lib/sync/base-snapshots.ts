@@ -0,0 +1,63 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { sha256 } from "./crypto";
+import { ensureDirectoryExists } from "./utils";
+import type { FileSyncState } from "./types";
+
+/**
+ * Base snapshots for three-way merges.
+ *
+ * Whenever a note is in sync, the file content both sides agree on is kept in
+ * .sync/base/<publicId>.md and its hash in the file's sync state. It is the
+ * common ancestor of the next local and remote edits, which the "merge"
+ * conflict strategy diffs both versions against.
+ */
+
+/**
+ * Path of the base snapshot of a note
+ */
+export function baseSnapshotPath(syncDir: string, publicId: string): string {
+  return path.join(syncDir, ".sync", "base", `${publicId}.md`);
+}
+
+/**
+ * Save the base snapshot of a note
+ *
+ * @returns The content hash to store as baseHash, or null if the snapshot could not be written
+ */
+export async function writeBaseSnapshot(syncDir: string, publicId: string, content: string): Promise<string | null> {
+  const snapshotPath = baseSnapshotPath(syncDir, publicId);
+  try {
+    await ensureDirectoryExists(snapshotPath);
+    await fs.writeFile(snapshotPath, content, "utf-8");
+    return sha256(content);
+  } catch {
+    // Without a snapshot the merge strategy falls back to newer-wins
+    return null;
+  }
+}
+
+/**
+ * Read the base snapshot of a file
+ *
+ * @returns The snapshot, or null if there is none or it does not match the file's baseHash
+ */
+export async function readBaseSnapshot(syncDir: string, state: FileSyncState): Promise<string | null> {
+  if (!state.baseHash) {
+    return null;
+  }
+
+  try {
+    const content = await fs.readFile(baseSnapshotPath(syncDir, state.publicId), "utf-8");
+    return sha256(content) === state.baseHash ? content : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove the base snapshot of a note that is no longer synced
+ */
+export async function removeBaseSnapshot(syncDir: string, publicId: string): Promise<void> {
+  await fs.unlink(baseSnapshotPath(syncDir, publicId)).catch(() => {});
+}
@@ -3,6 +3,7 @@ import fsSync from "node:fs";
 import path from "node:path";
 import { spawn } from "node:child_process";
 import { profileExists, getProfile } from "@/lib/profile";
+import { createSyncScope, hasSelectiveSync, untrackOutOfScopeFiles } from "./selective";
 import type { SyncConfig } from "./types";
 
 /**
@@ -72,6 +73,14 @@ export async function loadSyncConfig(syncDir: string): Promise<import("@/lib/syn
   }
 }
 
+/**
+ * Save sync configuration to .sync/config.json
+ */
+export async function saveSyncConfig(syncDir: string, config: SyncConfig): Promise<void> {
+  const configPath = path.join(syncDir, SYNC_SUBDIR, "config.json");
+  await fs.writeFile(configPath, JSON.stringify(config, null, 2), "utf-8");
+}
+
 /**
  * Load sync state from .sync/state.json
  */
@@ -99,6 +108,63 @@ export async function saveSyncState(syncDir: string, state: import("@/lib/sync/t
   await fs.writeFile(statePath, JSON.stringify(state, null, 2), "utf-8");
 }
 
+/**
+ * Print the include/exclude patterns and sparse folders of the sync config
+ */
+export function printSyncScope(config: SyncConfig): void {
+  if (!hasSelectiveSync(config)) {
+    console.log("Syncing the whole workspace.");
+    return;
+  }
+
+  const sections: [string, string[] | undefined][] = [
+    ["Sparse folders", config.sparseFolders],
+    ["Include", config.include],
+    ["Exclude", config.exclude],
+  ];
+  for (const [title, patterns] of sections) {
+    if (patterns?.length) {
+      console.log(`${title}:`);
+      for (const pattern of patterns) {
+        console.log(`  ${pattern}`);
+      }
+    }
+  }
+}
+
+/**
+ * Save a changed sync scope and stop syncing the files that left it.
+ * Exits if the daemon is running, as it would overwrite the sync state.
+ *
+ * @param widened - Whether notes may have been added to the scope
+ */
+export async function applySyncScopeChange(syncDir: string, config: SyncConfig, widened: boolean): Promise<void> {
+  if (isDaemonRunning(config.daemonPid)) {
+    console.error("Error: The sync daemon is running.");
+    console.error("Run 'kontexted sync stop' before changing what is synced.");
+    process.exit(1);
+  }
+
+  await saveSyncConfig(syncDir, config);
+
+  const state = await loadSyncState(syncDir);
+  if (state) {
+    const { untracked, kept } = await untrackOutOfScopeFiles(syncDir, state, createSyncScope(config));
+    await saveSyncState(syncDir, state);
+
+    if (untracked.length > 0) {
+      console.log(`Stopped syncing ${untracked.length} file(s) outside the sync scope.`);
+    }
+    for (const relativePath of kept) {
+      console.log(`  Kept locally modified file: ${relativePath}`);
+    }
+  }
+
+  if (widened) {
+    console.log("Run 'kontexted sync force-pull' to download notes that are now included.");
+  }
+}
+
 /**
  * Check if daemon is running by verifying the PID
  */
@@ -1,4 +1,6 @@
 import chokidar, { type FSWatcher } from "chokidar";
+import type { Stats } from "node:fs";
+import type { SyncScope } from "./selective";
 import type { FileChangeEvent, FolderChangeEvent } from "./types";
 
 /**
@@ -13,7 +15,8 @@ export class FileWatcher {
   constructor(
     private syncDir: string,
     private onChange: (event: FileChangeEvent) => void,
-    private onFolderChange: (event: FolderChangeEvent) => void
+    private onFolderChange: (event: FolderChangeEvent) => void,
+    private scope: SyncScope
   ) {}
 
   /**
@@ -22,7 +25,7 @@ export class FileWatcher {
   start(): void {
     console.log(`[FileWatcher] Starting to watch: ${this.syncDir}`);
     this.watcher = chokidar.watch(this.syncDir, {
-      ignored: (path: string) => {
+      ignored: (path: string, stats?: Stats) => {
         // Get the relative path from the sync directory
         const relativePath = path.replace(this.syncDir, "").replace(/^\//, "");
 
@@ -41,6 +44,11 @@ export class FileWatcher {
           return true;
         }
 
+        // Don't watch folders outside the sync scope
+        if (stats?.isDirectory() && !this.scope.includesFolder(relativePath)) {
+          return true;
+        }
+
         return false;
       },
       persistent: true,
@@ -72,6 +80,9 @@ export class FileWatcher {
    * Handle file change with debouncing
    */
   private handleChange(type: "create" | "update" | "delete", filePath: string): void {
+    const relativePath = filePath.replace(this.syncDir, "").replace(/^\//, "");
+    if (!this.scope.includesFile(relativePath)) return;
+
     console.log(`[FileWatcher] Detected ${type}: ${filePath}`);
     // Debounce rapid changes
     const existing = this.debounceMap.get(filePath);
@@ -84,7 +95,7 @@ export class FileWatcher {
         this.onChange({
           type,
           filePath,
-          relativePath: filePath.replace(this.syncDir, "").replace(/^\//, "")
+          relativePath
         });
       }, this.debounceMs)
     );
@@ -99,8 +110,8 @@ export class FileWatcher {
     // Get relative path
     const relativePath = folderPath.replace(this.syncDir, "").replace(/^\//, "");
     
-    // Skip if it's the root sync directory itself
-    if (!relativePath) return;
+    // Skip if it's the root sync directory itself or outside the sync scope
+    if (!relativePath || !this.scope.includesFolder(relativePath)) return;
     
     // Debounce using a different key prefix to avoid collision with file events
     const key = `folder:${relativePath}`;
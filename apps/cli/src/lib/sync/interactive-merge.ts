@@ -0,0 +1,231 @@
+import { spawn } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import readline from "node:readline";
+import { CONFLICT_MARKERS, conflictMarkerLines, formatMergeRegions, mergeRegions, type ConflictRegion } from "./merge";
+
+/**
+ * Manual resolution of sync conflicts: region by region in the terminal, or
+ * in an editor or merge tool with all versions of the file.
+ */
+
+/**
+ * The versions of a conflicting file
+ */
+export interface ConflictVersions {
+  local: string;
+  remote: string;
+  /** Content at the last sync, or null if it was not preserved */
+  base: string | null;
+}
+
+type RegionChoice = "local" | "remote" | "both" | "edit" | "quit";
+
+const CHOICES: Record<string, RegionChoice> = {
+  l: "local",
+  r: "remote",
+  b: "both",
+  e: "edit",
+  q: "quit",
+};
+
+const MARKER_LINES = new Set(Object.values(CONFLICT_MARKERS));
+
+/**
+ * Ask a question on the terminal
+ */
+async function prompt(question: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer.trim().toLowerCase());
+    });
+  });
+}
+
+/**
+ * Run a command through the shell with the terminal attached
+ *
+ * @throws Error if the command cannot be started or exits with an error
+ */
+async function runInTerminal(command: string, env: NodeJS.ProcessEnv = {}): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: "inherit",
+      env: { ...process.env, ...env },
+    });
+    child.on("error", reject);
+    child.on("exit", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`'${command}' exited with code ${code}`));
+      }
+    });
+  });
+}
+
+/**
+ * Editor command from $VISUAL or $EDITOR, falling back to vi
+ */
+export function editorCommand(): string {
+  return process.env.VISUAL || process.env.EDITOR || "vi";
+}
+
+/**
+ * Open text in the editor and return what was saved
+ */
+async function editText(text: string, fileName: string): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "kontexted-merge-"));
+  const filePath = path.join(dir, fileName);
+  try {
+    await fs.writeFile(filePath, text, "utf-8");
+    await runInTerminal(`${editorCommand()} "$MERGED"`, { MERGED: filePath });
+    return await fs.readFile(filePath, "utf-8");
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+const hasConflictMarkers = (lines: string[]) => lines.some((line) => MARKER_LINES.has(line));
+
+/**
+ * Print one conflicting region with the lines of every version
+ */
+function printRegion(
+  region: ConflictRegion,
+  index: number,
+  total: number,
+  line: number,
+  labels: { local: string; remote: string; base: string }
+): void {
+  const printLines = (title: string, lines: string[], prefix: string) => {
+    console.log(`  ${title}:`);
+    if (lines.length === 0) {
+      console.log("    (no lines)");
+    }
+    for (const text of lines) {
+      console.log(`    ${prefix} ${text}`);
+    }
+  };
+
+  console.log();
+  console.log(`Conflict ${index} of ${total} (line ${line})`);
+  if (region.base !== null) {
+    printLines(labels.base, region.base, "|");
+  }
+  printLines(labels.local, region.local, "-");
+  printLines(labels.remote, region.remote, "+");
+}
+
+/**
+ * Walk through the conflicting regions of a file in the terminal and let the
+ * user keep the local lines, the remote lines, both, or edit them. Regions
+ * both versions agree on are kept as they are.
+ *
+ * @param versions - The versions of the file
+ * @param labels - Names of the versions to show, e.g. with their shadow copy paths
+ * @returns The resolved content, or null if the user quit
+ */
+export async function resolveRegionsInteractively(
+  versions: ConflictVersions,
+  labels: { local: string; remote: string; base: string }
+): Promise<string | null> {
+  const regions = mergeRegions(versions.base, versions.local, versions.remote);
+  const total = regions.filter((region) => region.type === "conflict").length;
+  const output: string[] = [];
+  let index = 0;
+
+  for (const region of regions) {
+    if (region.type === "same") {
+      output.push(...region.lines);
+      continue;
+    }
+
+    index++;
+    printRegion(region, index, total, output.length + 1, labels);
+
+    let resolved: string[] | null = null;
+    while (resolved === null) {
+      const choice = CHOICES[(await prompt("Keep [l]ocal, [r]emote, [b]oth, [e]dit, or [q]uit? "))[0] ?? ""];
+
+      if (choice === "quit") {
+        return null;
+      } else if (choice === "local") {
+        resolved = region.local;
+      } else if (choice === "remote") {
+        resolved = region.remote;
+      } else if (choice === "both") {
+        resolved = [...region.local, ...region.remote];
+      } else if (choice === "edit") {
+        try {
+          const edited = (await editText(conflictMarkerLines(region).join("\n") + "\n", "conflict.md"))
+            .replace(/\n$/, "")
+            .split("\n");
+          if (hasConflictMarkers(edited)) {
+            console.log("The edited lines still have conflict markers, choose again.");
+          } else {
+            resolved = edited;
+          }
+        } catch (error) {
+          console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      } else {
+        console.log("Please answer l, r, b, e or q.");
+      }
+    }
+
+    output.push(...resolved);
+  }
+
+  return output.join("\n");
+}
+
+/**
+ * Resolve a conflict in a merge tool, or in the editor if none is given.
+ *
+ * The local, remote and base versions are written to temporary files and the
+ * command runs through the shell with their paths in $LOCAL, $REMOTE and
+ * $BASE (an empty file when the base is unknown), like git mergetool. $MERGED starts
+ * out as the merge with conflict markers and is what the tool must save.
+ * Without a tool the editor opens $MERGED.
+ *
+ * @returns The content of $MERGED after the tool exits
+ * @throws Error if the tool exits with an error
+ */
+export async function resolveWithMergeTool(versions: ConflictVersions, command?: string): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "kontexted-merge-"));
+  const files = {
+    LOCAL: path.join(dir, "local.md"),
+    REMOTE: path.join(dir, "remote.md"),
+    BASE: path.join(dir, "base.md"),
+    MERGED: path.join(dir, "merged.md"),
+  };
+
+  try {
+    const merged = formatMergeRegions(mergeRegions(versions.base, versions.local, versions.remote));
+    await fs.writeFile(files.LOCAL, versions.local, "utf-8");
+    await fs.writeFile(files.REMOTE, versions.remote, "utf-8");
+    await fs.writeFile(files.BASE, versions.base ?? "", "utf-8");
+    await fs.writeFile(files.MERGED, merged.content, "utf-8");
+
+    await runInTerminal(command || `${editorCommand()} "$MERGED"`, files);
+    return await fs.readFile(files.MERGED, "utf-8");
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Whether content still has conflict markers
+ */
+export function containsConflictMarkers(content: string): boolean {
+  return hasConflictMarkers(content.split("\n"));
+}
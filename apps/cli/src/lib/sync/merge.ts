@@ -0,0 +1,290 @@
+/**
+ * Line-based three-way merge for sync conflicts.
+ *
+ * Both the local and the remote version are diffed against their common
+ * ancestor (the base snapshot of the last sync). Changes to different parts
+ * of the base are combined; changes that touch or border the same base lines
+ * are a conflict unless both sides made the same change, and are written
+ * between git-style conflict markers.
+ */
+
+/**
+ * Result of a three-way merge
+ */
+export interface MergeResult {
+  /** Merged content, with conflict markers around overlapping changes */
+  content: string;
+  /** Number of conflicting regions (0 for a clean merge) */
+  conflicts: number;
+}
+
+/**
+ * Lines of a merge both sides agree on
+ */
+export interface SameRegion {
+  type: "same";
+  lines: string[];
+}
+
+/**
+ * Lines of a merge where local and remote made different changes
+ */
+export interface ConflictRegion {
+  type: "conflict";
+  /** The base lines both sides changed (null if the base is unknown) */
+  base: string[] | null;
+  local: string[];
+  remote: string[];
+}
+
+export type MergeRegion = SameRegion | ConflictRegion;
+
+/**
+ * A change of one side against the base: base lines [baseStart, baseEnd)
+ * are replaced with lines
+ */
+interface Change {
+  side: "local" | "remote";
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+export const CONFLICT_MARKERS = {
+  local: "<<<<<<< local",
+  separator: "=======",
+  remote: ">>>>>>> remote",
+};
+
+/**
+ * Pairs of indexes [aIndex, bIndex] of the lines a and b have in common,
+ * in order, using Myers' diff algorithm.
+ */
+function commonLines(a: string[], b: string[]): [number, number][] {
+  const pairs: [number, number][] = [];
+
+  // Common prefix and suffix need no diffing
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    pairs.push([start, start]);
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  const suffix: [number, number][] = [];
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    suffix.unshift([endA, endB]);
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n > 0 && m > 0) {
+    const max = n + m;
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    const trace: Int32Array[] = [];
+
+    search: for (let d = 0; d <= max; d++) {
+      trace.push(v.slice());
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+        let y = x - k;
+        while (x < n && y < m && a[start + x] === b[start + y]) {
+          x++;
+          y++;
+        }
+        v[offset + k] = x;
+        if (x >= n && y >= m) {
+          break search;
+        }
+      }
+    }
+
+    // Walk the trace back from the end to collect the diagonal (equal) moves
+    const middle: [number, number][] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0; d--) {
+      const previous = trace[d];
+      const k = x - y;
+      const prevK = k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1]) ? k + 1 : k - 1;
+      const prevX = previous[offset + prevK];
+      const prevY = prevX - prevK;
+      while (x > prevX && y > prevY) {
+        x--;
+        y--;
+        middle.push([start + x, start + y]);
+      }
+      x = prevX;
+      y = prevY;
+    }
+    pairs.push(...middle.reverse());
+  }
+
+  return [...pairs, ...suffix];
+}
+
+/**
+ * Changes turning base into other, in base order
+ */
+function diffLines(base: string[], other: string[], side: Change["side"]): Change[] {
+  const changes: Change[] = [];
+  let baseIndex = 0;
+  let otherIndex = 0;
+
+  for (const [baseMatch, otherMatch] of [...commonLines(base, other), [base.length, other.length]]) {
+    if (baseMatch > baseIndex || otherMatch > otherIndex) {
+      changes.push({ side, baseStart: baseIndex, baseEnd: baseMatch, lines: other.slice(otherIndex, otherMatch) });
+    }
+    baseIndex = baseMatch + 1;
+    otherIndex = otherMatch + 1;
+  }
+
+  return changes;
+}
+
+/**
+ * Base lines [start, end) with the given changes of one side applied
+ */
+function applyChanges(base: string[], start: number, end: number, changes: Change[]): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const change of changes) {
+    lines.push(...base.slice(position, change.baseStart), ...change.lines);
+    position = change.baseEnd;
+  }
+  lines.push(...base.slice(position, end));
+  return lines;
+}
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, index) => line === b[index]);
+
+/**
+ * Split a merge into regions both sides agree on and conflicting regions.
+ * Without a base (when no snapshot was available) every region where local
+ * and remote differ is a conflict.
+ *
+ * @param base - Content at the last sync, or null if unknown
+ * @param local - Current local content
+ * @param remote - Current remote content
+ */
+export function mergeRegions(base: string | null, local: string, remote: string): MergeRegion[] {
+  const regions: MergeRegion[] = [];
+  const pushSame = (lines: string[]) => {
+    const last = regions[regions.length - 1];
+    if (last?.type === "same") {
+      last.lines.push(...lines);
+    } else if (lines.length > 0) {
+      regions.push({ type: "same", lines: [...lines] });
+    }
+  };
+
+  const localLines = local.split("\n");
+  const remoteLines = remote.split("\n");
+
+  if (base === null) {
+    let localIndex = 0;
+    let remoteIndex = 0;
+    const matches = [...commonLines(localLines, remoteLines), [localLines.length, remoteLines.length]];
+    for (const [localMatch, remoteMatch] of matches) {
+      if (localMatch > localIndex || remoteMatch > remoteIndex) {
+        regions.push({
+          type: "conflict",
+          base: null,
+          local: localLines.slice(localIndex, localMatch),
+          remote: remoteLines.slice(remoteIndex, remoteMatch),
+        });
+      }
+      if (localMatch < localLines.length) {
+        pushSame([localLines[localMatch]]);
+      }
+      localIndex = localMatch + 1;
+      remoteIndex = remoteMatch + 1;
+    }
+    return regions;
+  }
+
+  const baseLines = base.split("\n");
+  const changes = [
+    ...diffLines(baseLines, localLines, "local"),
+    ...diffLines(baseLines, remoteLines, "remote"),
+  ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+  let position = 0;
+  let index = 0;
+
+  while (index < changes.length) {
+    // Group changes whose base ranges overlap or touch
+    const group = [changes[index]];
+    const start = changes[index].baseStart;
+    let end = changes[index].baseEnd;
+    index++;
+    while (index < changes.length && changes[index].baseStart <= end) {
+      end = Math.max(end, changes[index].baseEnd);
+      group.push(changes[index]);
+      index++;
+    }
+
+    pushSame(baseLines.slice(position, start));
+    position = end;
+
+    const localChanges = group.filter((change) => change.side === "local");
+    const remoteChanges = group.filter((change) => change.side === "remote");
+    const localRegion = applyChanges(baseLines, start, end, localChanges);
+    const remoteRegion = applyChanges(baseLines, start, end, remoteChanges);
+
+    if (remoteChanges.length === 0 || sameLines(localRegion, remoteRegion)) {
+      pushSame(localRegion);
+    } else if (localChanges.length === 0) {
+      pushSame(remoteRegion);
+    } else {
+      regions.push({ type: "conflict", base: baseLines.slice(start, end), local: localRegion, remote: remoteRegion });
+    }
+  }
+
+  pushSame(baseLines.slice(position));
+  return regions;
+}
+
+/**
+ * Lines of a conflicting region between conflict markers
+ */
+export function conflictMarkerLines(region: ConflictRegion): string[] {
+  return [CONFLICT_MARKERS.local, ...region.local, CONFLICT_MARKERS.separator, ...region.remote, CONFLICT_MARKERS.remote];
+}
+
+/**
+ * Merge the local and remote versions of a file that both changed since base.
+ *
+ * @param base - Content at the last sync
+ * @param local - Current local content
+ * @param remote - Current remote content
+ * @returns The merged content and the number of conflicting regions in it
+ */
+export function mergeThreeWay(base: string, local: string, remote: string): MergeResult {
+  return formatMergeRegions(mergeRegions(base, local, remote));
+}
+
+/**
+ * Join merge regions into file content, with conflict markers around the
+ * conflicting regions
+ */
+export function formatMergeRegions(regions: MergeRegion[]): MergeResult {
+  const output: string[] = [];
+  let conflicts = 0;
+
+  for (const region of regions) {
+    if (region.type === "same") {
+      output.push(...region.lines);
+    } else {
+      conflicts++;
+      output.push(...conflictMarkerLines(region));
+    }
+  }
+
+  return { content: output.join("\n"), conflicts };
+}
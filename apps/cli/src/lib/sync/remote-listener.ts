@@ -257,6 +257,12 @@ export class RemoteListener {
           this.onFolderChange({ type: "folder.update", folder: data.data as RemoteFolder });
         }
         break;
+      case "batch.applied":
+        // A batch write arrives as one event listing the changes it made
+        for (const change of (data.data as { events?: { type: string; data: unknown }[] }).events ?? []) {
+          this.handleChange(change);
+        }
+        break;
       case "ready":
         // Connection established event
         console.log("[RemoteListener] SSE ready");
@@ -0,0 +1,197 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { sha256 } from "./crypto";
+import { removeBaseSnapshot } from "./base-snapshots";
+import type { SyncConfig, SyncState } from "./types";
+
+/**
+ * Selective sync: which notes of the workspace are synced to disk.
+ *
+ * Paths and patterns are relative to the sync directory (the workspace root),
+ * so "/backend/**" and "backend/**" are the same pattern. A note is synced if
+ * it is inside one of the sparse folders or matches an include pattern (or
+ * neither is set), and matches no exclude pattern. Like in .gitignore, a
+ * pattern that matches a folder matches everything inside it.
+ */
+
+/**
+ * Which notes and folders are synced
+ */
+export interface SyncScope {
+  /** Whether a note file (path relative to the sync directory) is synced */
+  includesFile(relativePath: string): boolean;
+  /** Whether a folder is synced or may contain synced notes */
+  includesFolder(folderPath: string): boolean;
+}
+
+/**
+ * A compiled include pattern
+ */
+interface IncludePattern {
+  regex: RegExp;
+  /** Leading folders of the pattern without wildcards */
+  prefix: string;
+}
+
+/**
+ * Normalize a pattern or folder to a path relative to the sync directory
+ */
+export function normalizePattern(pattern: string): string {
+  return pattern.trim().replace(/\\/g, "/").replace(/^(\.\/|\/)+/, "").replace(/\/+$/, "");
+}
+
+/**
+ * Compile a glob pattern: "*" and "?" match within a path segment, "**" across
+ * segments. The pattern also matches everything inside the paths it matches.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  // "folder/**" is the folder itself and everything inside it
+  const glob = normalizePattern(pattern).replace(/\/\*\*$/, "");
+  let source = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      const segmentStart = i === 0 || glob[i - 1] === "/";
+      i++;
+      if (segmentStart && glob[i + 1] === "/") {
+        // "**/" matches zero or more folders
+        source += "(?:.*/)?";
+        i++;
+      } else {
+        source += ".*";
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}(?:/.*)?$`);
+}
+
+/**
+ * Leading folders of a pattern, up to the first segment with a wildcard
+ */
+function literalPrefix(pattern: string): string {
+  const segments = normalizePattern(pattern).split("/");
+  const literal: string[] = [];
+  for (const segment of segments) {
+    if (/[*?]/.test(segment)) {
+      break;
+    }
+    literal.push(segment);
+  }
+  // A pattern without wildcards may name a file, not a folder
+  return literal.length === segments.length ? literal.slice(0, -1).join("/") : literal.join("/");
+}
+
+/**
+ * Whether the config limits sync to part of the workspace
+ */
+export function hasSelectiveSync(config: Pick<SyncConfig, "include" | "exclude" | "sparseFolders">): boolean {
+  return Boolean(config.include?.length || config.exclude?.length || config.sparseFolders?.length);
+}
+
+/**
+ * Build the sync scope from the include/exclude patterns and sparse folders of
+ * the sync config
+ */
+export function createSyncScope(config: Pick<SyncConfig, "include" | "exclude" | "sparseFolders">): SyncScope {
+  const includes: IncludePattern[] = [
+    ...(config.sparseFolders ?? []).map((folder) => `${normalizePattern(folder)}/**`),
+    ...(config.include ?? []),
+  ]
+    .filter((pattern) => normalizePattern(pattern) !== "")
+    .map((pattern) => ({ regex: globToRegExp(pattern), prefix: literalPrefix(pattern) }));
+  const excludes = (config.exclude ?? [])
+    .filter((pattern) => normalizePattern(pattern) !== "")
+    .map(globToRegExp);
+
+  const isExcluded = (relativePath: string) => excludes.some((regex) => regex.test(relativePath));
+
+  return {
+    includesFile(relativePath) {
+      const normalized = normalizePattern(relativePath);
+      if (isExcluded(normalized)) {
+        return false;
+      }
+      return includes.length === 0 || includes.some(({ regex }) => regex.test(normalized));
+    },
+
+    includesFolder(folderPath) {
+      const normalized = normalizePattern(folderPath);
+      if (isExcluded(normalized)) {
+        return false;
+      }
+      return (
+        includes.length === 0 ||
+        includes.some(
+          ({ regex, prefix }) =>
+            regex.test(normalized) ||
+            prefix === "" ||
+            prefix === normalized ||
+            prefix.startsWith(`${normalized}/`)
+        )
+      );
+    },
+  };
+}
+
+/**
+ * Stop syncing a file that is outside the sync scope. The file is removed
+ * from the sync state and deleted from disk unless it has local changes;
+ * the note on the server is left alone.
+ *
+ * @returns Whether a locally modified file was kept on disk
+ */
+export async function untrackFile(syncDir: string, state: SyncState, relativePath: string): Promise<boolean> {
+  const fileState = state.files[relativePath];
+  if (!fileState) {
+    return false;
+  }
+
+  delete state.files[relativePath];
+  await removeBaseSnapshot(syncDir, fileState.publicId);
+
+  const fullPath = path.join(syncDir, relativePath);
+  try {
+    const content = await fs.readFile(fullPath, "utf-8");
+    if (sha256(content) !== fileState.localHash) {
+      return true;
+    }
+    await fs.unlink(fullPath);
+  } catch {
+    // File doesn't exist locally
+  }
+  return false;
+}
+
+/**
+ * Stop syncing every tracked file that is outside the sync scope
+ *
+ * @returns The paths of the untracked files, and which of them were kept on disk
+ */
+export async function untrackOutOfScopeFiles(
+  syncDir: string,
+  state: SyncState,
+  scope: SyncScope
+): Promise<{ untracked: string[]; kept: string[] }> {
+  const untracked: string[] = [];
+  const kept: string[] = [];
+
+  for (const relativePath of Object.keys(state.files)) {
+    if (scope.includesFile(relativePath)) {
+      continue;
+    }
+    untracked.push(relativePath);
+    if (await untrackFile(syncDir, state, relativePath)) {
+      kept.push(relativePath);
+    }
+  }
+
+  return { untracked, kept };
+}
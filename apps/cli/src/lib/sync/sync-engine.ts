@@ -27,6 +27,9 @@ import type {
   SyncPullResponse,
 } from "./types";
 import { sha256 } from "./crypto";
+import { mergeThreeWay } from "./merge";
+import { readBaseSnapshot, removeBaseSnapshot, writeBaseSnapshot } from "./base-snapshots";
+import { createSyncScope, untrackFile, type SyncScope } from "./selective";
 import {
   ensureDirectoryExists,
   parseMarkdown,
@@ -45,6 +48,24 @@ const MAX_PUSH_RETRIES = 5;
  */
 const PAUSE_FLAG_FILE = ".sync/paused";
 
+/**
+ * How long a local delete waits for a create with the same content, which
+ * makes the pair a rename or move instead of a delete and a new note
+ */
+const RENAME_DETECTION_WINDOW_MS = 2000;
+
+/**
+ * How often a create polls for the matching delete within the rename detection window
+ */
+const RENAME_DETECTION_POLL_MS = 100;
+
+/**
+ * Files with less content than this (ignoring surrounding whitespace) are too
+ * alike, e.g. empty notes, to be told apart by hash, so they are never taken
+ * for a rename or move
+ */
+const MIN_RENAME_DETECTION_LENGTH = 32;
+
 /**
  * SyncEngine coordinates bidirectional sync between local files and remote notes.
  *
@@ -60,8 +81,11 @@ export class SyncEngine {
   private queue: Queue;
   private config: SyncConfig;
   private state: SyncState;
+  private scope: SyncScope;
   private running = false;
   private paused = false;
+  private pendingDeletes = new Map<string, ReturnType<typeof setTimeout>>();
+  private moveTargetIndex: { builtAt: number; files: Promise<Map<string, string[]>> } | null = null;
   private tokenRefreshInterval: ReturnType<typeof setInterval> | null = null;
   private readonly TOKEN_REFRESH_CHECK_INTERVAL_MS = 30 * 60 * 1000; // Check every 30 minutes
   private readonly TOKEN_REFRESH_BUFFER_SECONDS = 10 * 60; // Refresh 10 minutes before expiry
@@ -72,6 +96,7 @@ export class SyncEngine {
   ) {
     this.config = this.loadConfig();
     this.state = this.loadState();
+    this.scope = createSyncScope(this.config);
     this.queue = new Queue(path.join(syncDir, ".sync", "queue.db"));
 
     // Check for pause flag file
@@ -80,7 +105,8 @@ export class SyncEngine {
     this.fileWatcher = new FileWatcher(
       syncDir,
       this.handleLocalChange.bind(this),
-      this.handleLocalFolderChange.bind(this)
+      this.handleLocalFolderChange.bind(this),
+      this.scope
     );
     this.remoteListener = new RemoteListener(
       apiClient,
@@ -191,6 +217,12 @@ export class SyncEngine {
       this.tokenRefreshInterval = null;
     }
 
+    // Deletes still waiting for a rename are picked up by the next initial sync
+    for (const timer of this.pendingDeletes.values()) {
+      clearTimeout(timer);
+    }
+    this.pendingDeletes.clear();
+
     this.fileWatcher.stop();
     this.remoteListener.stop();
     this.queue.close();
@@ -256,6 +288,14 @@ export class SyncEngine {
         });
       }
 
+      // Process deleted folders (their directories are removed recursively)
+      for (const deletedFolder of data.deletedFolders ?? []) {
+        await this.handleRemoteFolderChange({
+          type: "folder.delete",
+          publicId: deletedFolder.publicId,
+        });
+      }
+
       // Process created/updated notes
       for (const note of data.notes) {
         // Determine if this is a create or update
@@ -361,10 +401,11 @@ export class SyncEngine {
   }
 
   /**
-   * Scan directory for markdown files, excluding .sync directory
+   * Scan directory for markdown files in the sync scope, excluding .sync directory
    */
   private async scanMarkdownFiles(dir: string): Promise<string[]> {
     const files: string[] = [];
+    const scope = this.scope;
 
     async function walk(currentDir: string): Promise<void> {
       const entries = await fs.readdir(currentDir, { withFileTypes: true });
@@ -376,10 +417,13 @@ export class SyncEngine {
         }
 
         const fullPath = path.join(currentDir, entry.name);
+        const relativePath = path.relative(dir, fullPath);
 
         if (entry.isDirectory()) {
-          await walk(fullPath);
-        } else if (entry.isFile() && entry.name.endsWith(".md")) {
+          if (scope.includesFolder(relativePath)) {
+            await walk(fullPath);
+          }
+        } else if (entry.isFile() && entry.name.endsWith(".md") && scope.includesFile(relativePath)) {
           files.push(fullPath);
         }
       }
@@ -436,6 +480,19 @@ export class SyncEngine {
       return;
     }
 
+    if (event.type === "delete" && this.state.files[event.relativePath]) {
+      this.deferDelete(event);
+      return;
+    }
+    this.cancelPendingDelete(event.relativePath);
+
+    await this.pushOrQueueLocalChange(event);
+  }
+
+  /**
+   * Push a local change, queuing it for retry if the push fails
+   */
+  private async pushOrQueueLocalChange(event: FileChangeEvent): Promise<void> {
     try {
       await this.pushLocalChange(event);
       console.log(`[SyncEngine] Successfully pushed change: ${event.relativePath}`);
@@ -447,6 +504,32 @@ export class SyncEngine {
     }
   }
 
+  /**
+   * Hold back the delete of a synced file for the rename detection window.
+   * A rename or move shows up as a delete and a create; if the create comes
+   * within the window it is pushed as a move and the delete is dropped.
+   */
+  private deferDelete(event: FileChangeEvent): void {
+    this.cancelPendingDelete(event.relativePath);
+
+    const timer = setTimeout(() => {
+      this.pendingDeletes.delete(event.relativePath);
+      void this.pushOrQueueLocalChange(event);
+    }, RENAME_DETECTION_WINDOW_MS);
+    this.pendingDeletes.set(event.relativePath, timer);
+  }
+
+  /**
+   * Drop a held back delete, e.g. when the file was recreated or moved
+   */
+  private cancelPendingDelete(relativePath: string): void {
+    const timer = this.pendingDeletes.get(relativePath);
+    if (timer) {
+      clearTimeout(timer);
+      this.pendingDeletes.delete(relativePath);
+    }
+  }
+
   /**
    * Handle local folder change event from watcher
    */
@@ -629,6 +712,11 @@ export class SyncEngine {
       const folderPath = folder.folderPath || folder.name;
       const fullPath = path.join(this.syncDir, folderPath);
 
+      if (!this.scope.includesFolder(folderPath)) {
+        console.log(`[SyncEngine] Skipping folder outside the sync scope: ${folderPath}`);
+        return;
+      }
+
       try {
         await fs.mkdir(fullPath, { recursive: true });
         console.log(`[SyncEngine] Created local folder: ${folderPath}`);
@@ -675,7 +763,15 @@ export class SyncEngine {
     if (type === "delete") {
       if (!existingState) return; // Never existed remotely
 
+      // Same content at an untracked path: the file was renamed or moved
+      const movedTo = await this.findMoveTarget(existingState);
+      if (movedTo) {
+        await this.pushMove(relativePath, movedTo, existingState);
+        return;
+      }
+
       await this.pushDelete(existingState.publicId);
+      await removeBaseSnapshot(this.syncDir, existingState.publicId);
 
       delete this.state.files[relativePath];
       this.saveState();
@@ -693,6 +789,15 @@ export class SyncEngine {
       return;
     }
 
+    // Same content as a synced file that is gone: the file was renamed or moved
+    if (!existingState) {
+      const movedFrom = await this.findMoveSource(content, localHash);
+      if (movedFrom) {
+        await this.pushMove(movedFrom, relativePath, this.state.files[movedFrom]);
+        return;
+      }
+    }
+
     const stats = await fs.stat(filePath);
     const localMtime = stats.mtime.toISOString();
 
@@ -729,6 +834,7 @@ export class SyncEngine {
         relativePath,
         localHash,
         localMtime,
+        fileContent: content,
       });
     } else {
       // No state = treat as create (even if type is "update")
@@ -747,8 +853,183 @@ export class SyncEngine {
         relativePath,
         localHash,
         localMtime,
+        fileContent: content,
+      });
+    }
+  }
+
+  /**
+   * Find the synced file a new file was renamed or moved from: one with the
+   * same content hash that no longer exists and whose delete was seen within
+   * the rename detection window. When the create arrives before the delete,
+   * the delete gets the same window to show up.
+   *
+   * @returns The old relative path, or null if there is none
+   */
+  private async findMoveSource(content: string, localHash: string): Promise<string | null> {
+    if (content.trim().length < MIN_RENAME_DETECTION_LENGTH) return null;
+
+    const candidates: string[] = [];
+    for (const [relativePath, state] of Object.entries(this.state.files)) {
+      if (state.localHash !== localHash) continue;
+      try {
+        await fs.access(path.join(this.syncDir, relativePath));
+      } catch {
+        candidates.push(relativePath);
+      }
+    }
+    if (candidates.length === 0) return null;
+
+    const deadline = Date.now() + RENAME_DETECTION_WINDOW_MS;
+    for (;;) {
+      const deleted = candidates.find((relativePath) => this.pendingDeletes.has(relativePath));
+      if (deleted) return deleted;
+      if (Date.now() >= deadline) return null;
+      await new Promise((resolve) => setTimeout(resolve, RENAME_DETECTION_POLL_MS));
+    }
+  }
+
+  /**
+   * Find the file a deleted synced file was renamed or moved to: an untracked
+   * file with the same content hash. Candidates are looked up in the index of
+   * untracked files and re-checked, so each one claims a single target.
+   *
+   * @returns The new relative path, or null if there is none
+   */
+  private async findMoveTarget(existingState: FileSyncState): Promise<string | null> {
+    if (!existingState.localHash) return null;
+
+    const candidates = (await this.getMoveTargetIndex()).get(existingState.localHash) ?? [];
+    while (candidates.length > 0) {
+      const relativePath = candidates.shift()!;
+      // The index may be a moment old: skip files synced or changed since
+      if (this.state.files[relativePath]) continue;
+      try {
+        const content = await fs.readFile(path.join(this.syncDir, relativePath), "utf-8");
+        if (sha256(content) === existingState.localHash) {
+          return relativePath;
+        }
+      } catch {
+        // File might have been deleted in the meantime
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Untracked files by content hash. The deletes of a folder move all arrive
+   * at once, so the index is built once and shared by every delete within the
+   * rename detection window instead of walking the tree for each of them.
+   */
+  private getMoveTargetIndex(): Promise<Map<string, string[]>> {
+    if (!this.moveTargetIndex || Date.now() - this.moveTargetIndex.builtAt > RENAME_DETECTION_WINDOW_MS) {
+      this.moveTargetIndex = { builtAt: Date.now(), files: this.buildMoveTargetIndex() };
+    }
+    return this.moveTargetIndex.files;
+  }
+
+  private async buildMoveTargetIndex(): Promise<Map<string, string[]>> {
+    const index = new Map<string, string[]>();
+    for (const filePath of await this.scanMarkdownFiles(this.syncDir)) {
+      const relativePath = path.relative(this.syncDir, filePath);
+      if (this.state.files[relativePath]) continue;
+      try {
+        const content = await fs.readFile(filePath, "utf-8");
+        if (content.trim().length < MIN_RENAME_DETECTION_LENGTH) continue;
+        const hash = sha256(content);
+        index.set(hash, [...(index.get(hash) ?? []), relativePath]);
+      } catch {
+        // File might have been deleted in the meantime
+      }
+    }
+    return index;
+  }
+
+  /**
+   * Push a rename or move of a synced file to the server
+   */
+  private async pushMove(fromPath: string, toPath: string, existingState: FileSyncState): Promise<void> {
+    this.cancelPendingDelete(fromPath);
+
+    const name = path.basename(toPath, ".md");
+    const folderPath = path.dirname(toPath) === "." ? null : path.dirname(toPath);
+
+    console.log(`[SyncEngine] Pushing move to server: ${fromPath} -> ${toPath} (${existingState.publicId})`);
+
+    const request: SyncPushRequest = {
+      workspaceSlug: this.config.workspaceSlug,
+      changes: [
+        {
+          type: "move",
+          publicId: existingState.publicId,
+          name,
+          folderPath,
+        },
+      ],
+    };
+
+    const response = await withRetry(async () => {
+      const res = await this.apiClient.post("/api/sync/push", request);
+      if (!res.ok) {
+        throw new Error(`Push failed: ${res.status}`);
+      }
+      return res.json() as Promise<SyncPushResponse>;
+    });
+
+    if (!response.accepted?.[0]) {
+      throw new Error(response.errors?.[0]?.error ?? `Move rejected: ${fromPath} -> ${toPath}`);
+    }
+
+    // The base snapshot is keyed by publicId and stays valid
+    delete this.state.files[fromPath];
+    this.state.files[toPath] = {
+      ...existingState,
+      folderPath,
+      remoteMtime: new Date().toISOString(),
+      lastSync: new Date().toISOString(),
+    };
+    this.saveState();
+  }
+
+  /**
+   * Move a local file after its note was renamed or moved remotely, keeping
+   * its sync state. A different file already at the new path is a conflict:
+   * it is kept as a shadow copy before the move replaces it.
+   */
+  private async moveLocalFile(fromPath: string, toPath: string, remoteMtime: string): Promise<void> {
+    const existingState = this.state.files[fromPath];
+    const fromFullPath = path.join(this.syncDir, fromPath);
+    const toFullPath = path.join(this.syncDir, toPath);
+    await ensureDirectoryExists(toFullPath);
+
+    // Without a local file to move, the update that follows handles whatever is at the new path
+    const sourceExists = await fs.access(fromFullPath).then(() => true, () => false);
+    const occupying = sourceExists ? await fs.readFile(toFullPath, "utf-8").catch(() => null) : null;
+    if (occupying !== null && sha256(occupying) !== existingState.localHash) {
+      const stats = await fs.stat(toFullPath);
+      const loserPath = await this.writeShadowCopy(toPath, "local", occupying);
+      this.logConflict({
+        timestamp: new Date().toISOString(),
+        filePath: toPath,
+        winner: "remote",
+        loserPath,
+        localMtime: stats.mtime.toISOString(),
+        remoteMtime: new Date(remoteMtime).toISOString(),
       });
+      console.log(`Conflict: ${toPath} already existed locally, kept it as ${loserPath}`);
     }
+
+    if (sourceExists) {
+      await fs.rename(fromFullPath, toFullPath);
+      console.log(`[SyncEngine] Moved local file: ${fromPath} -> ${toPath}`);
+    }
+
+    delete this.state.files[fromPath];
+    this.state.files[toPath] = {
+      ...existingState,
+      folderPath: path.dirname(toPath) === "." ? null : path.dirname(toPath),
+    };
+    this.saveState();
   }
 
   /**
@@ -786,8 +1067,9 @@ export class SyncEngine {
     relativePath: string;
     localHash: string;
     localMtime: string;
+    fileContent: string;
   }): Promise<void> {
-    const { name, title, content, folderPath, relativePath, localHash, localMtime } = params;
+    const { name, title, content, folderPath, relativePath, localHash, localMtime, fileContent } = params;
 
     console.log(`[SyncEngine] Pushing create to server: ${relativePath}`);
 
@@ -816,15 +1098,17 @@ export class SyncEngine {
     });
 
     if (response.created?.[0]) {
+      const publicId = response.created[0].publicId;
       this.state.files[relativePath] = {
         localHash,
         remoteHash: sha256(content),
         localMtime,
         remoteMtime: new Date().toISOString(),
         lastSync: new Date().toISOString(),
-        publicId: response.created[0].publicId,
+        publicId,
         noteId: 0, // Will be updated with actual ID from response if available
         folderPath,
+        baseHash: await writeBaseSnapshot(this.syncDir, publicId, fileContent),
       };
       this.saveState();
     }
@@ -843,8 +1127,9 @@ export class SyncEngine {
     relativePath: string;
     localHash: string;
     localMtime: string;
+    fileContent: string;
   }): Promise<void> {
-    const { publicId, name, title, content, folderPath, expectedMtime, relativePath, localHash, localMtime } =
+    const { publicId, name, title, content, folderPath, expectedMtime, relativePath, localHash, localMtime, fileContent } =
       params;
 
     console.log(`[SyncEngine] Pushing update to server: ${relativePath} (${publicId})`);
@@ -881,6 +1166,7 @@ export class SyncEngine {
         localMtime,
         remoteMtime: new Date().toISOString(),
         lastSync: new Date().toISOString(),
+        baseHash: await writeBaseSnapshot(this.syncDir, publicId, fileContent),
       };
       this.saveState();
     }
@@ -927,8 +1213,9 @@ export class SyncEngine {
 
     if (type === "delete") {
       if (localEntry) {
-        const [filePath] = localEntry;
+        const [filePath, existingState] = localEntry;
         await fs.unlink(path.join(this.syncDir, filePath)).catch(() => {});
+        await removeBaseSnapshot(this.syncDir, existingState.publicId);
         delete this.state.files[filePath];
         this.saveState();
       }
@@ -950,6 +1237,18 @@ export class SyncEngine {
     const filePath = this.computeFilePath(noteToProcess);
     const fullPath = path.join(this.syncDir, filePath);
 
+    // Outside the sync scope, e.g. created in or moved to a folder that isn't synced
+    if (!this.scope.includesFile(filePath)) {
+      if (localEntry) {
+        const kept = await untrackFile(this.syncDir, this.state, localEntry[0]);
+        this.saveState();
+        console.log(
+          `[SyncEngine] Note left the sync scope, ${kept ? "kept modified" : "removed"} local file: ${localEntry[0]}`
+        );
+      }
+      return;
+    }
+
     if (type === "create" || !localEntry) {
       // Create new file
       await ensureDirectoryExists(fullPath);
@@ -965,11 +1264,20 @@ export class SyncEngine {
         publicId: noteToProcess.publicId,
         noteId: noteToProcess.id,
         folderPath: noteToProcess.folderPath,
+        baseHash: await writeBaseSnapshot(this.syncDir, noteToProcess.publicId, content),
       };
       this.saveState();
     } else if (type === "update") {
+      let [existingPath, existingState] = localEntry;
+
+      // Renamed or moved remotely: move the local file instead of downloading it again
+      if (existingPath !== filePath) {
+        await this.moveLocalFile(existingPath, filePath, noteToProcess.updatedAt);
+        existingPath = filePath;
+        existingState = this.state.files[filePath];
+      }
+
       // Check for conflict
-      const [existingPath, existingState] = localEntry;
 
       // Skip if this is our own change echoing back from the server
       // Our lastSync timestamp should be >= the remote updatedAt if we just pushed
@@ -1002,10 +1310,12 @@ export class SyncEngine {
         // File doesn't exist locally, just write
       }
 
-      // No conflict, write remote content
+      // No conflict, write remote content (unless only the path changed)
       const content = formatMarkdown(noteToProcess);
-      await ensureDirectoryExists(fullPath);
-      await fs.writeFile(fullPath, content, "utf-8");
+      if (sha256(content) !== existingState.localHash) {
+        await ensureDirectoryExists(fullPath);
+        await fs.writeFile(fullPath, content, "utf-8");
+      }
 
       this.state.files[filePath] = {
         localHash: sha256(content),
@@ -1016,6 +1326,7 @@ export class SyncEngine {
         publicId: noteToProcess.publicId,
         noteId: noteToProcess.id,
         folderPath: noteToProcess.folderPath,
+        baseHash: await writeBaseSnapshot(this.syncDir, noteToProcess.publicId, content),
       };
       this.saveState();
     }
@@ -1051,6 +1362,16 @@ export class SyncEngine {
     remoteNote: RemoteNote,
     localContent: string
   ): Promise<void> {
+    const base = await readBaseSnapshot(this.syncDir, localState);
+
+    if (this.config.conflictStrategy === "merge") {
+      if (base !== null) {
+        await this.mergeConflict(filePath, localState, remoteNote, localContent, base);
+        return;
+      }
+      console.log(`[SyncEngine] No base snapshot for ${filePath}, resolving with newer-wins`);
+    }
+
     const localMtime = new Date(localState.localMtime || Date.now());
     const remoteMtime = new Date(remoteNote.updatedAt);
 
@@ -1070,6 +1391,7 @@ export class SyncEngine {
         loserContent = localContent;
         break;
       case "newer-wins":
+      case "merge":
       default:
         winner = localMtime > remoteMtime ? "local" : "remote";
         winnerContent = winner === "local" ? localContent : formatMarkdown(remoteNote);
@@ -1082,17 +1404,16 @@ export class SyncEngine {
     await fs.writeFile(fullPath, winnerContent, "utf-8");
 
     // Preserve loser as shadow copy
-    const loserPath = this.computeConflictPath(filePath, winner === "local" ? "remote" : "local");
-    const fullLoserPath = path.join(this.syncDir, ".sync", "conflicts", loserPath);
-    await ensureDirectoryExists(fullLoserPath);
-    await fs.writeFile(fullLoserPath, loserContent, "utf-8");
+    const loserPath = await this.writeShadowCopy(filePath, winner === "local" ? "remote" : "local", loserContent);
+    const basePath = base !== null ? await this.writeShadowCopy(filePath, "base", base) : undefined;
 
     // Log conflict
     this.logConflict({
       timestamp: new Date().toISOString(),
       filePath,
       winner,
-      loserPath: `.sync/conflicts/${loserPath}`,
+      loserPath,
+      basePath,
       localMtime: localMtime.toISOString(),
       remoteMtime: remoteMtime.toISOString(),
     });
@@ -1105,16 +1426,110 @@ export class SyncEngine {
       localMtime: new Date().toISOString(),
       remoteMtime: remoteNote.updatedAt,
       lastSync: new Date().toISOString(),
+      baseHash: await writeBaseSnapshot(this.syncDir, localState.publicId, winnerContent),
     };
     this.saveState();
 
     console.log(`Conflict resolved (${winner} wins): ${filePath}`);
   }
 
+  /**
+   * Resolve a conflict with a three-way merge against the base snapshot.
+   * A clean merge is pushed and written locally. Otherwise the file gets
+   * conflict markers around the overlapping changes, the local, remote and
+   * base versions are kept as shadow copies and the marked file is not pushed
+   * until it is edited.
+   */
+  private async mergeConflict(
+    filePath: string,
+    localState: FileSyncState,
+    remoteNote: RemoteNote,
+    localContent: string,
+    base: string
+  ): Promise<void> {
+    const remoteContent = formatMarkdown(remoteNote);
+    const merged = mergeThreeWay(base, localContent, remoteContent);
+    const fullPath = path.join(this.syncDir, filePath);
+
+    if (merged.conflicts === 0) {
+      // Push before writing so the file watcher sees the merged content as synced
+      const { title, body } = parseMarkdown(merged.content);
+      const name = path.basename(filePath, ".md");
+      await this.pushUpdate({
+        publicId: localState.publicId,
+        name,
+        title: title || name,
+        content: body,
+        folderPath: localState.folderPath,
+        expectedMtime: remoteNote.updatedAt,
+        relativePath: filePath,
+        localHash: sha256(merged.content),
+        localMtime: new Date().toISOString(),
+        fileContent: merged.content,
+      });
+
+      await ensureDirectoryExists(fullPath);
+      await fs.writeFile(fullPath, merged.content, "utf-8");
+
+      console.log(`Conflict merged cleanly: ${filePath}`);
+      return;
+    }
+
+    const localPath = await this.writeShadowCopy(filePath, "local", localContent);
+    const remotePath = await this.writeShadowCopy(filePath, "remote", remoteContent);
+    const basePath = await this.writeShadowCopy(filePath, "base", base);
+
+    await ensureDirectoryExists(fullPath);
+    await fs.writeFile(fullPath, merged.content, "utf-8");
+
+    this.logConflict({
+      timestamp: new Date().toISOString(),
+      filePath,
+      winner: "merge",
+      loserPath: localPath,
+      remotePath,
+      basePath,
+      localMtime: new Date(localState.localMtime || Date.now()).toISOString(),
+      remoteMtime: new Date(remoteNote.updatedAt).toISOString(),
+    });
+
+    // The remote content becomes the base: the marked file counts as synced,
+    // and once the markers are edited away it is pushed as a local change
+    this.state.files[filePath] = {
+      ...localState,
+      localHash: sha256(merged.content),
+      remoteHash: sha256(remoteNote.content),
+      localMtime: new Date().toISOString(),
+      remoteMtime: remoteNote.updatedAt,
+      lastSync: new Date().toISOString(),
+      baseHash: await writeBaseSnapshot(this.syncDir, localState.publicId, remoteContent),
+    };
+    this.saveState();
+
+    console.log(`Conflict merged with ${merged.conflicts} conflicting region(s), resolve the markers in: ${filePath}`);
+  }
+
+  /**
+   * Preserve one version of a conflicting file under .sync/conflicts
+   *
+   * @returns The shadow copy path relative to the sync directory
+   */
+  private async writeShadowCopy(
+    filePath: string,
+    source: "local" | "remote" | "base",
+    content: string
+  ): Promise<string> {
+    const shadowPath = this.computeConflictPath(filePath, source);
+    const fullShadowPath = path.join(this.syncDir, ".sync", "conflicts", shadowPath);
+    await ensureDirectoryExists(fullShadowPath);
+    await fs.writeFile(fullShadowPath, content, "utf-8");
+    return `.sync/conflicts/${shadowPath}`;
+  }
+
   /**
    * Compute the path for a conflict shadow copy
    */
-  private computeConflictPath(filePath: string, source: "local" | "remote"): string {
+  private computeConflictPath(filePath: string, source: "local" | "remote" | "base"): string {
     const ext = path.extname(filePath);
     const base = path.basename(filePath, ext);
     const dir = path.dirname(filePath);
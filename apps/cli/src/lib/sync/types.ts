@@ -16,7 +16,15 @@ export interface SyncConfig {
   /** Sync mode */
   syncMode: "auto" | "manual";
   /** Conflict resolution strategy */
-  conflictStrategy: "newer-wins" | "local-wins" | "remote-wins";
+  conflictStrategy: ConflictStrategy;
+  /** Merge tool command for `sync conflicts resolve --tool`, run with $LOCAL, $REMOTE, $BASE and $MERGED set */
+  mergeTool?: string;
+  /** Glob patterns of notes to sync, e.g. "backend/**" (all notes when unset) */
+  include?: string[];
+  /** Glob patterns of notes to leave out, even if included */
+  exclude?: string[];
+  /** Folders to sync with everything inside them, in addition to the include patterns */
+  sparseFolders?: string[];
   /** Timestamp when sync was initialized */
   initializedAt: string; // ISO 8601
   /** Daemon process ID (null if not running) */
@@ -25,6 +33,12 @@ export interface SyncConfig {
   syncDir: string; // ".kontexted"
 }
 
+/**
+ * How conflicting local and remote edits are resolved: pick one side, or
+ * "merge" both with a three-way merge against the last synced content
+ */
+export type ConflictStrategy = "newer-wins" | "local-wins" | "remote-wins" | "merge";
+
 /**
  * File sync state stored in .sync/state.json
  */
@@ -59,6 +73,8 @@ export interface FileSyncState {
   noteId: number;
   /** Folder path (relative to .kontexted/) */
   folderPath: string | null;
+  /** Content hash (SHA-256) of the base snapshot in .sync/base/ (missing for files synced before snapshots) */
+  baseHash?: string | null;
 }
 
 /**
@@ -104,8 +120,13 @@ export interface PendingChange {
 export interface ConflictLogEntry {
   timestamp: string; // ISO 8601
   filePath: string;
-  winner: "local" | "remote";
-  loserPath: string; // Path to preserved shadow copy
+  /** "merge" when the file was merged and has conflict markers */
+  winner: "local" | "remote" | "merge";
+  loserPath: string; // Path to preserved shadow copy (the local version for merges)
+  /** Path to the preserved remote version, for merges */
+  remotePath?: string;
+  /** Path to the preserved base snapshot (the last synced content), if there was one */
+  basePath?: string;
   localMtime: string;
   remoteMtime: string;
 }
@@ -200,6 +221,18 @@ export interface DeletedNoteInfo {
   deletedAt: string; // ISO 8601
 }
 
+/**
+ * Deleted folder information from pull response
+ */
+export interface DeletedFolderInfo {
+  /** Public ID of the deleted folder */
+  publicId: string;
+  /** Folder path (relative to workspace root) at deletion time */
+  folderPath: string;
+  /** When the folder was deleted */
+  deletedAt: string; // ISO 8601
+}
+
 /**
  * Remote folder representation
  */
@@ -232,6 +265,8 @@ export interface SyncPullResponse {
   deleted: DeletedNoteInfo[];
   /** Folders that have been created or updated */
   folders: RemoteFolder[];
+  /** Folders that have been deleted since the requested timestamp (absent on older servers) */
+  deletedFolders?: DeletedFolderInfo[];
   /** Server timestamp for the next sync request */
   syncTimestamp: string; // ISO 8601
 }
@@ -243,6 +278,7 @@ export type SyncPushChange =
   | SyncPushChangeCreate
   | SyncPushChangeUpdate
   | SyncPushChangeDelete
+  | SyncPushChangeMove
   | SyncPushChangeFolderCreate
   | SyncPushChangeFolderDelete;
 
@@ -294,6 +330,20 @@ export interface SyncPushChangeDelete {
   publicId: string;
 }
 
+/**
+ * Move change payload, for a renamed or moved file
+ */
+export interface SyncPushChangeMove {
+  /** Change type */
+  type: "move";
+  /** Public ID of the note to move */
+  publicId: string;
+  /** New note name (slug) */
+  name: string;
+  /** New folder path */
+  folderPath: string | null;
+}
+
 /**
  * Folder create change payload
  */
@@ -333,7 +383,7 @@ export interface SyncPushAccepted {
   /** Public ID of the note */
   publicId: string;
   /** Status of the operation */
-  status: "updated";
+  status: "updated" | "moved";
 }
 
 /**
@@ -1,3 +1,6 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
 /**
  * Options passed to skill content generator functions
  */
@@ -36,10 +39,47 @@ export interface SkillProvider {
   id: string;
   /** Human-readable provider name */
   name: string;
+  /** Check whether the agent is set up in a project directory */
+  detect(basePath: string): Promise<boolean>;
   /** Get the file path where a skill should be written */
   getSkillPath(skillName: string): string;
   /** Validate skill name according to provider rules */
   validateSkillName(name: string): boolean;
   /** Generate the complete skill file content including frontmatter */
   generateSkillContent(skill: SkillDefinition, resolvedContent: string, options?: GenerateContentOptions): string;
+  /**
+   * Combine generated content with an existing file, for providers whose skill
+   * file is shared with other content (e.g. AGENTS.md). Without it the file is overwritten.
+   */
+  mergeSkillContent?(skill: SkillDefinition, existingContent: string, generatedContent: string): string;
+}
+
+/** Regex for validating skill names: lowercase alphanumeric with single hyphen separators */
+const SKILL_NAME_REGEX = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * Validate a skill name: 1-64 characters, lowercase alphanumeric with single hyphen separators
+ * @param name - The skill name to validate
+ * @returns true if the name is valid, false otherwise
+ */
+export function isValidSkillName(name: string): boolean {
+  return name.length >= 1 && name.length <= 64 && SKILL_NAME_REGEX.test(name);
+}
+
+/**
+ * Check whether any of the given files or directories exist in a project directory
+ * @param basePath - The project directory
+ * @param relativePaths - Paths relative to the project directory
+ * @returns true if at least one of them exists
+ */
+export async function anyPathExists(basePath: string, relativePaths: string[]): Promise<boolean> {
+  for (const relativePath of relativePaths) {
+    try {
+      await fs.access(path.join(basePath, relativePath));
+      return true;
+    } catch {
+      // Try the next path
+    }
+  }
+  return false;
 }
@@ -0,0 +1,71 @@
+import { anyPathExists, isValidSkillName, type GenerateContentOptions, type SkillDefinition, type SkillProvider } from "@/skill-init/providers/base";
+
+/** Claude Code skill provider identifier */
+const CLAUDE_CODE_PROVIDER_ID = "claude-code";
+
+/** Claude Code provider human-readable name */
+const CLAUDE_CODE_PROVIDER_NAME = "Claude Code";
+
+/**
+ * Claude Code provider implementation for skill generation
+ */
+export const claudeCodeProvider: SkillProvider = {
+  id: CLAUDE_CODE_PROVIDER_ID,
+  name: CLAUDE_CODE_PROVIDER_NAME,
+
+  /**
+   * Detect Claude Code by its settings directory or project memory file
+   * @param basePath - The project directory
+   * @returns true if Claude Code is set up in the project
+   */
+  detect(basePath: string): Promise<boolean> {
+    return anyPathExists(basePath, [".claude", "CLAUDE.md"]);
+  },
+
+  /**
+   * Get the file path for a Claude Code skill
+   * @param skillName - The skill name (already validated)
+   * @returns The relative file path where the skill should be written
+   */
+  getSkillPath(skillName: string): string {
+    return `.claude/skills/${skillName}/SKILL.md`;
+  },
+
+  /**
+   * Validate a skill name according to Claude Code rules
+   * @param name - The skill name to validate
+   * @returns true if the name is valid, false otherwise
+   */
+  validateSkillName(name: string): boolean {
+    return isValidSkillName(name);
+  },
+
+  /**
+   * Generate the complete SKILL.md content including frontmatter
+   * @param skill - The skill definition (for name and description)
+   * @param resolvedContent - The resolved content string (after generator function if applicable)
+   * @param options - Optional metadata to include in frontmatter
+   * @returns The complete markdown content with frontmatter
+   */
+  generateSkillContent(
+    skill: SkillDefinition,
+    resolvedContent: string,
+    options?: GenerateContentOptions
+  ): string {
+    const frontmatterLines = [
+      `name: ${skill.name}`,
+      `description: ${skill.description}`,
+    ];
+
+    // Add alias to frontmatter if provided
+    if (options?.alias) {
+      frontmatterLines.push(`alias: ${options.alias}`);
+    }
+
+    const frontmatter = `---\n${frontmatterLines.join('\n')}\n---`;
+
+    return `${frontmatter}
+
+${resolvedContent}`;
+  }
+};
@@ -0,0 +1,93 @@
+import { anyPathExists, isValidSkillName, type SkillDefinition, type SkillProvider } from "@/skill-init/providers/base";
+
+/** Codex skill provider identifier */
+const CODEX_PROVIDER_ID = "codex";
+
+/** Codex provider human-readable name */
+const CODEX_PROVIDER_NAME = "Codex (AGENTS.md)";
+
+/**
+ * Markers around the section of a skill in AGENTS.md
+ */
+function sectionMarkers(skillName: string): { start: string; end: string } {
+  return {
+    start: `<!-- kontexted:${skillName}:start -->`,
+    end: `<!-- kontexted:${skillName}:end -->`,
+  };
+}
+
+/**
+ * Codex provider implementation: AGENTS.md holds the instructions of every
+ * agent that reads it (Codex and others), so each skill is kept in its own
+ * marked section and the rest of the file is left alone
+ */
+export const codexProvider: SkillProvider = {
+  id: CODEX_PROVIDER_ID,
+  name: CODEX_PROVIDER_NAME,
+
+  /**
+   * Detect Codex by AGENTS.md or its project directory
+   * @param basePath - The project directory
+   * @returns true if Codex or another AGENTS.md agent is set up in the project
+   */
+  detect(basePath: string): Promise<boolean> {
+    return anyPathExists(basePath, ["AGENTS.md", ".codex"]);
+  },
+
+  /**
+   * All skills share AGENTS.md in the project root
+   * @returns The relative file path where the skill should be written
+   */
+  getSkillPath(): string {
+    return "AGENTS.md";
+  },
+
+  /**
+   * Validate a skill name for use in section markers
+   * @param name - The skill name to validate
+   * @returns true if the name is valid, false otherwise
+   */
+  validateSkillName(name: string): boolean {
+    return isValidSkillName(name);
+  },
+
+  /**
+   * Generate the marked AGENTS.md section of a skill
+   * @param skill - The skill definition (for name and description)
+   * @param resolvedContent - The resolved content string (after generator function if applicable)
+   * @returns The section, between its start and end markers
+   */
+  generateSkillContent(skill: SkillDefinition, resolvedContent: string): string {
+    const { start, end } = sectionMarkers(skill.name);
+
+    return `${start}
+> ${skill.description}
+
+${resolvedContent.trim()}
+${end}
+`;
+  },
+
+  /**
+   * Replace the skill's section in an existing AGENTS.md, or append it
+   * @param skill - The skill definition (for name)
+   * @param existingContent - The current AGENTS.md content
+   * @param generatedContent - The section from generateSkillContent
+   * @returns The updated AGENTS.md content
+   */
+  mergeSkillContent(skill: SkillDefinition, existingContent: string, generatedContent: string): string {
+    const { start, end } = sectionMarkers(skill.name);
+    const startIndex = existingContent.indexOf(start);
+    const endIndex = existingContent.indexOf(end, startIndex);
+
+    if (startIndex !== -1 && endIndex !== -1) {
+      const after = existingContent.slice(endIndex + end.length).replace(/^\n/, "");
+      return `${existingContent.slice(0, startIndex)}${generatedContent}${after}`;
+    }
+
+    if (!existingContent.trim()) {
+      return generatedContent;
+    }
+    return `${existingContent.replace(/\n*$/, "\n\n")}${generatedContent}`;
+  }
+};
@@ -0,0 +1,58 @@
+import { anyPathExists, isValidSkillName, type SkillDefinition, type SkillProvider } from "@/skill-init/providers/base";
+
+/** Cursor skill provider identifier */
+const CURSOR_PROVIDER_ID = "cursor";
+
+/** Cursor provider human-readable name */
+const CURSOR_PROVIDER_NAME = "Cursor";
+
+/**
+ * Cursor provider implementation: skills are written as project rules that
+ * the agent applies when their description matches the task
+ */
+export const cursorProvider: SkillProvider = {
+  id: CURSOR_PROVIDER_ID,
+  name: CURSOR_PROVIDER_NAME,
+
+  /**
+   * Detect Cursor by its project directory or legacy rules file
+   * @param basePath - The project directory
+   * @returns true if Cursor is set up in the project
+   */
+  detect(basePath: string): Promise<boolean> {
+    return anyPathExists(basePath, [".cursor", ".cursorrules"]);
+  },
+
+  /**
+   * Get the file path for a Cursor rule
+   * @param skillName - The skill name (already validated)
+   * @returns The relative file path where the rule should be written
+   */
+  getSkillPath(skillName: string): string {
+    return `.cursor/rules/${skillName}.mdc`;
+  },
+
+  /**
+   * Validate a skill name for use as a rule file name
+   * @param name - The skill name to validate
+   * @returns true if the name is valid, false otherwise
+   */
+  validateSkillName(name: string): boolean {
+    return isValidSkillName(name);
+  },
+
+  /**
+   * Generate the complete rule content including MDC frontmatter
+   * @param skill - The skill definition (for description)
+   * @param resolvedContent - The resolved content string (after generator function if applicable)
+   * @returns The complete rule content with frontmatter
+   */
+  generateSkillContent(skill: SkillDefinition, resolvedContent: string): string {
+    // Agent-requested rule: not always applied and not tied to file globs
+    const frontmatter = `---\ndescription: ${skill.description}\nglobs:\nalwaysApply: false\n---`;
+
+    return `${frontmatter}
+
+${resolvedContent}`;
+  }
+};
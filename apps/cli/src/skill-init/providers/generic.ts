@@ -0,0 +1,54 @@
+import { isValidSkillName, type SkillDefinition, type SkillProvider } from "@/skill-init/providers/base";
+
+/** Generic markdown skill provider identifier */
+const GENERIC_PROVIDER_ID = "generic";
+
+/** Generic markdown provider human-readable name */
+const GENERIC_PROVIDER_NAME = "Generic markdown";
+
+/**
+ * Generic provider implementation: plain markdown files without
+ * agent-specific frontmatter, for agents that are pointed at them by hand
+ */
+export const genericProvider: SkillProvider = {
+  id: GENERIC_PROVIDER_ID,
+  name: GENERIC_PROVIDER_NAME,
+
+  /**
+   * The generic provider is never detected, it has to be chosen explicitly
+   * @returns false
+   */
+  async detect(): Promise<boolean> {
+    return false;
+  },
+
+  /**
+   * Get the file path for a generic markdown skill
+   * @param skillName - The skill name (already validated)
+   * @returns The relative file path where the skill should be written
+   */
+  getSkillPath(skillName: string): string {
+    return `.agents/skills/${skillName}.md`;
+  },
+
+  /**
+   * Validate a skill name for use as a file name
+   * @param name - The skill name to validate
+   * @returns true if the name is valid, false otherwise
+   */
+  validateSkillName(name: string): boolean {
+    return isValidSkillName(name);
+  },
+
+  /**
+   * Generate the skill content with its description as a lead paragraph
+   * @param skill - The skill definition (for description)
+   * @param resolvedContent - The resolved content string (after generator function if applicable)
+   * @returns The complete markdown content
+   */
+  generateSkillContent(skill: SkillDefinition, resolvedContent: string): string {
+    return `> ${skill.description}
+
+${resolvedContent}`;
+  }
+};
@@ -1,14 +1,28 @@
 import type { SkillProvider } from "@/skill-init/providers/base";
+import { claudeCodeProvider } from "@/skill-init/providers/claude-code";
+import { codexProvider } from "@/skill-init/providers/codex";
+import { cursorProvider } from "@/skill-init/providers/cursor";
+import { genericProvider } from "@/skill-init/providers/generic";
 import { opencodeProvider } from "@/skill-init/providers/opencode";
+import { windsurfProvider } from "@/skill-init/providers/windsurf";
 
 export type { SkillProvider, SkillDefinition } from "@/skill-init/providers/base";
 
 /** List of available skill provider IDs */
-export const availableProviders = ["opencode"] as const;
+export const availableProviders = ["opencode", "claude-code", "cursor", "codex", "windsurf", "generic"] as const;
 
 /** Type representing valid provider IDs */
 export type ProviderId = (typeof availableProviders)[number];
 
+/**
+ * Check whether a string is a valid provider ID
+ * @param id - The string to check
+ * @returns true if it names an available provider
+ */
+export function isProviderId(id: string): id is ProviderId {
+  return (availableProviders as readonly string[]).includes(id);
+}
+
 /**
  * Get a skill provider by its ID
  * @param id - The provider ID to look up
@@ -19,7 +33,28 @@ export function getProvider(id: ProviderId): SkillProvider {
   switch (id) {
     case "opencode":
       return opencodeProvider;
+    case "claude-code":
+      return claudeCodeProvider;
+    case "cursor":
+      return cursorProvider;
+    case "codex":
+      return codexProvider;
+    case "windsurf":
+      return windsurfProvider;
+    case "generic":
+      return genericProvider;
     default:
       throw new Error(`Unknown skill provider: ${id}`);
   }
 }
+
+/**
+ * Detect which AI agents are set up in a project directory
+ * @param basePath - The project directory
+ * @returns The providers of the detected agents, in the order of availableProviders
+ */
+export async function detectProviders(basePath: string): Promise<SkillProvider[]> {
+  const providers = availableProviders.map(getProvider);
+  const detected = await Promise.all(providers.map((provider) => provider.detect(basePath)));
+  return providers.filter((_, index) => detected[index]);
+}
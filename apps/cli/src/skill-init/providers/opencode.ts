@@ -1,9 +1,4 @@
-import type { SkillDefinition, SkillProvider } from "@/skill-init/providers/base";
-
-/** Options for skill content generation */
-interface GenerateContentOptions {
-  alias?: string;
-}
+import { anyPathExists, isValidSkillName, type GenerateContentOptions, type SkillDefinition, type SkillProvider } from "@/skill-init/providers/base";
 
 /** OpenCode skill provider identifier */
 const OPENCODE_PROVIDER_ID = "opencode";
@@ -11,9 +6,6 @@ const OPENCODE_PROVIDER_ID = "opencode";
 /** OpenCode provider human-readable name */
 const OPENCODE_PROVIDER_NAME = "OpenCode";
 
-/** Regex for validating OpenCode skill names: lowercase alphanumeric with single hyphen separators */
-const SKILL_NAME_REGEX = /^[a-z0-9]+(-[a-z0-9]+)*$/;
-
 /**
  * OpenCode provider implementation for skill generation
  */
@@ -21,6 +13,15 @@ export const opencodeProvider: SkillProvider = {
   id: OPENCODE_PROVIDER_ID,
   name: OPENCODE_PROVIDER_NAME,
 
+  /**
+   * Detect OpenCode by its config directory or config file
+   * @param basePath - The project directory
+   * @returns true if OpenCode is set up in the project
+   */
+  detect(basePath: string): Promise<boolean> {
+    return anyPathExists(basePath, [".opencode", "opencode.json", "opencode.jsonc"]);
+  },
+
   /**
    * Get the file path for an OpenCode skill
    * @param skillName - The skill name (already validated)
@@ -36,13 +37,7 @@ export const opencodeProvider: SkillProvider = {
    * @returns true if the name is valid, false otherwise
    */
   validateSkillName(name: string): boolean {
-    // Check length constraints
-    if (name.length < 1 || name.length > 64) {
-      return false;
-    }
-
-    // Validate against regex pattern
-    return SKILL_NAME_REGEX.test(name);
+    return isValidSkillName(name);
   },
 
   /**
@@ -0,0 +1,57 @@
+import { anyPathExists, isValidSkillName, type SkillDefinition, type SkillProvider } from "@/skill-init/providers/base";
+
+/** Windsurf skill provider identifier */
+const WINDSURF_PROVIDER_ID = "windsurf";
+
+/** Windsurf provider human-readable name */
+const WINDSURF_PROVIDER_NAME = "Windsurf";
+
+/**
+ * Windsurf provider implementation: skills are written as workspace rules
+ * that Cascade applies when their description matches the task
+ */
+export const windsurfProvider: SkillProvider = {
+  id: WINDSURF_PROVIDER_ID,
+  name: WINDSURF_PROVIDER_NAME,
+
+  /**
+   * Detect Windsurf by its project directory or legacy rules file
+   * @param basePath - The project directory
+   * @returns true if Windsurf is set up in the project
+   */
+  detect(basePath: string): Promise<boolean> {
+    return anyPathExists(basePath, [".windsurf", ".windsurfrules"]);
+  },
+
+  /**
+   * Get the file path for a Windsurf rule
+   * @param skillName - The skill name (already validated)
+   * @returns The relative file path where the rule should be written
+   */
+  getSkillPath(skillName: string): string {
+    return `.windsurf/rules/${skillName}.md`;
+  },
+
+  /**
+   * Validate a skill name for use as a rule file name
+   * @param name - The skill name to validate
+   * @returns true if the name is valid, false otherwise
+   */
+  validateSkillName(name: string): boolean {
+    return isValidSkillName(name);
+  },
+
+  /**
+   * Generate the complete rule content including frontmatter
+   * @param skill - The skill definition (for description)
+   * @param resolvedContent - The resolved content string (after generator function if applicable)
+   * @returns The complete rule content with frontmatter
+   */
+  generateSkillContent(skill: SkillDefinition, resolvedContent: string): string {
+    const frontmatter = `---\ntrigger: model_decision\ndescription: ${skill.description}\n---`;
+
+    return `${frontmatter}
+
+${resolvedContent}`;
+  }
+};
@@ -16,6 +16,7 @@ function generateKontextedCliContent(options: SkillContentOptions): string {
 \`\`\`
 kontexted skill workspace-tree --alias ${a}
 kontexted skill search-notes --alias ${a} --query "<text>" [--limit <n>]
+kontexted skill query-notes --alias ${a} [--tag <tag>] [--field <key=value>] [--folder <path>] [--author <user>] [--updated-after <date>] [--updated-before <date>] [--limit <n>] [--offset <n>]
 kontexted skill note-by-id --alias ${a} --note-id <id>
 \`\`\`
 ${hasWrite ? `
@@ -24,7 +25,15 @@ ${hasWrite ? `
 \`\`\`
 kontexted skill create-folder --alias ${a} --name <name> --display-name "<displayName>" [--parent-id <id>]
 kontexted skill create-note --alias ${a} --name <name> --title "<title>" [--folder-id <id>] [--content "<content>"]
-kontexted skill update-note-content --alias ${a} --note-id <id> --content "<content>"
+kontexted skill update-note-content --alias ${a} --note-id <id> --content "<content>" [--expected-revision <revisionId>]
+kontexted skill delete-note --alias ${a} --note-id <id>
+kontexted skill restore-note --alias ${a} --note-id <id>
+kontexted skill delete-folder --alias ${a} --folder-id <id>
+kontexted skill move-note --alias ${a} --note-id <id> [--folder-id <id>]
+kontexted skill rename-note --alias ${a} --note-id <id> [--name <name>] [--title "<title>"]
+kontexted skill move-folder --alias ${a} --folder-id <id> [--parent-id <id>]
+kontexted skill rename-folder --alias ${a} --folder-id <id> [--name <name>] [--display-name "<displayName>"]
+kontexted skill batch --alias ${a} (--operations '<json>' | --file <path>)
 \`\`\`
 ` : ''}
 ## Prerequisites
@@ -73,13 +82,38 @@ kontexted skill search-notes --alias ${a} --query "<text>" [--limit <n>]
 - \`--query\` (required): The search text to find in notes
 - \`--limit\` (optional): Maximum number of results to return (default: 20, max: 50)
 
-**Returns:** JSON array of matching notes with metadata including note ID, title, and relevant snippets
+**Returns:** JSON array of matching notes ranked by relevance, with metadata including note ID, title, a highlighted snippet, and the line numbers of matching lines
 
 **When to use:**
 - When you need to find notes containing specific keywords
 - When searching for content across multiple notes
 - When the user asks to find notes about a particular topic
 
+#### query-notes
+
+Find notes by their YAML frontmatter, location, author or last update instead of their text. All given filters must match.
+
+\`\`\`bash
+kontexted skill query-notes --alias ${a} [--tag <tag>] [--field <key=value>] [--folder <path>] [--author <user>] [--updated-after <date>] [--updated-before <date>] [--limit <n>] [--offset <n>]
+\`\`\`
+
+**Options:**
+- \`--alias\` (required): The profile alias to use for authentication
+- \`--tag\` (optional, repeatable): Notes must have this tag in their frontmatter
+- \`--field\` (optional, repeatable): Frontmatter field the notes must have, as \`key=value\`, or just \`key\` to only require the key
+- \`--folder\` (optional): Only notes in this folder or its subfolders, as a path of folder names (e.g. \`specs/api\`)
+- \`--author\` (optional): User ID, email or name of someone who edited the note
+- \`--updated-after\` / \`--updated-before\` (optional): ISO 8601 dates bounding the last update
+- \`--limit\` (optional): Maximum number of results to return (default: 20, max: 50)
+- \`--offset\` (optional): Number of results to skip; pass \`nextOffset\` from the previous page
+
+**Returns:** JSON object with \`notes\` (ID, name, title, folder path, tags and frontmatter metadata), the \`total\` number of matches and \`nextOffset\` (null on the last page), most recently updated first
+
+**When to use:**
+- When the user asks for notes with a tag or status (e.g. all drafts)
+- When listing what changed in a folder or since a date
+- When finding notes edited by a particular person
+
 #### note-by-id
 
 Retrieve the complete content of a specific note by its ID.
@@ -157,13 +191,14 @@ kontexted skill create-note --alias ${a} --name <name> --title "<title>" [--fold
 Update the content of an existing note. This creates a revision for history.
 
 \`\`\`bash
-kontexted skill update-note-content --alias ${a} --note-id <notePublicId> --content "<content>"
+kontexted skill update-note-content --alias ${a} --note-id <notePublicId> --content "<content>" [--expected-revision <revisionId>]
 \`\`\`
 
 **Options:**
 - \`--alias\` (required): The profile alias to use for authentication
 - \`--note-id\` (required): Public ID of the note to update
 - \`--content\` (required): New content for the note
+- \`--expected-revision\` (optional): The \`revisionId\` returned by \`note-by-id\` when you read the note. If the note changed since, nothing is written and the command fails with a 409 listing the current content and a diff of the changes; merge them and retry with the new revision
 
 **Returns:** JSON object containing the note's public ID, revision ID, and updated timestamp
 
@@ -180,6 +215,182 @@ kontexted skill update-note-content --alias ${a} --note-id <notePublicId> --cont
 **Error cases:**
 - **"Note not found"** - Verify the note ID
 - **"Invalid note public ID"** - Check the ID format
+
+#### delete-note
+
+Move a note to the trash. Deleted notes can be restored until the server's trash retention window purges them.
+
+\`\`\`bash
+kontexted skill delete-note --alias ${a} --note-id <notePublicId>
+\`\`\`
+
+**Options:**
+- \`--alias\` (required): The profile alias to use for authentication
+- \`--note-id\` (required): Public ID of the note to delete
+
+**Returns:** JSON object containing the note's public ID and deletion timestamp
+
+**When to use:**
+- When the user asks to delete or remove a note
+
+**Error cases:**
+- **"Note not found"** - Verify the note ID, or the note is already in the trash
+
+#### restore-note
+
+Restore a note from the trash.
+
+\`\`\`bash
+kontexted skill restore-note --alias ${a} --note-id <notePublicId>
+\`\`\`
+
+**Options:**
+- \`--alias\` (required): The profile alias to use for authentication
+- \`--note-id\` (required): Public ID of the deleted note
+
+**Returns:** JSON object containing the restored note's public ID, name, title, folder path and whether it was renamed
+
+**Important notes:**
+- Folders that were deleted in the meantime are recreated
+- If another note already uses the name, the restored note gets a numeric suffix (e.g. \`meeting-notes-2\`)
+
+**Error cases:**
+- **"Note not found in trash"** - The note is not deleted or has already been purged
+
+#### delete-folder
+
+Move a folder, its subfolders and all notes in them to the trash. They can be restored until the server's trash retention window purges them.
+
+\`\`\`bash
+kontexted skill delete-folder --alias ${a} --folder-id <folderPublicId>
+\`\`\`
+
+**Options:**
+- \`--alias\` (required): The profile alias to use for authentication
+- \`--folder-id\` (required): Public ID of the folder to delete
+
+**Returns:** JSON object containing the folder's public ID, deletion timestamp and how many folders and notes were deleted
+
+**Error cases:**
+- **"Folder not found"** - Verify the folder ID, or the folder is already in the trash
+
+#### move-note
+
+Move a note to another folder, or to the workspace root when \`--folder-id\` is omitted.
+
+\`\`\`bash
+kontexted skill move-note --alias ${a} --note-id <notePublicId> [--folder-id <folderPublicId>]
+\`\`\`
+
+**Options:**
+- \`--alias\` (required): The profile alias to use for authentication
+- \`--note-id\` (required): Public ID of the note to move
+- \`--folder-id\` (optional): Public ID of the target folder. Omit to move the note to the workspace root
+
+**Returns:** JSON object containing the note's public ID, name, title and new folder path
+
+**Important notes:**
+- \`[[...]]\` links to the note are rewritten to its new path
+
+**Error cases:**
+- **"Note not found"** / **"Folder not found"** - Verify the IDs
+- **"Note with this name already exists in the target folder"** - Rename one of the notes first
+
+#### rename-note
+
+Change the name and/or title of a note. At least one of \`--name\` and \`--title\` is required.
+
+\`\`\`bash
+kontexted skill rename-note --alias ${a} --note-id <notePublicId> [--name <name>] [--title "<title>"]
+\`\`\`
+
+**Options:**
+- \`--alias\` (required): The profile alias to use for authentication
+- \`--note-id\` (required): Public ID of the note to rename
+- \`--name\` (optional): New URL-safe note name (kebab-case, camelCase, snake_case, or PascalCase)
+- \`--title\` (optional): New human-readable title
+
+**Returns:** JSON object containing the note's public ID, name, title and folder path
+
+**Important notes:**
+- \`[[...]]\` links to the old name are rewritten to the new one
+
+#### move-folder
+
+Move a folder with everything in it under another folder, or to the workspace root when \`--parent-id\` is omitted.
+
+\`\`\`bash
+kontexted skill move-folder --alias ${a} --folder-id <folderPublicId> [--parent-id <parentPublicId>]
+\`\`\`
+
+**Options:**
+- \`--alias\` (required): The profile alias to use for authentication
+- \`--folder-id\` (required): Public ID of the folder to move
+- \`--parent-id\` (optional): Public ID of the new parent folder. Omit to move the folder to the workspace root
+
+**Returns:** JSON object containing the folder's public ID, name, display name, parent ID and new path
+
+**Error cases:**
+- **"Folder cannot be moved into itself or its descendant"** - Pick a parent outside the folder
+
+#### rename-folder
+
+Change the name and/or display name of a folder. At least one of \`--name\` and \`--display-name\` is required.
+
+\`\`\`bash
+kontexted skill rename-folder --alias ${a} --folder-id <folderPublicId> [--name <name>] [--display-name "<displayName>"]
+\`\`\`
+
+**Options:**
+- \`--alias\` (required): The profile alias to use for authentication
+- \`--folder-id\` (required): Public ID of the folder to rename
+- \`--name\` (optional): New URL-safe folder name
+- \`--display-name\` (optional): New human-readable display name
+
+**Returns:** JSON object containing the folder's public ID, name, display name, parent ID and new path
+
+#### batch
+
+Apply several writes in one transaction: either every operation is written or none is. Operations run in order.
+
+\`\`\`bash
+kontexted skill batch --alias ${a} --operations '<json>'
+kontexted skill batch --alias ${a} --file operations.json
+\`\`\`
+
+**Options:**
+- \`--alias\` (required): The profile alias to use for authentication
+- \`--operations\`: JSON array of operations
+- \`--file\`: File holding the JSON array (\`-\` for stdin); use instead of \`--operations\`
+
+**Operations** (each an object with a \`type\`):
+- \`create-folder\`: \`name\`, \`displayName\`, optional \`parentPublicId\` and \`ref\`
+- \`create-note\`: \`name\`, \`title\`, optional \`folderPublicId\`, \`content\` and \`ref\`
+- \`update-note\`: \`notePublicId\`, \`content\`, optional \`expectedRevisionId\`
+- \`move-note\`: \`notePublicId\`, optional \`folderPublicId\` (omit for the workspace root)
+- \`move-folder\`: \`folderPublicId\`, optional \`parentPublicId\` (omit for the workspace root)
+- \`delete-note\`: \`notePublicId\`
+- \`delete-folder\`: \`folderPublicId\`
+
+Give a create operation a \`ref\` to use the new folder or note in later operations as \`$<ref>\`:
+
+\`\`\`bash
+kontexted skill batch --alias ${a} --operations '[
+  {"type": "create-folder", "ref": "specs", "name": "specs", "displayName": "Specs"},
+  {"type": "create-note", "name": "api", "title": "API", "folderPublicId": "$specs", "content": "# API"},
+  {"type": "create-note", "name": "data-model", "title": "Data Model", "folderPublicId": "$specs"}
+]'
+\`\`\`
+
+**Returns:** JSON object with the type and public ID of each operation's folder or note, in order, and the revision ID of each updated note
+
+**When to use:**
+- When creating or reorganizing several notes or folders at once
+- When a set of changes must not be left half-applied
+
+**Error cases:**
+- **"Operation N (type): ..."** - Operation N is invalid; nothing was written
+- **409 "The workspace changed while the batch was being applied"** - Someone else changed a note or folder in the batch; retry
 ` : ''}
 ## Typical Workflow
 
@@ -224,6 +435,13 @@ kontexted skill search-notes --alias ${a} --query "meeting notes"
 kontexted skill search-notes --alias ${a} --query "todo" --limit 3
 \`\`\`
 
+### Querying by frontmatter and folder
+
+\`\`\`bash
+kontexted skill query-notes --alias ${a} --tag spec --field status=draft
+kontexted skill query-notes --alias ${a} --folder specs/api --updated-after 2025-01-01
+\`\`\`
+
 ### Reading specific notes
 
 \`\`\`bash
@@ -284,6 +502,7 @@ All commands return JSON output that is easy to parse:
 ### Read commands
 - \`workspace-tree\`: Returns nested object with folders and notes
 - \`search-notes\`: Returns array of matching notes with ID, title, and snippets
+- \`query-notes\`: Returns a page of matching notes with their metadata, the total and the next offset
 - \`note-by-id\`: Returns complete note object with body and metadata
 ${hasWrite ? `
 ### Write commands
@@ -162,7 +162,13 @@ export async function initSkill(options: InitSkillOptions): Promise<InitSkillRes
   const alreadyExists = await fileExists(absoluteSkillPath);
 
   // Generate the skill content with resolved content and metadata
-  const skillContent = provider.generateSkillContent(skill, resolvedContent, { alias });
+  let skillContent = provider.generateSkillContent(skill, resolvedContent, { alias });
+
+  // Keep the rest of a skill file that is shared with other content
+  if (alreadyExists && provider.mergeSkillContent) {
+    const existingContent = await fs.readFile(absoluteSkillPath, 'utf-8');
+    skillContent = provider.mergeSkillContent(skill, existingContent, skillContent);
+  }
 
   // Write the skill file
   await writeFile(absoluteSkillPath, skillContent);
@@ -2,10 +2,10 @@ import { AuthFormProps } from "./types"
 import KeycloakSignIn from "./KeycloakSignIn"
 import EmailPasswordAuth from "./EmailPasswordAuth"
 
-export default function AuthForm({ authMethod, inviteCodeAvailable }: AuthFormProps) {
+export default function AuthForm({ authMethod, inviteCodeAvailable, inviteToken }: AuthFormProps) {
   if (authMethod === "keycloak") {
-    return <KeycloakSignIn />
+    return <KeycloakSignIn inviteToken={inviteToken} />
   }
 
-  return <EmailPasswordAuth inviteCodeAvailable={inviteCodeAvailable} />
+  return <EmailPasswordAuth inviteCodeAvailable={inviteCodeAvailable} inviteToken={inviteToken} />
 }
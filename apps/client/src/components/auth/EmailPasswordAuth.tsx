@@ -3,8 +3,16 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import EmailPasswordSignIn from "./EmailPasswordSignIn"
 import EmailPasswordSignUp from "./EmailPasswordSignUp"
 
-export default function EmailPasswordAuth({ inviteCodeAvailable }: { inviteCodeAvailable: boolean }) {
+export default function EmailPasswordAuth({
+  inviteCodeAvailable,
+  inviteToken,
+}: {
+  inviteCodeAvailable: boolean
+  inviteToken?: string
+}) {
   const [activeTab, setActiveTab] = useState<"sign-in" | "sign-up">("sign-in")
+  // An invitation link lets its recipient sign up even without the server invite code
+  const canSignUp = inviteCodeAvailable || !!inviteToken
 
   return (
     <Tabs defaultValue="sign-in" value={activeTab} onValueChange={(v) => setActiveTab(v as "sign-in" | "sign-up")}>
@@ -20,7 +28,7 @@ export default function EmailPasswordAuth({ inviteCodeAvailable }: { inviteCodeA
         </p>
       </div>
 
-      {inviteCodeAvailable && (
+      {canSignUp && (
         <TabsList className="grid w-full grid-cols-2">
           <TabsTrigger value="sign-in">Sign In</TabsTrigger>
           <TabsTrigger value="sign-up">Sign Up</TabsTrigger>
@@ -28,12 +36,15 @@ export default function EmailPasswordAuth({ inviteCodeAvailable }: { inviteCodeA
       )}
 
       <TabsContent value="sign-in">
-        <EmailPasswordSignIn onSwitchToSignUp={inviteCodeAvailable ? () => setActiveTab("sign-up") : undefined} />
+        <EmailPasswordSignIn
+          onSwitchToSignUp={canSignUp ? () => setActiveTab("sign-up") : undefined}
+          inviteToken={inviteToken}
+        />
       </TabsContent>
 
-      {inviteCodeAvailable && (
+      {canSignUp && (
         <TabsContent value="sign-up">
-          <EmailPasswordSignUp onSwitchToSignIn={() => setActiveTab("sign-in")} />
+          <EmailPasswordSignUp onSwitchToSignIn={() => setActiveTab("sign-in")} inviteToken={inviteToken} />
         </TabsContent>
       )}
     </Tabs>
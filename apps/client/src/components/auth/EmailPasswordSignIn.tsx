@@ -6,7 +6,13 @@ import { Input } from "@/components/ui/input"
 import { apiClient } from "@/lib/api-client"
 import { authQueryKeys } from "@/lib/query/query-keys"
 
-export default function EmailPasswordSignIn({ onSwitchToSignUp }: { onSwitchToSignUp?: () => void }) {
+export default function EmailPasswordSignIn({
+  onSwitchToSignUp,
+  inviteToken,
+}: {
+  onSwitchToSignUp?: () => void
+  inviteToken?: string
+}) {
   const navigate = useNavigate()
   const queryClient = useQueryClient()
   const [email, setEmail] = useState("")
@@ -38,7 +44,10 @@ export default function EmailPasswordSignIn({ onSwitchToSignUp }: { onSwitchToSi
         }
       } else {
         await queryClient.invalidateQueries({ queryKey: authQueryKeys.session })
-        navigate({ to: '/' })
+        // With an invitation link the login page stays open and accepts the invite once signed in
+        if (!inviteToken) {
+          navigate({ to: '/' })
+        }
       }
     } catch {
       setError("An unexpected error occurred")
@@ -6,7 +6,13 @@ import { Input } from "@/components/ui/input"
 import { apiClient } from "@/lib/api-client"
 import { authQueryKeys } from "@/lib/query/query-keys"
 
-export default function EmailPasswordSignUp({ onSwitchToSignIn }: { onSwitchToSignIn: () => void }) {
+export default function EmailPasswordSignUp({
+  onSwitchToSignIn,
+  inviteToken,
+}: {
+  onSwitchToSignIn: () => void
+  inviteToken?: string
+}) {
   const navigate = useNavigate()
   const queryClient = useQueryClient()
   const [name, setName] = useState("")
@@ -40,11 +46,6 @@ export default function EmailPasswordSignUp({ onSwitchToSignIn }: { onSwitchToSi
       isValid = false
     }
 
-    if (!inviteCode.trim()) {
-      newErrors.inviteCode = "Invite code is required"
-      isValid = false
-    }
-
     setErrors(newErrors)
     return isValid
   }
@@ -62,6 +63,7 @@ export default function EmailPasswordSignUp({ onSwitchToSignIn }: { onSwitchToSi
         email,
         password,
         inviteCode,
+        workspaceInviteToken: inviteToken,
       })
 
       if (res.error) {
@@ -87,7 +89,10 @@ export default function EmailPasswordSignUp({ onSwitchToSignIn }: { onSwitchToSi
         }
       } else {
         await queryClient.invalidateQueries({ queryKey: authQueryKeys.session })
-        navigate({ to: '/' })
+        // With an invitation link the login page stays open and accepts the invite once signed in
+        if (!inviteToken) {
+          navigate({ to: '/' })
+        }
       }
     } catch {
       setErrors((prev) => ({ ...prev, email: "An unexpected error occurred" }))
@@ -141,19 +146,23 @@ export default function EmailPasswordSignUp({ onSwitchToSignIn }: { onSwitchToSi
         {errors.password && <p className="text-sm text-destructive">{errors.password}</p>}
       </div>
 
-      <div className="flex flex-col gap-2">
-        <label htmlFor="inviteCode" className="text-sm font-medium">Invite Code</label>
-        <Input
-          id="inviteCode"
-          type="text"
-          value={inviteCode}
-          onChange={(e) => setInviteCode(e.target.value)}
-          placeholder="Enter your invite code"
-          required
-          aria-invalid={!!errors.inviteCode}
-        />
-        {errors.inviteCode && <p className="text-sm text-destructive">{errors.inviteCode}</p>}
-      </div>
+      {inviteToken ? (
+        <p className="text-sm text-muted-foreground">
+          Sign up with the email address your invitation was sent to.
+        </p>
+      ) : (
+        <div className="flex flex-col gap-2">
+          <label htmlFor="inviteCode" className="text-sm font-medium">Invite Code</label>
+          <Input
+            id="inviteCode"
+            type="text"
+            value={inviteCode}
+            onChange={(e) => setInviteCode(e.target.value)}
+            aria-invalid={!!errors.inviteCode}
+          />
+          {errors.inviteCode && <p className="text-sm text-destructive">{errors.inviteCode}</p>}
+        </div>
+      )}
 
       <Button type="submit" className="w-full" disabled={isLoading}>
         {isLoading ? "Creating account..." : "Sign Up"}
@@ -5,7 +5,7 @@ import { Button } from "@/components/ui/button"
 import { apiClient } from "@/lib/api-client"
 import { sessionQueryOptions } from "@/features/auth/queries"
 
-export default function KeycloakSignIn() {
+export default function KeycloakSignIn({ inviteToken }: { inviteToken?: string }) {
   const navigate = useNavigate()
 
   const { data: session, isLoading } = useQuery(sessionQueryOptions)
@@ -27,7 +27,8 @@ export default function KeycloakSignIn() {
         },
         body: JSON.stringify({
           providerId: 'keycloak',
-          callbackURL: '/',
+          // Come back to the invitation link so the invite is accepted after signing in
+          callbackURL: inviteToken ? `/login?invite=${encodeURIComponent(inviteToken)}` : '/',
         }),
       })
 
@@ -3,4 +3,6 @@ export type AuthMethod = "keycloak" | "email-password"
 export interface AuthFormProps {
   authMethod: AuthMethod
   inviteCodeAvailable: boolean
+  /** Token from a workspace invitation link, if the login page was opened through one */
+  inviteToken?: string
 }
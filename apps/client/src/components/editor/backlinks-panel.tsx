@@ -0,0 +1,127 @@
+import { useQuery } from "@tanstack/react-query"
+import { useNavigate } from "@tanstack/react-router"
+import type { JSX } from "react"
+import { FileText } from "lucide-react"
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet"
+import { noteBacklinksQueryOptions } from "@/features/notes/queries"
+import { useUIStore } from "@/stores/ui-store"
+
+/**
+ * Props for the BacklinksPanel component
+ */
+interface BacklinksPanelProps {
+  /** Controls whether the panel is open */
+  open: boolean
+  /** Callback when panel open state changes */
+  onOpenChange: (open: boolean) => void
+  /** Current workspace slug */
+  workspaceSlug: string
+  /** Public ID of the note whose backlinks are listed */
+  notePublicId: string
+  /** Label of the note shown in the description */
+  noteLabel: string
+}
+
+const MAX_LINES_PER_NOTE = 3
+
+/**
+ * Sheet listing the notes that link to the current note with [[...]],
+ * with the lines containing the links. Clicking a line opens the linking
+ * note at that line.
+ */
+export function BacklinksPanel({
+  open,
+  onOpenChange,
+  workspaceSlug,
+  notePublicId,
+  noteLabel,
+}: BacklinksPanelProps): JSX.Element {
+  const navigate = useNavigate()
+  const labelMode = useUIStore((state) => state.labelMode)
+
+  const { data, error, isLoading } = useQuery({
+    ...noteBacklinksQueryOptions(workspaceSlug, notePublicId),
+    enabled: open,
+  })
+  const backlinks = data?.backlinks ?? []
+
+  const openNote = (publicId: string, line?: number) => {
+    onOpenChange(false)
+    navigate({
+      to: "/workspaces/$workspaceSlug/notes/$noteId",
+      params: { workspaceSlug, noteId: publicId },
+      search: (prev: Record<string, unknown>) => ({
+        labels: typeof prev.labels === "string" ? prev.labels : undefined,
+        view: prev.view === "code" || prev.view === "split" || prev.view === "preview" ? prev.view : undefined,
+        line,
+      }),
+    })
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="sm:max-w-md" side="right">
+        <SheetHeader>
+          <SheetTitle>Backlinks</SheetTitle>
+          <SheetDescription>Notes linking to {noteLabel}.</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-6">
+          {error ? (
+            <p className="text-sm text-destructive">
+              {error instanceof Error ? error.message : "Failed to load backlinks"}
+            </p>
+          ) : isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : backlinks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No notes link here yet. Link to this note with [[note-name]].
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {backlinks.map((backlink) => {
+                const label = labelMode === "name" ? `${backlink.name}.md` : backlink.title
+                return (
+                  <li key={backlink.publicId} className="rounded-md border border-border px-3 py-2">
+                    <button
+                      type="button"
+                      className="flex w-full min-w-0 items-center gap-2 text-left"
+                      onClick={() => openNote(backlink.publicId, backlink.lines[0]?.lineNumber)}
+                    >
+                      <FileText className="size-4 shrink-0 text-muted-foreground" />
+                      <span className="truncate text-sm font-medium">{label}</span>
+                      {backlink.folderPath && (
+                        <span className="truncate text-xs text-muted-foreground">{backlink.folderPath}</span>
+                      )}
+                    </button>
+                    {backlink.lines.length > 0 && (
+                      <div className="mt-1 space-y-0.5 pl-6">
+                        {backlink.lines.slice(0, MAX_LINES_PER_NOTE).map((line) => (
+                          <button
+                            key={line.lineNumber}
+                            type="button"
+                            className="flex w-full gap-2 rounded-sm text-left text-xs text-muted-foreground hover:text-foreground"
+                            onClick={() => openNote(backlink.publicId, line.lineNumber)}
+                          >
+                            <span className="w-8 shrink-0 text-right tabular-nums">{line.lineNumber}</span>
+                            <span className="truncate">{line.text}</span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -1,6 +1,6 @@
 import createDOMPurify, { type WindowLike } from "dompurify"
-import { marked } from "marked"
-import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { Marked } from "marked"
+import { useCallback, useEffect, useMemo, useRef, useState, type MouseEvent } from "react"
 import { useNavigate, useSearch } from "@tanstack/react-router"
 import { useQuery } from "@tanstack/react-query"
 import {
@@ -13,6 +13,7 @@ import {
   MoreHorizontal,
   History,
   GitCommit,
+  Link2,
 } from "lucide-react"
 import { Compartment, EditorState } from "@codemirror/state"
 import { defaultHighlightStyle, syntaxHighlighting } from "@codemirror/language"
@@ -36,6 +37,9 @@ import { Alert, AlertDescription, AlertTitle } from "../ui/alert"
 import { useUpdateNoteContent } from "@/features/notes/mutations"
 import { Button } from "../ui/button"
 import { collabTokenQueryOptions } from "@/features/notes/queries"
+import { workspaceTreeQueryOptions } from "@/features/workspaces/queries"
+import { buildWikiLinkIndex, createWikiLinkExtension } from "@/lib/wiki-links"
+import { BacklinksPanel } from "./backlinks-panel"
 import { queryClient } from "@/lib/query/query-client"
 import {
   DropdownMenu,
@@ -165,6 +169,7 @@ export default function NoteEditor({
   const editorScrollRatioRef = useRef(0)
   const previewScrollRatioRef = useRef(0)
   const scrollSyncTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const jumpedToLineRef = useRef<string | null>(null)
 
   const { data: session, isLoading: sessionPending } = useQuery(sessionQueryOptions)
   const updateNoteContentMutation = useUpdateNoteContent()
@@ -208,6 +213,7 @@ export default function NoteEditor({
   >([])
   const [blameEntries, setBlameEntries] = useState<BlameEntry[]>(initialBlame)
   const [showBlame, setShowBlame] = useState(false)
+  const [showBacklinks, setShowBacklinks] = useState(false)
 
   // Sync viewMode when search params change
   useEffect(() => {
@@ -322,9 +328,41 @@ export default function NoteEditor({
     return createDOMPurify(window as WindowLike)
   }, [])
 
+  // Wiki links resolve against the workspace tree, which SSE keeps current
+  const { data: workspaceTree } = useQuery(workspaceTreeQueryOptions(workspaceSlug))
+
+  const markdownParser = useMemo(() => {
+    const index = buildWikiLinkIndex(workspaceTree)
+    const sourceFolderPublicId = index.folderOf.get(notePublicId) ?? null
+    return new Marked({
+      breaks: true,
+      extensions: [createWikiLinkExtension(workspaceSlug, index, sourceFolderPublicId)],
+    })
+  }, [notePublicId, workspaceSlug, workspaceTree])
+
   const renderMarkdown = useCallback((value: string) => {
-    return marked.parse(value, { breaks: true }) as string
-  }, [])
+    return markdownParser.parse(value) as string
+  }, [markdownParser])
+
+  const handlePreviewClick = useCallback(
+    (event: MouseEvent<HTMLDivElement>) => {
+      const anchor = (event.target as HTMLElement).closest<HTMLAnchorElement>("a[data-note-id]")
+      const targetNoteId = anchor?.dataset.noteId
+      if (!targetNoteId || event.metaKey || event.ctrlKey || event.shiftKey) {
+        return
+      }
+      event.preventDefault()
+      navigate({
+        to: "/workspaces/$workspaceSlug/notes/$noteId",
+        params: { workspaceSlug, noteId: targetNoteId },
+        search: (prev: Record<string, unknown>) => ({
+          labels: typeof prev.labels === "string" ? prev.labels : undefined,
+          view: prev.view === "code" || prev.view === "split" || prev.view === "preview" ? prev.view : undefined,
+        }),
+      })
+    },
+    [navigate, workspaceSlug]
+  )
 
   const previewHtml = useMemo(() => {
     const rawHtml = renderMarkdown(content)
@@ -767,6 +805,29 @@ export default function NoteEditor({
     })
   }, [blameByLine, createBlameGutter, showBlame])
 
+  // Jump to the line requested via ?line= (e.g. from search results). The collab
+  // document arrives after the editor is created, so wait until it is long enough.
+  useEffect(() => {
+    const view = editorViewRef.current
+    const targetLine = search.line
+    if (!ready || !view || !targetLine) {
+      return
+    }
+
+    const jumpKey = `${notePublicId}:${targetLine}`
+    if (jumpedToLineRef.current === jumpKey || view.state.doc.lines < targetLine) {
+      return
+    }
+
+    jumpedToLineRef.current = jumpKey
+    const line = view.state.doc.line(targetLine)
+    view.dispatch({
+      selection: { anchor: line.from },
+      effects: EditorView.scrollIntoView(line.from, { y: "center" }),
+    })
+    view.focus()
+  }, [content, notePublicId, ready, search.line])
+
   const formatTimestamp = (value: string | Date) => {
     const date = typeof value === "string" ? new Date(value) : value
     if (Number.isNaN(date.getTime())) {
@@ -1005,6 +1066,10 @@ export default function NoteEditor({
                 <GitCommit className="mr-2 h-4 w-4" />
                 {showBlame ? "Hide blame" : "Show blame"}
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setShowBacklinks(true)}>
+                <Link2 className="mr-2 h-4 w-4" />
+                Backlinks
+              </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
@@ -1042,12 +1107,20 @@ export default function NoteEditor({
             >
               <div
                 className="preview-content"
+                onClick={handlePreviewClick}
                 dangerouslySetInnerHTML={{ __html: previewHtml }}
               />
             </div>
           ) : null}
         </div>
       </div>
+      <BacklinksPanel
+        open={showBacklinks}
+        onOpenChange={setShowBacklinks}
+        workspaceSlug={workspaceSlug}
+        notePublicId={notePublicId}
+        noteLabel={displayTitle}
+      />
     </div>
   )
 }
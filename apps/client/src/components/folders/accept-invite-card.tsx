@@ -0,0 +1,57 @@
+import { useNavigate } from "@tanstack/react-router"
+import { useState, type JSX } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { useAcceptWorkspaceInvite } from "@/features/workspaces/mutations"
+
+/**
+ * Accepts a workspace invite from its invitation link token.
+ * Shown to signed-in users who open an invitation link.
+ */
+export function AcceptInviteCard({ token }: { token: string }): JSX.Element {
+  const navigate = useNavigate()
+  const acceptInviteMutation = useAcceptWorkspaceInvite()
+  const [error, setError] = useState<string | null>(null)
+
+  const handleAccept = async () => {
+    setError(null)
+    try {
+      const accepted = await acceptInviteMutation.mutateAsync({ token })
+      if (accepted) {
+        navigate({
+          to: "/workspaces/$workspaceSlug",
+          params: { workspaceSlug: accepted.workspaceSlug },
+          search: { labels: undefined },
+          replace: true,
+        })
+      }
+    } catch (acceptError) {
+      setError(acceptError instanceof Error ? acceptError.message : "Unable to accept invite")
+    }
+  }
+
+  return (
+    <Card className="flex flex-col items-center gap-4 p-6 text-center">
+      <div className="space-y-1">
+        <h1 className="text-xl font-bold">Workspace invitation</h1>
+        <p className="text-sm text-muted-foreground">
+          You have been invited to join a workspace. Invitations can only be accepted with the
+          email address they were sent to.
+        </p>
+      </div>
+      <div className="flex w-full flex-col gap-2">
+        <Button type="button" onClick={handleAccept} disabled={acceptInviteMutation.isPending}>
+          {acceptInviteMutation.isPending ? "Joining..." : "Accept invite"}
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() => navigate({ to: "/workspaces", replace: true })}
+        >
+          Not now
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </Card>
+  )
+}
@@ -1,4 +1,5 @@
  import { useQuery } from "@tanstack/react-query"
+ import { Search } from "lucide-react"
  import {
    Sidebar,
    SidebarContent,
@@ -15,6 +16,10 @@
  import type { FolderTreeProps } from "@/features/folders/types"
  import { sessionQueryOptions } from "@/features/auth/queries"
  import MarkdownUpload from "./markdown-upload"
+ import { useUIStore } from "@/stores/ui-store"
+
+ const searchShortcutLabel =
+   typeof navigator !== "undefined" && /Mac|iPhone|iPad/i.test(navigator.userAgent) ? "⌘K" : "Ctrl K"
 
  export default function FolderTree({
    workspaceSlug,
@@ -24,6 +29,7 @@
  }: FolderTreeProps) {
    const { data: session } = useQuery(sessionQueryOptions)
    const { isMobile } = useSidebar()
+   const setSearchPaletteOpen = useUIStore((state) => state.setSearchPaletteOpen)
 
    const {
      // State
@@ -119,6 +125,15 @@
                dragLabel={dragLabel}
              >
                <div className="space-y-2">
+                 <button
+                   type="button"
+                   onClick={() => setSearchPaletteOpen(true)}
+                   className="mt-1 flex w-full items-center gap-2 rounded-md border border-border px-2 py-1.5 text-sm text-muted-foreground transition-colors hover:bg-accent hover:text-foreground"
+                 >
+                   <Search className="h-4 w-4 shrink-0" />
+                   <span className="flex-1 text-left">Search notes</span>
+                   <kbd className="font-mono text-[10px]">{searchShortcutLabel}</kbd>
+                 </button>
                  <div className="mt-1">
                    <RootDropRow
                      onCreateFolder={handleRootCreateFolder}
@@ -0,0 +1,293 @@
+import { useQuery } from "@tanstack/react-query"
+import { useNavigate } from "@tanstack/react-router"
+import { useState, type JSX } from "react"
+import { FileText, Folder, RotateCcw, Trash2 } from "lucide-react"
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet"
+import { Button } from "@/components/ui/button"
+import {
+  usePurgeFolder,
+  usePurgeNote,
+  useRestoreFolder,
+  useRestoreNote,
+} from "@/features/notes/mutations"
+import {
+  workspaceQueryOptions,
+  workspaceTrashedFoldersQueryOptions,
+  workspaceTrashQueryOptions,
+} from "@/features/workspaces/queries"
+import { useUIStore } from "@/stores/ui-store"
+import type { TrashedFolder, TrashedNote } from "@/types"
+
+/**
+ * Props for the TrashPanel component
+ */
+interface TrashPanelProps {
+  /** Controls whether the panel is open */
+  open: boolean
+  /** Callback when panel open state changes */
+  onOpenChange: (open: boolean) => void
+  /** Current workspace slug */
+  workspaceSlug: string
+  /** Current workspace name */
+  workspaceName: string
+}
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`
+
+const formatTimestamp = (value: string) => {
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    return ""
+  }
+  return date.toLocaleString()
+}
+
+/**
+ * Sheet listing the deleted folders and notes of a workspace.
+ * Editors can restore a note (its folders are recreated if they were removed)
+ * or a folder together with everything deleted with it, or delete either
+ * permanently; viewers only see the list.
+ */
+export function TrashPanel({
+  open,
+  onOpenChange,
+  workspaceSlug,
+  workspaceName,
+}: TrashPanelProps): JSX.Element {
+  const navigate = useNavigate()
+  const labelMode = useUIStore((state) => state.labelMode)
+  const { data: workspace } = useQuery({ ...workspaceQueryOptions(workspaceSlug), enabled: open })
+  const canEdit = workspace?.role === "owner" || workspace?.role === "editor"
+
+  const { data: trashedNotes = [], error: notesError, isLoading: notesLoading } = useQuery({
+    ...workspaceTrashQueryOptions(workspaceSlug),
+    enabled: open,
+  })
+  const { data: trashedFolders = [], error: foldersError, isLoading: foldersLoading } = useQuery({
+    ...workspaceTrashedFoldersQueryOptions(workspaceSlug),
+    enabled: open,
+  })
+  const trashError = notesError ?? foldersError
+  const isLoading = notesLoading || foldersLoading
+
+  const restoreMutation = useRestoreNote()
+  const purgeMutation = usePurgeNote()
+  const restoreFolderMutation = useRestoreFolder()
+  const purgeFolderMutation = usePurgeFolder()
+
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const handleRestore = async (note: TrashedNote) => {
+    setError(null)
+    setNotice(null)
+    try {
+      const restored = await restoreMutation.mutateAsync({
+        workspaceSlug,
+        notePublicId: note.publicId,
+      })
+      if (restored?.renamed) {
+        setNotice(`"${note.name}" was taken, so the note was restored as "${restored.name}".`)
+        return
+      }
+      onOpenChange(false)
+      navigate({
+        to: "/workspaces/$workspaceSlug/notes/$noteId",
+        params: { workspaceSlug, noteId: note.publicId },
+        search: (prev: Record<string, unknown>) => ({
+          labels: typeof prev.labels === "string" ? prev.labels : undefined,
+          view: prev.view === "code" || prev.view === "split" || prev.view === "preview" ? prev.view : undefined,
+        }),
+      })
+    } catch (mutationError) {
+      setError(mutationError instanceof Error ? mutationError.message : "Failed to restore note")
+    }
+  }
+
+  const handlePurge = async (note: TrashedNote) => {
+    const label = labelMode === "name" ? `${note.name}.md` : note.title
+    if (!window.confirm(`Permanently delete "${label}"? This cannot be undone.`)) {
+      return
+    }
+
+    setError(null)
+    setNotice(null)
+    try {
+      await purgeMutation.mutateAsync({ workspaceSlug, notePublicId: note.publicId })
+    } catch (mutationError) {
+      setError(mutationError instanceof Error ? mutationError.message : "Failed to delete note")
+    }
+  }
+
+  const handleRestoreFolder = async (folder: TrashedFolder) => {
+    setError(null)
+    setNotice(null)
+    try {
+      const restored = await restoreFolderMutation.mutateAsync({
+        workspaceSlug,
+        folderPublicId: folder.publicId,
+      })
+      if (!restored) {
+        return
+      }
+      setNotice(
+        restored.renamed
+          ? `"${folder.name}" was taken, so the folder was restored as "${restored.name}".`
+          : `Restored ${restored.folderPath} with ${pluralize(restored.noteCount, "note")}.`
+      )
+    } catch (mutationError) {
+      setError(mutationError instanceof Error ? mutationError.message : "Failed to restore folder")
+    }
+  }
+
+  const handlePurgeFolder = async (folder: TrashedFolder) => {
+    const label = labelMode === "name" ? folder.name : folder.displayName
+    if (!window.confirm(`Permanently delete "${label}" and ${pluralize(folder.noteCount, "note")} in it? This cannot be undone.`)) {
+      return
+    }
+
+    setError(null)
+    setNotice(null)
+    try {
+      await purgeFolderMutation.mutateAsync({ workspaceSlug, folderPublicId: folder.publicId })
+    } catch (mutationError) {
+      setError(mutationError instanceof Error ? mutationError.message : "Failed to delete folder")
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="sm:max-w-md" side="right">
+        <SheetHeader>
+          <SheetTitle>Trash</SheetTitle>
+          <SheetDescription>Deleted notes in {workspaceName}.</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 space-y-4 overflow-y-auto px-6 pb-6">
+          {error && (
+            <p className="rounded-md border border-destructive/40 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {error}
+            </p>
+          )}
+          {notice && (
+            <p className="rounded-md border border-border bg-muted px-3 py-2 text-sm text-muted-foreground">
+              {notice}
+            </p>
+          )}
+
+          {trashError ? (
+            <p className="text-sm text-destructive">
+              {trashError instanceof Error ? trashError.message : "Failed to load trash"}
+            </p>
+          ) : isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : trashedNotes.length === 0 && trashedFolders.length === 0 ? (
+            <p className="text-sm text-muted-foreground">The trash is empty.</p>
+          ) : (
+            <ul className="space-y-2">
+              {trashedFolders.map((folder) => {
+                const label = labelMode === "name" ? folder.name : folder.displayName
+                const parentPath = folder.folderPath.split("/").slice(0, -1).join("/")
+                return (
+                  <li
+                    key={folder.publicId}
+                    className="flex items-center justify-between gap-3 rounded-md border border-border px-3 py-2"
+                  >
+                    <div className="flex min-w-0 items-start gap-2">
+                      <Folder className="mt-0.5 size-4 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0">
+                        <p className="truncate text-sm font-medium">{label}</p>
+                        <p className="truncate text-xs text-muted-foreground">
+                          {parentPath ? `${parentPath} · ` : ""}
+                          {pluralize(folder.noteCount, "note")} · Deleted {formatTimestamp(folder.deletedAt)}
+                        </p>
+                      </div>
+                    </div>
+                    {canEdit && (
+                      <div className="flex shrink-0 items-center gap-1">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon-sm"
+                          aria-label={`Restore ${label}`}
+                          title="Restore folder and its notes"
+                          disabled={restoreFolderMutation.isPending}
+                          onClick={() => handleRestoreFolder(folder)}
+                        >
+                          <RotateCcw className="size-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon-sm"
+                          aria-label={`Delete ${label} permanently`}
+                          title="Delete permanently"
+                          disabled={purgeFolderMutation.isPending}
+                          onClick={() => handlePurgeFolder(folder)}
+                        >
+                          <Trash2 className="size-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </li>
+                )
+              })}
+              {trashedNotes.map((note) => {
+                const label = labelMode === "name" ? `${note.name}.md` : note.title
+                return (
+                  <li
+                    key={note.publicId}
+                    className="flex items-center justify-between gap-3 rounded-md border border-border px-3 py-2"
+                  >
+                    <div className="flex min-w-0 items-start gap-2">
+                      <FileText className="mt-0.5 size-4 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0">
+                        <p className="truncate text-sm font-medium">{label}</p>
+                        <p className="truncate text-xs text-muted-foreground">
+                          {note.folderPath ? `${note.folderPath} · ` : ""}
+                          Deleted {formatTimestamp(note.deletedAt)}
+                        </p>
+                      </div>
+                    </div>
+                    {canEdit && (
+                      <div className="flex shrink-0 items-center gap-1">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon-sm"
+                          aria-label={`Restore ${label}`}
+                          title="Restore"
+                          disabled={restoreMutation.isPending}
+                          onClick={() => handleRestore(note)}
+                        >
+                          <RotateCcw className="size-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon-sm"
+                          aria-label={`Delete ${label} permanently`}
+                          title="Delete permanently"
+                          disabled={purgeMutation.isPending}
+                          onClick={() => handlePurge(note)}
+                        >
+                          <Trash2 className="size-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
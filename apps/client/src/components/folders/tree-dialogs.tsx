@@ -69,11 +69,11 @@ export function TreeItemDialog({
             <div className="space-y-2">
               {activeDialog.mode === "delete-note" ? (
                 <p className="text-sm text-muted-foreground">
-                  Are you sure you want to delete &quot;{activeDialog.title}&quot;? This action cannot be undone.
+                  Are you sure you want to delete &quot;{activeDialog.title}&quot;? The note will be moved to the trash.
                 </p>
               ) : (
                 <p className="text-sm text-muted-foreground">
-                  Are you sure you want to delete &quot;{activeDialog.displayName}&quot;? This will also delete all notes and subfolders. This action cannot be undone.
+                  Are you sure you want to delete &quot;{activeDialog.displayName}&quot;? The folder, its subfolders and notes will be moved to the trash and can be restored together.
                 </p>
               )}
             </div>
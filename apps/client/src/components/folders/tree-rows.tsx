@@ -3,6 +3,7 @@ import type { JSX } from "react"
 import { useDraggable, useDroppable } from "@dnd-kit/core"
 import { FileText, FolderIcon, GripVertical, ChevronDown, ChevronRight } from "lucide-react"
 import { Link } from "@tanstack/react-router"
+import { Badge } from "@/components/ui/badge"
 import { ContextMenu, ContextMenuTrigger } from "@/components/ui/context-menu"
 import { NoteContextMenu, FolderContextMenu, RootContextMenu } from "@/components/folders/tree-context-menus"
 import { rootDropId } from "@/features/folders/types"
@@ -43,6 +44,8 @@ interface FolderRowProps {
   onDeleteNote: (notePublicId: string) => void
 }
 
+const MAX_VISIBLE_TAGS = 2
+
 interface RootDropRowProps {
   onCreateFolder: () => void
   onCreateNote: () => void
@@ -70,6 +73,8 @@ export function NoteRow({
   const rowStyle = isDragging
     ? { transform: CSS.Translate.toString(transform) }
     : undefined
+  const tags = note.tags ?? []
+  const hiddenTagCount = tags.length - MAX_VISIBLE_TAGS
 
   return (
     <ContextMenu>
@@ -106,6 +111,18 @@ export function NoteRow({
             >
               {label}
             </Link>
+            {tags.length > 0 ? (
+              <div className="flex shrink-0 items-center gap-1" title={tags.map((tag) => `#${tag}`).join(" ")}>
+                {tags.slice(0, MAX_VISIBLE_TAGS).map((tag) => (
+                  <Badge key={tag} variant="secondary" className="max-w-20 truncate px-1.5 py-0 text-[10px] font-normal">
+                    {tag}
+                  </Badge>
+                ))}
+                {hiddenTagCount > 0 ? (
+                  <span className="text-[10px] text-muted-foreground">+{hiddenTagCount}</span>
+                ) : null}
+              </div>
+            ) : null}
           </div>
         </div>
       </ContextMenuTrigger>
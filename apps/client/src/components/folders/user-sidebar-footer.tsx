@@ -1,4 +1,4 @@
-import { ChevronsUpDown, Terminal } from "lucide-react"
+import { ChevronsUpDown, Terminal, Trash2, Users } from "lucide-react"
 import { useState, type JSX } from "react"
 import { CliHelperSheet } from "@/components/cli/cli-helper-sheet"
 import {
@@ -16,6 +16,7 @@ import {
   SidebarMenuItem,
   SidebarSeparator,
 } from "@/components/ui/sidebar"
+import { useUIStore } from "@/stores/ui-store"
 
 /**
  * Props for the UserSidebarFooter component.
@@ -43,6 +44,8 @@ export function UserSidebarFooter({
   workspaceName,
 }: UserSidebarFooterProps): JSX.Element | null {
   const [cliHelperOpen, setCliHelperOpen] = useState(false)
+  const setMembersPanelOpen = useUIStore((state) => state.setMembersPanelOpen)
+  const setTrashPanelOpen = useUIStore((state) => state.setTrashPanelOpen)
 
   if (!user) {
     return null
@@ -55,6 +58,30 @@ export function UserSidebarFooter({
   return (
     <SidebarFooter className="px-4 pb-4">
       <SidebarMenu>
+        {workspaceSlug !== null && (
+          <SidebarMenuItem>
+            <SidebarMenuButton
+              size="lg"
+              onClick={() => setMembersPanelOpen(true)}
+              className="cursor-pointer"
+            >
+              <Users className="size-4" />
+              <span>Members</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        )}
+        {workspaceSlug !== null && (
+          <SidebarMenuItem>
+            <SidebarMenuButton
+              size="lg"
+              onClick={() => setTrashPanelOpen(true)}
+              className="cursor-pointer"
+            >
+              <Trash2 className="size-4" />
+              <span>Trash</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        )}
         {workspaceSlug !== null && (
           <SidebarMenuItem>
             <SidebarMenuButton
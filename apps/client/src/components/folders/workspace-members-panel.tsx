@@ -0,0 +1,320 @@
+import { useQuery } from "@tanstack/react-query"
+import { useNavigate } from "@tanstack/react-router"
+import { useState, type FormEvent, type JSX } from "react"
+import { Copy, UserMinus, X } from "lucide-react"
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import { sessionQueryOptions } from "@/features/auth/queries"
+import {
+  useInviteWorkspaceMember,
+  useRemoveWorkspaceMember,
+  useRevokeWorkspaceInvite,
+  useUpdateWorkspaceMemberRole,
+} from "@/features/workspaces/mutations"
+import {
+  workspaceInvitesQueryOptions,
+  workspaceMembersQueryOptions,
+  workspaceQueryOptions,
+} from "@/features/workspaces/queries"
+import type { WorkspaceRole } from "@/types"
+
+const ROLE_OPTIONS: WorkspaceRole[] = ["owner", "editor", "viewer"]
+
+/**
+ * Build the invitation link for an invite token; it opens the login page,
+ * which signs the invitee up or in and then accepts the invite.
+ */
+const buildInviteLink = (token: string) =>
+  `${window.location.origin}/login?invite=${encodeURIComponent(token)}`
+
+const selectClassName =
+  "h-9 rounded-md border border-input bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring disabled:opacity-50"
+
+/**
+ * Props for the WorkspaceMembersPanel component
+ */
+interface WorkspaceMembersPanelProps {
+  /** Controls whether the panel is open */
+  open: boolean
+  /** Callback when panel open state changes */
+  onOpenChange: (open: boolean) => void
+  /** Current workspace slug */
+  workspaceSlug: string
+  /** Current workspace name */
+  workspaceName: string
+}
+
+/**
+ * Sheet listing workspace members and pending invites.
+ * Owners can invite by email, change roles, revoke invites and remove members;
+ * everyone else can see who has access and leave the workspace.
+ */
+export function WorkspaceMembersPanel({
+  open,
+  onOpenChange,
+  workspaceSlug,
+  workspaceName,
+}: WorkspaceMembersPanelProps): JSX.Element {
+  const navigate = useNavigate()
+  const { data: session } = useQuery(sessionQueryOptions)
+  const { data: workspace } = useQuery({ ...workspaceQueryOptions(workspaceSlug), enabled: open })
+  const isOwner = workspace?.role === "owner"
+
+  const { data: members = [], error: membersError } = useQuery({
+    ...workspaceMembersQueryOptions(workspaceSlug),
+    enabled: open,
+  })
+  const { data: invites = [] } = useQuery({
+    ...workspaceInvitesQueryOptions(workspaceSlug),
+    enabled: open && isOwner,
+  })
+
+  const inviteMutation = useInviteWorkspaceMember()
+  const revokeInviteMutation = useRevokeWorkspaceInvite()
+  const updateRoleMutation = useUpdateWorkspaceMemberRole()
+  const removeMemberMutation = useRemoveWorkspaceMember()
+
+  const [inviteEmail, setInviteEmail] = useState("")
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>("editor")
+  const [inviteLink, setInviteLink] = useState<{ email: string; url: string } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const currentUserId = session?.user?.id ?? null
+
+  const runMutation = async (action: () => Promise<unknown>) => {
+    setError(null)
+    try {
+      await action()
+      return true
+    } catch (mutationError) {
+      setError(mutationError instanceof Error ? mutationError.message : "Something went wrong")
+      return false
+    }
+  }
+
+  const handleInvite = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const email = inviteEmail.trim()
+    if (!email) {
+      setError("Email is required.")
+      return
+    }
+
+    setInviteLink(null)
+    const invited = await runMutation(async () => {
+      const invite = await inviteMutation.mutateAsync({ workspaceSlug, email, role: inviteRole })
+      if (invite) {
+        setInviteLink({ email: invite.email, url: buildInviteLink(invite.token) })
+      }
+    })
+    if (invited) {
+      setInviteEmail("")
+    }
+  }
+
+  const handleCopyInviteLink = async () => {
+    if (!inviteLink) return
+    await runMutation(() => navigator.clipboard.writeText(inviteLink.url))
+  }
+
+  const handleRemoveMember = async (userId: string) => {
+    const removed = await runMutation(() =>
+      removeMemberMutation.mutateAsync({ workspaceSlug, userId })
+    )
+    if (removed && userId === currentUserId) {
+      onOpenChange(false)
+      navigate({ to: "/workspaces" })
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="sm:max-w-md" side="right">
+        <SheetHeader>
+          <SheetTitle>Members</SheetTitle>
+          <SheetDescription>People with access to {workspaceName}.</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 space-y-6 overflow-y-auto px-6 pb-6">
+          {isOwner && (
+            <form className="space-y-2" onSubmit={handleInvite}>
+              <label htmlFor="invite-email" className="text-sm font-medium">
+                Invite by email
+              </label>
+              <div className="flex gap-2">
+                <Input
+                  id="invite-email"
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(event) => setInviteEmail(event.target.value)}
+                  placeholder="teammate@example.com"
+                />
+                <select
+                  aria-label="Invite role"
+                  className={selectClassName}
+                  value={inviteRole}
+                  onChange={(event) => setInviteRole(event.target.value as WorkspaceRole)}
+                >
+                  {ROLE_OPTIONS.map((role) => (
+                    <option key={role} value={role}>{role}</option>
+                  ))}
+                </select>
+              </div>
+              <Button type="submit" className="w-full" disabled={inviteMutation.isPending}>
+                {inviteMutation.isPending ? "Inviting..." : "Create invite link"}
+              </Button>
+            </form>
+          )}
+
+          {isOwner && inviteLink && (
+            <div className="space-y-2 rounded-md border border-border bg-muted/40 px-3 py-2">
+              <p className="text-sm">
+                Send this link to {inviteLink.email}. It works for 7 days and is only shown once;
+                revoke the invite and invite again if it gets lost.
+              </p>
+              <div className="flex gap-2">
+                <Input readOnly value={inviteLink.url} aria-label="Invitation link" onFocus={(event) => event.target.select()} />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  aria-label="Copy invitation link"
+                  title="Copy link"
+                  onClick={handleCopyInviteLink}
+                >
+                  <Copy className="size-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <p className="rounded-md border border-destructive/40 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {error}
+            </p>
+          )}
+
+          <div>
+            <h3 className="text-sm font-medium text-foreground">Members</h3>
+            {membersError ? (
+              <p className="mt-2 text-sm text-destructive">
+                {membersError instanceof Error ? membersError.message : "Failed to load members"}
+              </p>
+            ) : (
+              <ul className="mt-2 space-y-2">
+                {members.map((member) => {
+                  const isSelf = member.userId === currentUserId
+                  return (
+                    <li
+                      key={member.userId}
+                      className="flex items-center justify-between gap-3 rounded-md border border-border px-3 py-2"
+                    >
+                      <div className="min-w-0">
+                        <p className="truncate text-sm font-medium">
+                          {member.name}
+                          {isSelf ? <span className="text-muted-foreground"> (you)</span> : null}
+                        </p>
+                        <p className="truncate text-xs text-muted-foreground">{member.email}</p>
+                      </div>
+                      <div className="flex shrink-0 items-center gap-2">
+                        {isOwner ? (
+                          <select
+                            aria-label={`Role for ${member.name}`}
+                            className={selectClassName}
+                            value={member.role}
+                            disabled={updateRoleMutation.isPending}
+                            onChange={(event) =>
+                              runMutation(() =>
+                                updateRoleMutation.mutateAsync({
+                                  workspaceSlug,
+                                  userId: member.userId,
+                                  role: event.target.value as WorkspaceRole,
+                                })
+                              )
+                            }
+                          >
+                            {ROLE_OPTIONS.map((role) => (
+                              <option key={role} value={role}>{role}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <Badge variant="secondary">{member.role}</Badge>
+                        )}
+                        {(isOwner || isSelf) && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon-sm"
+                            aria-label={isSelf ? "Leave workspace" : `Remove ${member.name}`}
+                            title={isSelf ? "Leave workspace" : "Remove member"}
+                            disabled={removeMemberMutation.isPending}
+                            onClick={() => handleRemoveMember(member.userId)}
+                          >
+                            <UserMinus className="size-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </div>
+
+          {isOwner && invites.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-foreground">Pending invites</h3>
+              <ul className="mt-2 space-y-2">
+                {invites.map((invite) => (
+                  <li
+                    key={invite.publicId}
+                    className="flex items-center justify-between gap-3 rounded-md border border-dashed border-border px-3 py-2"
+                  >
+                    <p className={cn("min-w-0 truncate text-sm", invite.expired && "text-muted-foreground")}>
+                      {invite.email}
+                    </p>
+                    <div className="flex shrink-0 items-center gap-2">
+                      {invite.expired && (
+                        <Badge variant="destructive" title="The invitation link no longer works; revoke it and invite again">
+                          expired
+                        </Badge>
+                      )}
+                      <Badge variant="outline">{invite.role}</Badge>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon-sm"
+                        aria-label={`Revoke invite for ${invite.email}`}
+                        title="Revoke invite"
+                        disabled={revokeInviteMutation.isPending}
+                        onClick={() =>
+                          runMutation(() =>
+                            revokeInviteMutation.mutateAsync({
+                              workspaceSlug,
+                              invitePublicId: invite.publicId,
+                            })
+                          )
+                        }
+                      >
+                        <X className="size-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
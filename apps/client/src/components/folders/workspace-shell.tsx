@@ -1,9 +1,13 @@
-import type { ReactNode } from "react"
+import { useEffect, type ReactNode } from "react"
 
 import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable"
 import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar"
+import { SearchPalette } from "@/components/search/search-palette"
+import { useUIStore } from "@/stores/ui-store"
 import type { WorkspaceTree } from "@/types"
 import FolderTree from "./folder-tree"
+import { TrashPanel } from "./trash-panel"
+import { WorkspaceMembersPanel } from "./workspace-members-panel"
 
 type WorkspaceSummary = {
   id: number
@@ -26,6 +30,30 @@ export default function WorkspaceShell({
   workspaces,
   initialTree,
 }: WorkspaceShellProps) {
+  const membersPanelOpen = useUIStore((state) => state.membersPanelOpen)
+  const setMembersPanelOpen = useUIStore((state) => state.setMembersPanelOpen)
+  const trashPanelOpen = useUIStore((state) => state.trashPanelOpen)
+  const setTrashPanelOpen = useUIStore((state) => state.setTrashPanelOpen)
+  const searchPaletteOpen = useUIStore((state) => state.searchPaletteOpen)
+  const setSearchPaletteOpen = useUIStore((state) => state.setSearchPaletteOpen)
+
+  // Cmd/Ctrl+K toggles the search palette from anywhere in the workspace
+  useEffect(() => {
+    if (workspaceSlug === null) {
+      return
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault()
+        setSearchPaletteOpen(!useUIStore.getState().searchPaletteOpen)
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [setSearchPaletteOpen, workspaceSlug])
+
   return (
     <SidebarProvider>
       <ResizablePanelGroup orientation="horizontal" className="h-svh">
@@ -44,6 +72,27 @@ export default function WorkspaceShell({
           </SidebarInset>
         </ResizablePanel>
       </ResizablePanelGroup>
+      {workspaceSlug !== null && (
+        <>
+          <WorkspaceMembersPanel
+            open={membersPanelOpen}
+            onOpenChange={setMembersPanelOpen}
+            workspaceSlug={workspaceSlug}
+            workspaceName={workspaceName}
+          />
+          <TrashPanel
+            open={trashPanelOpen}
+            onOpenChange={setTrashPanelOpen}
+            workspaceSlug={workspaceSlug}
+            workspaceName={workspaceName}
+          />
+          <SearchPalette
+            open={searchPaletteOpen}
+            onOpenChange={setSearchPaletteOpen}
+            workspaceSlug={workspaceSlug}
+          />
+        </>
+      )}
     </SidebarProvider>
   )
 }
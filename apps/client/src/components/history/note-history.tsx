@@ -1,11 +1,51 @@
 import createDOMPurify, { type WindowLike } from "dompurify"
 import { marked } from "marked"
-import { useState, useEffect } from "react"
-import { ArrowLeft } from "lucide-react"
+import { useState, useEffect, type ReactNode } from "react"
+import { ArrowLeft, RotateCcw } from "lucide-react"
+import { useQuery } from "@tanstack/react-query"
 import { useNavigate } from "@tanstack/react-router"
+import { useRestoreNoteRevision } from "@/features/notes/mutations"
+import { noteRevisionDiffQueryOptions } from "@/features/notes/queries"
+import { workspaceQueryOptions } from "@/features/workspaces/queries"
+import { cn } from "@/lib/utils"
 import type { NoteRevision } from "@/types"
 
 import { Button } from "../ui/button"
+import RevisionDiff, { type DiffViewMode } from "./revision-diff"
+
+type HistoryPanel = "preview" | "changes"
+type CompareTarget = "previous" | "current"
+
+interface SegmentedOption<T extends string> {
+  value: T
+  label: string
+}
+
+function Segmented<T extends string>({
+  value,
+  options,
+  onChange,
+}: {
+  value: T
+  options: SegmentedOption<T>[]
+  onChange: (value: T) => void
+}): ReactNode {
+  return (
+    <div className="flex gap-0.5 rounded-md bg-muted p-0.5">
+      {options.map((option) => (
+        <Button
+          key={option.value}
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange(option.value)}
+          className={cn("h-6 px-2 text-xs", value === option.value && "bg-background shadow-sm")}
+        >
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  )
+}
 
 interface NoteHistoryProps {
   workspaceId: number
@@ -26,6 +66,13 @@ export default function NoteHistory({
   revisionHistory,
 }: NoteHistoryProps) {
   const navigate = useNavigate()
+  const { data: workspace } = useQuery(workspaceQueryOptions(workspaceSlug))
+  const canEdit = workspace?.role === "owner" || workspace?.role === "editor"
+  const restoreMutation = useRestoreNoteRevision()
+  const [restoreError, setRestoreError] = useState<string | null>(null)
+  const [panel, setPanel] = useState<HistoryPanel>("preview")
+  const [compareTo, setCompareTo] = useState<CompareTarget>("previous")
+  const [diffMode, setDiffMode] = useState<DiffViewMode>("unified")
   const [selectedRevisionId, setSelectedRevisionId] = useState<number | null>(
     revisionHistory[0]?.id ?? null
   )
@@ -35,6 +82,10 @@ export default function NoteHistory({
     setSelectedRevisionId(revisionHistory[0]?.id ?? null)
   }, [revisionHistory])
 
+  useEffect(() => {
+    setRestoreError(null)
+  }, [selectedRevisionId])
+
   const dompurify = typeof window !== "undefined" ? createDOMPurify(window as WindowLike) : null
 
   const renderMarkdown = (value: string) => {
@@ -63,6 +114,42 @@ export default function NoteHistory({
       : renderMarkdown(selectedRevision.content)
     : ""
 
+  // The newest revision is what the note already contains
+  const isLatestRevision = selectedRevision?.id === revisionHistory[0]?.id
+
+  // Revisions are listed newest first, so the one before is the next entry
+  const selectedIndex = revisionHistory.findIndex((revision) => revision.id === selectedRevisionId)
+  const previousRevision = selectedIndex >= 0 ? revisionHistory[selectedIndex + 1] ?? null : null
+  const diffRange = selectedRevision
+    ? compareTo === "current"
+      ? { from: selectedRevision.id, to: "current" as const }
+      : previousRevision
+        ? { from: previousRevision.id, to: selectedRevision.id }
+        : null
+    : null
+
+  const diffQuery = useQuery({
+    ...noteRevisionDiffQueryOptions(workspaceSlug, notePublicId, diffRange?.from ?? 0, diffRange?.to ?? "current"),
+    enabled: panel === "changes" && diffRange !== null,
+  })
+
+  const handleRestore = async (revision: NoteRevision) => {
+    if (!window.confirm(`Restore the version from ${formatTimestamp(revision.createdAt)}? The current content is kept in the history.`)) {
+      return
+    }
+
+    setRestoreError(null)
+    try {
+      await restoreMutation.mutateAsync({
+        workspaceSlug,
+        notePublicId,
+        revisionId: revision.id,
+      })
+    } catch (mutationError) {
+      setRestoreError(mutationError instanceof Error ? mutationError.message : "Failed to restore version")
+    }
+  }
+
   return (
     <div className="note-history flex h-full min-h-0 flex-col bg-background">
       <div className="flex items-center gap-3 border-b border-border bg-muted/40 px-4 py-3">
@@ -122,10 +209,77 @@ export default function NoteHistory({
           </div>
           <div className="min-h-0 flex-1 overflow-auto bg-background p-4">
             {selectedRevision ? (
-              <div
-                className="preview-content max-w-4xl text-sm"
-                dangerouslySetInnerHTML={{ __html: revisionPreviewHtml }}
-              />
+              <>
+                <div className="mb-4 flex flex-wrap items-center gap-3">
+                  <Segmented
+                    value={panel}
+                    onChange={setPanel}
+                    options={[
+                      { value: "preview", label: "Preview" },
+                      { value: "changes", label: "Changes" },
+                    ]}
+                  />
+                  {panel === "changes" && (
+                    <>
+                      <Segmented
+                        value={compareTo}
+                        onChange={setCompareTo}
+                        options={[
+                          { value: "previous", label: "Since previous version" },
+                          { value: "current", label: "Compared to current" },
+                        ]}
+                      />
+                      <Segmented
+                        value={diffMode}
+                        onChange={setDiffMode}
+                        options={[
+                          { value: "unified", label: "Unified" },
+                          { value: "split", label: "Split" },
+                        ]}
+                      />
+                    </>
+                  )}
+                  {canEdit && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isLatestRevision || restoreMutation.isPending}
+                      title={isLatestRevision ? "This is the current version" : undefined}
+                      onClick={() => handleRestore(selectedRevision)}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                      {restoreMutation.isPending ? "Restoring..." : "Restore this version"}
+                    </Button>
+                  )}
+                  {restoreError && (
+                    <span className="text-xs text-destructive">{restoreError}</span>
+                  )}
+                </div>
+                {panel === "preview" ? (
+                  <div
+                    className="preview-content max-w-4xl text-sm"
+                    dangerouslySetInnerHTML={{ __html: revisionPreviewHtml }}
+                  />
+                ) : !diffRange ? (
+                  <p className="text-sm text-muted-foreground">This is the first saved version of the note.</p>
+                ) : diffQuery.error ? (
+                  <p className="text-sm text-destructive">{diffQuery.error.message}</p>
+                ) : !diffQuery.data ? (
+                  <p className="text-sm text-muted-foreground">Loading changes...</p>
+                ) : (
+                  <div className="space-y-2">
+                    <p className="text-xs text-muted-foreground">
+                      <span className="text-green-600 dark:text-green-400">+{diffQuery.data.additions}</span>{" "}
+                      <span className="text-red-600 dark:text-red-400">-{diffQuery.data.deletions}</span>
+                    </p>
+                    <RevisionDiff
+                      key={`${diffRange.from}-${diffRange.to}`}
+                      lines={diffQuery.data.lines}
+                      mode={diffMode}
+                    />
+                  </div>
+                )}
+              </>
             ) : (
               <p className="text-muted-foreground">Select a revision to preview.</p>
             )}
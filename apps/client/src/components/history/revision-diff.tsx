@@ -0,0 +1,188 @@
+import { Fragment, useState, type ReactNode } from "react"
+import { cn } from "@/lib/utils"
+import type { DiffLine } from "@/types"
+
+export type DiffViewMode = "unified" | "split"
+
+interface RevisionDiffProps {
+  lines: DiffLine[]
+  mode: DiffViewMode
+}
+
+// Unchanged lines kept visible around each change
+const CONTEXT_LINES = 3
+
+type DiffBlock =
+  | { kind: "lines"; lines: DiffLine[] }
+  | { kind: "gap"; id: number; lines: DiffLine[] }
+
+type SplitRow = { left: DiffLine | null; right: DiffLine | null }
+
+/**
+ * Split the diff into visible blocks and collapsible runs of unchanged lines.
+ * Gaps only ever contain equal lines, so each change run stays in one block.
+ */
+function buildBlocks(lines: DiffLine[]): DiffBlock[] {
+  const changed = lines.map((line) => line.type !== "equal")
+  const visible = lines.map((_, index) => {
+    const start = Math.max(0, index - CONTEXT_LINES)
+    const end = Math.min(lines.length - 1, index + CONTEXT_LINES)
+    for (let cursor = start; cursor <= end; cursor += 1) {
+      if (changed[cursor]) {
+        return true
+      }
+    }
+    return false
+  })
+
+  const blocks: DiffBlock[] = []
+  lines.forEach((line, index) => {
+    const kind = visible[index] ? "lines" : "gap"
+    const last = blocks[blocks.length - 1]
+    if (last && last.kind === kind) {
+      last.lines.push(line)
+    } else if (kind === "gap") {
+      blocks.push({ kind, id: index, lines: [line] })
+    } else {
+      blocks.push({ kind, lines: [line] })
+    }
+  })
+  return blocks
+}
+
+/**
+ * Pair each deleted line with the inserted line at the same position in its
+ * change run, so edits line up side by side.
+ */
+function buildSplitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = []
+  let deleted: DiffLine[] = []
+  let inserted: DiffLine[] = []
+
+  const flush = () => {
+    const count = Math.max(deleted.length, inserted.length)
+    for (let index = 0; index < count; index += 1) {
+      rows.push({ left: deleted[index] ?? null, right: inserted[index] ?? null })
+    }
+    deleted = []
+    inserted = []
+  }
+
+  lines.forEach((line) => {
+    if (line.type === "delete") {
+      deleted.push(line)
+    } else if (line.type === "insert") {
+      inserted.push(line)
+    } else {
+      flush()
+      rows.push({ left: line, right: line })
+    }
+  })
+  flush()
+  return rows
+}
+
+function renderText(line: DiffLine): ReactNode {
+  if (!line.segments) {
+    return line.text || " "
+  }
+  return line.segments.map((segment, index) =>
+    segment.type === "equal" ? (
+      <Fragment key={index}>{segment.text}</Fragment>
+    ) : (
+      <span
+        key={index}
+        className={cn(
+          "rounded-sm",
+          segment.type === "delete" ? "bg-red-500/30" : "bg-green-500/30"
+        )}
+      >
+        {segment.text}
+      </span>
+    )
+  )
+}
+
+const lineBackground = (line: DiffLine | null) => {
+  if (!line) {
+    return "bg-muted/40"
+  }
+  if (line.type === "delete") {
+    return "bg-red-500/10"
+  }
+  if (line.type === "insert") {
+    return "bg-green-500/10"
+  }
+  return ""
+}
+
+const linePrefix = (line: DiffLine) => (line.type === "delete" ? "-" : line.type === "insert" ? "+" : " ")
+
+function UnifiedLine({ line }: { line: DiffLine }) {
+  return (
+    <div className={cn("flex", lineBackground(line))}>
+      <span className="w-10 shrink-0 select-none pr-2 text-right text-muted-foreground tabular-nums">
+        {line.oldLineNumber ?? ""}
+      </span>
+      <span className="w-10 shrink-0 select-none pr-2 text-right text-muted-foreground tabular-nums">
+        {line.newLineNumber ?? ""}
+      </span>
+      <span className="w-4 shrink-0 select-none text-muted-foreground">{linePrefix(line)}</span>
+      <span className="min-w-0 flex-1 whitespace-pre-wrap break-words">{renderText(line)}</span>
+    </div>
+  )
+}
+
+function SplitCell({ line, side }: { line: DiffLine | null; side: "left" | "right" }) {
+  const lineNumber = side === "left" ? line?.oldLineNumber : line?.newLineNumber
+  return (
+    <div className={cn("flex min-w-0", lineBackground(line))}>
+      <span className="w-10 shrink-0 select-none pr-2 text-right text-muted-foreground tabular-nums">
+        {lineNumber ?? ""}
+      </span>
+      <span className="min-w-0 flex-1 whitespace-pre-wrap break-words">{line ? renderText(line) : ""}</span>
+    </div>
+  )
+}
+
+/**
+ * Line diff between two versions of a note with word-level highlights.
+ * Long runs of unchanged lines are collapsed and can be expanded in place.
+ */
+export default function RevisionDiff({ lines, mode }: RevisionDiffProps) {
+  const [expandedGaps, setExpandedGaps] = useState<Set<number>>(() => new Set())
+
+  if (!lines.some((line) => line.type !== "equal")) {
+    return <p className="text-sm text-muted-foreground">No changes between these versions.</p>
+  }
+
+  const renderLines = (blockLines: DiffLine[]) =>
+    mode === "unified"
+      ? blockLines.map((line, index) => <UnifiedLine key={index} line={line} />)
+      : buildSplitRows(blockLines).map((row, index) => (
+          <div key={index} className="grid grid-cols-2 divide-x divide-border">
+            <SplitCell line={row.left} side="left" />
+            <SplitCell line={row.right} side="right" />
+          </div>
+        ))
+
+  return (
+    <div className="overflow-hidden rounded-md border border-border font-mono text-xs leading-5">
+      {buildBlocks(lines).map((block, index) => {
+        if (block.kind === "lines" || expandedGaps.has(block.id)) {
+          return <Fragment key={index}>{renderLines(block.lines)}</Fragment>
+        }
+        return (
+          <button
+            key={index}
+            type="button"
+            className="block w-full bg-muted/60 px-3 py-1 text-left text-muted-foreground hover:bg-muted"
+            onClick={() => setExpandedGaps((previous) => new Set(previous).add(block.id))}
+          >
+            ⋯ {block.lines.length} unchanged {block.lines.length === 1 ? "line" : "lines"}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
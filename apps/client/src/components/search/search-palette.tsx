@@ -0,0 +1,200 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query"
+import { useNavigate } from "@tanstack/react-router"
+import { Fragment, useEffect, useState, type JSX, type KeyboardEvent, type ReactNode } from "react"
+import { FileText, Loader2, Search } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog"
+import { noteSearchQueryOptions } from "@/features/notes/queries"
+import { cn } from "@/lib/utils"
+import { useUIStore } from "@/stores/ui-store"
+import type { NoteSearchMatch } from "@/types"
+
+const SEARCH_DEBOUNCE_MS = 200
+const MAX_LINES_PER_RESULT = 3
+
+/**
+ * Props for the SearchPalette component
+ */
+interface SearchPaletteProps {
+  /** Controls whether the palette is open */
+  open: boolean
+  /** Callback when palette open state changes */
+  onOpenChange: (open: boolean) => void
+  /** Workspace to search in */
+  workspaceSlug: string
+}
+
+/**
+ * Render server-highlighted text without trusting it as HTML.
+ * Only the <mark> delimiters are interpreted; everything else stays plain text.
+ */
+function renderHighlighted(text: string): ReactNode {
+  return text.split(/<mark>(.*?)<\/mark>/gs).map((part, index) =>
+    index % 2 === 1 ? (
+      <mark key={index} className="rounded-sm bg-yellow-200/80 px-0.5 text-foreground dark:bg-yellow-500/40">
+        {part}
+      </mark>
+    ) : (
+      <Fragment key={index}>{part}</Fragment>
+    )
+  )
+}
+
+/**
+ * Command palette for full-text search across the notes of a workspace.
+ * Opened with Cmd/Ctrl+K; arrow keys move the selection and Enter opens the
+ * note at its first matching line.
+ */
+export function SearchPalette({ open, onOpenChange, workspaceSlug }: SearchPaletteProps): JSX.Element {
+  const navigate = useNavigate()
+  const labelMode = useUIStore((state) => state.labelMode)
+  const [query, setQuery] = useState("")
+  const [debouncedQuery, setDebouncedQuery] = useState("")
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [query])
+
+  useEffect(() => {
+    if (!open) {
+      setQuery("")
+      setDebouncedQuery("")
+    }
+  }, [open])
+
+  const { data, isFetching, error } = useQuery({
+    ...noteSearchQueryOptions(workspaceSlug, debouncedQuery),
+    enabled: open && debouncedQuery.length > 0,
+    placeholderData: keepPreviousData,
+  })
+
+  const matches = debouncedQuery.length > 0 ? data?.matches ?? [] : []
+
+  useEffect(() => {
+    setActiveIndex(0)
+  }, [data])
+
+  const openMatch = (match: NoteSearchMatch, line?: number) => {
+    onOpenChange(false)
+    navigate({
+      to: "/workspaces/$workspaceSlug/notes/$noteId",
+      params: { workspaceSlug, noteId: match.publicId },
+      search: (prev: Record<string, unknown>) => ({
+        labels: typeof prev.labels === "string" ? prev.labels : undefined,
+        view: prev.view === "code" || prev.view === "split" || prev.view === "preview" ? prev.view : undefined,
+        line,
+      }),
+    })
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (matches.length === 0) {
+      return
+    }
+
+    if (event.key === "ArrowDown") {
+      event.preventDefault()
+      setActiveIndex((index) => (index + 1) % matches.length)
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault()
+      setActiveIndex((index) => (index - 1 + matches.length) % matches.length)
+    } else if (event.key === "Enter") {
+      event.preventDefault()
+      const match = matches[activeIndex]
+      if (match) {
+        openMatch(match, match.lines[0]?.lineNumber)
+      }
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="top-[20%] translate-y-0 gap-0 overflow-hidden p-0 sm:max-w-2xl" showCloseButton={false}>
+        <DialogTitle className="sr-only">Search notes</DialogTitle>
+        <DialogDescription className="sr-only">
+          Search note titles and content in this workspace
+        </DialogDescription>
+        <div className="flex items-center gap-2 border-b border-border px-4">
+          <Search className="size-4 shrink-0 text-muted-foreground" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search notes..."
+            aria-label="Search notes"
+            className="h-12 flex-1 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+          />
+          {isFetching && <Loader2 className="size-4 shrink-0 animate-spin text-muted-foreground" />}
+        </div>
+
+        <div className="max-h-[60vh] overflow-y-auto p-2">
+          {error ? (
+            <p className="px-3 py-6 text-center text-sm text-destructive">
+              {error instanceof Error ? error.message : "Search failed"}
+            </p>
+          ) : debouncedQuery.length === 0 ? (
+            <p className="px-3 py-6 text-center text-sm text-muted-foreground">
+              Type to search note titles and content.
+            </p>
+          ) : matches.length === 0 && !isFetching ? (
+            <p className="px-3 py-6 text-center text-sm text-muted-foreground">
+              No notes match &quot;{debouncedQuery}&quot;.
+            </p>
+          ) : (
+            <ul role="listbox" aria-label="Search results" className="space-y-1">
+              {matches.map((match, index) => {
+                const label = labelMode === "name" ? `${match.name}.md` : match.title
+                const isActive = index === activeIndex
+                return (
+                  <li
+                    key={match.publicId}
+                    role="option"
+                    aria-selected={isActive}
+                    className={cn(
+                      "cursor-pointer rounded-md px-3 py-2",
+                      isActive ? "bg-accent text-accent-foreground" : "hover:bg-accent/50"
+                    )}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    onClick={() => openMatch(match, match.lines[0]?.lineNumber)}
+                  >
+                    <div className="flex items-center gap-2">
+                      <FileText className="size-4 shrink-0 text-muted-foreground" />
+                      <span className="truncate text-sm font-medium">{label}</span>
+                      {match.folderPath && (
+                        <span className="truncate text-xs text-muted-foreground">{match.folderPath}</span>
+                      )}
+                    </div>
+                    {match.lines.length > 0 ? (
+                      <div className="mt-1 space-y-0.5 pl-6">
+                        {match.lines.slice(0, MAX_LINES_PER_RESULT).map((line) => (
+                          <button
+                            key={line.lineNumber}
+                            type="button"
+                            className="flex w-full gap-2 rounded-sm text-left text-xs text-muted-foreground hover:text-foreground"
+                            onClick={(event) => {
+                              event.stopPropagation()
+                              openMatch(match, line.lineNumber)
+                            }}
+                          >
+                            <span className="w-8 shrink-0 text-right tabular-nums">{line.lineNumber}</span>
+                            <span className="truncate">{renderHighlighted(line.text)}</span>
+                          </button>
+                        ))}
+                      </div>
+                    ) : match.snippet ? (
+                      <p className="mt-1 line-clamp-2 pl-6 text-xs text-muted-foreground">
+                        {renderHighlighted(match.snippet)}
+                      </p>
+                    ) : null}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,5 +1,5 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query"
-import type { UpdateNoteContentResponse } from "@/types"
+import type { RestoreRevisionResponse, UpdateNoteContentResponse } from "@/types"
 import { apiClient } from "@/lib/api-client"
 import { workspaceQueryKeys, noteQueryKeys } from "@/lib/query/query-keys"
 
@@ -169,6 +169,71 @@ export function useDeleteFolder() {
       queryClient.invalidateQueries({
         queryKey: workspaceQueryKeys.tree(params.workspaceSlug),
       })
+      queryClient.invalidateQueries({
+        queryKey: workspaceQueryKeys.trash(params.workspaceSlug),
+      })
+    },
+  })
+}
+
+/**
+ * Mutation hook for restoring a folder and its contents from the trash
+ *
+ * Invalidates workspace tree and trash after successful restore
+ */
+export function useRestoreFolder() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (params: {
+      workspaceSlug: string
+      folderPublicId: string
+    }) => {
+      const response = await apiClient.restoreFolder(
+        params.workspaceSlug,
+        params.folderPublicId
+      )
+      if (response.error) {
+        throw new Error(response.error)
+      }
+      return response.data
+    },
+    onSuccess: (_, params) => {
+      queryClient.invalidateQueries({
+        queryKey: workspaceQueryKeys.tree(params.workspaceSlug),
+      })
+      queryClient.invalidateQueries({
+        queryKey: workspaceQueryKeys.trash(params.workspaceSlug),
+      })
+    },
+  })
+}
+
+/**
+ * Mutation hook for permanently deleting a folder and its contents from the trash
+ *
+ * Invalidates the trash after successful deletion
+ */
+export function usePurgeFolder() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (params: {
+      workspaceSlug: string
+      folderPublicId: string
+    }) => {
+      const response = await apiClient.purgeFolder(
+        params.workspaceSlug,
+        params.folderPublicId
+      )
+      if (response.error) {
+        throw new Error(response.error)
+      }
+    },
+    onSuccess: (_, params) => {
+      queryClient.invalidateQueries({
+        queryKey: workspaceQueryKeys.trash(params.workspaceSlug),
+      })
     },
   })
 }
@@ -199,6 +264,9 @@ export function useDeleteNote() {
       queryClient.invalidateQueries({
         queryKey: workspaceQueryKeys.tree(params.workspaceSlug),
       })
+      queryClient.invalidateQueries({
+        queryKey: workspaceQueryKeys.trash(params.workspaceSlug),
+      })
       // Also invalidate the note detail if it's loaded
       queryClient.invalidateQueries({
         queryKey: noteQueryKeys.detail(params.workspaceSlug, params.notePublicId),
@@ -207,6 +275,71 @@ export function useDeleteNote() {
   })
 }
 
+/**
+ * Mutation hook for restoring a note from the trash
+ *
+ * Invalidates workspace tree and trash after successful restore
+ */
+export function useRestoreNote() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (params: {
+      workspaceSlug: string
+      notePublicId: string
+    }) => {
+      const response = await apiClient.restoreNote(
+        params.workspaceSlug,
+        params.notePublicId
+      )
+      if (response.error) {
+        throw new Error(response.error)
+      }
+      return response.data
+    },
+    onSuccess: (_, params) => {
+      queryClient.invalidateQueries({
+        queryKey: workspaceQueryKeys.tree(params.workspaceSlug),
+      })
+      queryClient.invalidateQueries({
+        queryKey: workspaceQueryKeys.trash(params.workspaceSlug),
+      })
+      queryClient.invalidateQueries({
+        queryKey: noteQueryKeys.detail(params.workspaceSlug, params.notePublicId),
+      })
+    },
+  })
+}
+
+/**
+ * Mutation hook for permanently deleting a note from the trash
+ *
+ * Invalidates the trash after successful deletion
+ */
+export function usePurgeNote() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (params: {
+      workspaceSlug: string
+      notePublicId: string
+    }) => {
+      const response = await apiClient.purgeNote(
+        params.workspaceSlug,
+        params.notePublicId
+      )
+      if (response.error) {
+        throw new Error(response.error)
+      }
+    },
+    onSuccess: (_, params) => {
+      queryClient.invalidateQueries({
+        queryKey: workspaceQueryKeys.trash(params.workspaceSlug),
+      })
+    },
+  })
+}
+
 /**
  * Mutation hook for moving a folder
  *
@@ -308,3 +441,41 @@ export function useUpdateNoteContent() {
     },
   })
 }
+
+/**
+ * Mutation hook for restoring a note to a previous revision
+ *
+ * Invalidates the note detail and history after successful restore
+ */
+export function useRestoreNoteRevision() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (params: {
+      workspaceSlug: string
+      notePublicId: string
+      revisionId: number
+    }): Promise<RestoreRevisionResponse> => {
+      const response = await apiClient.restoreNoteRevision(
+        params.workspaceSlug,
+        params.notePublicId,
+        params.revisionId
+      )
+      if (response.error) {
+        throw new Error(response.error)
+      }
+      if (!response.data) {
+        throw new Error("Failed to restore revision")
+      }
+      return response.data
+    },
+    onSuccess: (_, params) => {
+      queryClient.invalidateQueries({
+        queryKey: noteQueryKeys.detail(params.workspaceSlug, params.notePublicId),
+      })
+      queryClient.invalidateQueries({
+        queryKey: noteQueryKeys.history(params.workspaceSlug, params.notePublicId),
+      })
+    },
+  })
+}
@@ -1,4 +1,4 @@
-import type { Note, NoteHistoryResponse, CollabToken } from "@/types"
+import type { Note, NoteHistoryResponse, RevisionDiffResponse, CollabToken, NoteSearchResponse, NoteBacklinksResponse } from "@/types"
 import { apiClient } from "@/lib/api-client"
 import { noteQueryKeys } from "@/lib/query/query-keys"
 
@@ -58,6 +58,50 @@ export function noteHistoryQueryOptions(workspaceSlug: string, noteId: string) {
   }
 }
 
+/**
+ * Query option factory for diffing two revisions of a note
+ * Pass "current" as toRevisionId to compare against the current content
+ */
+export function noteRevisionDiffQueryOptions(
+  workspaceSlug: string,
+  noteId: string,
+  fromRevisionId: number,
+  toRevisionId: number | "current"
+) {
+  return {
+    queryKey: noteQueryKeys.diff(workspaceSlug, noteId, fromRevisionId, toRevisionId),
+    queryFn: async (): Promise<RevisionDiffResponse> => {
+      const response = await apiClient.getNoteRevisionDiff(workspaceSlug, noteId, fromRevisionId, toRevisionId)
+      if (response.status === 401) {
+        throw new UnauthorizedError()
+      }
+      if (response.status !== 200 || !response.data) {
+        throw new Error(response.error || "Failed to load revision diff")
+      }
+      return response.data
+    },
+  }
+}
+
+/**
+ * Query option factory for listing the notes that link to a note
+ */
+export function noteBacklinksQueryOptions(workspaceSlug: string, noteId: string) {
+  return {
+    queryKey: noteQueryKeys.backlinks(workspaceSlug, noteId),
+    queryFn: async (): Promise<NoteBacklinksResponse> => {
+      const response = await apiClient.getNoteBacklinks(workspaceSlug, noteId)
+      if (response.status === 401) {
+        throw new UnauthorizedError()
+      }
+      if (response.status !== 200 || !response.data) {
+        throw new Error(response.error || "Failed to load backlinks")
+      }
+      return response.data
+    },
+  }
+}
+
 /**
  * Query option factory for fetching a collab token for a note
  */
@@ -76,3 +120,23 @@ export function collabTokenQueryOptions(workspaceSlug: string, noteId: string) {
     },
   }
 }
+
+/**
+ * Query option factory for full-text note search within a workspace
+ */
+export function noteSearchQueryOptions(workspaceSlug: string, query: string) {
+  return {
+    queryKey: noteQueryKeys.search(workspaceSlug, query),
+    queryFn: async (): Promise<NoteSearchResponse> => {
+      const response = await apiClient.searchNotes(workspaceSlug, query)
+      if (response.status === 401) {
+        throw new UnauthorizedError()
+      }
+      if (response.status !== 200 || !response.data) {
+        throw new Error(response.error || "Failed to search notes")
+      }
+      return response.data
+    },
+    staleTime: 30_000,
+  }
+}
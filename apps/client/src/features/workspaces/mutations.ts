@@ -1,6 +1,7 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query"
 import type { UploadWorkspaceEntriesRequest } from "@/types"
 import type { UploadWorkspaceEntriesResponse } from "@/types"
+import type { WorkspaceRole } from "@/types"
 import { apiClient } from "@/lib/api-client"
 import { workspaceQueryKeys } from "@/lib/query/query-keys"
 
@@ -58,3 +59,134 @@ export function useUploadWorkspaceEntries() {
     },
   })
 }
+
+/**
+ * Mutation hook for inviting a user to a workspace by email
+ *
+ * Invalidates the workspace's pending invites after success
+ */
+export function useInviteWorkspaceMember() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (params: { workspaceSlug: string; email: string; role: WorkspaceRole }) => {
+      const response = await apiClient.createWorkspaceInvite(
+        params.workspaceSlug,
+        params.email,
+        params.role
+      )
+      if (response.error) {
+        throw new Error(response.error)
+      }
+      return response.data
+    },
+    onSuccess: (_, params) => {
+      queryClient.invalidateQueries({
+        queryKey: workspaceQueryKeys.invites(params.workspaceSlug),
+      })
+    },
+  })
+}
+
+/**
+ * Mutation hook for revoking a pending workspace invite
+ *
+ * Invalidates the workspace's pending invites after success
+ */
+export function useRevokeWorkspaceInvite() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (params: { workspaceSlug: string; invitePublicId: string }) => {
+      const response = await apiClient.revokeWorkspaceInvite(
+        params.workspaceSlug,
+        params.invitePublicId
+      )
+      if (response.error) {
+        throw new Error(response.error)
+      }
+    },
+    onSuccess: (_, params) => {
+      queryClient.invalidateQueries({
+        queryKey: workspaceQueryKeys.invites(params.workspaceSlug),
+      })
+    },
+  })
+}
+
+/**
+ * Mutation hook for changing a workspace member's role
+ *
+ * Invalidates the member list and workspace detail (the caller's own role may change)
+ */
+export function useUpdateWorkspaceMemberRole() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (params: { workspaceSlug: string; userId: string; role: WorkspaceRole }) => {
+      const response = await apiClient.updateWorkspaceMemberRole(
+        params.workspaceSlug,
+        params.userId,
+        params.role
+      )
+      if (response.error) {
+        throw new Error(response.error)
+      }
+      return response.data
+    },
+    onSuccess: (_, params) => {
+      queryClient.invalidateQueries({
+        queryKey: workspaceQueryKeys.members(params.workspaceSlug),
+      })
+      queryClient.invalidateQueries({
+        queryKey: workspaceQueryKeys.detail(params.workspaceSlug),
+      })
+    },
+  })
+}
+
+/**
+ * Mutation hook for removing a member from a workspace (or leaving it)
+ *
+ * Invalidates the member list and the workspaces list
+ */
+export function useRemoveWorkspaceMember() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (params: { workspaceSlug: string; userId: string }) => {
+      const response = await apiClient.removeWorkspaceMember(params.workspaceSlug, params.userId)
+      if (response.error) {
+        throw new Error(response.error)
+      }
+    },
+    onSuccess: (_, params) => {
+      queryClient.invalidateQueries({
+        queryKey: workspaceQueryKeys.members(params.workspaceSlug),
+      })
+      queryClient.invalidateQueries({ queryKey: workspaceQueryKeys.list() })
+    },
+  })
+}
+
+/**
+ * Mutation hook for accepting an invite from its invitation link token
+ *
+ * Invalidates the workspaces list after success
+ */
+export function useAcceptWorkspaceInvite() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (params: { token: string }) => {
+      const response = await apiClient.acceptWorkspaceInvite(params.token)
+      if (response.error) {
+        throw new Error(response.error)
+      }
+      return response.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: workspaceQueryKeys.list() })
+    },
+  })
+}
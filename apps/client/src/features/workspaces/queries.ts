@@ -1,4 +1,11 @@
-import type { Workspace, WorkspaceTree } from "@/types"
+import type {
+  TrashedFolder,
+  TrashedNote,
+  Workspace,
+  WorkspaceInvite,
+  WorkspaceMember,
+  WorkspaceTree,
+} from "@/types"
 import { apiClient } from "@/lib/api-client"
 import { workspaceQueryKeys } from "@/lib/query/query-keys"
 
@@ -74,3 +81,79 @@ export function workspaceTreeQueryOptions(slug: string) {
     },
   }
 }
+
+/**
+ * Query option factory for fetching the members of a workspace
+ */
+export function workspaceMembersQueryOptions(slug: string) {
+  return {
+    queryKey: workspaceQueryKeys.members(slug),
+    queryFn: async (): Promise<WorkspaceMember[]> => {
+      const response = await apiClient.listWorkspaceMembers(slug)
+      if (response.status === 401) {
+        throw new UnauthorizedError()
+      }
+      if (response.status !== 200 || !response.data) {
+        throw new Error(response.error || "Failed to load workspace members")
+      }
+      return response.data
+    },
+  }
+}
+
+/**
+ * Query option factory for fetching pending invites of a workspace (owners only)
+ */
+export function workspaceInvitesQueryOptions(slug: string) {
+  return {
+    queryKey: workspaceQueryKeys.invites(slug),
+    queryFn: async (): Promise<WorkspaceInvite[]> => {
+      const response = await apiClient.listWorkspaceInvites(slug)
+      if (response.status === 401) {
+        throw new UnauthorizedError()
+      }
+      if (response.status !== 200 || !response.data) {
+        throw new Error(response.error || "Failed to load workspace invites")
+      }
+      return response.data
+    },
+  }
+}
+
+/**
+ * Query option factory for fetching the deleted notes of a workspace
+ */
+export function workspaceTrashQueryOptions(slug: string) {
+  return {
+    queryKey: workspaceQueryKeys.trash(slug),
+    queryFn: async (): Promise<TrashedNote[]> => {
+      const response = await apiClient.listTrash(slug)
+      if (response.status === 401) {
+        throw new UnauthorizedError()
+      }
+      if (response.status !== 200 || !response.data) {
+        throw new Error(response.error || "Failed to load trash")
+      }
+      return response.data
+    },
+  }
+}
+
+/**
+ * Query option factory for fetching the deleted folders of a workspace
+ */
+export function workspaceTrashedFoldersQueryOptions(slug: string) {
+  return {
+    queryKey: workspaceQueryKeys.trashedFolders(slug),
+    queryFn: async (): Promise<TrashedFolder[]> => {
+      const response = await apiClient.listTrashedFolders(slug)
+      if (response.status === 401) {
+        throw new UnauthorizedError()
+      }
+      if (response.status !== 200 || !response.data) {
+        throw new Error(response.error || "Failed to load trash")
+      }
+      return response.data
+    },
+  }
+}
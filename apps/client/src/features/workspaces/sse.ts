@@ -26,7 +26,11 @@ interface FolderEventData {
   workspaceId: number
 }
 
-type EventData = NoteEventData | FolderEventData | Record<string, unknown>
+interface BatchEventData {
+  events?: { type: string; data?: EventData }[]
+}
+
+type EventData = NoteEventData | FolderEventData | BatchEventData | Record<string, unknown>
 
 /**
  * Hook to subscribe to workspace SSE events and invalidate queries
@@ -44,6 +48,91 @@ export function useWorkspaceSSE(workspaceSlug: string | null) {
       return
     }
 
+    /**
+     * Invalidate the queries affected by one workspace event
+     */
+    const invalidateForEvent = (eventType: string, eventData: EventData) => {
+      // Invalidate appropriate query keys based on event type
+      switch (eventType) {
+        case "note.created":
+        case "note.updated":
+        case "note.deleted":
+        case "note.moved":
+        case "folder.created":
+        case "folder.updated":
+        case "folder.deleted":
+        case "folder.moved":
+          // All workspace tree changes invalidate the tree
+          queryClient.invalidateQueries({
+            queryKey: workspaceQueryKeys.tree(workspaceSlug),
+          })
+
+          // Any change may affect search results and folder paths
+          queryClient.invalidateQueries({
+            queryKey: noteQueryKeys.searches(),
+          })
+
+          // ...and which notes link where
+          queryClient.invalidateQueries({
+            queryKey: noteQueryKeys.backlinksAll(),
+          })
+
+          // Deletes add to the trash and restores (published as *.created) leave it
+          if (
+            eventType === "note.created" ||
+            eventType === "note.deleted" ||
+            eventType === "folder.created" ||
+            eventType === "folder.deleted"
+          ) {
+            queryClient.invalidateQueries({
+              queryKey: workspaceQueryKeys.trash(workspaceSlug),
+            })
+          }
+
+          // For note events, also invalidate the specific note if we can identify it
+          if (
+            (eventType === "note.created" ||
+              eventType === "note.updated" ||
+              eventType === "note.deleted" ||
+              eventType === "note.moved") &&
+            "publicId" in eventData &&
+            typeof eventData.publicId === "string"
+          ) {
+            queryClient.invalidateQueries({
+              queryKey: noteQueryKeys.detail(workspaceSlug, eventData.publicId),
+            })
+          }
+
+          // For note history, invalidate when note is updated
+          if (
+            eventType === "note.updated" &&
+            "publicId" in eventData &&
+            typeof eventData.publicId === "string"
+          ) {
+            queryClient.invalidateQueries({
+              queryKey: noteQueryKeys.history(workspaceSlug, eventData.publicId),
+            })
+          }
+
+          break
+
+        case "batch.applied":
+          // A batch write lists the note and folder events it stands for
+          for (const batched of (eventData as BatchEventData).events ?? []) {
+            invalidateForEvent(batched.type, batched.data ?? {})
+          }
+          break
+
+        case "ready":
+          // Initial connection established - no cache action needed
+          break
+
+        default:
+          // Log unknown events for debugging (but don't fail)
+          console.debug("Unknown SSE event type:", eventType, eventData)
+      }
+    }
+
     /**
      * Handle incoming SSE events
      */
@@ -51,58 +140,7 @@ export function useWorkspaceSSE(workspaceSlug: string | null) {
       try {
         // EventSource sends events with 'event' type being the event name
         // The data is parsed from the 'data' field
-        const eventData: EventData = JSON.parse(event.data)
-        const eventType = event.type
-
-        // Invalidate appropriate query keys based on event type
-        switch (eventType) {
-          case "note.created":
-          case "note.updated":
-          case "note.deleted":
-          case "note.moved":
-          case "folder.created":
-          case "folder.updated":
-          case "folder.deleted":
-          case "folder.moved":
-            // All workspace tree changes invalidate the tree
-            queryClient.invalidateQueries({
-              queryKey: workspaceQueryKeys.tree(workspaceSlug),
-            })
-
-            // For note events, also invalidate the specific note if we can identify it
-            if (
-              (eventType === "note.updated" ||
-                eventType === "note.deleted" ||
-                eventType === "note.moved") &&
-              "publicId" in eventData &&
-              typeof eventData.publicId === "string"
-            ) {
-              queryClient.invalidateQueries({
-                queryKey: noteQueryKeys.detail(workspaceSlug, eventData.publicId),
-              })
-            }
-
-            // For note history, invalidate when note is updated
-            if (
-              eventType === "note.updated" &&
-              "publicId" in eventData &&
-              typeof eventData.publicId === "string"
-            ) {
-              queryClient.invalidateQueries({
-                queryKey: noteQueryKeys.history(workspaceSlug, eventData.publicId),
-              })
-            }
-
-            break
-
-          case "ready":
-            // Initial connection established - no cache action needed
-            break
-
-          default:
-            // Log unknown events for debugging (but don't fail)
-            console.debug("Unknown SSE event type:", eventType, eventData)
-        }
+        invalidateForEvent(event.type, JSON.parse(event.data))
       } catch (error) {
         console.warn("Failed to parse SSE event:", error)
       }
@@ -18,7 +18,19 @@ import type {
   CollabToken,
   UpdateNoteContentResponse,
   NoteHistoryResponse,
+  RestoreRevisionResponse,
+  RevisionDiffResponse,
   ServerCapabilities,
+  WorkspaceMember,
+  WorkspaceInvite,
+  WorkspaceRole,
+  CreatedWorkspaceInvite,
+  NoteSearchResponse,
+  NoteBacklinksResponse,
+  TrashedNote,
+  RestoredNote,
+  TrashedFolder,
+  RestoredFolder,
 } from "@/types";
 
 /**
@@ -201,6 +213,83 @@ export class ApiClient {
     });
   }
 
+  // Members API
+
+  /**
+   * List members of a workspace
+   */
+  async listWorkspaceMembers(workspaceSlug: string): Promise<ApiResponse<WorkspaceMember[]>> {
+    return this.request<WorkspaceMember[]>(`/api/workspaces/${workspaceSlug}/members`);
+  }
+
+  /**
+   * Change a member's role (owners only)
+   */
+  async updateWorkspaceMemberRole(
+    workspaceSlug: string,
+    userId: string,
+    role: WorkspaceRole
+  ): Promise<ApiResponse<{ userId: string; role: WorkspaceRole }>> {
+    return this.request<{ userId: string; role: WorkspaceRole }>(
+      `/api/workspaces/${workspaceSlug}/members/${userId}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify({ role }),
+      }
+    );
+  }
+
+  /**
+   * Remove a member from a workspace, or leave it when userId is the current user
+   */
+  async removeWorkspaceMember(workspaceSlug: string, userId: string): Promise<ApiResponse<void>> {
+    return this.request<void>(`/api/workspaces/${workspaceSlug}/members/${userId}`, {
+      method: "DELETE",
+    });
+  }
+
+  /**
+   * List pending invites of a workspace (owners only)
+   */
+  async listWorkspaceInvites(workspaceSlug: string): Promise<ApiResponse<WorkspaceInvite[]>> {
+    return this.request<WorkspaceInvite[]>(`/api/workspaces/${workspaceSlug}/members/invites`);
+  }
+
+  /**
+   * Invite a user to a workspace by email (owners only)
+   */
+  async createWorkspaceInvite(
+    workspaceSlug: string,
+    email: string,
+    role: WorkspaceRole
+  ): Promise<ApiResponse<CreatedWorkspaceInvite>> {
+    return this.request<CreatedWorkspaceInvite>(`/api/workspaces/${workspaceSlug}/members/invites`, {
+      method: "POST",
+      body: JSON.stringify({ email, role }),
+    });
+  }
+
+  /**
+   * Revoke a pending invite (owners only)
+   */
+  async revokeWorkspaceInvite(workspaceSlug: string, invitePublicId: string): Promise<ApiResponse<void>> {
+    return this.request<void>(`/api/workspaces/${workspaceSlug}/members/invites/${invitePublicId}`, {
+      method: "DELETE",
+    });
+  }
+
+  /**
+   * Accept an invite using the token from its invitation link
+   */
+  async acceptWorkspaceInvite(
+    token: string
+  ): Promise<ApiResponse<{ workspaceSlug: string; role: WorkspaceRole }>> {
+    return this.request<{ workspaceSlug: string; role: WorkspaceRole }>("/api/workspaces/invites/accept", {
+      method: "POST",
+      body: JSON.stringify({ token }),
+    });
+  }
+
   // Notes API
 
   /**
@@ -270,6 +359,115 @@ export class ApiClient {
     );
   }
 
+  /**
+   * Get a line diff between two revisions, or a revision and the current content
+   */
+  async getNoteRevisionDiff(
+    workspaceSlug: string,
+    notePublicId: string,
+    fromRevisionId: number,
+    toRevisionId: number | "current"
+  ): Promise<ApiResponse<RevisionDiffResponse>> {
+    const params = new URLSearchParams({ from: String(fromRevisionId), to: String(toRevisionId) });
+    return this.request<RevisionDiffResponse>(
+      `/api/workspaces/${workspaceSlug}/notes/${notePublicId}/history/diff?${params.toString()}`
+    );
+  }
+
+  /**
+   * Restore a note to a previous revision
+   */
+  async restoreNoteRevision(
+    workspaceSlug: string,
+    notePublicId: string,
+    revisionId: number
+  ): Promise<ApiResponse<RestoreRevisionResponse>> {
+    return this.request<RestoreRevisionResponse>(
+      `/api/workspaces/${workspaceSlug}/notes/${notePublicId}/history/${revisionId}/restore`,
+      { method: "POST" }
+    );
+  }
+
+  /**
+   * List the notes that link to a note with [[...]]
+   */
+  async getNoteBacklinks(
+    workspaceSlug: string,
+    notePublicId: string
+  ): Promise<ApiResponse<NoteBacklinksResponse>> {
+    return this.request<NoteBacklinksResponse>(
+      `/api/workspaces/${workspaceSlug}/notes/${notePublicId}/backlinks`
+    );
+  }
+
+  /**
+   * Full-text search over the notes of a workspace
+   */
+  async searchNotes(
+    workspaceSlug: string,
+    query: string,
+    limit?: number
+  ): Promise<ApiResponse<NoteSearchResponse>> {
+    const params = new URLSearchParams({ q: query });
+    if (limit) {
+      params.set("limit", String(limit));
+    }
+    return this.request<NoteSearchResponse>(`/api/workspaces/${workspaceSlug}/search?${params.toString()}`);
+  }
+
+  // Trash API
+
+  /**
+   * List deleted notes of a workspace
+   */
+  async listTrash(workspaceSlug: string): Promise<ApiResponse<TrashedNote[]>> {
+    return this.request<TrashedNote[]>(`/api/workspaces/${workspaceSlug}/trash`);
+  }
+
+  /**
+   * Restore a deleted note, recreating its folders if needed
+   */
+  async restoreNote(workspaceSlug: string, notePublicId: string): Promise<ApiResponse<RestoredNote>> {
+    return this.request<RestoredNote>(`/api/workspaces/${workspaceSlug}/trash/${notePublicId}/restore`, {
+      method: "POST",
+    });
+  }
+
+  /**
+   * Permanently delete a note from the trash
+   */
+  async purgeNote(workspaceSlug: string, notePublicId: string): Promise<ApiResponse<void>> {
+    return this.request<void>(`/api/workspaces/${workspaceSlug}/trash/${notePublicId}`, {
+      method: "DELETE",
+    });
+  }
+
+  /**
+   * List deleted folders of a workspace
+   */
+  async listTrashedFolders(workspaceSlug: string): Promise<ApiResponse<TrashedFolder[]>> {
+    return this.request<TrashedFolder[]>(`/api/workspaces/${workspaceSlug}/trash/folders`);
+  }
+
+  /**
+   * Restore a deleted folder together with the subfolders and notes deleted with it
+   */
+  async restoreFolder(workspaceSlug: string, folderPublicId: string): Promise<ApiResponse<RestoredFolder>> {
+    return this.request<RestoredFolder>(
+      `/api/workspaces/${workspaceSlug}/trash/folders/${folderPublicId}/restore`,
+      { method: "POST" }
+    );
+  }
+
+  /**
+   * Permanently delete a folder and its contents from the trash
+   */
+  async purgeFolder(workspaceSlug: string, folderPublicId: string): Promise<ApiResponse<void>> {
+    return this.request<void>(`/api/workspaces/${workspaceSlug}/trash/folders/${folderPublicId}`, {
+      method: "DELETE",
+    });
+  }
+
   // Workspace Tree API
 
   /**
@@ -428,6 +626,7 @@ export class ApiClient {
       "folder.updated",
       "folder.deleted",
       "folder.moved",
+      "batch.applied",
       "ready",
     ] as const;
 
@@ -22,7 +22,7 @@ export const authQueryKeys = {
 /**
  * Workspace query keys
  *
- * Hierarchy: workspaces → [all, list, detail, tree] → optional slug
+ * Hierarchy: workspaces → [all, list, detail, tree, members, invites, trash] → optional slug
  */
 export const workspaceQueryKeys = {
   all: ["workspaces"] as const,
@@ -32,12 +32,17 @@ export const workspaceQueryKeys = {
   detail: (slug: string) => [...workspaceQueryKeys.details(), slug] as const,
   trees: () => [...workspaceQueryKeys.all, "tree"] as const,
   tree: (slug: string) => [...workspaceQueryKeys.trees(), slug] as const,
+  members: (slug: string) => [...workspaceQueryKeys.all, "members", slug] as const,
+  invites: (slug: string) => [...workspaceQueryKeys.all, "invites", slug] as const,
+  trash: (slug: string) => [...workspaceQueryKeys.all, "trash", slug] as const,
+  trashedFolders: (slug: string) => [...workspaceQueryKeys.trash(slug), "folders"] as const,
 } as const
 
 /**
  * Note query keys
  *
- * Hierarchy: notes → [detail, history, collabToken] → workspaceSlug, noteId
+ * Hierarchy: notes → [detail, history, backlinks, collabToken, search] → workspaceSlug, noteId | query
+ * Revision diffs live under their note's history so they refresh with it.
  */
 export const noteQueryKeys = {
   all: ["notes"] as const,
@@ -47,9 +52,17 @@ export const noteQueryKeys = {
   histories: () => [...noteQueryKeys.all, "history"] as const,
   history: (workspaceSlug: string, noteId: string) =>
     [...noteQueryKeys.histories(), workspaceSlug, noteId] as const,
+  diff: (workspaceSlug: string, noteId: string, fromRevisionId: number, toRevisionId: number | "current") =>
+    [...noteQueryKeys.history(workspaceSlug, noteId), "diff", fromRevisionId, toRevisionId] as const,
+  backlinksAll: () => [...noteQueryKeys.all, "backlinks"] as const,
+  backlinks: (workspaceSlug: string, noteId: string) =>
+    [...noteQueryKeys.backlinksAll(), workspaceSlug, noteId] as const,
   collabTokens: () => [...noteQueryKeys.all, "collabToken"] as const,
   collabToken: (workspaceSlug: string, noteId: string) =>
     [...noteQueryKeys.collabTokens(), workspaceSlug, noteId] as const,
+  searches: () => [...noteQueryKeys.all, "search"] as const,
+  search: (workspaceSlug: string, query: string) =>
+    [...noteQueryKeys.searches(), workspaceSlug, query] as const,
 } as const
 
 /**
@@ -74,11 +87,20 @@ export type WorkspaceQueryKey =
   | typeof workspaceQueryKeys.trees
   | ReturnType<typeof workspaceQueryKeys.detail>
   | ReturnType<typeof workspaceQueryKeys.tree>
+  | ReturnType<typeof workspaceQueryKeys.members>
+  | ReturnType<typeof workspaceQueryKeys.invites>
+  | ReturnType<typeof workspaceQueryKeys.trash>
+  | ReturnType<typeof workspaceQueryKeys.trashedFolders>
 export type NoteQueryKey =
   | typeof noteQueryKeys.all
   | typeof noteQueryKeys.details
   | typeof noteQueryKeys.histories
+  | typeof noteQueryKeys.backlinksAll
   | typeof noteQueryKeys.collabTokens
+  | typeof noteQueryKeys.searches
   | ReturnType<typeof noteQueryKeys.detail>
   | ReturnType<typeof noteQueryKeys.history>
+  | ReturnType<typeof noteQueryKeys.diff>
+  | ReturnType<typeof noteQueryKeys.backlinks>
   | ReturnType<typeof noteQueryKeys.collabToken>
+  | ReturnType<typeof noteQueryKeys.search>
@@ -0,0 +1,137 @@
+import type { TokenizerAndRendererExtension, Tokens } from "marked"
+import type { FolderNode, NoteSummary, WorkspaceTree } from "@/types"
+
+/**
+ * Wiki-style links between notes: [[note-name]], [[folder/note-name]] and
+ * [[target|label]].
+ *
+ * Targets resolve like they do on the server: a path is matched from the
+ * workspace root, a bare name prefers a note in the linking note's folder,
+ * then one at the root, then the first note with that name.
+ */
+
+interface IndexedNote {
+  publicId: string
+  title: string
+  folderPublicId: string | null
+}
+
+export interface WikiLinkIndex {
+  byPath: Map<string, IndexedNote>
+  byName: Map<string, IndexedNote[]>
+  /** Note public ID -> public ID of its folder, null at the root */
+  folderOf: Map<string, string | null>
+}
+
+interface WikiLinkToken extends Tokens.Generic {
+  type: "wikiLink"
+  raw: string
+  target: string
+  label: string | null
+}
+
+const WIKI_LINK_PATTERN = /^\[\[([^[\]|\n]+)(?:\|([^[\]\n]*))?\]\]/
+
+export const normalizeLinkTarget = (raw: string): string =>
+  raw.trim().replace(/^\/+/, "").replace(/\.md$/i, "")
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+
+export const buildWikiLinkIndex = (tree: WorkspaceTree | undefined): WikiLinkIndex => {
+  const index: WikiLinkIndex = { byPath: new Map(), byName: new Map(), folderOf: new Map() }
+  if (!tree) {
+    return index
+  }
+
+  const addNote = (note: NoteSummary, parentPath: string) => {
+    const path = parentPath ? `${parentPath}/${note.name}` : note.name
+    const entry = { publicId: note.publicId, title: note.title, folderPublicId: note.folderPublicId }
+    index.folderOf.set(note.publicId, note.folderPublicId)
+    if (!index.byPath.has(path)) {
+      index.byPath.set(path, entry)
+    }
+    const sameName = index.byName.get(note.name) ?? []
+    sameName.push(entry)
+    index.byName.set(note.name, sameName)
+  }
+
+  const addFolder = (folder: FolderNode, parentPath: string) => {
+    const path = parentPath ? `${parentPath}/${folder.name}` : folder.name
+    folder.notes.forEach((note) => addNote(note, path))
+    folder.children.forEach((child) => addFolder(child, path))
+  }
+
+  tree.rootNotes.forEach((note) => addNote(note, ""))
+  tree.folders.forEach((folder) => addFolder(folder, ""))
+  return index
+}
+
+export const resolveWikiLink = (
+  index: WikiLinkIndex,
+  target: string,
+  sourceFolderPublicId: string | null
+): IndexedNote | null => {
+  if (target.includes("/")) {
+    return index.byPath.get(target) ?? null
+  }
+
+  const candidates = index.byName.get(target)
+  if (!candidates) {
+    return null
+  }
+  return (
+    candidates.find((candidate) => candidate.folderPublicId === sourceFolderPublicId) ??
+    candidates.find((candidate) => candidate.folderPublicId === null) ??
+    candidates[0]
+  )
+}
+
+/**
+ * marked extension rendering wiki links as links to the target note.
+ * Resolved links carry the target's public ID in data-note-id so the preview
+ * can navigate without a page load; unresolved ones render as muted text.
+ */
+export const createWikiLinkExtension = (
+  workspaceSlug: string,
+  index: WikiLinkIndex,
+  sourceFolderPublicId: string | null
+): TokenizerAndRendererExtension => ({
+  name: "wikiLink",
+  level: "inline",
+  start(src) {
+    const position = src.indexOf("[[")
+    return position === -1 ? undefined : position
+  },
+  tokenizer(src) {
+    const match = WIKI_LINK_PATTERN.exec(src)
+    if (!match) {
+      return undefined
+    }
+    const target = normalizeLinkTarget(match[1])
+    if (!target) {
+      return undefined
+    }
+    const token: WikiLinkToken = {
+      type: "wikiLink",
+      raw: match[0],
+      target,
+      label: match[2]?.trim() || null,
+    }
+    return token
+  },
+  renderer(token) {
+    const { target, label } = token as WikiLinkToken
+    const text = escapeHtml(label ?? target)
+    const note = resolveWikiLink(index, target, sourceFolderPublicId)
+    if (!note) {
+      return `<span class="wiki-link wiki-link-missing" title="No note named ${escapeHtml(target)}">${text}</span>`
+    }
+    const href = `/workspaces/${encodeURIComponent(workspaceSlug)}/notes/${encodeURIComponent(note.publicId)}`
+    return `<a class="wiki-link" href="${href}" data-note-id="${escapeHtml(note.publicId)}" title="${escapeHtml(note.title)}">${text}</a>`
+  },
+})
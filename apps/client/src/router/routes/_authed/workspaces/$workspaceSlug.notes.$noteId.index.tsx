@@ -85,5 +85,9 @@ export const Route = createFileRoute('/_authed/workspaces/$workspaceSlug/notes/$
   component: NoteComponent,
   validateSearch: (search: Record<string, unknown>) => ({
     view: search.view === "code" || search.view === "split" || search.view === "preview" ? search.view : undefined,
+    // Optional 1-based line to jump to, e.g. when opened from search results
+    ...(typeof search.line === "number" && Number.isInteger(search.line) && search.line > 0
+      ? { line: search.line }
+      : {}),
   }),
 });
@@ -4,30 +4,37 @@
  * Public authentication page.
  * Checks for existing session and redirects to /workspaces if authenticated,
  * otherwise renders the auth form.
+ * Workspace invitation links point here with an `invite` token: the invitee
+ * signs up or in, then accepts the invite instead of being redirected.
  */
 
 import { createFileRoute, useNavigate } from "@tanstack/react-router";
 import { useQuery } from "@tanstack/react-query";
 import { useEffect } from "react";
 import AuthForm from "@/components/auth/AuthForm";
+import { AcceptInviteCard } from "@/components/folders/accept-invite-card";
 import { sessionQueryOptions } from "@/features/auth/queries";
 import { useServerCapabilities } from "@/features/config";
 
 export const Route = createFileRoute('/login')({
   component: LoginComponent,
+  validateSearch: (search: Record<string, unknown>): { invite?: string } => ({
+    invite: typeof search.invite === "string" && search.invite ? search.invite : undefined,
+  }),
 });
 
 function LoginComponent() {
   const navigate = useNavigate();
+  const { invite } = Route.useSearch();
 
   const { data: session, isLoading: isChecking } = useQuery(sessionQueryOptions);
   const { data: config, isLoading: isConfigLoading } = useServerCapabilities();
 
   useEffect(() => {
-    if (session) {
+    if (session && !invite) {
       navigate({ to: '/workspaces', replace: true });
     }
-  }, [session, navigate]);
+  }, [session, invite, navigate]);
 
   if (isChecking) {
     return (
@@ -38,7 +45,13 @@ function LoginComponent() {
   }
 
   if (session) {
-    return null;
+    return invite ? (
+      <div className="flex min-h-svh items-center justify-center p-8">
+        <div className="w-full max-w-md">
+          <AcceptInviteCard token={invite} />
+        </div>
+      </div>
+    ) : null;
   }
 
   if (isConfigLoading) {
@@ -55,7 +68,7 @@ function LoginComponent() {
   return (
     <div className="flex min-h-svh items-center justify-center p-8">
       <div className="w-full max-w-md">
-        <AuthForm authMethod={authMethod} inviteCodeAvailable={inviteCodeAvailable} />
+        <AuthForm authMethod={authMethod} inviteCodeAvailable={inviteCodeAvailable} inviteToken={invite} />
       </div>
     </div>
   );
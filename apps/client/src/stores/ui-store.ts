@@ -73,6 +73,9 @@ interface UIState {
 
   // Modal state
   createWorkspaceModalOpen: boolean
+  membersPanelOpen: boolean
+  trashPanelOpen: boolean
+  searchPaletteOpen: boolean
 
   // Dialog state
   activeDialog: DialogState | null
@@ -97,6 +100,15 @@ interface UIActions {
   openCreateWorkspaceModal: () => void
   closeCreateWorkspaceModal: () => void
 
+  // Members panel actions
+  setMembersPanelOpen: (open: boolean) => void
+
+  // Trash panel actions
+  setTrashPanelOpen: (open: boolean) => void
+
+  // Search palette actions
+  setSearchPaletteOpen: (open: boolean) => void
+
   // Dialog actions
   openDialog: (dialog: DialogState) => void
   closeDialog: () => void
@@ -148,6 +160,9 @@ export const useUIStore = create<UIStore>((set) => ({
   labelMode: "display",
   expandedFolderIdsByWorkspace: {},
   createWorkspaceModalOpen: false,
+  membersPanelOpen: false,
+  trashPanelOpen: false,
+  searchPaletteOpen: false,
   activeDialog: null,
   dialogDraft: {},
 
@@ -220,6 +235,21 @@ export const useUIStore = create<UIStore>((set) => ({
   openCreateWorkspaceModal: () => set({ createWorkspaceModalOpen: true }),
   closeCreateWorkspaceModal: () => set({ createWorkspaceModalOpen: false }),
 
+  // ============================================================================
+  // Members Panel Actions
+  // ============================================================================
+  setMembersPanelOpen: (open) => set({ membersPanelOpen: open }),
+
+  // ============================================================================
+  // Trash Panel Actions
+  // ============================================================================
+  setTrashPanelOpen: (open) => set({ trashPanelOpen: open }),
+
+  // ============================================================================
+  // Search Palette Actions
+  // ============================================================================
+  setSearchPaletteOpen: (open) => set({ searchPaletteOpen: open }),
+
   // ============================================================================
   // Dialog Actions
   // ============================================================================
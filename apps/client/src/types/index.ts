@@ -47,15 +47,51 @@ export interface Session {
 /**
  * Workspace types
  */
+export type WorkspaceRole = "owner" | "editor" | "viewer";
+
 export interface Workspace {
   id: number;
   slug: string;
   name: string;
+  role?: WorkspaceRole;
   createdByUserId: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Workspace member with user profile details
+ */
+export interface WorkspaceMember {
+  userId: string;
+  name: string;
+  email: string;
+  role: WorkspaceRole;
+  joinedAt: string;
+}
+
+/**
+ * Pending invite as seen by workspace owners
+ */
+export interface WorkspaceInvite {
+  publicId: string;
+  email: string;
+  role: WorkspaceRole;
+  invitedByName: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+  /** The invitation link can no longer be used; revoke the invite and invite again */
+  expired: boolean;
+}
+
+/**
+ * Newly created invite, carrying the secret token for its invitation link.
+ * The token is only returned once, when the invite is created.
+ */
+export interface CreatedWorkspaceInvite extends WorkspaceInvite {
+  token: string;
+}
+
 export interface CreateWorkspaceRequest {
   name: string;
 }
@@ -77,6 +113,10 @@ export interface Note {
   folderId: number | null;
   createdAt: Date;
   updatedAt: Date;
+  /** Latest revision, null before the first save; also sent as the ETag */
+  revisionId?: number | null;
+  /** Frontmatter values by key, one entry per list element */
+  metadata?: Record<string, string[]>;
   blame?: BlameEntry[];
 }
 
@@ -134,6 +174,8 @@ export interface NoteSummary {
   id?: number;
   folderId?: number | null;
   folderPublicId: string | null;
+  /** Tags from the note's frontmatter */
+  tags?: string[];
 }
 
 export interface FolderNode {
@@ -154,6 +196,8 @@ export interface SignUpRequest {
   password: string;
   name?: string;
   inviteCode?: string;
+  /** Token from a workspace invitation link; stands in for the invite code */
+  workspaceInviteToken?: string;
 }
 
 export interface SignInRequest {
@@ -185,7 +229,7 @@ export interface WorkspaceEvent {
   type: 'workspace.created' | 'workspace.updated' | 'workspace.deleted' |
          'note.created' | 'note.updated' | 'note.deleted' |
          'folder.created' | 'folder.updated' | 'folder.deleted' |
-         'note.moved' | 'folder.moved';
+         'note.moved' | 'folder.moved' | 'batch.applied';
   workspaceId?: number;
   data: unknown;
   timestamp: string;
@@ -383,3 +427,135 @@ export interface NoteRevision {
 export interface NoteHistoryResponse {
   revisions: NoteRevision[];
 }
+
+export type DiffChangeType = "equal" | "insert" | "delete";
+
+export interface DiffSegment {
+  type: DiffChangeType;
+  text: string;
+}
+
+export interface DiffLine {
+  type: DiffChangeType;
+  /** 1-based line number in the old text, null for inserted lines */
+  oldLineNumber: number | null;
+  /** 1-based line number in the new text, null for deleted lines */
+  newLineNumber: number | null;
+  text: string;
+  /** Word-level changes, only set on changed lines paired with a counterpart */
+  segments?: DiffSegment[];
+}
+
+export type RevisionSummary = Omit<NoteRevision, "content">;
+
+export interface RevisionDiffResponse {
+  from: RevisionSummary;
+  /** null when compared against the current note content */
+  to: RevisionSummary | null;
+  additions: number;
+  deletions: number;
+  lines: DiffLine[];
+}
+
+export interface RestoreRevisionResponse {
+  /** The new revision holding the restored content */
+  revisionId: number;
+  restoredFromRevisionId: number;
+  updatedAt: string;
+}
+
+/**
+ * Note search types
+ */
+export interface NoteSearchLine {
+  /** 1-based line number in the note content */
+  lineNumber: number;
+  /** Line text with matched terms wrapped in <mark> */
+  text: string;
+}
+
+export interface NoteSearchMatch {
+  publicId: string;
+  name: string;
+  title: string;
+  folderPublicId: string | null;
+  /** Slash-separated folder names, or null for root notes */
+  folderPath: string | null;
+  score: number;
+  /** Highlighted excerpt with matched terms wrapped in <mark> */
+  snippet: string;
+  lines: NoteSearchLine[];
+}
+
+export interface NoteSearchResponse {
+  query: string;
+  matches: NoteSearchMatch[];
+}
+
+/**
+ * Wiki link types
+ */
+export interface BacklinkLine {
+  /** 1-based line number in the linking note */
+  lineNumber: number;
+  text: string;
+}
+
+export interface Backlink {
+  publicId: string;
+  name: string;
+  title: string;
+  /** Slash-separated folder names, or null for root notes */
+  folderPath: string | null;
+  /** Lines of the linking note that contain the link */
+  lines: BacklinkLine[];
+}
+
+export interface NoteBacklinksResponse {
+  backlinks: Backlink[];
+}
+
+/**
+ * Trash types
+ */
+export interface TrashedNote {
+  publicId: string;
+  name: string;
+  title: string;
+  /** Folder path the note will be restored into ("" for the workspace root) */
+  folderPath: string;
+  deletedAt: string;
+}
+
+export interface RestoredNote {
+  publicId: string;
+  name: string;
+  title: string;
+  folderPath: string;
+  /** True when the note was renamed because its name was taken */
+  renamed: boolean;
+}
+
+export interface TrashedFolder {
+  publicId: string;
+  name: string;
+  displayName: string;
+  /** Full folder path at deletion time, including the folder itself */
+  folderPath: string;
+  deletedAt: string;
+  /** Number of folders deleted with this one, including itself */
+  folderCount: number;
+  /** Number of notes deleted with this folder */
+  noteCount: number;
+}
+
+export interface RestoredFolder {
+  publicId: string;
+  name: string;
+  displayName: string;
+  folderPath: string;
+  /** True when the folder was renamed because its name was taken */
+  renamed: boolean;
+  folderCount: number;
+  noteCount: number;
+}
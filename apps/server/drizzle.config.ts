@@ -18,6 +18,10 @@ export default defineConfig({
   dbCredentials: {
     url: process.env.DATABASE_URL ?? "./data/kontexted.db",
   },
+  // The full-text search tables are created by hand-written SQL (migration 0004)
+  // and are not declared in the schema: notes_fts and its FTS5 shadow tables on
+  // SQLite, note_search on PostgreSQL. Keep push and introspection away from them.
+  tablesFilter: ["!notes_fts*", "!note_search"],
   verbose: true,
   strict: true,
 });
@@ -15,6 +15,7 @@ import {
   oauthConsents,
   jwks,
 } from "@/db/schema";
+import { findPendingInviteByToken } from "@/lib/workspace-invites";
 
 // Get auth base URL from config
 function getAuthBaseURL(): string {
@@ -36,6 +37,14 @@ function getAuthBaseURL(): string {
 
 const baseURL = getAuthBaseURL();
 
+/**
+ * Check that a sign-up carries a valid invitation link token issued for the same email.
+ */
+async function hasWorkspaceInviteForSignUp(email: string, token: string): Promise<boolean> {
+  const invite = await findPendingInviteByToken(token);
+  return invite !== null && invite.email === email.trim().toLowerCase();
+}
+
 const authMethod = global.KONTEXTED_CONFIG?.auth?.method || "email-password";
 
 const plugins: any[] = [
@@ -97,6 +106,18 @@ export const auth = betterAuth({
     before: createAuthMiddleware(async (ctx) => {
       if (ctx.path === "/sign-up/email" && ctx.method === "POST") {
         const inviteCode = global.KONTEXTED_CONFIG?.auth?.inviteCode;
+        const body = ctx.body;
+        const email = typeof body === 'object' && body !== null && typeof body.email === 'string' ? body.email : "";
+        const workspaceInviteToken = typeof body === 'object' && body !== null && typeof body.workspaceInviteToken === 'string'
+          ? body.workspaceInviteToken
+          : "";
+
+        // The token from a workspace invitation link stands in for the global invite code,
+        // so an email address alone is never enough to skip it
+        if (email && workspaceInviteToken && (await hasWorkspaceInviteForSignUp(email, workspaceInviteToken))) {
+          return;
+        }
+
         if (!inviteCode) {
           return ctx.json(
             { error: "Sign up is not available" },
@@ -109,7 +130,6 @@ export const auth = betterAuth({
             { status: 400 }
           );
         }
-        const body = ctx.body;
         if (typeof body !== 'object' || body === null || Array.isArray(body) || !('inviteCode' in body) || body.inviteCode !== inviteCode) {
           return ctx.json(
             { error: "Invalid invite code" },
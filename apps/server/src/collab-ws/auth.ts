@@ -6,6 +6,7 @@ const tokenPayloadSchema = z.object({
   notePublicId: z.string(),
   noteId: z.union([z.string(), z.number()]).transform((value) => String(value)),
   userId: z.string().optional(),
+  readOnly: z.boolean().optional(),
   exp: z.number().optional(),
 });
 
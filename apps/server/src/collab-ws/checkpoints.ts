@@ -3,11 +3,15 @@ import { and, eq, gt, sql, isNull } from "drizzle-orm";
 import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
 
 import { db, dialect } from "@/db";
-import { noteLineBlame, notes, revisions } from "@/db/schema";
+import { noteLineBlame, notes } from "@/db/schema";
 import type * as sqliteSchema from "@/db/schema/sqlite";
 import { getRoom } from "./y-websocket-server";
 import { workspaceEventHub } from "@/lib/sse-hub";
-import { buildNoteFolderPath } from "@/routes/workspaces/note-content";
+import { refreshNoteLinks } from "@/lib/note-links";
+import { refreshNoteMetadata } from "@/lib/frontmatter";
+import { insertRevision, insertRevisionSqlite } from "@/lib/revision-store";
+import { updateNoteSearchIndex, updateNoteSearchIndexSqlite } from "@/lib/search";
+import { buildNoteFolderPath } from "@/lib/resolvers";
 
 type DbSchema = typeof import("@/db/schema").schema;
 
@@ -336,25 +340,16 @@ export const checkpointRoom = async (
     const sqliteTables = {
       noteLineBlame: noteLineBlame as unknown as typeof sqliteSchema.noteLineBlame,
       notes: notes as unknown as typeof sqliteSchema.notes,
-      revisions: revisions as unknown as typeof sqliteSchema.revisions,
     };
 
     const runCheckpointSqlite = () =>
       sqliteDb.transaction((tx) => {
-        const inserted = tx
-          .insert(sqliteTables.revisions)
-          .values({
-            workspaceId: state.workspaceId,
-            noteId: state.noteId,
-            authorUserId,
-            content: currentContent,
-          })
-          .run();
-
-        const revisionId = Number(inserted.lastInsertRowid);
-        if (!revisionId) {
-          throw new Error("Failed to create revision");
-        }
+        const revisionId = insertRevisionSqlite(tx, {
+          workspaceId: state.workspaceId,
+          noteId: state.noteId,
+          authorUserId,
+          content: currentContent,
+        });
 
         tx
           .update(sqliteTables.notes)
@@ -365,6 +360,8 @@ export const checkpointRoom = async (
           .where(and(eq(sqliteTables.notes.id, state.noteId), eq(sqliteTables.notes.workspaceId, state.workspaceId)))
           .run();
 
+        updateNoteSearchIndexSqlite(tx, state.noteId);
+
         const existingBlame = tx
           .select({
             lineNumber: sqliteTables.noteLineBlame.lineNumber,
@@ -423,20 +420,12 @@ export const checkpointRoom = async (
 
     const runCheckpointPostgres = () =>
       db.transaction(async (tx) => {
-        const inserted = await tx
-          .insert(revisions)
-          .values({
-            workspaceId: state.workspaceId,
-            noteId: state.noteId,
-            authorUserId,
-            content: currentContent,
-          })
-          .returning({ id: revisions.id });
-
-        const revisionId = inserted[0]?.id;
-        if (!revisionId) {
-          throw new Error("Failed to create revision");
-        }
+        const revisionId = await insertRevision({
+          workspaceId: state.workspaceId,
+          noteId: state.noteId,
+          authorUserId,
+          content: currentContent,
+        }, tx);
 
         await tx
           .update(notes)
@@ -446,6 +435,8 @@ export const checkpointRoom = async (
           })
           .where(and(eq(notes.id, state.noteId), eq(notes.workspaceId, state.workspaceId)));
 
+        await updateNoteSearchIndex(state.noteId, tx);
+
         const existingBlame = await tx
           .select({
             lineNumber: noteLineBlame.lineNumber,
@@ -500,6 +491,8 @@ export const checkpointRoom = async (
       });
 
     const result = dialect === "sqlite" ? runCheckpointSqlite() : await runCheckpointPostgres();
+    await refreshNoteLinks(state.noteId);
+    await refreshNoteMetadata(state.noteId);
 
     state.lastCheckpointContent = currentContent;
     state.lastSavedAt = new Date();
@@ -681,10 +674,144 @@ export const reseedDocumentFromDb = async (roomName: string): Promise<void> => {
   }
 };
 
+type TextSpan = { index: number; length: number; text: string };
+
+/**
+ * The span of previous that differs from next, trimmed to the common prefix and suffix.
+ */
+const changedSpan = (previous: string, next: string, offset: number): TextSpan => {
+  let prefix = 0;
+  while (prefix < previous.length && prefix < next.length && previous[prefix] === next[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < previous.length - prefix &&
+    suffix < next.length - prefix &&
+    previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  return {
+    index: offset + prefix,
+    length: previous.length - prefix - suffix,
+    text: next.slice(prefix, next.length - suffix),
+  };
+};
+
+/**
+ * Spans to replace to turn previous into next, one per changed line when
+ * the line count is unchanged, otherwise a single span.
+ */
+const changedSpans = (previous: string, next: string): TextSpan[] => {
+  const previousLines = previous.split("\n");
+  const nextLines = next.split("\n");
+  if (previousLines.length !== nextLines.length) {
+    return [changedSpan(previous, next, 0)];
+  }
+
+  const spans: TextSpan[] = [];
+  let offset = 0;
+  previousLines.forEach((line, index) => {
+    if (line !== nextLines[index]) {
+      spans.push(changedSpan(line, nextLines[index], offset));
+    }
+    offset += line.length + 1;
+  });
+  return spans;
+};
+
+/**
+ * Rewrite the live content of an active room in place. Only the spans the
+ * rewrite changes are replaced, so edits not yet checkpointed survive; the
+ * room's next checkpoint saves the result.
+ * @returns false if the room is not active
+ */
+export const rewriteRoomContent = (
+  roomName: string,
+  rewrite: (content: string) => string,
+  authorUserId: string
+): boolean => {
+  const state = roomStates.get(roomName);
+  if (!state) {
+    return false;
+  }
+
+  const currentContent = state.yText.toString();
+  const nextContent = rewrite(currentContent);
+  if (nextContent === currentContent) {
+    return true;
+  }
+
+  // Apply from the end so earlier spans keep their offsets
+  const spans = changedSpans(currentContent, nextContent).reverse();
+  state.doc.transact(() => {
+    for (const span of spans) {
+      state.yText.delete(span.index, span.length);
+      state.yText.insert(span.index, span.text);
+    }
+  }, authorUserId);
+
+  // Unsaved edits stay attributed to whoever made them
+  if (!state.hasUnsavedChanges) {
+    state.pendingAuthorUserId = authorUserId;
+  }
+  state.hasUnsavedChanges = true;
+  pushStatusUpdate(state, { hasUnsavedChanges: true });
+  scheduleCheckpoint(state);
+
+  console.log(`[collab] Rewrote ${spans.length} span(s) in room: ${roomName}`);
+  return true;
+};
+
+/**
+ * The live state of a room an external write is based on.
+ */
+export type RoomWriteBase = {
+  content: string;
+  update: Uint8Array;
+  /** The room still has edits that could not be checkpointed before the write */
+  hasUnsavedChanges: boolean;
+};
+
+/**
+ * Prepare an active room for an external write: checkpoint its unsaved edits
+ * first, so the write sees them as the note's latest revision, and capture the
+ * room state the write will be applied to.
+ * @returns null if the room is not active
+ */
+export const prepareRoomForExternalWrite = async (roomName: string): Promise<RoomWriteBase | null> => {
+  const state = roomStates.get(roomName);
+  if (!state) {
+    return null;
+  }
+
+  if (state.yText.toString() !== state.lastCheckpointContent) {
+    await checkpointRoom(roomName);
+  }
+
+  const content = state.yText.toString();
+  return {
+    content,
+    update: Y.encodeStateAsUpdate(state.doc),
+    hasUnsavedChanges: content !== state.lastCheckpointContent,
+  };
+};
+
+/**
+ * Push content written outside the collab editor into an active room.
+ *
+ * With a base from prepareRoomForExternalWrite, the write is replayed as
+ * targeted edits on a copy of the room as it was when the write started and
+ * merged into the live document, so edits made while the write was saved are
+ * kept. Without one the live content is replaced.
+ * @returns false if the room is not active
+ */
 export const pushExternalUpdateToRoom = async (
   roomName: string,
   newContent: string,
-  authorUserId: string
+  authorUserId: string,
+  base?: RoomWriteBase | null
 ): Promise<boolean> => {
   const state = roomStates.get(roomName);
   if (!state) {
@@ -694,18 +821,43 @@ export const pushExternalUpdateToRoom = async (
 
   console.log(`[collab] External update pushed to room: ${roomName}, content length: ${newContent.length}`);
 
-  // Use Yjs transaction for atomic update - this ensures proper sync
-  state.doc.transact(() => {
-    state.yText.delete(0, state.yText.length);
-    state.yText.insert(0, newContent);
-  }, authorUserId); // Use authorUserId as origin for tracking
+  if (base) {
+    const fork = new Y.Doc();
+    Y.applyUpdate(fork, base.update);
+    const baseVector = Y.encodeStateVector(fork);
+    const forkText = fork.getText("content");
+
+    // Apply from the end so earlier spans keep their offsets
+    const spans = changedSpans(base.content, newContent).reverse();
+    fork.transact(() => {
+      for (const span of spans) {
+        forkText.delete(span.index, span.length);
+        forkText.insert(span.index, span.text);
+      }
+    });
+    Y.applyUpdate(state.doc, Y.encodeStateAsUpdate(fork, baseVector), authorUserId);
+    fork.destroy();
+  } else {
+    // Use Yjs transaction for atomic update - this ensures proper sync
+    state.doc.transact(() => {
+      state.yText.delete(0, state.yText.length);
+      state.yText.insert(0, newContent);
+    }, authorUserId); // Use authorUserId as origin for tracking
+  }
 
   state.lastCheckpointContent = newContent;
   state.lastSavedAt = new Date();
-  state.pendingAuthorUserId = authorUserId;
-  state.hasUnsavedChanges = false;
 
-  pushStatusUpdate(state, { hasUnsavedChanges: false });
+  // Edits merged in from the room are saved by its next checkpoint
+  if (state.yText.toString() === newContent) {
+    state.pendingAuthorUserId = authorUserId;
+    state.hasUnsavedChanges = false;
+  } else {
+    state.hasUnsavedChanges = true;
+    scheduleCheckpoint(state);
+  }
+
+  pushStatusUpdate(state, { hasUnsavedChanges: state.hasUnsavedChanges });
 
   console.log(`[collab] External update completed for room: ${roomName}, connections: ${state.doc.conns.size}`);
   return true;
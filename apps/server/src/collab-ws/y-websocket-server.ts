@@ -117,7 +117,11 @@ const closeConn = (doc: YjsRoom, conn: BunWebSocketAdapter) => {
   conn.close()
 }
 
-export const setupWSConnection = (conn: BunWebSocketAdapter, req: Request, { docName }: { docName?: string } = {}) => {
+export const setupWSConnection = (
+  conn: BunWebSocketAdapter,
+  req: Request,
+  { docName, readOnly = false }: { docName?: string, readOnly?: boolean } = {}
+) => {
   conn.binaryType = 'arraybuffer'
 
   const finalDocName = docName || ''
@@ -147,7 +151,14 @@ export const setupWSConnection = (conn: BunWebSocketAdapter, req: Request, { doc
       switch (messageType) {
         case messageSync:
           encoding.writeVarUint(encoder, messageSync)
-          syncProtocol.readSyncMessage(decoder, encoder, doc, conn)
+          if (readOnly) {
+            // Read-only connections may request the document state but never apply updates
+            if (decoding.readVarUint(decoder) === syncProtocol.messageYjsSyncStep1) {
+              syncProtocol.readSyncStep1(decoder, encoder, doc)
+            }
+          } else {
+            syncProtocol.readSyncMessage(decoder, encoder, doc, conn)
+          }
 
           if (encoding.length(encoder) > 1) {
             send(doc, conn, encoding.toUint8Array(encoder))
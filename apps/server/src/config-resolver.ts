@@ -30,6 +30,109 @@ function validateNamingConvention(value: unknown): NamingConvention {
   return 'kebab-case';
 }
 
+/**
+ * Default number of days deleted notes stay in the trash before being purged
+ */
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Validates a trash retention value (whole days, 0 disables purging)
+ */
+function validateRetentionDays(value: unknown): number {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  if (typeof parsed === 'number' && Number.isInteger(parsed) && parsed >= 0) {
+    return parsed;
+  }
+  if (value !== undefined) {
+    console.warn(`Invalid trash retention "${value}", falling back to ${DEFAULT_TRASH_RETENTION_DAYS} days`);
+  }
+  return DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Default number of minutes an idle MCP session is kept
+ */
+const DEFAULT_MCP_SESSION_IDLE_MINUTES = 30;
+
+/**
+ * Validates an MCP session idle timeout (whole minutes, 0 disables sessions)
+ */
+function validateSessionIdleMinutes(value: unknown): number {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  if (typeof parsed === 'number' && Number.isInteger(parsed) && parsed >= 0) {
+    return parsed;
+  }
+  if (value !== undefined) {
+    console.warn(`Invalid MCP session idle timeout "${value}", falling back to ${DEFAULT_MCP_SESSION_IDLE_MINUTES} minutes`);
+  }
+  return DEFAULT_MCP_SESSION_IDLE_MINUTES;
+}
+
+/**
+ * How densely old revisions are thinned out
+ */
+type RevisionRetentionGranularity = 'hourly' | 'daily' | 'weekly';
+
+/**
+ * Revisions older than afterDays keep only the latest revision per hour, day or week
+ */
+export interface RevisionRetentionTier {
+  afterDays: number;
+  keep: RevisionRetentionGranularity;
+}
+
+const VALID_RETENTION_GRANULARITIES: RevisionRetentionGranularity[] = ['hourly', 'daily', 'weekly'];
+
+/**
+ * Default revision retention: keep every revision. Thinning deletes history for good,
+ * so it only runs once the operator configures tiers.
+ */
+const DEFAULT_REVISION_RETENTION: RevisionRetentionTier[] = [];
+
+/**
+ * Validates a revision retention policy, given as an array of tiers or as
+ * "7:hourly,30:daily" (an empty list or "none" keeps every revision)
+ */
+function validateRevisionRetention(value: unknown): RevisionRetentionTier[] {
+  if (value === undefined) {
+    return DEFAULT_REVISION_RETENTION;
+  }
+
+  let entries: unknown[] | null = null;
+  if (Array.isArray(value)) {
+    entries = value;
+  } else if (typeof value === 'string') {
+    const trimmed = value.trim();
+    entries = trimmed === '' || trimmed === 'none'
+      ? []
+      : trimmed.split(',').map((entry) => {
+          const [afterDays, keep] = entry.split(':').map((part) => part.trim());
+          return { afterDays: Number(afterDays), keep };
+        });
+  }
+
+  const tiers = entries?.map((entry) => {
+    const tier = entry as Partial<RevisionRetentionTier> | null;
+    return tier &&
+      typeof tier.afterDays === 'number' &&
+      Number.isInteger(tier.afterDays) &&
+      tier.afterDays >= 0 &&
+      VALID_RETENTION_GRANULARITIES.includes(tier.keep as RevisionRetentionGranularity)
+      ? { afterDays: tier.afterDays, keep: tier.keep as RevisionRetentionGranularity }
+      : null;
+  });
+
+  if (!tiers || tiers.some((tier) => tier === null)) {
+    console.warn(
+      `Invalid revision retention ${JSON.stringify(value)}, keeping every revision. ` +
+        `Expected tiers like "7:hourly,30:daily,180:weekly" (valid granularities: ${VALID_RETENTION_GRANULARITIES.join(', ')})`
+    );
+    return DEFAULT_REVISION_RETENTION;
+  }
+
+  return (tiers as RevisionRetentionTier[]).sort((a, b) => a.afterDays - b.afterDays);
+}
+
 /**
  * Configuration structure
  */
@@ -67,6 +170,18 @@ export interface ServerConfig {
   naming: {
     defaultConvention: NamingConvention;
   };
+  trash: {
+    /** Days a deleted note is kept before it is purged; 0 keeps it forever */
+    retentionDays: number;
+  };
+  revisions: {
+    /** Thinning tiers ordered by age; an empty list keeps every revision */
+    retention: RevisionRetentionTier[];
+  };
+  mcp: {
+    /** Minutes an MCP session without requests or open streams is kept; 0 serves every request statelessly */
+    sessionIdleMinutes: number;
+  };
 }
 
 /**
@@ -112,6 +227,15 @@ function getDefaults(): ServerConfig {
     naming: {
       defaultConvention: 'kebab-case' as NamingConvention,
     },
+    trash: {
+      retentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+    },
+    revisions: {
+      retention: DEFAULT_REVISION_RETENTION,
+    },
+    mcp: {
+      sessionIdleMinutes: DEFAULT_MCP_SESSION_IDLE_MINUTES,
+    },
   };
 }
 
@@ -196,6 +320,15 @@ function loadFromEnv(): ServerConfig | null {
     naming: {
       defaultConvention: validateNamingConvention(process.env.DEFAULT_NAMING_CONVENTION),
     },
+    trash: {
+      retentionDays: validateRetentionDays(process.env.TRASH_RETENTION_DAYS),
+    },
+    revisions: {
+      retention: validateRevisionRetention(process.env.REVISION_RETENTION),
+    },
+    mcp: {
+      sessionIdleMinutes: validateSessionIdleMinutes(process.env.MCP_SESSION_IDLE_MINUTES),
+    },
   };
 }
 
@@ -290,6 +423,15 @@ function loadFromFile(): ServerConfig | null {
       naming: {
         defaultConvention: validateNamingConvention(parsed.naming?.defaultConvention),
       },
+      trash: {
+        retentionDays: validateRetentionDays(parsed.trash?.retentionDays),
+      },
+      revisions: {
+        retention: validateRevisionRetention(parsed.revisions?.retention),
+      },
+      mcp: {
+        sessionIdleMinutes: validateSessionIdleMinutes(parsed.mcp?.sessionIdleMinutes),
+      },
     };
   } catch (error) {
     console.warn('Failed to load config file:', error instanceof Error ? error.message : 'Unknown error');
@@ -17,8 +17,12 @@ export const {
   oauthConsents,
   jwks,
   workspaces,
+  workspaceMembers,
+  workspaceInvites,
   folders,
   notes,
   revisions,
   noteLineBlame,
+  noteLinks,
+  noteMetadata,
 } = schema;
@@ -18,6 +18,8 @@ export const folders = pgTable(
     displayName: text("display_name").notNull(),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    // Set on the whole subtree (and its notes) when a folder is deleted, so it can be restored as one unit
+    deletedAt: timestamp("deleted_at"),
   },
   (table) => [
     index("folders_public_id_idx").on(table.publicId),
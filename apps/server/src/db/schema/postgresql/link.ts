@@ -0,0 +1,28 @@
+import {
+  index,
+  integer,
+  primaryKey,
+  pgTable,
+  text,
+} from "drizzle-orm/pg-core";
+import { notes } from "./note";
+import { workspaces } from "./workspace";
+
+export const noteLinks = pgTable(
+  "note_links",
+  {
+    sourceNoteId: integer("source_note_id").notNull().references(() => notes.id),
+    // Link target as written in [[...]], e.g. "note-name" or "folder/note-name"
+    target: text("target").notNull(),
+    workspaceId: integer("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    // Null while no live note matches the target
+    targetNoteId: integer("target_note_id").references(() => notes.id),
+  },
+  (table) => [
+    primaryKey({ columns: [table.sourceNoteId, table.target] }),
+    index("note_links_target_idx").on(table.targetNoteId),
+    index("note_links_workspace_idx").on(table.workspaceId),
+  ]
+);
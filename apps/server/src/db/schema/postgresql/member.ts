@@ -0,0 +1,53 @@
+import { index, integer, pgTable, serial, text, timestamp, uniqueIndex } from "drizzle-orm/pg-core";
+import { createId } from "@paralleldrive/cuid2";
+import { users } from "./user";
+import { workspaces } from "./workspace";
+
+export const workspaceMembers = pgTable(
+  "workspace_members",
+  {
+    id: serial("id").primaryKey(),
+    workspaceId: integer("workspace_id")
+      .notNull()
+      .references(() => workspaces.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    role: text("role", { enum: ["owner", "editor", "viewer"] }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("workspace_members_workspace_user_idx").on(table.workspaceId, table.userId),
+    index("workspace_members_user_idx").on(table.userId),
+  ]
+);
+
+export const workspaceInvites = pgTable(
+  "workspace_invites",
+  {
+    id: serial("id").primaryKey(),
+    publicId: text("public_id")
+      .notNull()
+      .unique()
+      .$defaultFn(() => createId()),
+    workspaceId: integer("workspace_id")
+      .notNull()
+      .references(() => workspaces.id, { onDelete: "cascade" }),
+    email: text("email").notNull(),
+    tokenHash: text("token_hash"),
+    role: text("role", { enum: ["owner", "editor", "viewer"] }).notNull(),
+    invitedByUserId: text("invited_by_user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    expiresAt: timestamp("expires_at"),
+    acceptedAt: timestamp("accepted_at"),
+    revokedAt: timestamp("revoked_at"),
+  },
+  (table) => [
+    index("workspace_invites_workspace_idx").on(table.workspaceId),
+    index("workspace_invites_email_idx").on(table.email),
+    uniqueIndex("workspace_invites_token_hash_idx").on(table.tokenHash),
+  ]
+);
@@ -21,6 +21,8 @@ export const notes = pgTable(
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
     deletedAt: timestamp("deleted_at", { mode: "date" }),
+    // Folder path (names joined by "/") at deletion time, used to recreate missing folders on restore
+    deletedFolderPath: text("deleted_folder_path"),
   },
   (table) => [
     index("notes_public_id_idx").on(table.publicId),
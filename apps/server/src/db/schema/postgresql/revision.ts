@@ -14,10 +14,16 @@ export const revisions = pgTable(
     authorUserId: text("author_user_id")
       .notNull()
       .references(() => users.id),
-    content: text("content").notNull(),
+    // "keyframe" rows keep the full content, "delta" rows a line delta against
+    // baseRevisionId; "snapshot" marks full-content rows not yet converted
+    kind: text("kind", { enum: ["snapshot", "keyframe", "delta"] }).notNull().default("snapshot"),
+    content: text("content"),
+    baseRevisionId: integer("base_revision_id"),
+    delta: text("delta"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
   (table) => [
     index("revisions_note_created_idx").on(table.noteId, table.createdAt),
+    index("revisions_note_kind_idx").on(table.noteId, table.kind),
   ]
 );
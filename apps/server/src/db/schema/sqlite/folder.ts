@@ -19,6 +19,8 @@ export const folders = sqliteTable(
     displayName: text("display_name").notNull(),
     createdAt: integer("created_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
     updatedAt: integer("updated_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
+    // Set on the whole subtree (and its notes) when a folder is deleted, so it can be restored as one unit
+    deletedAt: integer("deleted_at", { mode: "timestamp_ms" }),
   },
   (table) => [
     index("folders_public_id_idx").on(table.publicId),
@@ -1,6 +1,9 @@
 export * from "./user";
 export * from "./workspace";
+export * from "./member";
 export * from "./folder";
 export * from "./note";
 export * from "./revision";
 export * from "./blame";
+export * from "./link";
+export * from "./metadata";
@@ -0,0 +1,54 @@
+import { sql } from "drizzle-orm";
+import { index, integer, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { createId } from "@paralleldrive/cuid2";
+import { users } from "./user";
+import { workspaces } from "./workspace";
+
+export const workspaceMembers = sqliteTable(
+  "workspace_members",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    workspaceId: integer("workspace_id")
+      .notNull()
+      .references(() => workspaces.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    role: text("role", { enum: ["owner", "editor", "viewer"] }).notNull(),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
+  },
+  (table) => [
+    uniqueIndex("workspace_members_workspace_user_idx").on(table.workspaceId, table.userId),
+    index("workspace_members_user_idx").on(table.userId),
+  ]
+);
+
+export const workspaceInvites = sqliteTable(
+  "workspace_invites",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    publicId: text("public_id")
+      .notNull()
+      .unique()
+      .$defaultFn(() => createId()),
+    workspaceId: integer("workspace_id")
+      .notNull()
+      .references(() => workspaces.id, { onDelete: "cascade" }),
+    email: text("email").notNull(),
+    tokenHash: text("token_hash"),
+    role: text("role", { enum: ["owner", "editor", "viewer"] }).notNull(),
+    invitedByUserId: text("invited_by_user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
+    expiresAt: integer("expires_at", { mode: "timestamp_ms" }),
+    acceptedAt: integer("accepted_at", { mode: "timestamp_ms" }),
+    revokedAt: integer("revoked_at", { mode: "timestamp_ms" }),
+  },
+  (table) => [
+    index("workspace_invites_workspace_idx").on(table.workspaceId),
+    index("workspace_invites_email_idx").on(table.email),
+    uniqueIndex("workspace_invites_token_hash_idx").on(table.tokenHash),
+  ]
+);
@@ -0,0 +1,27 @@
+import {
+  index,
+  integer,
+  primaryKey,
+  sqliteTable,
+  text,
+} from "drizzle-orm/sqlite-core";
+import { notes } from "./note";
+import { workspaces } from "./workspace";
+
+export const noteMetadata = sqliteTable(
+  "note_metadata",
+  {
+    noteId: integer("note_id").notNull().references(() => notes.id),
+    workspaceId: integer("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    // Frontmatter key as written, e.g. "tags", "status" or "owner"
+    key: text("key").notNull(),
+    // Scalars as text, one row per element for lists, objects as JSON
+    value: text("value").notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.noteId, table.key, table.value] }),
+    index("note_metadata_lookup_idx").on(table.workspaceId, table.key, table.value),
+  ]
+);
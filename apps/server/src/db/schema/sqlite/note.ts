@@ -26,6 +26,8 @@ export const notes = sqliteTable(
       .default(sql`(unixepoch() * 1000)`)
       .notNull(),
     deletedAt: integer("deleted_at", { mode: "timestamp_ms" }),
+    // Folder path (names joined by "/") at deletion time, used to recreate missing folders on restore
+    deletedFolderPath: text("deleted_folder_path"),
   },
   (table) => [
     index("notes_public_id_idx").on(table.publicId),
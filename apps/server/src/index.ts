@@ -30,6 +30,10 @@ import { skillApp as skillRoutes } from '@/routes/skill';
 import { syncApp as syncRoutes } from '@/routes/sync';
 import { mcpRoute } from '@/mcp';
 import { setupStatic } from '@/static';
+import { startTrashPurgeJob } from '@/lib/trash';
+import { startNoteLinkBackfill } from '@/lib/note-links';
+import { startNoteMetadataBackfill } from '@/lib/frontmatter';
+import { runCompactCommand, startRevisionMaintenanceJob } from '@/lib/revision-compactor';
 import { GET as oauthAuthorizationServerGet } from '@/routes/.well-known/oauth-authorization-server';
 import { GET as openidConfigGet } from '@/routes/.well-known/openid-configuration';
 import { GET as oauthProtectedResourceGet } from '@/routes/.well-known/oauth-protected-resource';
@@ -37,6 +41,11 @@ import { GET as oauthProtectedResourceGet } from '@/routes/.well-known/oauth-pro
 // Import Variables type for typing the Hono app
 import type { Variables } from '@/routes/types';
 
+// `kontexted compact [--dry-run]` compacts revisions once and exits instead of serving
+if (process.argv[2] === 'compact') {
+  process.exit(await runCompactCommand(process.argv.slice(3)));
+}
+
 // Create Hono app with typed context
 const app = new Hono<{ Variables: Variables }>();
 
@@ -67,6 +76,8 @@ app.use(cors({
     return null;
   },
   credentials: true,
+  // Note endpoints return the revision ETag for If-Match on writes
+  exposeHeaders: ['ETag'],
 }));
 
 // Inject db into context
@@ -144,7 +155,7 @@ const wsHandler = upgradeWebSocket(async (c) => {
         const bunWs = ws as unknown as WebSocket;
         adapter = createNodeWebSocketAdapter(bunWs);
 
-        setupWSConnection(adapter, req, { docName: roomName });
+        setupWSConnection(adapter, req, { docName: roomName, readOnly: payload.readOnly === true });
 
         const room = getRoom(roomName);
 
@@ -170,7 +181,9 @@ const wsHandler = upgradeWebSocket(async (c) => {
           }
         }
 
-        room.userId = userId;
+        if (!payload.readOnly) {
+          room.userId = userId;
+        }
 
         const yText = room.getText('content');
 
@@ -263,6 +276,18 @@ console.log(`Config source: ${getConfigSource()}`);
 console.log(`Database: ${config.database.dialect}`);
 console.log(`Server: http://${config.server.host}:${config.server.port}`);
 
+// Permanently delete notes that outlived the trash retention window
+startTrashPurgeJob();
+
+// Convert leftover revision snapshots, then thin out old revisions per the retention policy
+startRevisionMaintenanceJob();
+
+// Index wiki links of notes written before links were tracked
+startNoteLinkBackfill();
+
+// Index frontmatter of notes written before it was parsed
+startNoteMetadataBackfill();
+
 export default {
   fetch: app.fetch,
   port: config.server.port,
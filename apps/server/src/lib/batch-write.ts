@@ -0,0 +1,827 @@
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { createId } from "@paralleldrive/cuid2";
+import { db, dialect } from "@/db";
+import { folders, notes } from "@/db/schema";
+import type * as sqliteSchema from "@/db/schema/sqlite";
+import { pushExternalUpdateToRoom } from "@/collab-ws/checkpoints";
+import { isValidFolderName } from "@/lib/folder-name";
+import { refreshNoteMetadata } from "@/lib/frontmatter";
+import { findBacklinks, refreshNoteLinks, refreshWorkspaceLinks, relinkBacklinks, type Backlink } from "@/lib/note-links";
+import { parsePublicId } from "@/lib/params";
+import { assertExpectedRevision } from "@/lib/revision-conflicts";
+import { insertRevision, insertRevisionSqlite } from "@/lib/revision-store";
+import { updateNoteSearchIndex, updateNoteSearchIndexSqlite } from "@/lib/search";
+import { workspaceEventHub, type WorkspaceEvent } from "@/lib/sse-hub";
+import { DuplicateError, NotFoundError, ValidationError, resolveWritableWorkspace } from "@/lib/write-operations";
+
+/**
+ * Several folder and note writes applied as one unit.
+ *
+ * The operations are first replayed in order against an in-memory copy of the
+ * workspace tree, so every validation error is reported before anything is
+ * written. A create operation may carry a `ref`; later operations can then
+ * name the new folder or note as `$<ref>` wherever they take a public ID.
+ *
+ * The writes then run in a single transaction. Each existing note whose
+ * content changed gets one revision, however many updates it had in the
+ * batch, and the whole batch is announced as one batch.applied event listing
+ * the consolidated note and folder events. If a note or folder touched by the
+ * batch changed in the meantime, the transaction is rolled back and
+ * BatchConflictError is thrown.
+ *
+ * Derived data (links, frontmatter, collab rooms) is refreshed after commit,
+ * as for single writes. Links to moved notes are rewritten afterwards too,
+ * each rewritten note getting its own revision and note.updated event.
+ */
+
+export type BatchOperation =
+  | { type: "create-folder"; ref?: string; name: string; displayName: string; parentPublicId?: string | null }
+  | { type: "create-note"; ref?: string; name: string; title: string; folderPublicId?: string | null; content?: string }
+  | { type: "update-note"; notePublicId: string; content: string; expectedRevisionId?: number | null }
+  | { type: "move-note"; notePublicId: string; folderPublicId?: string | null }
+  | { type: "move-folder"; folderPublicId: string; parentPublicId?: string | null }
+  | { type: "delete-note"; notePublicId: string }
+  | { type: "delete-folder"; folderPublicId: string };
+
+export type BatchOperationType = BatchOperation["type"];
+
+export interface BatchWriteParams {
+  workspaceSlug: string;
+  /** ID of the user performing the write; must hold the editor role */
+  userId: string;
+  operations: BatchOperation[];
+}
+
+export interface BatchOperationResult {
+  type: BatchOperationType;
+  /** Public ID of the folder or note the operation wrote */
+  publicId: string;
+  ref?: string;
+  /** Revision holding the note's new content; only for update-note on an existing note */
+  revisionId?: number;
+}
+
+export interface BatchWriteResult {
+  /** One result per operation, in order */
+  operations: BatchOperationResult[];
+  appliedAt: Date;
+}
+
+export class BatchConflictError extends Error {
+  name = "BatchConflictError";
+}
+
+export const BATCH_OPERATION_TYPES = [
+  "create-folder",
+  "create-note",
+  "update-note",
+  "move-note",
+  "move-folder",
+  "delete-note",
+  "delete-folder",
+] as const satisfies readonly BatchOperationType[];
+
+export const MAX_BATCH_OPERATIONS = 200;
+
+const REF_PREFIX = "$";
+
+interface PlannedFolder {
+  /** Database ID; null for a created folder until it is inserted */
+  id: number | null;
+  publicId: string;
+  name: string;
+  displayName: string;
+  parent: PlannedFolder | null;
+  created: boolean;
+  moved: boolean;
+  deleted: boolean;
+}
+
+interface PlannedNote {
+  /** Database ID; null for a created note until it is inserted */
+  id: number | null;
+  publicId: string;
+  name: string;
+  title: string;
+  folder: PlannedFolder | null;
+  /** New content; null while an existing note keeps its content */
+  content: string | null;
+  /** Last update when the batch was planned, null for created notes */
+  updatedAt: Date | null;
+  created: boolean;
+  moved: boolean;
+  deleted: boolean;
+  /** Folder path the note lived in when it was deleted */
+  deletedFolderPath: string | null;
+  /** Links to the note before the batch moved it */
+  backlinks: Backlink[];
+}
+
+interface PlannedOperation {
+  type: BatchOperationType;
+  ref?: string;
+  target: PlannedFolder | PlannedNote;
+}
+
+interface BatchPlan {
+  workspaceId: number;
+  folders: PlannedFolder[];
+  notes: PlannedNote[];
+  operations: PlannedOperation[];
+}
+
+const folderPathOf = (folder: PlannedFolder | null): string => {
+  const names: string[] = [];
+  for (let current = folder; current; current = current.parent) {
+    names.unshift(current.name);
+  }
+  return names.join("/");
+};
+
+const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new ValidationError(`${field} is required`);
+  }
+  return value.trim();
+};
+
+const optionalString = (value: unknown, field: string): string | null => {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  if (typeof value !== "string") {
+    throw new ValidationError(`${field} must be a string`);
+  }
+  return value.trim();
+};
+
+/**
+ * Replay the operations against the live folders and notes of the workspace.
+ * Throws the error of the first invalid operation, prefixed with its position.
+ */
+async function planBatch(workspaceId: number, operations: BatchOperation[]): Promise<BatchPlan> {
+  const folderRows = await db
+    .select({
+      id: folders.id,
+      publicId: folders.publicId,
+      name: folders.name,
+      displayName: folders.displayName,
+      parentId: folders.parentId,
+    })
+    .from(folders)
+    .where(and(eq(folders.workspaceId, workspaceId), isNull(folders.deletedAt)));
+
+  const noteRows = await db
+    .select({
+      id: notes.id,
+      publicId: notes.publicId,
+      name: notes.name,
+      title: notes.title,
+      folderId: notes.folderId,
+      updatedAt: notes.updatedAt,
+    })
+    .from(notes)
+    .where(and(eq(notes.workspaceId, workspaceId), isNull(notes.deletedAt)));
+
+  const plannedFolders: PlannedFolder[] = folderRows.map((row) => ({
+    id: row.id,
+    publicId: row.publicId,
+    name: row.name,
+    displayName: row.displayName,
+    parent: null,
+    created: false,
+    moved: false,
+    deleted: false,
+  }));
+  const foldersById = new Map(plannedFolders.map((folder) => [folder.id, folder]));
+  for (const row of folderRows) {
+    foldersById.get(row.id)!.parent = row.parentId === null ? null : foldersById.get(row.parentId) ?? null;
+  }
+
+  const plannedNotes: PlannedNote[] = noteRows.map((row) => ({
+    id: row.id,
+    publicId: row.publicId,
+    name: row.name,
+    title: row.title,
+    folder: row.folderId === null ? null : foldersById.get(row.folderId) ?? null,
+    content: null,
+    updatedAt: row.updatedAt,
+    created: false,
+    moved: false,
+    deleted: false,
+    deletedFolderPath: null,
+    backlinks: [],
+  }));
+
+  const foldersByPublicId = new Map(plannedFolders.map((folder) => [folder.publicId, folder]));
+  const notesByPublicId = new Map(plannedNotes.map((note) => [note.publicId, note]));
+  const folderRefs = new Map<string, PlannedFolder>();
+  const noteRefs = new Map<string, PlannedNote>();
+
+  const resolve = <T extends { deleted: boolean }>(
+    value: unknown,
+    field: string,
+    byPublicId: Map<string, T>,
+    refs: Map<string, T>,
+    notFoundMessage: string
+  ): T => {
+    const id = requireString(value, field);
+    let entry: T | undefined;
+    if (id.startsWith(REF_PREFIX)) {
+      entry = refs.get(id.slice(REF_PREFIX.length));
+    } else {
+      const validated = parsePublicId(id);
+      if (!validated) {
+        throw new ValidationError(`Invalid ${field}`);
+      }
+      entry = byPublicId.get(validated);
+    }
+    if (!entry || entry.deleted) {
+      throw new NotFoundError(notFoundMessage);
+    }
+    return entry;
+  };
+
+  const resolveFolder = (value: unknown, field: string, notFoundMessage = "Folder not found") =>
+    resolve(value, field, foldersByPublicId, folderRefs, notFoundMessage);
+  const resolveNote = (value: unknown, field: string) =>
+    resolve(value, field, notesByPublicId, noteRefs, "Note not found");
+  const resolveOptionalFolder = (value: unknown, field: string, notFoundMessage?: string) =>
+    optionalString(value, field) === null ? null : resolveFolder(value, field, notFoundMessage);
+
+  const folderNameTaken = (name: string, parent: PlannedFolder | null) =>
+    plannedFolders.some((folder) => !folder.deleted && folder.parent === parent && folder.name === name);
+  const noteNameTaken = (name: string, folder: PlannedFolder | null) =>
+    plannedNotes.some((note) => !note.deleted && note.folder === folder && note.name === name);
+
+  const claimRef = (value: unknown): string | undefined => {
+    const ref = optionalString(value, "ref");
+    if (ref === null) {
+      return undefined;
+    }
+    if (folderRefs.has(ref) || noteRefs.has(ref)) {
+      throw new ValidationError(`Duplicate ref: ${ref}`);
+    }
+    return ref;
+  };
+
+  const deleteNote = (note: PlannedNote) => {
+    note.deleted = true;
+    note.deletedFolderPath = note.folder ? folderPathOf(note.folder) : null;
+  };
+
+  const planned: PlannedOperation[] = [];
+
+  const planOperation = async (operation: BatchOperation): Promise<PlannedOperation> => {
+    switch (operation.type) {
+      case "create-folder": {
+        const ref = claimRef(operation.ref);
+        const name = requireString(operation.name, "Folder name");
+        if (!isValidFolderName(name)) {
+          throw new ValidationError("Folder name must be kebab-case, camelCase, snake_case, or PascalCase");
+        }
+        const displayName = requireString(operation.displayName, "Folder display name");
+        const parent = resolveOptionalFolder(operation.parentPublicId, "parentPublicId", "Parent folder not found");
+        if (folderNameTaken(name, parent)) {
+          throw new DuplicateError("Folder with this name already exists in this location");
+        }
+
+        const folder: PlannedFolder = {
+          id: null,
+          publicId: createId(),
+          name,
+          displayName,
+          parent,
+          created: true,
+          moved: false,
+          deleted: false,
+        };
+        plannedFolders.push(folder);
+        foldersByPublicId.set(folder.publicId, folder);
+        if (ref !== undefined) {
+          folderRefs.set(ref, folder);
+        }
+        return { type: operation.type, ref, target: folder };
+      }
+
+      case "create-note": {
+        const ref = claimRef(operation.ref);
+        const name = requireString(operation.name, "Note name");
+        if (!isValidFolderName(name)) {
+          throw new ValidationError("Note name must be kebab-case, camelCase, snake_case, or PascalCase");
+        }
+        const title = requireString(operation.title, "Note title");
+        const folder = resolveOptionalFolder(operation.folderPublicId, "folderPublicId");
+        if (operation.content !== undefined && typeof operation.content !== "string") {
+          throw new ValidationError("Note content must be a string");
+        }
+        if (noteNameTaken(name, folder)) {
+          throw new DuplicateError("Note with this name already exists in this folder");
+        }
+
+        const note: PlannedNote = {
+          id: null,
+          publicId: createId(),
+          name,
+          title,
+          folder,
+          content: operation.content ?? "",
+          updatedAt: null,
+          created: true,
+          moved: false,
+          deleted: false,
+          deletedFolderPath: null,
+          backlinks: [],
+        };
+        plannedNotes.push(note);
+        notesByPublicId.set(note.publicId, note);
+        if (ref !== undefined) {
+          noteRefs.set(ref, note);
+        }
+        return { type: operation.type, ref, target: note };
+      }
+
+      case "update-note": {
+        const note = resolveNote(operation.notePublicId, "notePublicId");
+        if (typeof operation.content !== "string") {
+          throw new ValidationError("Note content is required");
+        }
+        if (operation.expectedRevisionId !== undefined) {
+          if (note.created || note.content !== null) {
+            throw new ValidationError("expectedRevisionId can only be checked before the batch changes the note");
+          }
+          const current = await db
+            .select({ content: notes.content })
+            .from(notes)
+            .where(eq(notes.id, note.id!))
+            .limit(1);
+          await assertExpectedRevision(note.id!, operation.expectedRevisionId, current[0]?.content ?? "");
+        }
+        note.content = operation.content;
+        return { type: operation.type, target: note };
+      }
+
+      case "move-note": {
+        const note = resolveNote(operation.notePublicId, "notePublicId");
+        const folder = resolveOptionalFolder(operation.folderPublicId, "folderPublicId");
+        if (folder !== note.folder) {
+          if (noteNameTaken(note.name, folder)) {
+            throw new DuplicateError("Note with this name already exists in the target folder");
+          }
+          if (!note.created && !note.moved) {
+            note.backlinks = await findBacklinks(note.id!);
+          }
+          note.folder = folder;
+          note.moved = true;
+        }
+        return { type: operation.type, target: note };
+      }
+
+      case "move-folder": {
+        const folder = resolveFolder(operation.folderPublicId, "folderPublicId");
+        const parent = resolveOptionalFolder(operation.parentPublicId, "parentPublicId", "Parent folder not found");
+        if (parent !== folder.parent) {
+          for (let current = parent; current; current = current.parent) {
+            if (current === folder) {
+              throw new ValidationError("Folder cannot be moved into itself or its descendant");
+            }
+          }
+          if (folderNameTaken(folder.name, parent)) {
+            throw new DuplicateError("Folder with this name already exists in the target location");
+          }
+          folder.parent = parent;
+          folder.moved = true;
+        }
+        return { type: operation.type, target: folder };
+      }
+
+      case "delete-note": {
+        const note = resolveNote(operation.notePublicId, "notePublicId");
+        deleteNote(note);
+        return { type: operation.type, target: note };
+      }
+
+      case "delete-folder": {
+        const folder = resolveFolder(operation.folderPublicId, "folderPublicId");
+        const isInside = (candidate: PlannedFolder | null) => {
+          for (let current = candidate; current; current = current.parent) {
+            if (current === folder) {
+              return true;
+            }
+          }
+          return false;
+        };
+
+        // Notes first: their deleted folder path is taken before the folders go
+        for (const note of plannedNotes) {
+          if (!note.deleted && isInside(note.folder)) {
+            deleteNote(note);
+          }
+        }
+        for (const candidate of plannedFolders) {
+          if (!candidate.deleted && isInside(candidate)) {
+            candidate.deleted = true;
+          }
+        }
+        return { type: operation.type, target: folder };
+      }
+
+      default:
+        throw new ValidationError(
+          `Unknown operation type: ${String((operation as { type?: unknown }).type)}. Expected one of: ${BATCH_OPERATION_TYPES.join(", ")}`
+        );
+    }
+  };
+
+  for (const [index, operation] of operations.entries()) {
+    try {
+      if (typeof operation !== "object" || operation === null) {
+        throw new ValidationError("Operation must be an object");
+      }
+      planned.push(await planOperation(operation));
+    } catch (error) {
+      if (error instanceof Error) {
+        const type = typeof operation?.type === "string" ? ` (${operation.type})` : "";
+        error.message = `Operation ${index + 1}${type}: ${error.message}`;
+      }
+      throw error;
+    }
+  }
+
+  return { workspaceId, folders: plannedFolders, notes: plannedNotes, operations: planned };
+}
+
+/**
+ * Created folders in an order that inserts every parent before its children.
+ */
+const insertionOrder = (plannedFolders: PlannedFolder[]): PlannedFolder[] => {
+  const ordered: PlannedFolder[] = [];
+  const visited = new Set<PlannedFolder>();
+  const visit = (folder: PlannedFolder) => {
+    if (!folder.created || visited.has(folder)) {
+      return;
+    }
+    visited.add(folder);
+    if (folder.parent) {
+      visit(folder.parent);
+    }
+    ordered.push(folder);
+  };
+  plannedFolders.forEach(visit);
+  return ordered;
+};
+
+const changedFolders = (plan: BatchPlan) =>
+  plan.folders.filter((folder) => !folder.created && (folder.moved || folder.deleted));
+
+const changedNotes = (plan: BatchPlan) =>
+  plan.notes.filter((note) => !note.created && (note.moved || note.deleted || note.content !== null));
+
+// Compared in milliseconds: PostgreSQL keeps microseconds that the planned Date lost
+const isUnchanged = (note: PlannedNote, current: { updatedAt: Date; deletedAt: Date | null }) =>
+  current.deletedAt === null && current.updatedAt.getTime() === note.updatedAt!.getTime();
+
+const conflict = () =>
+  new BatchConflictError("The workspace changed while the batch was being applied; nothing was written. Retry the batch.");
+
+/**
+ * Apply a plan inside a SQLite transaction.
+ * @returns The revision created for each existing note whose content changed
+ */
+const applySqlite = (plan: BatchPlan, now: Date): Map<PlannedNote, number> => {
+  const sqliteDb = db as unknown as BetterSQLite3Database<typeof sqliteSchema>;
+  const tables = {
+    folders: folders as unknown as typeof sqliteSchema.folders,
+    notes: notes as unknown as typeof sqliteSchema.notes,
+  };
+
+  return sqliteDb.transaction((tx) => {
+    const revisionIds = new Map<PlannedNote, number>();
+
+    for (const folder of insertionOrder(plan.folders)) {
+      const inserted = tx
+        .insert(tables.folders)
+        .values({
+          publicId: folder.publicId,
+          workspaceId: plan.workspaceId,
+          parentId: folder.parent?.id ?? null,
+          name: folder.name,
+          displayName: folder.displayName,
+          createdAt: now,
+          updatedAt: now,
+          deletedAt: folder.deleted ? now : null,
+        })
+        .returning({ id: tables.folders.id })
+        .get();
+      folder.id = inserted.id;
+    }
+
+    for (const folder of changedFolders(plan)) {
+      const updated = tx
+        .update(tables.folders)
+        .set({
+          parentId: folder.parent?.id ?? null,
+          ...(folder.moved ? { updatedAt: now } : {}),
+          ...(folder.deleted ? { deletedAt: now } : {}),
+        })
+        .where(and(eq(tables.folders.id, folder.id!), isNull(tables.folders.deletedAt)))
+        .returning({ id: tables.folders.id })
+        .all();
+      if (updated.length === 0) {
+        throw conflict();
+      }
+    }
+
+    for (const note of plan.notes.filter((candidate) => candidate.created)) {
+      const inserted = tx
+        .insert(tables.notes)
+        .values({
+          publicId: note.publicId,
+          workspaceId: plan.workspaceId,
+          folderId: note.folder?.id ?? null,
+          name: note.name,
+          title: note.title,
+          content: note.content ?? "",
+          createdAt: now,
+          updatedAt: now,
+          deletedAt: note.deleted ? now : null,
+          deletedFolderPath: note.deletedFolderPath,
+        })
+        .returning({ id: tables.notes.id })
+        .get();
+      note.id = inserted.id;
+      updateNoteSearchIndexSqlite(tx, inserted.id);
+    }
+
+    for (const note of changedNotes(plan)) {
+      const current = tx
+        .select({ updatedAt: tables.notes.updatedAt, deletedAt: tables.notes.deletedAt })
+        .from(tables.notes)
+        .where(eq(tables.notes.id, note.id!))
+        .get();
+      if (!current || !isUnchanged(note, current)) {
+        throw conflict();
+      }
+
+      if (note.content !== null) {
+        revisionIds.set(note, insertRevisionSqlite(tx, {
+          workspaceId: plan.workspaceId,
+          noteId: note.id!,
+          authorUserId: "system",
+          content: note.content,
+          createdAt: now,
+        }));
+      }
+
+      tx
+        .update(tables.notes)
+        .set({
+          folderId: note.folder?.id ?? null,
+          updatedAt: now,
+          ...(note.content !== null ? { content: note.content } : {}),
+          ...(note.deleted ? { deletedAt: now, deletedFolderPath: note.deletedFolderPath } : {}),
+        })
+        .where(eq(tables.notes.id, note.id!))
+        .run();
+
+      if (note.content !== null) {
+        updateNoteSearchIndexSqlite(tx, note.id!);
+      }
+    }
+
+    return revisionIds;
+  });
+};
+
+/**
+ * Apply a plan inside a PostgreSQL transaction.
+ * @returns The revision created for each existing note whose content changed
+ */
+const applyPostgres = (plan: BatchPlan, now: Date): Promise<Map<PlannedNote, number>> =>
+  db.transaction(async (tx) => {
+    const revisionIds = new Map<PlannedNote, number>();
+
+    for (const folder of insertionOrder(plan.folders)) {
+      const inserted = await tx
+        .insert(folders)
+        .values({
+          publicId: folder.publicId,
+          workspaceId: plan.workspaceId,
+          parentId: folder.parent?.id ?? null,
+          name: folder.name,
+          displayName: folder.displayName,
+          createdAt: now,
+          updatedAt: now,
+          deletedAt: folder.deleted ? now : null,
+        })
+        .returning({ id: folders.id });
+      folder.id = inserted[0].id;
+    }
+
+    for (const folder of changedFolders(plan)) {
+      const updated = await tx
+        .update(folders)
+        .set({
+          parentId: folder.parent?.id ?? null,
+          ...(folder.moved ? { updatedAt: now } : {}),
+          ...(folder.deleted ? { deletedAt: now } : {}),
+        })
+        .where(and(eq(folders.id, folder.id!), isNull(folders.deletedAt)))
+        .returning({ id: folders.id });
+      if (updated.length === 0) {
+        throw conflict();
+      }
+    }
+
+    for (const note of plan.notes.filter((candidate) => candidate.created)) {
+      const inserted = await tx
+        .insert(notes)
+        .values({
+          publicId: note.publicId,
+          workspaceId: plan.workspaceId,
+          folderId: note.folder?.id ?? null,
+          name: note.name,
+          title: note.title,
+          content: note.content ?? "",
+          createdAt: now,
+          updatedAt: now,
+          deletedAt: note.deleted ? now : null,
+          deletedFolderPath: note.deletedFolderPath,
+        })
+        .returning({ id: notes.id });
+      note.id = inserted[0].id;
+      await updateNoteSearchIndex(note.id, tx);
+    }
+
+    for (const note of changedNotes(plan)) {
+      const current = await tx
+        .select({ updatedAt: notes.updatedAt, deletedAt: notes.deletedAt })
+        .from(notes)
+        .where(eq(notes.id, note.id!))
+        .for("update");
+      if (!current[0] || !isUnchanged(note, current[0])) {
+        throw conflict();
+      }
+
+      if (note.content !== null) {
+        revisionIds.set(note, await insertRevision({
+          workspaceId: plan.workspaceId,
+          noteId: note.id!,
+          authorUserId: "system",
+          content: note.content,
+          createdAt: now,
+        }, tx));
+      }
+
+      await tx
+        .update(notes)
+        .set({
+          folderId: note.folder?.id ?? null,
+          updatedAt: now,
+          ...(note.content !== null ? { content: note.content } : {}),
+          ...(note.deleted ? { deletedAt: now, deletedFolderPath: note.deletedFolderPath } : {}),
+        })
+        .where(eq(notes.id, note.id!));
+
+      if (note.content !== null) {
+        await updateNoteSearchIndex(note.id!, tx);
+      }
+    }
+
+    return revisionIds;
+  });
+
+/**
+ * The note and folder events a batch stands for, one per folder or note it
+ * changed: creations first, then updates, then deletions.
+ */
+async function buildBatchEvents(plan: BatchPlan, now: Date): Promise<Pick<WorkspaceEvent, "type" | "data">[]> {
+  const events: Pick<WorkspaceEvent, "type" | "data">[] = [];
+  const folderData = (folder: PlannedFolder) => ({
+    id: folder.id,
+    publicId: folder.publicId,
+    name: folder.name,
+    displayName: folder.displayName,
+    parentId: folder.parent?.id ?? null,
+    folderPath: folderPathOf(folder),
+  });
+
+  for (const folder of insertionOrder(plan.folders)) {
+    if (!folder.deleted) {
+      events.push({ type: "folder.created", data: folderData(folder) });
+    }
+  }
+  for (const folder of changedFolders(plan)) {
+    if (!folder.deleted) {
+      events.push({ type: "folder.updated", data: folderData(folder) });
+    }
+  }
+
+  const liveNotes = [
+    ...plan.notes.filter((note) => note.created && !note.deleted),
+    ...changedNotes(plan).filter((note) => !note.deleted),
+  ];
+  const contentRows = liveNotes.length === 0
+    ? []
+    : await db
+      .select({ id: notes.id, content: notes.content })
+      .from(notes)
+      .where(inArray(notes.id, liveNotes.map((note) => note.id!)));
+  const contentById = new Map(contentRows.map((row) => [row.id, row.content]));
+
+  for (const note of liveNotes) {
+    events.push({
+      type: note.created ? "note.created" : "note.updated",
+      data: {
+        id: note.id,
+        publicId: note.publicId,
+        name: note.name,
+        title: note.title,
+        content: contentById.get(note.id!) ?? note.content ?? "",
+        folderId: note.folder?.id ?? null,
+        folderPath: note.folder ? folderPathOf(note.folder) : null,
+        updatedAt: now.toISOString(),
+      },
+    });
+  }
+
+  for (const note of plan.notes) {
+    if (note.deleted && !note.created) {
+      events.push({ type: "note.deleted", data: { publicId: note.publicId, id: note.id } });
+    }
+  }
+  for (const folder of plan.folders) {
+    if (folder.deleted && !folder.created) {
+      events.push({ type: "folder.deleted", data: { publicId: folder.publicId } });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Applies a list of folder and note operations to a workspace in one
+ * transaction: either every operation is written or none is.
+ * Throws the error of the first invalid operation, StaleRevisionError if an
+ * update's expectedRevisionId is outdated and BatchConflictError if the
+ * workspace changed while the batch was written.
+ */
+export async function batchWriteInWorkspace(params: BatchWriteParams): Promise<BatchWriteResult> {
+  const workspaceId = await resolveWritableWorkspace(params.workspaceSlug, params.userId);
+
+  if (!Array.isArray(params.operations) || params.operations.length === 0) {
+    throw new ValidationError("At least one operation is required");
+  }
+  if (params.operations.length > MAX_BATCH_OPERATIONS) {
+    throw new ValidationError(`A batch can hold at most ${MAX_BATCH_OPERATIONS} operations`);
+  }
+
+  const plan = await planBatch(workspaceId, params.operations);
+
+  const now = new Date();
+  const revisionIds = dialect === "sqlite" ? applySqlite(plan, now) : await applyPostgres(plan, now);
+
+  // Derived data, refreshed once the batch is committed
+  const writtenNotes = plan.notes.filter((note) => !note.deleted && (note.created || note.content !== null));
+  for (const note of writtenNotes) {
+    await refreshNoteLinks(note.id!);
+    await refreshNoteMetadata(note.id!);
+  }
+  await refreshWorkspaceLinks(workspaceId);
+
+  for (const note of writtenNotes.filter((candidate) => !candidate.created)) {
+    const roomName = `${workspaceId}/${note.publicId}`;
+    try {
+      await pushExternalUpdateToRoom(roomName, note.content!, "system");
+    } catch (error) {
+      console.warn(`[batch-write] Failed to push external update to room: ${roomName}`, error);
+    }
+  }
+
+  workspaceEventHub.publish({
+    workspaceId,
+    type: "batch.applied",
+    data: { events: await buildBatchEvents(plan, now) },
+  });
+
+  // Point links to moved notes at their new paths
+  for (const note of plan.notes) {
+    if (note.moved && !note.deleted && note.backlinks.length > 0) {
+      await relinkBacklinks(workspaceId, note.id!, note.backlinks, params.userId);
+    }
+  }
+
+  return {
+    operations: plan.operations.map(({ type, ref, target }) => {
+      const revisionId = type === "update-note" ? revisionIds.get(target as PlannedNote) : undefined;
+      return {
+        type,
+        publicId: target.publicId,
+        ...(ref !== undefined ? { ref } : {}),
+        ...(revisionId !== undefined ? { revisionId } : {}),
+      };
+    }),
+    appliedAt: now,
+  };
+}
@@ -0,0 +1,132 @@
+import { diffLines } from "@/lib/blame";
+
+/**
+ * Line diff with word-level highlights, built on the same LCS as blame.
+ *
+ * Deleted and inserted lines that sit next to each other are paired up in
+ * order and diffed word by word, so a one-word edit shows up as a changed
+ * line with the word highlighted instead of a whole-line replacement.
+ */
+
+export type DiffChangeType = "equal" | "insert" | "delete";
+
+export interface DiffSegment {
+  type: DiffChangeType;
+  text: string;
+}
+
+export interface DiffLine {
+  type: DiffChangeType;
+  /** 1-based line number in the old text, null for inserted lines */
+  oldLineNumber: number | null;
+  /** 1-based line number in the new text, null for deleted lines */
+  newLineNumber: number | null;
+  text: string;
+  /** Word-level changes, only set on lines paired with a counterpart */
+  segments?: DiffSegment[];
+}
+
+export interface TextDiff {
+  additions: number;
+  deletions: number;
+  lines: DiffLine[];
+}
+
+// Word diffs are quadratic in the token count; very long lines are shown whole
+const MAX_WORD_DIFF_TOKENS = 500;
+
+const tokenize = (line: string) => line.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+
+const pushSegment = (segments: DiffSegment[], type: DiffChangeType, text: string) => {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+const diffWords = (oldLine: string, newLine: string) => {
+  const oldTokens = tokenize(oldLine);
+  const newTokens = tokenize(newLine);
+  if (oldTokens.length > MAX_WORD_DIFF_TOKENS || newTokens.length > MAX_WORD_DIFF_TOKENS) {
+    return null;
+  }
+
+  const oldSegments: DiffSegment[] = [];
+  const newSegments: DiffSegment[] = [];
+
+  for (const op of diffLines(oldTokens, newTokens)) {
+    if (op.type === "equal") {
+      pushSegment(oldSegments, "equal", oldTokens[op.prevIndex]);
+      pushSegment(newSegments, "equal", newTokens[op.nextIndex]);
+    } else if (op.type === "delete") {
+      pushSegment(oldSegments, "delete", oldTokens[op.prevIndex]);
+    } else {
+      pushSegment(newSegments, "insert", newTokens[op.nextIndex]);
+    }
+  }
+
+  return { oldSegments, newSegments };
+};
+
+const pairChangedLines = (deleted: DiffLine[], inserted: DiffLine[]) => {
+  const pairs = Math.min(deleted.length, inserted.length);
+  for (let index = 0; index < pairs; index += 1) {
+    const words = diffWords(deleted[index].text, inserted[index].text);
+    if (words) {
+      deleted[index].segments = words.oldSegments;
+      inserted[index].segments = words.newSegments;
+    }
+  }
+};
+
+export const diffText = (oldText: string, newText: string): TextDiff => {
+  const oldLines = oldText.split("\n");
+  const newLines = newText.split("\n");
+  const ops = diffLines(oldLines, newLines);
+
+  const lines: DiffLine[] = [];
+  let additions = 0;
+  let deletions = 0;
+  let deletedRun: DiffLine[] = [];
+  let insertedRun: DiffLine[] = [];
+
+  const flushRuns = () => {
+    pairChangedLines(deletedRun, insertedRun);
+    lines.push(...deletedRun, ...insertedRun);
+    deletedRun = [];
+    insertedRun = [];
+  };
+
+  for (const op of ops) {
+    if (op.type === "equal") {
+      flushRuns();
+      lines.push({
+        type: "equal",
+        oldLineNumber: op.prevIndex + 1,
+        newLineNumber: op.nextIndex + 1,
+        text: oldLines[op.prevIndex],
+      });
+    } else if (op.type === "delete") {
+      deletions += 1;
+      deletedRun.push({
+        type: "delete",
+        oldLineNumber: op.prevIndex + 1,
+        newLineNumber: null,
+        text: oldLines[op.prevIndex],
+      });
+    } else {
+      additions += 1;
+      insertedRun.push({
+        type: "insert",
+        oldLineNumber: null,
+        newLineNumber: op.nextIndex + 1,
+        text: newLines[op.nextIndex],
+      });
+    }
+  }
+  flushRuns();
+
+  return { additions, deletions, lines };
+};
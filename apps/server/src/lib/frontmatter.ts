@@ -0,0 +1,298 @@
+import { YAML } from "bun";
+import { and, asc, eq, inArray, isNull, like, sql } from "drizzle-orm";
+import { db } from "@/db";
+import { noteMetadata, notes } from "@/db/schema";
+
+/**
+ * YAML frontmatter of notes as queryable metadata.
+ *
+ * A note whose content starts with a `---` line followed by YAML and a closing
+ * `---` (or `...`) line has frontmatter. Every key is stored in note_metadata
+ * with one row per value: scalars as text, each element of a list as its own
+ * row and nested objects as JSON. `tags` may also be written as a comma
+ * separated string; a leading `#` is dropped from each tag.
+ *
+ * Like note_links this is derived data, refreshed after every content write.
+ * Failures are logged and never fail the write; invalid YAML is treated as no
+ * frontmatter at all.
+ */
+
+export type NoteMetadata = Record<string, string[]>;
+
+export interface MetadataEntry {
+  key: string;
+  value: string;
+}
+
+export interface MetadataFilter {
+  /** Notes must have every one of these tags */
+  tags?: string[];
+  /** Notes must have each key; a non-null value must also match */
+  fields?: { key: string; value: string | null }[];
+}
+
+export interface MetadataCount {
+  value: string;
+  count: number;
+}
+
+export const TAGS_KEY = "tags";
+
+const FRONTMATTER_PATTERN = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+const MAX_ENTRIES = 200;
+const MAX_VALUE_LENGTH = 500;
+const INSERT_BATCH_SIZE = 200;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Parsed frontmatter of a note, or null if it has none or it is not a YAML mapping.
+ */
+export function parseFrontmatter(content: string): Record<string, unknown> | null {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const data = YAML.parse(match[1]);
+    return isRecord(data) ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Content of a note without its frontmatter block.
+ */
+export function stripFrontmatter(content: string): string {
+  return content.replace(FRONTMATTER_PATTERN, "");
+}
+
+export const normalizeTag = (tag: string): string => tag.trim().replace(/^#+/, "").trim();
+
+const toValue = (value: unknown): string | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  }
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text.length > MAX_VALUE_LENGTH ? text.slice(0, MAX_VALUE_LENGTH) : text;
+};
+
+/**
+ * Flatten frontmatter into one entry per key and value, without duplicates.
+ */
+export function metadataEntries(data: Record<string, unknown>): MetadataEntry[] {
+  const seen = new Set<string>();
+  const entries: MetadataEntry[] = [];
+
+  const add = (key: string, value: string | null) => {
+    if (value === null || value === "" || entries.length >= MAX_ENTRIES) {
+      return;
+    }
+    const id = `${key}\u0000${value}`;
+    if (!seen.has(id)) {
+      seen.add(id);
+      entries.push({ key, value });
+    }
+  };
+
+  for (const [rawKey, raw] of Object.entries(data)) {
+    const key = rawKey.trim();
+    if (!key) {
+      continue;
+    }
+
+    if (key === TAGS_KEY) {
+      const tags = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(",") : [raw];
+      for (const tag of tags) {
+        const value = toValue(tag);
+        add(key, value === null ? null : normalizeTag(value));
+      }
+      continue;
+    }
+
+    for (const item of Array.isArray(raw) ? raw : [raw]) {
+      add(key, toValue(item));
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Re-parse the frontmatter of one note from its current content.
+ */
+export async function refreshNoteMetadata(noteId: number): Promise<void> {
+  try {
+    const noteRows = await db
+      .select({ workspaceId: notes.workspaceId, content: notes.content })
+      .from(notes)
+      .where(eq(notes.id, noteId))
+      .limit(1);
+
+    const note = noteRows[0];
+    if (!note) {
+      return;
+    }
+
+    const data = parseFrontmatter(note.content ?? "");
+    const entries = data ? metadataEntries(data) : [];
+
+    await db.delete(noteMetadata).where(eq(noteMetadata.noteId, noteId));
+    const rows = entries.map((entry) => ({ noteId, workspaceId: note.workspaceId, ...entry }));
+    for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+      await db
+        .insert(noteMetadata)
+        .values(rows.slice(start, start + INSERT_BATCH_SIZE))
+        .onConflictDoNothing();
+    }
+  } catch (error) {
+    console.warn(`[frontmatter] Failed to refresh metadata of note ${noteId}`, error);
+  }
+}
+
+/**
+ * Stored metadata of a note, values grouped by key.
+ */
+export async function loadNoteMetadata(noteId: number): Promise<NoteMetadata> {
+  const rows = await db
+    .select({ key: noteMetadata.key, value: noteMetadata.value })
+    .from(noteMetadata)
+    .where(eq(noteMetadata.noteId, noteId))
+    .orderBy(asc(noteMetadata.key), asc(noteMetadata.value));
+
+  const metadata: NoteMetadata = {};
+  for (const row of rows) {
+    (metadata[row.key] ??= []).push(row.value);
+  }
+  return metadata;
+}
+
+/**
+ * Tags of the given notes, sorted; notes without tags are left out.
+ */
+export async function loadNoteTags(noteIds: number[]): Promise<Map<number, string[]>> {
+  const tagsByNote = new Map<number, string[]>();
+  if (noteIds.length === 0) {
+    return tagsByNote;
+  }
+
+  const rows = await db
+    .select({ noteId: noteMetadata.noteId, value: noteMetadata.value })
+    .from(noteMetadata)
+    .where(and(inArray(noteMetadata.noteId, noteIds), eq(noteMetadata.key, TAGS_KEY)))
+    .orderBy(asc(noteMetadata.value));
+
+  for (const row of rows) {
+    const tags = tagsByNote.get(row.noteId) ?? [];
+    tags.push(row.value);
+    tagsByNote.set(row.noteId, tags);
+  }
+  return tagsByNote;
+}
+
+/**
+ * Ids of the live notes of a workspace matching every condition of the filter.
+ * An empty filter matches no notes.
+ */
+export async function findNoteIdsByMetadata(workspaceId: number, filter: MetadataFilter): Promise<number[]> {
+  const conditions = [
+    ...(filter.tags ?? []).map((tag) => ({ key: TAGS_KEY, value: normalizeTag(tag) as string | null })),
+    ...(filter.fields ?? []),
+  ];
+
+  let noteIds: number[] | null = null;
+  for (const condition of conditions) {
+    const rows: { noteId: number }[] = await db
+      .selectDistinct({ noteId: noteMetadata.noteId })
+      .from(noteMetadata)
+      .innerJoin(notes, eq(notes.id, noteMetadata.noteId))
+      .where(
+        and(
+          eq(noteMetadata.workspaceId, workspaceId),
+          eq(noteMetadata.key, condition.key),
+          condition.value === null ? undefined : eq(noteMetadata.value, condition.value),
+          isNull(notes.deletedAt),
+          noteIds === null ? undefined : inArray(noteMetadata.noteId, noteIds)
+        )
+      );
+
+    noteIds = rows.map((row) => row.noteId);
+    if (noteIds.length === 0) {
+      break;
+    }
+  }
+
+  return noteIds ?? [];
+}
+
+/**
+ * Distinct values of a key across the live notes of a workspace, most used first.
+ */
+export async function countMetadataValues(workspaceId: number, key: string): Promise<MetadataCount[]> {
+  const count = sql<number>`count(*)`;
+  const rows = await db
+    .select({ value: noteMetadata.value, count })
+    .from(noteMetadata)
+    .innerJoin(notes, eq(notes.id, noteMetadata.noteId))
+    .where(and(eq(noteMetadata.workspaceId, workspaceId), eq(noteMetadata.key, key), isNull(notes.deletedAt)))
+    .groupBy(noteMetadata.value)
+    .orderBy(sql`count(*) desc`, asc(noteMetadata.value));
+
+  return rows.map((row) => ({ value: row.value, count: Number(row.count) }));
+}
+
+/**
+ * Keys used in the frontmatter of the live notes of a workspace, with the
+ * number of notes using each, most used first.
+ */
+export async function countMetadataKeys(workspaceId: number): Promise<MetadataCount[]> {
+  const count = sql<number>`count(distinct ${noteMetadata.noteId})`;
+  const rows = await db
+    .select({ value: noteMetadata.key, count })
+    .from(noteMetadata)
+    .innerJoin(notes, eq(notes.id, noteMetadata.noteId))
+    .where(and(eq(noteMetadata.workspaceId, workspaceId), isNull(notes.deletedAt)))
+    .groupBy(noteMetadata.key)
+    .orderBy(sql`count(distinct ${noteMetadata.noteId}) desc`, asc(noteMetadata.key));
+
+  return rows.map((row) => ({ value: row.value, count: Number(row.count) }));
+}
+
+/**
+ * Index the frontmatter of notes written before note_metadata existed.
+ * Only runs while the table is empty, so it is a single lookup afterwards.
+ */
+export async function backfillNoteMetadata(): Promise<number> {
+  const existing = await db.select({ noteId: noteMetadata.noteId }).from(noteMetadata).limit(1);
+  if (existing.length > 0) {
+    return 0;
+  }
+
+  const candidates = await db
+    .select({ id: notes.id })
+    .from(notes)
+    .where(like(notes.content, "---%"));
+
+  for (const { id } of candidates) {
+    await refreshNoteMetadata(id);
+  }
+  return candidates.length;
+}
+
+export function startNoteMetadataBackfill(): void {
+  backfillNoteMetadata()
+    .then((indexed) => {
+      if (indexed > 0) {
+        console.log(`[frontmatter] Indexed frontmatter of ${indexed} notes`);
+      }
+    })
+    .catch((error) => {
+      console.error("[frontmatter] Failed to index frontmatter", error);
+    });
+}
@@ -0,0 +1,215 @@
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
+import { db } from "@/db";
+import { folders, notes, workspaceMembers, workspaces } from "@/db/schema";
+import { parseFrontmatter, stripFrontmatter } from "@/lib/frontmatter";
+
+/**
+ * Notes exposed over MCP as resources and prompts.
+ *
+ * Every live note is a resource at kontexted://<workspace>/<folder path>/<note name>,
+ * using the same folder and note names as sync. Notes in the top-level
+ * `prompts` folder of a workspace (and its subfolders) are also prompts named
+ * <workspace>/<path below prompts>. `{{name}}` placeholders in a prompt note
+ * become its arguments; the optional frontmatter keys `description` and
+ * `arguments` (a map of argument name to description) document it.
+ */
+
+export const NOTE_RESOURCE_SCHEME = "kontexted";
+export const NOTE_RESOURCE_URI_TEMPLATE = `${NOTE_RESOURCE_SCHEME}://{workspace}/{+path}`;
+export const PROMPTS_FOLDER_NAME = "prompts";
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+export interface MemberWorkspace {
+  id: number;
+  slug: string;
+  name: string;
+}
+
+export interface NotePathEntry {
+  id: number;
+  publicId: string;
+  name: string;
+  title: string;
+  /** Folder path, null for notes at the workspace root */
+  folderPath: string | null;
+  /** Folder path and note name, e.g. "backend/api/spec" */
+  path: string;
+  updatedAt: Date;
+}
+
+export interface NotePromptArgument {
+  name: string;
+  description?: string;
+}
+
+export interface NotePrompt {
+  /** Path of the note below the prompts folder */
+  name: string;
+  title: string;
+  description?: string;
+  arguments: NotePromptArgument[];
+  /** Content without frontmatter, with the placeholders left in */
+  template: string;
+}
+
+export const noteResourceUri = (workspaceSlug: string, notePath: string): string =>
+  `${NOTE_RESOURCE_SCHEME}://${workspaceSlug}/${notePath}`;
+
+export const notePath = (folderPath: string | null, name: string): string =>
+  folderPath ? `${folderPath}/${name}` : name;
+
+/**
+ * Whether a note in this folder is a prompt
+ */
+export const isPromptFolderPath = (folderPath: string | null | undefined): boolean =>
+  folderPath === PROMPTS_FOLDER_NAME || Boolean(folderPath?.startsWith(`${PROMPTS_FOLDER_NAME}/`));
+
+/**
+ * Workspaces the user is a member of, by name
+ */
+export async function listMemberWorkspaces(userId: string): Promise<MemberWorkspace[]> {
+  return db
+    .select({ id: workspaces.id, slug: workspaces.slug, name: workspaces.name })
+    .from(workspaceMembers)
+    .innerJoin(workspaces, eq(workspaces.id, workspaceMembers.workspaceId))
+    .where(eq(workspaceMembers.userId, userId))
+    .orderBy(asc(workspaces.name));
+}
+
+/**
+ * Every live note of a workspace with its path, ordered by path
+ */
+export async function listWorkspaceNotePaths(workspaceId: number): Promise<NotePathEntry[]> {
+  const folderRows = await db
+    .select({ id: folders.id, name: folders.name, parentId: folders.parentId })
+    .from(folders)
+    .where(and(eq(folders.workspaceId, workspaceId), isNull(folders.deletedAt)));
+
+  const noteRows = await db
+    .select({
+      id: notes.id,
+      publicId: notes.publicId,
+      name: notes.name,
+      title: notes.title,
+      folderId: notes.folderId,
+      updatedAt: notes.updatedAt,
+    })
+    .from(notes)
+    .where(and(eq(notes.workspaceId, workspaceId), isNull(notes.deletedAt)));
+
+  const foldersById = new Map(folderRows.map((folder) => [folder.id, folder]));
+  const folderPaths = new Map<number, string>();
+  const folderPath = (folderId: number, depth = 0): string => {
+    const cached = folderPaths.get(folderId);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const folder = foldersById.get(folderId);
+    if (!folder) {
+      return "";
+    }
+    const parentPath = folder.parentId && depth < 64 ? folderPath(folder.parentId, depth + 1) : "";
+    const path = parentPath ? `${parentPath}/${folder.name}` : folder.name;
+    folderPaths.set(folderId, path);
+    return path;
+  };
+
+  return noteRows
+    .map(({ folderId, ...note }) => {
+      const parentPath = folderId ? folderPath(folderId) || null : null;
+      return { ...note, folderPath: parentPath, path: notePath(parentPath, note.name) };
+    })
+    .sort((left, right) => left.path.localeCompare(right.path));
+}
+
+/**
+ * Find a live note by its path in the workspace
+ * @returns The note with its content, or null if no note has this path
+ */
+export async function findNoteByPath(
+  workspaceId: number,
+  path: string
+): Promise<(NotePathEntry & { content: string }) | null> {
+  const normalized = path.split("/").filter(Boolean).join("/");
+  const entry = (await listWorkspaceNotePaths(workspaceId)).find((note) => note.path === normalized);
+  if (!entry) {
+    return null;
+  }
+
+  const rows = await db
+    .select({ content: notes.content })
+    .from(notes)
+    .where(and(eq(notes.id, entry.id), isNull(notes.deletedAt)))
+    .limit(1);
+
+  return rows[0] ? { ...entry, content: rows[0].content } : null;
+}
+
+/**
+ * Arguments of a prompt template, in order of first use
+ */
+export function promptArguments(template: string): string[] {
+  return Array.from(new Set(Array.from(template.matchAll(PLACEHOLDER_PATTERN), (match) => match[1])));
+}
+
+/**
+ * Fill in the placeholders of a prompt template. Placeholders without a
+ * value are left as they are.
+ */
+export function renderPrompt(template: string, args: Record<string, string | undefined>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => args[name] ?? placeholder);
+}
+
+const toNotePrompt = (note: NotePathEntry, content: string): NotePrompt => {
+  const frontmatter = parseFrontmatter(content);
+  const template = stripFrontmatter(content).trim();
+  const argumentDocs = frontmatter?.arguments;
+  const describeArgument = (name: string): string | undefined => {
+    if (typeof argumentDocs !== "object" || argumentDocs === null || Array.isArray(argumentDocs)) {
+      return undefined;
+    }
+    const description = (argumentDocs as Record<string, unknown>)[name];
+    return typeof description === "string" ? description : undefined;
+  };
+
+  return {
+    name: note.path.slice(PROMPTS_FOLDER_NAME.length + 1),
+    title: note.title,
+    description: typeof frontmatter?.description === "string" ? frontmatter.description : undefined,
+    arguments: promptArguments(template).map((name) => ({ name, description: describeArgument(name) })),
+    template,
+  };
+};
+
+/**
+ * Prompts defined by the notes in the prompts folder of a workspace
+ */
+export async function listWorkspacePrompts(workspaceId: number): Promise<NotePrompt[]> {
+  const promptNotes = (await listWorkspaceNotePaths(workspaceId)).filter((note) =>
+    isPromptFolderPath(note.folderPath)
+  );
+  if (promptNotes.length === 0) {
+    return [];
+  }
+
+  const rows = await db
+    .select({ id: notes.id, content: notes.content })
+    .from(notes)
+    .where(inArray(notes.id, promptNotes.map((note) => note.id)));
+  const contentById = new Map(rows.map((row) => [row.id, row.content]));
+
+  return promptNotes.flatMap((note) => {
+    const content = contentById.get(note.id);
+    return content === undefined ? [] : [toNotePrompt(note, content)];
+  });
+}
+
+/**
+ * Load one prompt of a workspace by its name
+ * @returns The prompt, or null if there is no such prompt note
+ */
+export async function findWorkspacePrompt(workspaceId: number, name: string): Promise<NotePrompt | null> {
+  const note = await findNoteByPath(workspaceId, `${PROMPTS_FOLDER_NAME}/${name}`);
+  return note ? toNotePrompt(note, note.content) : null;
+}
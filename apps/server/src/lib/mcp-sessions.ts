@@ -0,0 +1,181 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Stateful MCP sessions on the streamable HTTP transport.
+ *
+ * A client that sends an initialize request without a session ID starts a
+ * session: one transport and server that live across requests, identified by
+ * the Mcp-Session-Id header the server hands out. The session's server keeps
+ * the client's resource subscriptions and forwards workspace changes on its
+ * GET stream, so long-running agents learn about other people's edits.
+ *
+ * A session ends when the client sends DELETE, or when it has had no requests
+ * and no open stream for the idle timeout. A user holds at most
+ * MAX_SESSIONS_PER_USER sessions; starting another one closes their least
+ * recently active session. Sessions live in memory; after a
+ * restart clients get a 404 for their session ID and initialize again.
+ * Requests without a session ID that do not initialize are served statelessly
+ * by the caller, as are all requests when sessions are disabled.
+ */
+
+export type McpServerFactory = (userId: string, options: { watchChanges?: AbortSignal }) => McpServer;
+
+interface McpSession {
+  userId: string;
+  transport: WebStandardStreamableHTTPServerTransport;
+  lastActivity: number;
+  /** GET streams the client currently holds open */
+  openStreams: number;
+}
+
+const SESSION_ID_HEADER = "mcp-session-id";
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const MAX_SESSIONS_PER_USER = 10;
+
+const sessionNotFound = () =>
+  new Response(
+    JSON.stringify({ jsonrpc: "2.0", error: { code: -32001, message: "Session not found" }, id: null }),
+    { status: 404, headers: { "Content-Type": "application/json" } }
+  );
+
+export class McpSessionStore {
+  private sessions = new Map<string, McpSession>();
+  private sweeper: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * @param createServer Creates the server of a new session
+   * @param idleTimeoutMs How long an idle session is kept; 0 disables sessions
+   */
+  constructor(
+    private readonly createServer: McpServerFactory,
+    private readonly idleTimeoutMs: number
+  ) {}
+
+  /**
+   * Handle a request that belongs to a session or starts one.
+   * @returns The response, or null if the request should be served statelessly
+   */
+  async handleRequest(req: Request, userId: string): Promise<Response | null> {
+    if (this.idleTimeoutMs === 0) {
+      return null;
+    }
+
+    const sessionId = req.headers.get(SESSION_ID_HEADER);
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      // A session of another user is as unknown as an expired one
+      if (!session || session.userId !== userId) {
+        return sessionNotFound();
+      }
+      return this.handleSessionRequest(session, req);
+    }
+
+    if (req.method !== "POST") {
+      return null;
+    }
+
+    let body: unknown;
+    try {
+      body = await req.clone().json();
+    } catch {
+      return null;
+    }
+    const messages = Array.isArray(body) ? body : [body];
+    if (!messages.some((message) => isInitializeRequest(message))) {
+      return null;
+    }
+
+    return this.startSession(req, body, userId);
+  }
+
+  private async handleSessionRequest(session: McpSession, req: Request): Promise<Response> {
+    session.lastActivity = Date.now();
+    const response = await session.transport.handleRequest(req);
+
+    // Notifications reach the client on its GET stream; the session stays
+    // alive while the stream is open
+    if (req.method === "GET" && response.ok) {
+      session.openStreams += 1;
+      req.signal.addEventListener(
+        "abort",
+        () => {
+          session.openStreams -= 1;
+          session.lastActivity = Date.now();
+        },
+        { once: true }
+      );
+    }
+
+    return response;
+  }
+
+  private async startSession(req: Request, parsedBody: unknown, userId: string): Promise<Response> {
+    await this.closeExcessSessions(userId);
+
+    const watching = new AbortController();
+    const transport = new WebStandardStreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, { userId, transport, lastActivity: Date.now(), openStreams: 0 });
+        this.startSweeper();
+      },
+    });
+    // Set before connecting; the server chains its own close handler onto it
+    transport.onclose = () => {
+      watching.abort();
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    const server = this.createServer(userId, { watchChanges: watching.signal });
+    await server.connect(transport);
+    const response = await transport.handleRequest(req, { parsedBody });
+
+    // A rejected initialize request leaves no session behind
+    if (!transport.sessionId || !this.sessions.has(transport.sessionId)) {
+      await transport.close();
+    }
+
+    return response;
+  }
+
+  /**
+   * Make room for one more session of the user by closing their least
+   * recently active sessions.
+   */
+  private async closeExcessSessions(userId: string): Promise<void> {
+    const userSessions = Array.from(this.sessions.values())
+      .filter((session) => session.userId === userId)
+      .sort((a, b) => a.lastActivity - b.lastActivity);
+
+    const excess = userSessions.slice(0, Math.max(0, userSessions.length - MAX_SESSIONS_PER_USER + 1));
+    for (const session of excess) {
+      await session.transport.close().catch((error) => console.error("[mcp] Failed to close excess session:", error));
+    }
+  }
+
+  private startSweeper(): void {
+    if (this.sweeper) {
+      return;
+    }
+    this.sweeper = setInterval(() => this.closeIdleSessions(), Math.min(SWEEP_INTERVAL_MS, this.idleTimeoutMs));
+    this.sweeper.unref?.();
+  }
+
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.idleTimeoutMs;
+    for (const session of this.sessions.values()) {
+      if (session.openStreams === 0 && session.lastActivity < cutoff) {
+        session.transport.close().catch((error) => console.error("[mcp] Failed to close idle session:", error));
+      }
+    }
+
+    if (this.sessions.size === 0 && this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = null;
+    }
+  }
+}
@@ -0,0 +1,514 @@
+import { and, asc, eq, inArray, isNotNull, isNull, like } from "drizzle-orm";
+import { db } from "@/db";
+import { folders, noteLinks, notes } from "@/db/schema";
+import { rewriteRoomContent } from "@/collab-ws/checkpoints";
+import { writeNoteContent } from "@/lib/revisions";
+
+type DbClient = typeof db;
+type TxClient = typeof db extends { transaction: (fn: (tx: infer T) => any) => any } ? T : never;
+type AnyDbClient = DbClient | TxClient;
+
+/**
+ * Wiki-style links between notes.
+ *
+ * `[[note-name]]`, `[[folder/note-name]]` and `[[target|label]]` in note
+ * content are resolved whenever the content is written and stored in
+ * note_links, one row per distinct target of a note. A bare name prefers a
+ * note in the linking note's folder, then one at the workspace root, then the
+ * oldest note with that name; a path is matched from the workspace root.
+ * Links that match no live note are kept with a null targetNoteId so they
+ * resolve as soon as a matching note appears.
+ *
+ * note_links is derived data: failures to refresh it are logged and never
+ * fail the write that triggered them.
+ */
+
+export interface Backlink {
+  sourceNoteId: number;
+  target: string;
+}
+
+export interface LinkLine {
+  lineNumber: number;
+  text: string;
+}
+
+export type LinkDirection = "outgoing" | "incoming" | "both";
+
+export interface LinkedNote {
+  id: number;
+  publicId: string;
+  name: string;
+  title: string;
+  folderPublicId: string | null;
+  content: string;
+  /** Number of links between the starting note and this one */
+  depth: number;
+  /** Public ID of the note this one was reached from */
+  viaPublicId: string;
+  /** "outgoing" if the via note links to this one, "incoming" if this one links to it */
+  direction: "outgoing" | "incoming";
+}
+
+export interface TraverseLinksOptions {
+  direction: LinkDirection;
+  depth: number;
+  /** Stop once this many notes were collected */
+  limit: number;
+}
+
+interface LinkIndex {
+  byPath: Map<string, number>;
+  byName: Map<string, { id: number; folderId: number | null }[]>;
+  /** Note id -> "folder/sub/note-name" */
+  paths: Map<number, string>;
+}
+
+const WIKI_LINK_PATTERN = /\[\[([^[\]|\n]+)(?:\|([^[\]\n]*))?\]\]/g;
+const FENCE_PATTERN = /^\s{0,3}(```|~~~)/;
+const INSERT_BATCH_SIZE = 200;
+
+export const normalizeLinkTarget = (raw: string): string =>
+  raw.trim().replace(/^\/+/, "").replace(/\.md$/i, "");
+
+/**
+ * Apply fn to the parts of the content outside code blocks and inline code,
+ * where [[...]] is literal text rather than a link.
+ */
+const mapProse = (content: string, fn: (text: string, lineIndex: number) => string): string => {
+  let fence: string | null = null;
+  return content
+    .split("\n")
+    .map((line, lineIndex) => {
+      const fenceMatch = line.match(FENCE_PATTERN);
+      if (fenceMatch) {
+        if (fence === null) {
+          fence = fenceMatch[1];
+        } else if (fenceMatch[1] === fence) {
+          fence = null;
+        }
+        return line;
+      }
+      if (fence !== null) {
+        return line;
+      }
+      return line
+        .split("`")
+        .map((part, index) => (index % 2 === 0 ? fn(part, lineIndex) : part))
+        .join("`");
+    })
+    .join("\n");
+};
+
+/**
+ * Distinct, normalized targets of the wiki links in a note.
+ */
+export function parseWikiLinks(content: string): string[] {
+  const targets = new Set<string>();
+  mapProse(content, (text) => {
+    for (const match of text.matchAll(WIKI_LINK_PATTERN)) {
+      const target = normalizeLinkTarget(match[1]);
+      if (target) {
+        targets.add(target);
+      }
+    }
+    return text;
+  });
+  return Array.from(targets);
+}
+
+/**
+ * Lines of a note that link to any of the given targets, 1-based.
+ */
+export function findLinkLines(content: string, targets: Set<string>): LinkLine[] {
+  const lineIndexes = new Set<number>();
+  mapProse(content, (text, lineIndex) => {
+    for (const match of text.matchAll(WIKI_LINK_PATTERN)) {
+      if (targets.has(normalizeLinkTarget(match[1]))) {
+        lineIndexes.add(lineIndex);
+      }
+    }
+    return text;
+  });
+
+  const lines = content.split("\n");
+  return Array.from(lineIndexes)
+    .sort((a, b) => a - b)
+    .map((lineIndex) => ({ lineNumber: lineIndex + 1, text: lines[lineIndex] }));
+}
+
+/**
+ * Replace the target of every wiki link for which replace returns a new one.
+ * Labels are kept as written.
+ */
+export function rewriteWikiLinks(content: string, replace: (target: string) => string | null): string {
+  return mapProse(content, (text) =>
+    text.replace(WIKI_LINK_PATTERN, (match, rawTarget: string, label: string | undefined) => {
+      const next = replace(normalizeLinkTarget(rawTarget));
+      if (next === null) {
+        return match;
+      }
+      return label === undefined ? `[[${next}]]` : `[[${next}|${label}]]`;
+    })
+  );
+}
+
+async function loadLinkIndex(workspaceId: number, client: AnyDbClient = db): Promise<LinkIndex> {
+  const folderRows = await client
+    .select({ id: folders.id, name: folders.name, parentId: folders.parentId })
+    .from(folders)
+    .where(and(eq(folders.workspaceId, workspaceId), isNull(folders.deletedAt)));
+
+  const noteRows = await client
+    .select({ id: notes.id, name: notes.name, folderId: notes.folderId })
+    .from(notes)
+    .where(and(eq(notes.workspaceId, workspaceId), isNull(notes.deletedAt)))
+    .orderBy(asc(notes.id));
+
+  const foldersById = new Map(folderRows.map((folder) => [folder.id, folder]));
+  const folderPaths = new Map<number, string>();
+  const folderPath = (folderId: number, depth = 0): string => {
+    const cached = folderPaths.get(folderId);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const folder = foldersById.get(folderId);
+    if (!folder) {
+      return "";
+    }
+    const parentPath = folder.parentId && depth < 64 ? folderPath(folder.parentId, depth + 1) : "";
+    const path = parentPath ? `${parentPath}/${folder.name}` : folder.name;
+    folderPaths.set(folderId, path);
+    return path;
+  };
+
+  const index: LinkIndex = { byPath: new Map(), byName: new Map(), paths: new Map() };
+  for (const note of noteRows) {
+    const parentPath = note.folderId ? folderPath(note.folderId) : "";
+    const path = parentPath ? `${parentPath}/${note.name}` : note.name;
+    index.paths.set(note.id, path);
+    if (!index.byPath.has(path)) {
+      index.byPath.set(path, note.id);
+    }
+    const sameName = index.byName.get(note.name) ?? [];
+    sameName.push({ id: note.id, folderId: note.folderId });
+    index.byName.set(note.name, sameName);
+  }
+  return index;
+}
+
+const resolveTarget = (index: LinkIndex, target: string, sourceFolderId: number | null): number | null => {
+  if (target.includes("/")) {
+    return index.byPath.get(target) ?? null;
+  }
+
+  const candidates = index.byName.get(target);
+  if (!candidates) {
+    return null;
+  }
+  const preferred =
+    candidates.find((candidate) => candidate.folderId === sourceFolderId) ??
+    candidates.find((candidate) => candidate.folderId === null) ??
+    candidates[0];
+  return preferred.id;
+};
+
+/**
+ * Re-parse the links of one note from its current content.
+ */
+export async function refreshNoteLinks(noteId: number): Promise<void> {
+  try {
+    const noteRows = await db
+      .select({ workspaceId: notes.workspaceId, folderId: notes.folderId, content: notes.content })
+      .from(notes)
+      .where(eq(notes.id, noteId))
+      .limit(1);
+
+    const note = noteRows[0];
+    if (!note) {
+      return;
+    }
+
+    const targets = parseWikiLinks(note.content ?? "");
+    await db.delete(noteLinks).where(eq(noteLinks.sourceNoteId, noteId));
+    if (targets.length === 0) {
+      return;
+    }
+
+    const index = await loadLinkIndex(note.workspaceId);
+    const rows = targets.map((target) => ({
+      sourceNoteId: noteId,
+      target,
+      workspaceId: note.workspaceId,
+      targetNoteId: resolveTarget(index, target, note.folderId),
+    }));
+
+    for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+      await db
+        .insert(noteLinks)
+        .values(rows.slice(start, start + INSERT_BATCH_SIZE))
+        .onConflictDoNothing();
+    }
+  } catch (error) {
+    console.warn(`[links] Failed to refresh links of note ${noteId}`, error);
+  }
+}
+
+/**
+ * Re-resolve every link in a workspace after notes or folders were created,
+ * renamed, moved, deleted or restored. Pass the transaction that made the
+ * change so its uncommitted rows are seen.
+ */
+export async function refreshWorkspaceLinks(workspaceId: number, client: AnyDbClient = db): Promise<void> {
+  try {
+    const rows = await client
+      .select({
+        sourceNoteId: noteLinks.sourceNoteId,
+        target: noteLinks.target,
+        targetNoteId: noteLinks.targetNoteId,
+        sourceFolderId: notes.folderId,
+      })
+      .from(noteLinks)
+      .innerJoin(notes, eq(notes.id, noteLinks.sourceNoteId))
+      .where(eq(noteLinks.workspaceId, workspaceId));
+
+    if (rows.length === 0) {
+      return;
+    }
+
+    const index = await loadLinkIndex(workspaceId, client);
+    for (const row of rows) {
+      const targetNoteId = resolveTarget(index, row.target, row.sourceFolderId);
+      if (targetNoteId !== row.targetNoteId) {
+        await client
+          .update(noteLinks)
+          .set({ targetNoteId })
+          .where(and(eq(noteLinks.sourceNoteId, row.sourceNoteId), eq(noteLinks.target, row.target)));
+      }
+    }
+  } catch (error) {
+    console.warn(`[links] Failed to refresh links of workspace ${workspaceId}`, error);
+  }
+}
+
+/**
+ * Links currently pointing at a note. Capture them before renaming or moving
+ * the note and pass them to relinkBacklinks afterwards.
+ */
+export async function findBacklinks(noteId: number): Promise<Backlink[]> {
+  return db
+    .select({ sourceNoteId: noteLinks.sourceNoteId, target: noteLinks.target })
+    .from(noteLinks)
+    .where(eq(noteLinks.targetNoteId, noteId));
+}
+
+/**
+ * Targets a note links to that match no live note.
+ */
+export async function findUnresolvedLinks(noteId: number): Promise<string[]> {
+  const rows = await db
+    .select({ target: noteLinks.target })
+    .from(noteLinks)
+    .where(and(eq(noteLinks.sourceNoteId, noteId), isNull(noteLinks.targetNoteId)))
+    .orderBy(asc(noteLinks.target));
+  return rows.map((row) => row.target);
+}
+
+/**
+ * Rewrite the links that pointed at a note before it was renamed or moved so
+ * they point at its new name or path. A linking note open in the editor is
+ * edited in place in its live document, leaving unsaved edits alone, and is
+ * saved by the room's next checkpoint; any other changed note gets a new
+ * revision by the user who renamed or moved the note.
+ */
+export async function relinkBacklinks(
+  workspaceId: number,
+  noteId: number,
+  backlinks: Backlink[],
+  authorUserId: string
+): Promise<void> {
+  try {
+    const index = await loadLinkIndex(workspaceId);
+
+    // Nothing to point at when the note is gone (e.g. moved into a deleted folder)
+    const path = index.paths.get(noteId);
+    const name = path ? path.slice(path.lastIndexOf("/") + 1) : "";
+
+    const targetsBySource = new Map<number, Set<string>>();
+    for (const backlink of path ? backlinks : []) {
+      const targets = targetsBySource.get(backlink.sourceNoteId) ?? new Set<string>();
+      targets.add(backlink.target);
+      targetsBySource.set(backlink.sourceNoteId, targets);
+    }
+
+    for (const [sourceNoteId, targets] of targetsBySource) {
+      const sourceRows = await db
+        .select({ publicId: notes.publicId, folderId: notes.folderId, content: notes.content })
+        .from(notes)
+        .where(and(eq(notes.id, sourceNoteId), isNull(notes.deletedAt)))
+        .limit(1);
+
+      const source = sourceRows[0];
+      if (!source || !path) {
+        continue;
+      }
+
+      // Keep bare names bare as long as they still lead to the note
+      const bareTarget = resolveTarget(index, name, source.folderId) === noteId ? name : path;
+      const relink = (content: string) =>
+        rewriteWikiLinks(content, (target) =>
+          targets.has(target) ? (target.includes("/") ? path : bareTarget) : null
+        );
+
+      if (rewriteRoomContent(`${workspaceId}/${source.publicId}`, relink, authorUserId)) {
+        continue;
+      }
+
+      const content = source.content ?? "";
+      const nextContent = relink(content);
+      if (nextContent !== content) {
+        await writeNoteContent({
+          workspaceId,
+          noteId: sourceNoteId,
+          notePublicId: source.publicId,
+          content: nextContent,
+          authorUserId,
+        });
+        await refreshNoteLinks(sourceNoteId);
+      }
+    }
+  } catch (error) {
+    console.warn(`[links] Failed to rewrite links to note ${noteId}`, error);
+  }
+
+  await refreshWorkspaceLinks(workspaceId);
+}
+
+/**
+ * Walk the link graph breadth-first from a note and return the live notes
+ * within `depth` links of it, closest first. The starting note is never
+ * included; each note appears once, at the depth it was first reached.
+ */
+export async function traverseNoteLinks(
+  workspaceId: number,
+  noteId: number,
+  options: TraverseLinksOptions
+): Promise<LinkedNote[]> {
+  const visited = new Set<number>([noteId]);
+  const publicIds = new Map<number, string>();
+  const found: LinkedNote[] = [];
+
+  const startRows = await db.select({ publicId: notes.publicId }).from(notes).where(eq(notes.id, noteId)).limit(1);
+  if (!startRows[0]) {
+    return found;
+  }
+  publicIds.set(noteId, startRows[0].publicId);
+
+  let frontier = [noteId];
+  for (let level = 1; level <= options.depth && frontier.length > 0; level++) {
+    const edges: { fromId: number; toId: number; direction: "outgoing" | "incoming" }[] = [];
+
+    if (options.direction !== "incoming") {
+      const rows = await db
+        .select({ fromId: noteLinks.sourceNoteId, toId: noteLinks.targetNoteId })
+        .from(noteLinks)
+        .where(and(inArray(noteLinks.sourceNoteId, frontier), isNotNull(noteLinks.targetNoteId)));
+      for (const row of rows) {
+        edges.push({ fromId: row.fromId, toId: row.toId!, direction: "outgoing" });
+      }
+    }
+
+    if (options.direction !== "outgoing") {
+      const rows = await db
+        .select({ fromId: noteLinks.targetNoteId, toId: noteLinks.sourceNoteId })
+        .from(noteLinks)
+        .where(inArray(noteLinks.targetNoteId, frontier));
+      for (const row of rows) {
+        edges.push({ fromId: row.fromId!, toId: row.toId, direction: "incoming" });
+      }
+    }
+
+    const nextIds = Array.from(new Set(edges.map((edge) => edge.toId).filter((id) => !visited.has(id))));
+    if (nextIds.length === 0) {
+      break;
+    }
+
+    const noteRows = await db
+      .select({
+        id: notes.id,
+        publicId: notes.publicId,
+        name: notes.name,
+        title: notes.title,
+        content: notes.content,
+        folderPublicId: folders.publicId,
+      })
+      .from(notes)
+      .leftJoin(folders, eq(notes.folderId, folders.id))
+      .where(and(eq(notes.workspaceId, workspaceId), inArray(notes.id, nextIds), isNull(notes.deletedAt)))
+      .orderBy(asc(notes.title));
+
+    const edgeByTarget = new Map<number, (typeof edges)[number]>();
+    for (const edge of edges) {
+      if (!edgeByTarget.has(edge.toId)) {
+        edgeByTarget.set(edge.toId, edge);
+      }
+    }
+
+    frontier = [];
+    for (const row of noteRows) {
+      if (found.length >= options.limit) {
+        return found;
+      }
+      const edge = edgeByTarget.get(row.id)!;
+      visited.add(row.id);
+      publicIds.set(row.id, row.publicId);
+      frontier.push(row.id);
+      found.push({
+        id: row.id,
+        publicId: row.publicId,
+        name: row.name,
+        title: row.title,
+        folderPublicId: row.folderPublicId ?? null,
+        content: row.content ?? "",
+        depth: level,
+        viaPublicId: publicIds.get(edge.fromId)!,
+        direction: edge.direction,
+      });
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Index the links of notes written before note_links existed.
+ * Only runs while the table is empty, so it is a single lookup afterwards.
+ */
+export async function backfillNoteLinks(): Promise<number> {
+  const existing = await db.select({ sourceNoteId: noteLinks.sourceNoteId }).from(noteLinks).limit(1);
+  if (existing.length > 0) {
+    return 0;
+  }
+
+  const candidates = await db
+    .select({ id: notes.id })
+    .from(notes)
+    .where(like(notes.content, "%[[%"));
+
+  for (const { id } of candidates) {
+    await refreshNoteLinks(id);
+  }
+  return candidates.length;
+}
+
+export function startNoteLinkBackfill(): void {
+  backfillNoteLinks()
+    .then((indexed) => {
+      if (indexed > 0) {
+        console.log(`[links] Indexed wiki links of ${indexed} notes`);
+      }
+    })
+    .catch((error) => {
+      console.error("[links] Failed to index wiki links", error);
+    });
+}
@@ -0,0 +1,155 @@
+import { and, eq, isNull, type SQL } from "drizzle-orm";
+import { db } from "@/db";
+import { folders, notes } from "@/db/schema";
+import { isValidFolderName } from "@/lib/folder-name";
+
+type DbClient = typeof db;
+type TxClient = typeof db extends { transaction: (fn: (tx: infer T) => any) => any } ? T : never;
+type AnyDbClient = DbClient | TxClient;
+
+/**
+ * Resolve folder ID from folder path
+ * Creates intermediate folders if they don't exist
+ */
+export async function resolveFolderIdFromPath(
+  folderPath: string | undefined,
+  workspaceId: number,
+  dbClient: AnyDbClient = db
+): Promise<number | null> {
+  if (!folderPath || folderPath === "") {
+    return null;
+  }
+
+  const pathParts = folderPath.split("/").filter(Boolean);
+  if (pathParts.length === 0) {
+    return null;
+  }
+
+  let parentId: number | null = null;
+  let currentFolderId: number | null = null;
+
+  for (const part of pathParts) {
+    if (!isValidFolderName(part)) {
+      // Invalid folder name, skip
+      continue;
+    }
+
+    // Try to find existing folder
+    const folderFilter: SQL = parentId === null
+      ? and(
+          eq(folders.workspaceId, workspaceId),
+          eq(folders.name, part),
+          isNull(folders.parentId),
+          isNull(folders.deletedAt)
+        )!
+      : and(
+          eq(folders.workspaceId, workspaceId),
+          eq(folders.name, part),
+          eq(folders.parentId, parentId),
+          isNull(folders.deletedAt)
+        )!;
+
+    const existingFolder: Array<{ id: number; name: string; parentId: number | null }> = await dbClient
+      .select({
+        id: folders.id,
+        name: folders.name,
+        parentId: folders.parentId,
+      })
+      .from(folders)
+      .where(folderFilter)
+      .limit(1);
+
+    if (existingFolder[0]) {
+      currentFolderId = existingFolder[0].id;
+    } else {
+      // Create the folder
+      const inserted: Array<{ id: number }> = await dbClient
+        .insert(folders)
+        .values({
+          workspaceId,
+          parentId,
+          name: part,
+          displayName: part,
+        })
+        .returning({
+          id: folders.id,
+        });
+
+      currentFolderId = inserted[0]!.id;
+    }
+
+    parentId = currentFolderId;
+  }
+
+  return currentFolderId;
+}
+
+/**
+ * Pick a note name that is free among the live notes of a folder,
+ * appending -2, -3, ... to the base name when needed.
+ */
+export async function generateUniqueName(
+  baseName: string,
+  folderId: number | null,
+  workspaceId: number,
+  client: AnyDbClient = db
+): Promise<string> {
+  const existingNotes = await client
+    .select({ name: notes.name })
+    .from(notes)
+    .where(
+      folderId === null
+        ? and(eq(notes.workspaceId, workspaceId), isNull(notes.folderId), isNull(notes.deletedAt))
+        : and(eq(notes.workspaceId, workspaceId), eq(notes.folderId, folderId!), isNull(notes.deletedAt))
+    );
+
+  const existingNames = new Set(existingNotes.map((n) => n.name));
+
+  if (!existingNames.has(baseName)) {
+    return baseName;
+  }
+
+  let suffix = 2;
+  let newName: string;
+  do {
+    newName = `${baseName}-${suffix}`;
+    suffix++;
+  } while (existingNames.has(newName));
+
+  return newName;
+}
+
+/**
+ * Pick a folder name that is free among the live folders of a parent,
+ * appending -2, -3, ... to the base name when needed.
+ */
+export async function generateUniqueFolderName(
+  baseName: string,
+  parentId: number | null,
+  workspaceId: number,
+  client: AnyDbClient = db
+): Promise<string> {
+  const existingFolders = await client
+    .select({ name: folders.name })
+    .from(folders)
+    .where(
+      parentId === null
+        ? and(eq(folders.workspaceId, workspaceId), isNull(folders.parentId), isNull(folders.deletedAt))
+        : and(eq(folders.workspaceId, workspaceId), eq(folders.parentId, parentId), isNull(folders.deletedAt))
+    );
+
+  const existingNames = new Set(existingFolders.map((f) => f.name));
+
+  if (!existingNames.has(baseName)) {
+    return baseName;
+  }
+
+  let suffix = 2;
+  let newName: string;
+  do {
+    newName = `${baseName}-${suffix}`;
+    suffix++;
+  } while (existingNames.has(newName));
+
+  return newName;
+}
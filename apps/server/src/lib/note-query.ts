@@ -0,0 +1,251 @@
+import { and, desc, eq, gte, inArray, isNull, lte, or, sql, type SQL } from "drizzle-orm";
+import { db } from "@/db";
+import { folders, notes, revisions, users } from "@/db/schema";
+import { findNoteIdsByMetadata, loadNoteMetadata, TAGS_KEY, type NoteMetadata } from "@/lib/frontmatter";
+
+/**
+ * Structured queries over note metadata, location, authorship and time, for
+ * the questions full-text search cannot answer, e.g. "all notes with
+ * status: draft under /specs changed this week".
+ */
+
+export class NoteQueryError extends Error {
+  name = "NoteQueryError";
+}
+
+export interface NoteQuery {
+  /** Notes must have every one of these tags */
+  tags?: string[];
+  /** Frontmatter key -> required value; null only requires the key */
+  fields?: Record<string, string | null>;
+  /** Only notes in this folder or its subfolders, e.g. "specs/api" */
+  folderPath?: string;
+  /** User ID, email or name of someone who wrote a revision of the note */
+  author?: string;
+  updatedAfter?: Date;
+  updatedBefore?: Date;
+  limit: number;
+  offset: number;
+}
+
+export interface QueriedNote {
+  publicId: string;
+  name: string;
+  title: string;
+  folderPublicId: string | null;
+  /** Slash-separated folder names, or null for root notes */
+  folderPath: string | null;
+  tags: string[];
+  metadata: NoteMetadata;
+  updatedAt: string;
+}
+
+export interface NoteQueryResult {
+  notes: QueriedNote[];
+  total: number;
+  limit: number;
+  offset: number;
+  /** Offset of the next page, or null on the last page */
+  nextOffset: number | null;
+}
+
+export const DEFAULT_QUERY_LIMIT = 20;
+export const MAX_QUERY_LIMIT = 50;
+
+interface FolderEntry {
+  id: number;
+  publicId: string;
+  path: string;
+  parentId: number | null;
+}
+
+async function loadFolderPaths(workspaceId: number): Promise<Map<number, FolderEntry>> {
+  const rows = await db
+    .select({ id: folders.id, publicId: folders.publicId, name: folders.name, parentId: folders.parentId })
+    .from(folders)
+    .where(and(eq(folders.workspaceId, workspaceId), isNull(folders.deletedAt)));
+
+  const rowsById = new Map(rows.map((row) => [row.id, row]));
+  const entries = new Map<number, FolderEntry>();
+  const resolve = (id: number, depth = 0): string => {
+    const cached = entries.get(id);
+    if (cached) {
+      return cached.path;
+    }
+    const row = rowsById.get(id)!;
+    const parentPath = row.parentId && rowsById.has(row.parentId) && depth < 64 ? resolve(row.parentId, depth + 1) : "";
+    const path = parentPath ? `${parentPath}/${row.name}` : row.name;
+    entries.set(id, { id, publicId: row.publicId, path, parentId: row.parentId });
+    return path;
+  };
+  rows.forEach((row) => resolve(row.id));
+  return entries;
+}
+
+async function resolveAuthorIds(author: string): Promise<string[]> {
+  const rows = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(or(eq(users.id, author), sql`lower(${users.email}) = ${author.toLowerCase()}`, eq(users.name, author)));
+
+  // Non-user authors such as "system" or "sync" are matched by their ID as is
+  return Array.from(new Set([author, ...rows.map((row) => row.id)]));
+}
+
+const parseDate = (value: unknown, field: string): Date | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const date = typeof value === "string" ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new NoteQueryError(`Invalid ${field}: expected an ISO 8601 date`);
+  }
+  return date;
+};
+
+/**
+ * Validate the query fields of a request body (as sent to the skill route or
+ * the MCP tool) and turn them into a NoteQuery.
+ * @throws NoteQueryError describing the first invalid field
+ */
+export function parseNoteQueryInput(input: Record<string, unknown>): NoteQuery {
+  const { tags, fields, folderPath, author, updatedAfter, updatedBefore, limit, offset } = input;
+
+  if (tags !== undefined && (!Array.isArray(tags) || tags.some((tag) => typeof tag !== "string"))) {
+    throw new NoteQueryError("Invalid tags: expected an array of strings");
+  }
+
+  const parsedFields: Record<string, string | null> = {};
+  if (fields !== undefined && fields !== null) {
+    if (typeof fields !== "object" || Array.isArray(fields)) {
+      throw new NoteQueryError("Invalid fields: expected an object of key -> value");
+    }
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== null && typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+        throw new NoteQueryError(`Invalid value for field ${key}: expected a string or null`);
+      }
+      parsedFields[key] = value === null ? null : String(value);
+    }
+  }
+
+  if (folderPath !== undefined && folderPath !== null && typeof folderPath !== "string") {
+    throw new NoteQueryError("Invalid folderPath: expected a string");
+  }
+  if (author !== undefined && author !== null && typeof author !== "string") {
+    throw new NoteQueryError("Invalid author: expected a string");
+  }
+
+  let parsedLimit = DEFAULT_QUERY_LIMIT;
+  if (limit !== undefined && limit !== null) {
+    if (typeof limit !== "number" || !Number.isInteger(limit) || limit <= 0 || limit > MAX_QUERY_LIMIT) {
+      throw new NoteQueryError(`Invalid limit: must be an integer between 1 and ${MAX_QUERY_LIMIT}`);
+    }
+    parsedLimit = limit;
+  }
+
+  let parsedOffset = 0;
+  if (offset !== undefined && offset !== null) {
+    if (typeof offset !== "number" || !Number.isInteger(offset) || offset < 0) {
+      throw new NoteQueryError("Invalid offset: must be a non-negative integer");
+    }
+    parsedOffset = offset;
+  }
+
+  return {
+    tags: ((tags as string[] | undefined) ?? []).map((tag) => tag.trim()).filter(Boolean),
+    fields: parsedFields,
+    folderPath: typeof folderPath === "string" ? folderPath : undefined,
+    author: typeof author === "string" && author.trim() ? author.trim() : undefined,
+    updatedAfter: parseDate(updatedAfter, "updatedAfter"),
+    updatedBefore: parseDate(updatedBefore, "updatedBefore"),
+    limit: parsedLimit,
+    offset: parsedOffset,
+  };
+}
+
+/**
+ * Find the live notes of a workspace matching every given condition, most
+ * recently updated first.
+ * @throws NoteQueryError if folderPath matches no folder
+ */
+export async function queryNotes(workspaceId: number, query: NoteQuery): Promise<NoteQueryResult> {
+  const folderPaths = await loadFolderPaths(workspaceId);
+  const conditions: (SQL | undefined)[] = [eq(notes.workspaceId, workspaceId), isNull(notes.deletedAt)];
+
+  const folderPath = query.folderPath?.split("/").filter(Boolean).join("/") ?? "";
+  if (folderPath) {
+    const root = Array.from(folderPaths.values()).find((folder) => folder.path === folderPath);
+    if (!root) {
+      throw new NoteQueryError(`Folder not found: ${folderPath}`);
+    }
+    const subtreeIds = Array.from(folderPaths.values())
+      .filter((folder) => folder.path === folderPath || folder.path.startsWith(`${folderPath}/`))
+      .map((folder) => folder.id);
+    conditions.push(inArray(notes.folderId, subtreeIds));
+  }
+
+  const tags = query.tags ?? [];
+  const fields = Object.entries(query.fields ?? {}).map(([key, value]) => ({ key, value }));
+  if (tags.length > 0 || fields.length > 0) {
+    const noteIds = await findNoteIdsByMetadata(workspaceId, { tags, fields });
+    if (noteIds.length === 0) {
+      return { notes: [], total: 0, limit: query.limit, offset: query.offset, nextOffset: null };
+    }
+    conditions.push(inArray(notes.id, noteIds));
+  }
+
+  if (query.author) {
+    const authorIds = await resolveAuthorIds(query.author);
+    conditions.push(
+      inArray(
+        notes.id,
+        db.selectDistinct({ noteId: revisions.noteId }).from(revisions).where(inArray(revisions.authorUserId, authorIds))
+      )
+    );
+  }
+
+  if (query.updatedAfter) {
+    conditions.push(gte(notes.updatedAt, query.updatedAfter));
+  }
+  if (query.updatedBefore) {
+    conditions.push(lte(notes.updatedAt, query.updatedBefore));
+  }
+
+  const where = and(...conditions);
+  const totalRows = await db.select({ count: sql<number>`count(*)` }).from(notes).where(where);
+  const total = Number(totalRows[0]?.count ?? 0);
+
+  const rows = await db
+    .select({
+      id: notes.id,
+      publicId: notes.publicId,
+      name: notes.name,
+      title: notes.title,
+      folderId: notes.folderId,
+      updatedAt: notes.updatedAt,
+    })
+    .from(notes)
+    .where(where)
+    .orderBy(desc(notes.updatedAt), desc(notes.id))
+    .limit(query.limit)
+    .offset(query.offset);
+
+  const results: QueriedNote[] = [];
+  for (const row of rows) {
+    const folder = row.folderId !== null ? folderPaths.get(row.folderId) : undefined;
+    const metadata = await loadNoteMetadata(row.id);
+    results.push({
+      publicId: row.publicId,
+      name: row.name,
+      title: row.title,
+      folderPublicId: folder?.publicId ?? null,
+      folderPath: folder?.path ?? null,
+      tags: metadata[TAGS_KEY] ?? [],
+      metadata,
+      updatedAt: row.updatedAt.toISOString(),
+    });
+  }
+
+  const nextOffset = query.offset + rows.length < total ? query.offset + rows.length : null;
+  return { notes: results, total, limit: query.limit, offset: query.offset, nextOffset };
+}
@@ -0,0 +1,300 @@
+/**
+ * Markdown sections of a note, addressed by heading.
+ *
+ * A section is an ATX heading (`#` to `######`) and every line up to the next
+ * heading of the same or a higher level, so it includes its subsections.
+ * Headings inside fenced code blocks and the frontmatter are ignored. Line
+ * numbers are 1-based and ranges are inclusive.
+ */
+
+export interface OutlineHeading {
+  title: string;
+  level: number;
+  /** Line of the heading itself */
+  startLine: number;
+  /** Last line of the section, including its subsections */
+  endLine: number;
+  children: OutlineHeading[];
+}
+
+export interface NoteSection {
+  title: string;
+  level: number;
+  /** Titles from the top-level heading down to this one */
+  path: string[];
+  startLine: number;
+  endLine: number;
+  /** The heading line and the section body */
+  content: string;
+}
+
+export type SectionPatchMode = "replace" | "append" | "insert";
+
+export class NoteSectionError extends Error {
+  name = "NoteSectionError";
+}
+
+interface FlatHeading {
+  title: string;
+  level: number;
+  startLine: number;
+  endLine: number;
+  path: string[];
+}
+
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+const frontmatterEnd = (lines: string[]): number => {
+  if (lines[0]?.replace(/^\uFEFF/, "").trim() !== "---") {
+    return 0;
+  }
+  for (let index = 1; index < lines.length; index += 1) {
+    const line = lines[index].trim();
+    if (line === "---" || line === "...") {
+      return index + 1;
+    }
+  }
+  return 0;
+};
+
+const normalizeTitle = (title: string) => title.trim().replace(/\s+/g, " ").toLowerCase();
+
+const flattenHeadings = (lines: string[]): FlatHeading[] => {
+  const headings: FlatHeading[] = [];
+  const stack: FlatHeading[] = [];
+  let fence: string | null = null;
+
+  for (let index = frontmatterEnd(lines); index < lines.length; index += 1) {
+    const line = lines[index];
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (fence === null) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length && line.trim() === marker) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fence !== null) {
+      continue;
+    }
+
+    const match = line.match(HEADING_PATTERN);
+    if (!match) {
+      continue;
+    }
+
+    const level = match[1].length;
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop()!.endLine = index;
+    }
+
+    const title = (match[2] ?? "").trim();
+    const heading: FlatHeading = {
+      title,
+      level,
+      startLine: index + 1,
+      endLine: lines.length,
+      path: [...stack.map((parent) => parent.title), title],
+    };
+    headings.push(heading);
+    stack.push(heading);
+  }
+
+  return headings;
+};
+
+/**
+ * Heading tree of a note with the line range of each section.
+ */
+export function parseNoteOutline(content: string): OutlineHeading[] {
+  const roots: OutlineHeading[] = [];
+  const stack: OutlineHeading[] = [];
+
+  for (const heading of flattenHeadings(content.split("\n"))) {
+    const node: OutlineHeading = {
+      title: heading.title,
+      level: heading.level,
+      startLine: heading.startLine,
+      endLine: heading.endLine,
+      children: [],
+    };
+    while (stack.length > 0 && stack[stack.length - 1].level >= node.level) {
+      stack.pop();
+    }
+    (stack.length > 0 ? stack[stack.length - 1].children : roots).push(node);
+    stack.push(node);
+  }
+
+  return roots;
+}
+
+/**
+ * Find the section under a heading. The heading is matched on its title,
+ * ignoring case and repeated whitespace; a path such as "Design > API"
+ * matches the last headings of the path to disambiguate equal titles.
+ * @throws NoteSectionError if no heading or several headings match
+ */
+export function findNoteSection(content: string, heading: string): NoteSection {
+  const lines = content.split("\n");
+  const wanted = heading.split(">").map(normalizeTitle).filter(Boolean);
+  if (wanted.length === 0) {
+    throw new NoteSectionError("Heading is required");
+  }
+
+  const matches = flattenHeadings(lines).filter((candidate) => {
+    if (candidate.path.length < wanted.length) {
+      return false;
+    }
+    const tail = candidate.path.slice(candidate.path.length - wanted.length).map(normalizeTitle);
+    return tail.every((title, index) => title === wanted[index]);
+  });
+
+  if (matches.length === 0) {
+    throw new NoteSectionError(`Heading not found: ${heading}`);
+  }
+  if (matches.length > 1) {
+    const candidates = matches.map((match) => `"${match.path.join(" > ")}" (line ${match.startLine})`).join(", ");
+    throw new NoteSectionError(`Heading "${heading}" is ambiguous, it matches ${candidates}. Use a path such as "Parent > Heading".`);
+  }
+
+  const match = matches[0];
+  return {
+    title: match.title,
+    level: match.level,
+    path: match.path,
+    startLine: match.startLine,
+    endLine: match.endLine,
+    content: lines.slice(match.startLine - 1, match.endLine).join("\n"),
+  };
+}
+
+const toLines = (text: string) => text.replace(/\r\n/g, "\n").replace(/\n$/, "").split("\n");
+
+/**
+ * Change the section under a heading and return the new note content:
+ * "replace" swaps the section body for the given text and keeps the heading
+ * line, "insert" puts the text right below the heading and "append" puts it
+ * at the end of the section, after its subsections but before trailing
+ * blank lines.
+ * @throws NoteSectionError if the heading does not match exactly one section
+ */
+export function patchNoteSection(
+  content: string,
+  heading: string,
+  mode: SectionPatchMode,
+  text: string
+): { content: string; section: NoteSection } {
+  const lines = content.split("\n");
+  const section = findNoteSection(content, heading);
+  const patch = toLines(text);
+
+  let next: string[];
+  if (mode === "replace") {
+    // Keep a blank line before the next heading if the old body ended with one
+    const trailingBlank = section.endLine < lines.length && lines[section.endLine - 1].trim() === "";
+    next = [
+      ...lines.slice(0, section.startLine),
+      ...patch,
+      ...(trailingBlank && patch[patch.length - 1] !== "" ? [""] : []),
+      ...lines.slice(section.endLine),
+    ];
+  } else if (mode === "insert") {
+    next = [...lines.slice(0, section.startLine), ...patch, ...lines.slice(section.startLine)];
+  } else {
+    let end = section.endLine;
+    while (end > section.startLine && lines[end - 1].trim() === "") {
+      end -= 1;
+    }
+    next = [...lines.slice(0, end), ...patch, ...lines.slice(end)];
+  }
+
+  const endLine = section.endLine + next.length - lines.length;
+  return {
+    content: next.join("\n"),
+    section: { ...section, endLine, content: next.slice(section.startLine - 1, endLine).join("\n") },
+  };
+}
+
+interface Hunk {
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+const parseUnifiedDiff = (diff: string): Hunk[] => {
+  const hunks: Hunk[] = [];
+  let hunk: Hunk | null = null;
+
+  for (const line of toLines(diff)) {
+    const header = line.match(HUNK_HEADER_PATTERN);
+    if (header) {
+      hunk = { oldStart: Number(header[1]), oldLines: [], newLines: [] };
+      hunks.push(hunk);
+      continue;
+    }
+    if (!hunk || line.startsWith("\\")) {
+      // File headers before the first hunk and "\ No newline at end of file"
+      continue;
+    }
+
+    const marker = line[0];
+    const text = line.slice(1);
+    if (marker === " " || line === "") {
+      hunk.oldLines.push(text);
+      hunk.newLines.push(text);
+    } else if (marker === "-") {
+      hunk.oldLines.push(text);
+    } else if (marker === "+") {
+      hunk.newLines.push(text);
+    } else {
+      throw new NoteSectionError(`Invalid diff line: ${line}`);
+    }
+  }
+
+  if (hunks.length === 0) {
+    throw new NoteSectionError("Diff has no hunks; expected unified diff format with @@ -a,b +c,d @@ headers");
+  }
+  return hunks;
+};
+
+const matchesAt = (lines: string[], expected: string[], start: number) =>
+  start >= 0 && start + expected.length <= lines.length && expected.every((line, index) => lines[start + index] === line);
+
+/**
+ * Apply a unified diff to note content. The context and removed lines of each
+ * hunk must match exactly; a hunk is looked for at its stated line first and
+ * then at the closest position above or below, like `patch` does.
+ * @throws NoteSectionError if the diff is malformed or a hunk does not apply
+ */
+export function applyUnifiedDiff(content: string, diff: string): string {
+  const lines = content.split("\n");
+  let offset = 0;
+  let searchFrom = 0;
+
+  parseUnifiedDiff(diff).forEach((hunk, index) => {
+    // A pure insertion's start line is the line it goes after
+    const expected = Math.max(hunk.oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1, 0) + offset;
+
+    let start = -1;
+    for (let distance = 0; start === -1 && distance <= lines.length; distance += 1) {
+      if (expected - distance >= searchFrom && matchesAt(lines, hunk.oldLines, expected - distance)) {
+        start = expected - distance;
+      } else if (matchesAt(lines, hunk.oldLines, expected + distance)) {
+        start = expected + distance;
+      }
+    }
+    if (start === -1 || start < searchFrom) {
+      throw new NoteSectionError(`Hunk ${index + 1} (@@ -${hunk.oldStart}) does not apply to the current content`);
+    }
+
+    lines.splice(start, hunk.oldLines.length, ...hunk.newLines);
+    offset += hunk.newLines.length - hunk.oldLines.length;
+    searchFrom = start + hunk.newLines.length;
+  });
+
+  return lines.join("\n");
+}
@@ -33,11 +33,56 @@ export async function resolveNote(publicId: string, client: AnyDbClient = db) {
   return rows[0] ?? null;
 }
 
-export async function resolveFolderId(publicId: string, client: AnyDbClient = db): Promise<number | null> {
+export async function resolveFolderId(
+  publicId: string,
+  workspaceId: number,
+  client: AnyDbClient = db
+): Promise<number | null> {
   const rows = await client
     .select({ id: folders.id })
     .from(folders)
-    .where(eq(folders.publicId, publicId))
+    .where(and(eq(folders.publicId, publicId), eq(folders.workspaceId, workspaceId), isNull(folders.deletedAt)))
     .limit(1);
   return rows[0]?.id ?? null;
 }
+
+/**
+ * Build folder path from folder hierarchy
+ * @param folderId - The folder ID to build path for
+ * @param workspaceId - The workspace ID
+ * @param client - Database client
+ * @returns The folder path string
+ */
+export async function buildNoteFolderPath(
+  folderId: number | null,
+  workspaceId: number,
+  client: AnyDbClient = db
+): Promise<string> {
+  if (!folderId) {
+    return "";
+  }
+
+  const pathParts: string[] = [];
+  let currentId: number | null = folderId;
+
+  while (currentId) {
+    const folderRows: Array<{ id: number; name: string; parentId: number | null }> = await client
+      .select({
+        id: folders.id,
+        name: folders.name,
+        parentId: folders.parentId,
+      })
+      .from(folders)
+      .where(and(eq(folders.id, currentId), eq(folders.workspaceId, workspaceId)))
+      .limit(1);
+
+    if (!folderRows[0]) {
+      break;
+    }
+
+    pathParts.unshift(folderRows[0].name);
+    currentId = folderRows[0].parentId;
+  }
+
+  return pathParts.join("/");
+}
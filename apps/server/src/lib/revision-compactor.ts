@@ -0,0 +1,432 @@
+import { and, asc, eq, gt, inArray } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { config } from "@/config";
+import type { RevisionRetentionTier } from "@/config-resolver";
+import { db, dialect } from "@/db";
+import { noteLineBlame, notes, revisions } from "@/db/schema";
+import type * as sqliteSchema from "@/db/schema/sqlite";
+import {
+  KEYFRAME_INTERVAL,
+  convertSnapshotRevisions,
+  planRevision,
+  readNoteRevisions,
+  type ResolvedRevision,
+} from "@/lib/revision-store";
+
+/**
+ * Revision compaction.
+ *
+ * config.revisions.retention thins out old history: once a revision is older
+ * than a tier's afterDays it only survives if it is the latest revision of its
+ * hour, day or week (UTC buckets). Revisions younger than the first tier and
+ * the latest revision of every note are always kept.
+ *
+ * Kept deltas whose base is removed are re-encoded against the previous kept
+ * revision. Blame rows that point at a removed revision move to the next kept
+ * one, which still contains the line: blame only tracks lines that have not
+ * changed since the revision that introduced them.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const COMPACTION_INTERVAL_MS = 6 * HOUR_MS;
+const NOTE_BATCH_SIZE = 200;
+// Keeps IN (...) lists below SQLite's bound parameter limit
+const ID_CHUNK_SIZE = 500;
+
+const BUCKET_MS: Record<RevisionRetentionTier["keep"], number> = {
+  hourly: HOUR_MS,
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+export interface NoteCompaction {
+  noteId: number;
+  publicId: string;
+  name: string;
+  revisions: number;
+  removed: number;
+}
+
+export interface CompactionReport {
+  dryRun: boolean;
+  notesScanned: number;
+  revisionsScanned: number;
+  revisionsRemoved: number;
+  /** Kept revisions re-encoded because their delta base was removed */
+  revisionsRewritten: number;
+  blameRowsRepointed: number;
+  /** Notes that lost at least one revision */
+  notes: NoteCompaction[];
+}
+
+export interface CompactOptions {
+  /** Report what would be removed without changing anything */
+  dryRun?: boolean;
+  retention?: RevisionRetentionTier[];
+  now?: Date;
+}
+
+type NoteResult = { revisions: number; removed: number; rewritten: number; repointed: number };
+
+/**
+ * Pick the revisions of one note that fall outside the retention policy.
+ * Rows must be ordered by id.
+ */
+const selectRemovedRevisions = (
+  rows: { id: number; createdAt: Date }[],
+  retention: RevisionRetentionTier[],
+  now: Date
+): Set<number> => {
+  const latestInBucket = new Map<string, number>();
+  const candidates: number[] = [];
+
+  for (const row of rows) {
+    const age = now.getTime() - row.createdAt.getTime();
+    let tierIndex = -1;
+    retention.forEach((tier, index) => {
+      if (age >= tier.afterDays * DAY_MS) {
+        tierIndex = index;
+      }
+    });
+    if (tierIndex === -1) {
+      continue;
+    }
+
+    const bucket = Math.floor(row.createdAt.getTime() / BUCKET_MS[retention[tierIndex].keep]);
+    latestInBucket.set(`${tierIndex}:${bucket}`, row.id);
+    candidates.push(row.id);
+  }
+
+  const kept = new Set(latestInBucket.values());
+  if (rows.length > 0) {
+    kept.add(rows[rows.length - 1].id);
+  }
+  return new Set(candidates.filter((id) => !kept.has(id)));
+};
+
+const chunk = <T>(values: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let index = 0; index < values.length; index += size) {
+    chunks.push(values.slice(index, index + size));
+  }
+  return chunks;
+};
+
+/**
+ * Blame updates needed for the removal: old revision id -> new revision id,
+ * plus the number of blame rows affected.
+ */
+const planBlameRepoints = (blameRows: { revisionId: number }[], replacements: Map<number, number>) => {
+  const repoints = new Map<number, number>();
+  let rows = 0;
+  for (const { revisionId } of blameRows) {
+    const replacement = replacements.get(revisionId);
+    if (replacement !== undefined) {
+      repoints.set(revisionId, replacement);
+      rows += 1;
+    }
+  }
+  return { repoints, rows };
+};
+
+const commitSqlite = (noteId: number, replacements: Map<number, number>): number => {
+  const sqliteDb = db as unknown as BetterSQLite3Database<typeof sqliteSchema>;
+  const tables = {
+    noteLineBlame: noteLineBlame as unknown as typeof sqliteSchema.noteLineBlame,
+    revisions: revisions as unknown as typeof sqliteSchema.revisions,
+  };
+
+  return sqliteDb.transaction((tx) => {
+    const blameRows = tx
+      .select({ revisionId: tables.noteLineBlame.revisionId })
+      .from(tables.noteLineBlame)
+      .where(eq(tables.noteLineBlame.noteId, noteId))
+      .all();
+    const { repoints, rows } = planBlameRepoints(blameRows, replacements);
+
+    for (const [fromId, toId] of repoints) {
+      tx
+        .update(tables.noteLineBlame)
+        .set({ revisionId: toId })
+        .where(and(eq(tables.noteLineBlame.noteId, noteId), eq(tables.noteLineBlame.revisionId, fromId)))
+        .run();
+    }
+
+    for (const ids of chunk([...replacements.keys()], ID_CHUNK_SIZE)) {
+      tx
+        .delete(tables.revisions)
+        .where(and(eq(tables.revisions.noteId, noteId), inArray(tables.revisions.id, ids)))
+        .run();
+    }
+
+    return rows;
+  });
+};
+
+const commitPostgres = (noteId: number, replacements: Map<number, number>): Promise<number> =>
+  db.transaction(async (tx) => {
+    const blameRows = await tx
+      .select({ revisionId: noteLineBlame.revisionId })
+      .from(noteLineBlame)
+      .where(eq(noteLineBlame.noteId, noteId));
+    const { repoints, rows } = planBlameRepoints(blameRows, replacements);
+
+    for (const [fromId, toId] of repoints) {
+      await tx
+        .update(noteLineBlame)
+        .set({ revisionId: toId })
+        .where(and(eq(noteLineBlame.noteId, noteId), eq(noteLineBlame.revisionId, fromId)));
+    }
+
+    for (const ids of chunk([...replacements.keys()], ID_CHUNK_SIZE)) {
+      await tx
+        .delete(revisions)
+        .where(and(eq(revisions.noteId, noteId), inArray(revisions.id, ids)));
+    }
+
+    return rows;
+  });
+
+async function compactNote(
+  noteId: number,
+  retention: RevisionRetentionTier[],
+  now: Date,
+  dryRun: boolean
+): Promise<NoteResult> {
+  const rows = await db
+    .select({ id: revisions.id, createdAt: revisions.createdAt })
+    .from(revisions)
+    .where(eq(revisions.noteId, noteId))
+    .orderBy(asc(revisions.id));
+
+  const removed = selectRemovedRevisions(rows, retention, now);
+  if (removed.size === 0) {
+    return { revisions: rows.length, removed: 0, rewritten: 0, repointed: 0 };
+  }
+
+  // Re-encode kept deltas whose base goes away. Rewritten rows keep their
+  // content, so the chain stays readable while this runs.
+  let rewritten = 0;
+  let previousKept: { id: number; resolved: ResolvedRevision } | null = null;
+  const depths = new Map<number, number>();
+
+  for await (const { row, content } of readNoteRevisions(noteId)) {
+    if (removed.has(row.id)) {
+      continue;
+    }
+
+    let depth = 0;
+    if (row.content === null && row.baseRevisionId !== null) {
+      const baseDepth = depths.get(row.baseRevisionId);
+      if (baseDepth !== undefined && baseDepth + 1 < KEYFRAME_INTERVAL) {
+        depth = baseDepth + 1;
+      } else {
+        const storage = planRevision(content, previousKept);
+        if (!dryRun) {
+          await db
+            .update(revisions)
+            .set(storage)
+            .where(eq(revisions.id, row.id));
+        }
+        rewritten += 1;
+        depth = storage.kind === "delta" && previousKept ? previousKept.resolved.depth + 1 : 0;
+      }
+    }
+
+    depths.set(row.id, depth);
+    previousKept = { id: row.id, resolved: { content, depth } };
+  }
+
+  // The latest revision is always kept, so every removed id has a successor
+  const replacements = new Map<number, number>();
+  let nextKeptId: number | null = null;
+  for (let index = rows.length - 1; index >= 0; index -= 1) {
+    const { id } = rows[index];
+    if (!removed.has(id)) {
+      nextKeptId = id;
+    } else if (nextKeptId !== null) {
+      replacements.set(id, nextKeptId);
+    }
+  }
+
+  let repointed: number;
+  if (dryRun) {
+    const blameRows = await db
+      .select({ revisionId: noteLineBlame.revisionId })
+      .from(noteLineBlame)
+      .where(eq(noteLineBlame.noteId, noteId));
+    repointed = planBlameRepoints(blameRows, replacements).rows;
+  } else {
+    repointed = dialect === "sqlite" ? commitSqlite(noteId, replacements) : await commitPostgres(noteId, replacements);
+  }
+
+  return { revisions: rows.length, removed: removed.size, rewritten, repointed };
+}
+
+/**
+ * Apply the revision retention policy to every note.
+ * With an empty policy nothing is scanned.
+ */
+export async function compactRevisions(options: CompactOptions = {}): Promise<CompactionReport> {
+  const dryRun = options.dryRun ?? false;
+  const retention = options.retention ?? config.revisions.retention;
+  const now = options.now ?? new Date();
+
+  const report: CompactionReport = {
+    dryRun,
+    notesScanned: 0,
+    revisionsScanned: 0,
+    revisionsRemoved: 0,
+    revisionsRewritten: 0,
+    blameRowsRepointed: 0,
+    notes: [],
+  };
+
+  if (retention.length === 0) {
+    return report;
+  }
+
+  let afterNoteId = 0;
+  while (true) {
+    const batch = await db
+      .selectDistinct({ noteId: revisions.noteId })
+      .from(revisions)
+      .where(gt(revisions.noteId, afterNoteId))
+      .orderBy(asc(revisions.noteId))
+      .limit(NOTE_BATCH_SIZE);
+
+    if (batch.length === 0) {
+      break;
+    }
+
+    for (const { noteId } of batch) {
+      const result = await compactNote(noteId, retention, now, dryRun);
+      report.notesScanned += 1;
+      report.revisionsScanned += result.revisions;
+      report.revisionsRemoved += result.removed;
+      report.revisionsRewritten += result.rewritten;
+      report.blameRowsRepointed += result.repointed;
+
+      if (result.removed > 0) {
+        const noteRows = await db
+          .select({ publicId: notes.publicId, name: notes.name })
+          .from(notes)
+          .where(eq(notes.id, noteId))
+          .limit(1);
+        report.notes.push({
+          noteId,
+          publicId: noteRows[0]?.publicId ?? "",
+          name: noteRows[0]?.name ?? "",
+          revisions: result.revisions,
+          removed: result.removed,
+        });
+      }
+    }
+
+    afterNoteId = batch[batch.length - 1].noteId;
+  }
+
+  return report;
+}
+
+const describeRetention = (retention: RevisionRetentionTier[]) =>
+  retention.length === 0
+    ? "keep every revision"
+    : retention.map((tier) => `${tier.keep} after ${tier.afterDays} days`).join(", ");
+
+/**
+ * Entry point for `kontexted compact [--dry-run]`.
+ * @returns The process exit code
+ */
+export async function runCompactCommand(args: string[]): Promise<number> {
+  const dryRun = args.includes("--dry-run");
+  const { retention } = config.revisions;
+
+  try {
+    console.log(`Retention policy: ${describeRetention(retention)}`);
+    if (retention.length === 0) {
+      console.log("Nothing to compact.");
+      return 0;
+    }
+
+    if (!dryRun) {
+      const converted = await convertSnapshotRevisions();
+      if (converted > 0) {
+        console.log(`Converted ${converted} revision snapshots to keyframes and deltas`);
+      }
+    }
+
+    const report = await compactRevisions({ dryRun, retention });
+
+    console.log("");
+    for (const note of report.notes) {
+      const label = note.name ? `${note.name} (${note.publicId})` : `note ${note.noteId}`;
+      console.log(`  ${label}: ${dryRun ? "would remove" : "removed"} ${note.removed} of ${note.revisions} revisions`);
+    }
+    if (report.notes.length > 0) {
+      console.log("");
+    }
+
+    console.log(`Scanned ${report.revisionsScanned} revisions in ${report.notesScanned} notes.`);
+    console.log(
+      `${dryRun ? "Would remove" : "Removed"} ${report.revisionsRemoved} revisions; ` +
+        `${report.revisionsRewritten} kept revisions ${dryRun ? "would be" : "were"} re-encoded ` +
+        `and ${report.blameRowsRepointed} blame lines repointed.`
+    );
+    if (dryRun) {
+      console.log("Dry run: nothing was changed.");
+    }
+    return 0;
+  } catch (error) {
+    console.error("Revision compaction failed:", error);
+    return 1;
+  }
+}
+
+/**
+ * Convert leftover revision snapshots, then compact revisions now and every
+ * few hours. Compaction is skipped when the retention policy is empty.
+ */
+export function startRevisionMaintenanceJob(): void {
+  const { retention } = config.revisions;
+  let running = false;
+
+  const runCompaction = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const report = await compactRevisions({ retention });
+      if (report.revisionsRemoved > 0) {
+        console.log(
+          `[revisions] Compacted ${report.revisionsRemoved} revisions across ${report.notes.length} notes`
+        );
+      }
+    } catch (error) {
+      console.error("[revisions] Failed to compact revisions:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void convertSnapshotRevisions()
+    .then((converted) => {
+      if (converted > 0) {
+        console.log(`[revisions] Converted ${converted} revision snapshots to keyframes and deltas`);
+      }
+    })
+    .catch((error) => {
+      console.error("[revisions] Failed to convert revision snapshots", error);
+    })
+    .then(() => {
+      if (retention.length === 0) {
+        console.log("[revisions] Retention policy is empty, every revision is kept");
+        return;
+      }
+      void runCompaction();
+      const timer = setInterval(runCompaction, COMPACTION_INTERVAL_MS);
+      timer.unref?.();
+    });
+}
@@ -0,0 +1,104 @@
+import { diffText, type TextDiff } from "@/lib/diff";
+import { getLatestRevisionId, loadRevisionContent } from "@/lib/revision-store";
+
+/**
+ * Optimistic concurrency for note writes.
+ *
+ * A writer may pass the latest revision it has read, as expectedRevisionId
+ * or as an If-Match ETag. If the note has moved on by the time the write
+ * happens nothing is written, and the writer gets the current revision and
+ * content plus a diff of what changed since the revision it expected, so it
+ * can merge and retry. Writers that pass nothing overwrite as before.
+ *
+ * A note without revisions has revision null, "rev-0" as an ETag.
+ */
+
+export interface RevisionConflict {
+  expectedRevisionId: number | null;
+  currentRevisionId: number | null;
+  etag: string;
+  content: string;
+  /** Changes from the expected revision to the current content; null if the expected revision does not exist */
+  diff: TextDiff | null;
+}
+
+export class StaleRevisionError extends Error {
+  readonly conflict: RevisionConflict;
+
+  constructor(conflict: RevisionConflict) {
+    super(
+      `Note has changed: expected revision ${conflict.expectedRevisionId ?? "none"} but the current revision is ${conflict.currentRevisionId ?? "none"}`
+    );
+    this.name = "StaleRevisionError";
+    this.conflict = conflict;
+  }
+}
+
+export class InvalidETagError extends Error {
+  name = "InvalidETagError";
+}
+
+const ETAG_PATTERN = /^(?:W\/)?"rev-(\d+)"$/;
+
+export const revisionETag = (revisionId: number | null): string => `"rev-${revisionId ?? 0}"`;
+
+/**
+ * Expected revision named by an If-Match header: undefined when the header is
+ * missing or "*", null for a note without revisions.
+ * @throws InvalidETagError if the header is not a revision ETag
+ */
+export function parseIfMatch(header: string | undefined | null): number | null | undefined {
+  const value = header?.trim();
+  if (!value || value === "*") {
+    return undefined;
+  }
+  const match = value.match(ETAG_PATTERN);
+  if (!match) {
+    throw new InvalidETagError("Invalid If-Match header: expected an ETag such as \"rev-42\"");
+  }
+  const revisionId = Number(match[1]);
+  return revisionId === 0 ? null : revisionId;
+}
+
+/**
+ * Describe a stale write: what the note looks like now and what changed
+ * since the revision the writer expected.
+ */
+export async function buildRevisionConflict(
+  noteId: number,
+  expectedRevisionId: number | null,
+  currentRevisionId: number | null,
+  currentContent: string
+): Promise<RevisionConflict> {
+  const expectedContent = expectedRevisionId === null
+    ? ""
+    : await loadRevisionContent(noteId, expectedRevisionId);
+
+  return {
+    expectedRevisionId,
+    currentRevisionId,
+    etag: revisionETag(currentRevisionId),
+    content: currentContent,
+    diff: expectedContent === null ? null : diffText(expectedContent, currentContent),
+  };
+}
+
+/**
+ * Check that a note is still at the revision the writer expects.
+ * An undefined expectation skips the check.
+ * @returns The note's latest revision
+ * @throws StaleRevisionError if the note has a different latest revision
+ */
+export async function assertExpectedRevision(
+  noteId: number,
+  expectedRevisionId: number | null | undefined,
+  currentContent: string
+): Promise<number | null> {
+  const currentRevisionId = await getLatestRevisionId(noteId);
+  if (expectedRevisionId !== undefined && expectedRevisionId !== currentRevisionId) {
+    throw new StaleRevisionError(
+      await buildRevisionConflict(noteId, expectedRevisionId, currentRevisionId, currentContent)
+    );
+  }
+  return currentRevisionId;
+}
@@ -0,0 +1,591 @@
+import { and, asc, eq, gt, gte, isNotNull, lte, max } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { db } from "@/db";
+import { revisions } from "@/db/schema";
+import type * as sqliteSchema from "@/db/schema/sqlite";
+import { diffLines } from "@/lib/blame";
+
+/**
+ * Revision storage.
+ *
+ * Each note's revisions form a chain: a "keyframe" row keeps the full content
+ * and every "delta" row keeps only a line delta against its baseRevisionId
+ * (the note's latest revision when it was written). A keyframe is written
+ * every KEYFRAME_INTERVAL revisions, so reading any revision applies at most
+ * KEYFRAME_INTERVAL - 1 deltas. Rows written before this scheme are kind
+ * "snapshot"; they read like keyframes until convertSnapshotRevisions has
+ * turned them into deltas.
+ *
+ * Never read revisions.content directly; use loadRevisionContent(s).
+ */
+
+type DbClient = typeof db;
+type TxClient = typeof db extends { transaction: (fn: (tx: infer T) => any) => any } ? T : never;
+type AnyDbClient = DbClient | TxClient;
+
+export const KEYFRAME_INTERVAL = 20;
+
+const BATCH_SIZE = 200;
+
+export type RevisionKind = "snapshot" | "keyframe" | "delta";
+
+/** Storage columns of a revision row */
+export interface StoredRevision {
+  id: number;
+  kind: RevisionKind;
+  content: string | null;
+  baseRevisionId: number | null;
+  delta: string | null;
+}
+
+export interface NewRevision {
+  workspaceId: number;
+  noteId: number;
+  authorUserId: string;
+  content: string;
+  createdAt?: Date;
+}
+
+/** Content of a revision and the number of deltas applied to reach it */
+export type ResolvedRevision = { content: string; depth: number };
+
+/**
+ * Rows of one note from the nearest full-content row at or before `from`
+ * through `upTo`; `upTo: null` means the note's latest revision and a null
+ * `from` means the same revision as `upTo`.
+ */
+type ChainRequest = { noteId: number; from: number | null; upTo: number | null };
+
+type ChainLoader<T> = (request: ChainRequest) => T;
+
+/**
+ * A delta is a JSON array read against the base lines in order: a positive
+ * number copies that many lines, a negative number skips that many, and a
+ * string inserts a new line.
+ */
+type DeltaOp = number | string;
+
+export class RevisionChainError extends Error {
+  name = "RevisionChainError";
+}
+
+const splitLines = (value: string) => value.split("\n");
+
+export const encodeDelta = (baseContent: string, nextContent: string): string => {
+  const baseLines = splitLines(baseContent);
+  const nextLines = splitLines(nextContent);
+
+  // Trim the shared head and tail so the quadratic LCS only sees the edit
+  let head = 0;
+  while (head < baseLines.length && head < nextLines.length && baseLines[head] === nextLines[head]) {
+    head += 1;
+  }
+  let tail = 0;
+  while (
+    tail < baseLines.length - head &&
+    tail < nextLines.length - head &&
+    baseLines[baseLines.length - 1 - tail] === nextLines[nextLines.length - 1 - tail]
+  ) {
+    tail += 1;
+  }
+
+  const ops: DeltaOp[] = [];
+  const pushCount = (count: number) => {
+    const last = ops[ops.length - 1];
+    if (typeof last === "number" && Math.sign(last) === Math.sign(count)) {
+      ops[ops.length - 1] = last + count;
+    } else {
+      ops.push(count);
+    }
+  };
+
+  if (head > 0) {
+    pushCount(head);
+  }
+
+  const baseMiddle = baseLines.slice(head, baseLines.length - tail);
+  const nextMiddle = nextLines.slice(head, nextLines.length - tail);
+  for (const op of diffLines(baseMiddle, nextMiddle)) {
+    if (op.type === "equal") {
+      pushCount(1);
+    } else if (op.type === "delete") {
+      pushCount(-1);
+    } else {
+      ops.push(nextMiddle[op.nextIndex]);
+    }
+  }
+
+  if (tail > 0) {
+    pushCount(tail);
+  }
+
+  return JSON.stringify(ops);
+};
+
+export const applyDelta = (baseContent: string, delta: string): string => {
+  const baseLines = splitLines(baseContent);
+  const ops = JSON.parse(delta) as DeltaOp[];
+  const result: string[] = [];
+  let cursor = 0;
+
+  for (const op of ops) {
+    if (typeof op === "string") {
+      result.push(op);
+    } else if (op > 0) {
+      if (cursor + op > baseLines.length) {
+        throw new RevisionChainError("Delta copies past the end of its base");
+      }
+      for (let index = 0; index < op; index += 1) {
+        result.push(baseLines[cursor + index]);
+      }
+      cursor += op;
+    } else {
+      cursor -= op;
+    }
+  }
+
+  if (cursor !== baseLines.length) {
+    throw new RevisionChainError("Delta does not cover its base");
+  }
+
+  return result.join("\n");
+};
+
+/**
+ * Resolve the content of the requested revisions, asking the driver for more
+ * rows whenever a chain reaches a base that has not been loaded yet. Written
+ * as a generator so the same walk serves sync SQLite transactions and async
+ * clients.
+ */
+function* resolveRevisions(
+  noteId: number,
+  targetIds: number[] | null
+): Generator<ChainRequest, Map<number, ResolvedRevision>, StoredRevision[]> {
+  const rows = new Map<number, StoredRevision>();
+  const resolved = new Map<number, ResolvedRevision>();
+
+  const sortedTargets = targetIds ? [...new Set(targetIds)].sort((a, b) => a - b) : null;
+  const initial = yield sortedTargets
+    ? { noteId, from: sortedTargets[0], upTo: sortedTargets[sortedTargets.length - 1] }
+    : { noteId, from: null, upTo: null };
+  initial.forEach((row) => rows.set(row.id, row));
+
+  let targets = sortedTargets;
+  if (!targets) {
+    const latestId = initial.reduce((latest, row) => Math.max(latest, row.id), 0);
+    targets = latestId > 0 ? [latestId] : [];
+  }
+
+  for (const targetId of targets) {
+    // Walk back until a full-content row or an already resolved revision
+    const pending: StoredRevision[] = [];
+    let currentId: number | null = targetId;
+    let base: ResolvedRevision | null = null;
+
+    while (currentId !== null) {
+      const known = resolved.get(currentId);
+      if (known) {
+        base = known;
+        break;
+      }
+
+      let row = rows.get(currentId);
+      if (!row) {
+        const loaded: StoredRevision[] = yield { noteId, from: currentId, upTo: currentId };
+        loaded.forEach((entry) => rows.set(entry.id, entry));
+        row = rows.get(currentId);
+        if (!row) {
+          if (currentId === targetId) {
+            break;
+          }
+          throw new RevisionChainError(`Revision ${currentId} is missing from the chain of note ${noteId}`);
+        }
+      }
+
+      if (row.content !== null) {
+        base = { content: row.content, depth: 0 };
+        resolved.set(row.id, base);
+        break;
+      }
+
+      if (row.baseRevisionId === null || row.delta === null) {
+        throw new RevisionChainError(`Revision ${row.id} has neither content nor a delta`);
+      }
+
+      pending.push(row);
+      currentId = row.baseRevisionId;
+    }
+
+    if (!base) {
+      continue;
+    }
+
+    for (let index = pending.length - 1; index >= 0; index -= 1) {
+      const row = pending[index];
+      base = { content: applyDelta(base.content, row.delta as string), depth: base.depth + 1 };
+      resolved.set(row.id, base);
+    }
+  }
+
+  return resolved;
+}
+
+const runSync = <R>(
+  walk: Generator<ChainRequest, R, StoredRevision[]>,
+  load: ChainLoader<StoredRevision[]>
+): R => {
+  let step = walk.next();
+  while (!step.done) {
+    step = walk.next(load(step.value));
+  }
+  return step.value;
+};
+
+const runAsync = async <R>(
+  walk: Generator<ChainRequest, R, StoredRevision[]>,
+  load: ChainLoader<Promise<StoredRevision[]>>
+): Promise<R> => {
+  let step = walk.next();
+  while (!step.done) {
+    step = walk.next(await load(step.value));
+  }
+  return step.value;
+};
+
+const storedColumns = {
+  id: revisions.id,
+  kind: revisions.kind,
+  content: revisions.content,
+  baseRevisionId: revisions.baseRevisionId,
+  delta: revisions.delta,
+};
+
+const loadChain = async (request: ChainRequest, client: AnyDbClient): Promise<StoredRevision[]> => {
+  let upTo = request.upTo;
+  if (upTo === null) {
+    const latest = await client
+      .select({ id: max(revisions.id) })
+      .from(revisions)
+      .where(eq(revisions.noteId, request.noteId));
+    upTo = latest[0]?.id ?? null;
+    if (upTo === null) {
+      return [];
+    }
+  }
+
+  const floor = await client
+    .select({ id: max(revisions.id) })
+    .from(revisions)
+    .where(
+      and(
+        eq(revisions.noteId, request.noteId),
+        lte(revisions.id, request.from ?? upTo),
+        isNotNull(revisions.content)
+      )
+    );
+
+  return client
+    .select(storedColumns)
+    .from(revisions)
+    .where(
+      and(
+        eq(revisions.noteId, request.noteId),
+        lte(revisions.id, upTo),
+        gte(revisions.id, floor[0]?.id ?? 0)
+      )
+    )
+    .orderBy(asc(revisions.id));
+};
+
+const sqliteRevisions = revisions as unknown as typeof sqliteSchema.revisions;
+
+const loadChainSqlite = (
+  sqliteDb: BetterSQLite3Database<any>,
+  request: ChainRequest
+): StoredRevision[] => {
+  let upTo = request.upTo;
+  if (upTo === null) {
+    const latest = sqliteDb
+      .select({ id: max(sqliteRevisions.id) })
+      .from(sqliteRevisions)
+      .where(eq(sqliteRevisions.noteId, request.noteId))
+      .get();
+    upTo = latest?.id ?? null;
+    if (upTo === null) {
+      return [];
+    }
+  }
+
+  const floor = sqliteDb
+    .select({ id: max(sqliteRevisions.id) })
+    .from(sqliteRevisions)
+    .where(
+      and(
+        eq(sqliteRevisions.noteId, request.noteId),
+        lte(sqliteRevisions.id, request.from ?? upTo),
+        isNotNull(sqliteRevisions.content)
+      )
+    )
+    .get();
+
+  return sqliteDb
+    .select({
+      id: sqliteRevisions.id,
+      kind: sqliteRevisions.kind,
+      content: sqliteRevisions.content,
+      baseRevisionId: sqliteRevisions.baseRevisionId,
+      delta: sqliteRevisions.delta,
+    })
+    .from(sqliteRevisions)
+    .where(
+      and(
+        eq(sqliteRevisions.noteId, request.noteId),
+        lte(sqliteRevisions.id, upTo),
+        gte(sqliteRevisions.id, floor?.id ?? 0)
+      )
+    )
+    .orderBy(asc(sqliteRevisions.id))
+    .all();
+};
+
+/**
+ * Reconstruct the content of several revisions of one note.
+ * Revisions that do not belong to the note are left out of the result.
+ */
+export async function loadRevisionContents(
+  noteId: number,
+  revisionIds: number[],
+  client: AnyDbClient = db
+): Promise<Map<number, string>> {
+  if (revisionIds.length === 0) {
+    return new Map();
+  }
+
+  const resolved = await runAsync(resolveRevisions(noteId, revisionIds), (request) => loadChain(request, client));
+  const contents = new Map<number, string>();
+  for (const id of revisionIds) {
+    const revision = resolved.get(id);
+    if (revision) {
+      contents.set(id, revision.content);
+    }
+  }
+  return contents;
+}
+
+export async function loadRevisionContent(
+  noteId: number,
+  revisionId: number,
+  client: AnyDbClient = db
+): Promise<string | null> {
+  const contents = await loadRevisionContents(noteId, [revisionId], client);
+  return contents.get(revisionId) ?? null;
+}
+
+/**
+ * Id of the latest revision of a note, or null if it has none yet.
+ */
+export async function getLatestRevisionId(noteId: number, client: AnyDbClient = db): Promise<number | null> {
+  const latest = await client
+    .select({ id: max(revisions.id) })
+    .from(revisions)
+    .where(eq(revisions.noteId, noteId));
+  return latest[0]?.id ?? null;
+}
+
+/**
+ * Reconstruct the content of one revision inside a SQLite transaction.
+ */
+export function loadRevisionContentSqlite(
+  sqliteDb: BetterSQLite3Database<any>,
+  noteId: number,
+  revisionId: number
+): string | null {
+  const resolved = runSync(resolveRevisions(noteId, [revisionId]), (request) => loadChainSqlite(sqliteDb, request));
+  return resolved.get(revisionId)?.content ?? null;
+}
+
+/**
+ * Decide how to store a new revision given the note's latest revision:
+ * a delta against it, or a keyframe when the chain is long enough or the
+ * delta would not be smaller than the content itself.
+ */
+export const planRevision = (
+  content: string,
+  latest: { id: number; resolved: ResolvedRevision } | null
+): Pick<StoredRevision, "kind" | "content" | "baseRevisionId" | "delta"> => {
+  if (latest && latest.resolved.depth + 1 < KEYFRAME_INTERVAL) {
+    const delta = encodeDelta(latest.resolved.content, content);
+    if (delta.length < content.length) {
+      return { kind: "delta", content: null, baseRevisionId: latest.id, delta };
+    }
+  }
+  return { kind: "keyframe", content, baseRevisionId: null, delta: null };
+};
+
+const latestOf = (resolved: Map<number, ResolvedRevision>) => {
+  let latest: { id: number; resolved: ResolvedRevision } | null = null;
+  for (const [id, revision] of resolved) {
+    if (!latest || id > latest.id) {
+      latest = { id, resolved: revision };
+    }
+  }
+  return latest;
+};
+
+/**
+ * Insert a revision inside a SQLite transaction and return its id.
+ */
+export function insertRevisionSqlite(sqliteDb: BetterSQLite3Database<any>, revision: NewRevision): number {
+  const resolved = runSync(resolveRevisions(revision.noteId, null), (request) => loadChainSqlite(sqliteDb, request));
+  const storage = planRevision(revision.content, latestOf(resolved));
+
+  const inserted = sqliteDb
+    .insert(sqliteRevisions)
+    .values({
+      workspaceId: revision.workspaceId,
+      noteId: revision.noteId,
+      authorUserId: revision.authorUserId,
+      ...storage,
+      ...(revision.createdAt ? { createdAt: revision.createdAt } : {}),
+    })
+    .run();
+
+  const revisionId = Number(inserted.lastInsertRowid);
+  if (!revisionId) {
+    throw new Error("Failed to create revision");
+  }
+  return revisionId;
+}
+
+/**
+ * Insert a revision and return its id.
+ */
+export async function insertRevision(revision: NewRevision, client: AnyDbClient = db): Promise<number> {
+  const resolved = await runAsync(resolveRevisions(revision.noteId, null), (request) => loadChain(request, client));
+  const storage = planRevision(revision.content, latestOf(resolved));
+
+  const inserted = await client
+    .insert(revisions)
+    .values({
+      workspaceId: revision.workspaceId,
+      noteId: revision.noteId,
+      authorUserId: revision.authorUserId,
+      ...storage,
+      ...(revision.createdAt ? { createdAt: revision.createdAt } : {}),
+    })
+    .returning({ id: revisions.id });
+
+  const revisionId = inserted[0]?.id;
+  if (!revisionId) {
+    throw new Error("Failed to create revision");
+  }
+  return revisionId;
+}
+
+/**
+ * Read every revision of one note in id order together with its content.
+ * Deltas against the row just before them are applied in memory; any other
+ * base is reconstructed from the database, so callers may rewrite rows they
+ * have already been handed as long as the content stays the same.
+ */
+export async function* readNoteRevisions(
+  noteId: number,
+  client: AnyDbClient = db
+): AsyncGenerator<{ row: StoredRevision; content: string }> {
+  let previous: { id: number; content: string } | null = null;
+  let afterId = 0;
+
+  while (true) {
+    const rows: StoredRevision[] = await client
+      .select(storedColumns)
+      .from(revisions)
+      .where(and(eq(revisions.noteId, noteId), gt(revisions.id, afterId)))
+      .orderBy(asc(revisions.id))
+      .limit(BATCH_SIZE);
+
+    if (rows.length === 0) {
+      return;
+    }
+
+    for (const row of rows) {
+      let content: string;
+      if (row.content !== null) {
+        content = row.content;
+      } else if (previous && row.baseRevisionId === previous.id && row.delta !== null) {
+        content = applyDelta(previous.content, row.delta);
+      } else {
+        const resolved = await runAsync(resolveRevisions(noteId, [row.id]), (request) => loadChain(request, client));
+        const revision = resolved.get(row.id);
+        if (!revision) {
+          throw new RevisionChainError(`Revision ${row.id} could not be reconstructed`);
+        }
+        content = revision.content;
+      }
+
+      yield { row, content };
+      previous = { id: row.id, content };
+      afterId = row.id;
+    }
+  }
+}
+
+/**
+ * Convert the revisions of one note that still hold full snapshots.
+ * Each snapshot becomes a delta against the revision before it unless the
+ * chain is due for a keyframe. Content is unchanged, so rows that already
+ * point at a converted snapshot stay valid.
+ */
+async function convertNoteSnapshots(noteId: number): Promise<number> {
+  let converted = 0;
+  let previous: { id: number; resolved: ResolvedRevision } | null = null;
+  // Chain depth of every row as stored after conversion; bases always come first
+  const depths = new Map<number, number>();
+
+  for await (const { row, content } of readNoteRevisions(noteId)) {
+    let depth = 0;
+
+    if (row.kind === "snapshot") {
+      const storage = planRevision(content, previous);
+      await db
+        .update(revisions)
+        .set(storage)
+        .where(eq(revisions.id, row.id));
+      converted += 1;
+      depth = storage.kind === "delta" && previous ? previous.resolved.depth + 1 : 0;
+    } else if (row.content === null && row.baseRevisionId !== null) {
+      depth = (depths.get(row.baseRevisionId) ?? 0) + 1;
+    }
+
+    depths.set(row.id, depth);
+    previous = { id: row.id, resolved: { content, depth } };
+  }
+
+  return converted;
+}
+
+/**
+ * One-time migration of revisions stored before keyframes and deltas existed.
+ * Runs at startup; once every snapshot has been converted it is a single
+ * indexed lookup.
+ */
+export async function convertSnapshotRevisions(): Promise<number> {
+  let converted = 0;
+
+  while (true) {
+    const pending = await db
+      .selectDistinct({ noteId: revisions.noteId })
+      .from(revisions)
+      .where(eq(revisions.kind, "snapshot"))
+      .limit(BATCH_SIZE);
+
+    if (pending.length === 0) {
+      break;
+    }
+
+    for (const { noteId } of pending) {
+      converted += await convertNoteSnapshots(noteId);
+    }
+  }
+
+  return converted;
+}
@@ -0,0 +1,351 @@
+import { and, asc, eq, gt, max, sql } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { db, dialect } from "@/db";
+import { noteLineBlame, notes, revisions } from "@/db/schema";
+import type * as sqliteSchema from "@/db/schema/sqlite";
+import { prepareRoomForExternalWrite, pushExternalUpdateToRoom, type RoomWriteBase } from "@/collab-ws/checkpoints";
+import { buildNextBlame } from "@/lib/blame";
+import { buildRevisionConflict, StaleRevisionError } from "@/lib/revision-conflicts";
+import { getLatestRevisionId, insertRevision, insertRevisionSqlite, loadRevisionContent } from "@/lib/revision-store";
+import { updateNoteSearchIndex, updateNoteSearchIndexSqlite } from "@/lib/search";
+import { workspaceEventHub } from "@/lib/sse-hub";
+import { buildNoteFolderPath } from "@/lib/resolvers";
+
+export class RevisionNotFoundError extends Error {
+  name = "RevisionNotFoundError";
+}
+
+export interface RestoreRevisionParams {
+  workspaceId: number;
+  noteId: number;
+  notePublicId: string;
+  /** Revision whose content becomes the note content again */
+  revisionId: number;
+  authorUserId: string;
+}
+
+export interface WriteNoteContentParams {
+  workspaceId: number;
+  noteId: number;
+  notePublicId: string;
+  content: string;
+  authorUserId: string;
+  /**
+   * Only write if this is still the note's latest revision, checked inside the
+   * write transaction. Undefined skips the check; null expects no revisions.
+   */
+  expectedRevisionId?: number | null;
+}
+
+export interface WrittenNoteContent {
+  revisionId: number;
+  updatedAt: Date;
+}
+
+export interface RestoredRevision {
+  /** The new revision created by the restore */
+  revisionId: number;
+  restoredFromRevisionId: number;
+  content: string;
+  updatedAt: Date;
+}
+
+/**
+ * Thrown inside a write transaction when the note has moved past the expected
+ * revision; turned into a StaleRevisionError once the transaction is rolled back.
+ */
+class RevisionMismatchError extends Error {
+  name = "RevisionMismatchError";
+
+  constructor(
+    readonly currentRevisionId: number | null,
+    readonly currentContent: string
+  ) {
+    super("Note revision mismatch");
+  }
+}
+
+const writeSqlite = (params: WriteNoteContentParams, now: Date): number => {
+  const sqliteDb = db as unknown as BetterSQLite3Database<typeof sqliteSchema>;
+  const tables = {
+    noteLineBlame: noteLineBlame as unknown as typeof sqliteSchema.noteLineBlame,
+    notes: notes as unknown as typeof sqliteSchema.notes,
+    revisions: revisions as unknown as typeof sqliteSchema.revisions,
+  };
+
+  return sqliteDb.transaction((tx) => {
+    const note = tx
+      .select({ content: tables.notes.content })
+      .from(tables.notes)
+      .where(eq(tables.notes.id, params.noteId))
+      .get();
+    const previousContent = note?.content ?? "";
+
+    if (params.expectedRevisionId !== undefined) {
+      const latest = tx
+        .select({ id: max(tables.revisions.id) })
+        .from(tables.revisions)
+        .where(eq(tables.revisions.noteId, params.noteId))
+        .get();
+      const currentRevisionId = latest?.id ?? null;
+      if (currentRevisionId !== params.expectedRevisionId) {
+        throw new RevisionMismatchError(currentRevisionId, previousContent);
+      }
+    }
+
+    const previousBlame = tx
+      .select({
+        lineNumber: tables.noteLineBlame.lineNumber,
+        authorUserId: tables.noteLineBlame.authorUserId,
+        revisionId: tables.noteLineBlame.revisionId,
+        touchedAt: tables.noteLineBlame.touchedAt,
+      })
+      .from(tables.noteLineBlame)
+      .where(eq(tables.noteLineBlame.noteId, params.noteId))
+      .orderBy(asc(tables.noteLineBlame.lineNumber))
+      .all();
+
+    const revisionId = insertRevisionSqlite(tx, {
+      workspaceId: params.workspaceId,
+      noteId: params.noteId,
+      authorUserId: params.authorUserId,
+      content: params.content,
+      createdAt: now,
+    });
+
+    tx
+      .update(tables.notes)
+      .set({ content: params.content, updatedAt: now })
+      .where(eq(tables.notes.id, params.noteId))
+      .run();
+
+    updateNoteSearchIndexSqlite(tx, params.noteId);
+
+    const nextBlame = buildNextBlame(
+      previousContent,
+      params.content,
+      previousBlame,
+      params.authorUserId,
+      revisionId
+    );
+
+    if (nextBlame.length > 0) {
+      tx
+        .insert(tables.noteLineBlame)
+        .values(nextBlame.map((row) => ({ noteId: params.noteId, ...row })))
+        .onConflictDoUpdate({
+          target: [tables.noteLineBlame.noteId, tables.noteLineBlame.lineNumber],
+          set: {
+            authorUserId: sql`excluded.author_user_id`,
+            revisionId: sql`excluded.revision_id`,
+            touchedAt: sql`excluded.touched_at`,
+          },
+        })
+        .run();
+    }
+
+    tx
+      .delete(tables.noteLineBlame)
+      .where(and(eq(tables.noteLineBlame.noteId, params.noteId), gt(tables.noteLineBlame.lineNumber, nextBlame.length)))
+      .run();
+
+    return revisionId;
+  });
+};
+
+const writePostgres = (params: WriteNoteContentParams, now: Date): Promise<number> =>
+  db.transaction(async (tx) => {
+    // Lock the note so no other write can add a revision until this one commits
+    const noteRows = await tx
+      .select({ content: notes.content })
+      .from(notes)
+      .where(eq(notes.id, params.noteId))
+      .limit(1)
+      .for("update");
+    const previousContent = noteRows[0]?.content ?? "";
+
+    if (params.expectedRevisionId !== undefined) {
+      const currentRevisionId = await getLatestRevisionId(params.noteId, tx);
+      if (currentRevisionId !== params.expectedRevisionId) {
+        throw new RevisionMismatchError(currentRevisionId, previousContent);
+      }
+    }
+
+    const previousBlame = await tx
+      .select({
+        lineNumber: noteLineBlame.lineNumber,
+        authorUserId: noteLineBlame.authorUserId,
+        revisionId: noteLineBlame.revisionId,
+        touchedAt: noteLineBlame.touchedAt,
+      })
+      .from(noteLineBlame)
+      .where(eq(noteLineBlame.noteId, params.noteId))
+      .orderBy(asc(noteLineBlame.lineNumber));
+
+    const revisionId = await insertRevision({
+      workspaceId: params.workspaceId,
+      noteId: params.noteId,
+      authorUserId: params.authorUserId,
+      content: params.content,
+      createdAt: now,
+    }, tx);
+
+    await tx
+      .update(notes)
+      .set({ content: params.content, updatedAt: now })
+      .where(eq(notes.id, params.noteId));
+
+    await updateNoteSearchIndex(params.noteId, tx);
+
+    const nextBlame = buildNextBlame(
+      previousContent,
+      params.content,
+      previousBlame,
+      params.authorUserId,
+      revisionId
+    );
+
+    if (nextBlame.length > 0) {
+      await tx
+        .insert(noteLineBlame)
+        .values(nextBlame.map((row) => ({ noteId: params.noteId, ...row })))
+        .onConflictDoUpdate({
+          target: [noteLineBlame.noteId, noteLineBlame.lineNumber],
+          set: {
+            authorUserId: sql`excluded.author_user_id`,
+            revisionId: sql`excluded.revision_id`,
+            touchedAt: sql`excluded.touched_at`,
+          },
+        });
+    }
+
+    await tx
+      .delete(noteLineBlame)
+      .where(and(eq(noteLineBlame.noteId, params.noteId), gt(noteLineBlame.lineNumber, nextBlame.length)));
+
+    return revisionId;
+  });
+
+/**
+ * Save new content for a note on behalf of a user, outside the collab editor.
+ *
+ * Writes a revision, carries blame over from the current content so unchanged
+ * lines keep their original authors, pushes the content into the live collab
+ * room (if any) and announces it as note.updated for sync clients. Unsaved
+ * edits in the room are checkpointed first, so an expected revision is checked
+ * against them too.
+ * @throws StaleRevisionError if expectedRevisionId is given and outdated
+ */
+export async function writeNoteContent(params: WriteNoteContentParams): Promise<WrittenNoteContent> {
+  const roomName = `${params.workspaceId}/${params.notePublicId}`;
+  let roomBase: RoomWriteBase | null = null;
+  try {
+    roomBase = await prepareRoomForExternalWrite(roomName);
+  } catch (error) {
+    console.warn(`[revisions] Failed to checkpoint room before writing: ${roomName}`, error);
+  }
+
+  // Edits typed in the room that are not saved yet are newer than any revision
+  if (roomBase?.hasUnsavedChanges && params.expectedRevisionId !== undefined) {
+    throw new StaleRevisionError(
+      await buildRevisionConflict(
+        params.noteId,
+        params.expectedRevisionId,
+        await getLatestRevisionId(params.noteId),
+        roomBase.content
+      )
+    );
+  }
+
+  const now = new Date();
+  let revisionId: number;
+  try {
+    revisionId = dialect === "sqlite" ? writeSqlite(params, now) : await writePostgres(params, now);
+  } catch (error) {
+    if (error instanceof RevisionMismatchError) {
+      throw new StaleRevisionError(
+        await buildRevisionConflict(
+          params.noteId,
+          params.expectedRevisionId ?? null,
+          error.currentRevisionId,
+          error.currentContent
+        )
+      );
+    }
+    throw error;
+  }
+
+  try {
+    await pushExternalUpdateToRoom(roomName, params.content, params.authorUserId, roomBase);
+  } catch (error) {
+    console.warn(`[revisions] Failed to push note content to room: ${roomName}`, error);
+  }
+
+  try {
+    const noteRows = await db
+      .select({
+        id: notes.id,
+        publicId: notes.publicId,
+        name: notes.name,
+        title: notes.title,
+        folderId: notes.folderId,
+      })
+      .from(notes)
+      .where(eq(notes.id, params.noteId))
+      .limit(1);
+
+    const note = noteRows[0];
+    if (note) {
+      const folderPath = note.folderId
+        ? await buildNoteFolderPath(note.folderId, params.workspaceId, db)
+        : null;
+
+      workspaceEventHub.publish({
+        workspaceId: params.workspaceId,
+        type: "note.updated",
+        data: {
+          id: note.id,
+          publicId: note.publicId,
+          name: note.name,
+          title: note.title,
+          content: params.content,
+          folderId: note.folderId,
+          folderPath,
+          updatedAt: now.toISOString(),
+        },
+      });
+    }
+  } catch (error) {
+    console.warn("[revisions] Failed to publish note.updated for written content", error);
+  }
+
+  return { revisionId, updatedAt: now };
+}
+
+/**
+ * Rolls a note back to an earlier revision.
+ *
+ * History is never rewritten: the old content is saved as a new revision by
+ * the restoring user through writeNoteContent.
+ */
+export async function restoreNoteRevision(params: RestoreRevisionParams): Promise<RestoredRevision> {
+  const content = await loadRevisionContent(params.noteId, params.revisionId);
+  if (content === null) {
+    throw new RevisionNotFoundError("Revision not found");
+  }
+
+  const written = await writeNoteContent({
+    workspaceId: params.workspaceId,
+    noteId: params.noteId,
+    notePublicId: params.notePublicId,
+    content,
+    authorUserId: params.authorUserId,
+  });
+
+  return {
+    revisionId: written.revisionId,
+    restoredFromRevisionId: params.revisionId,
+    content,
+    updatedAt: written.updatedAt,
+  };
+}
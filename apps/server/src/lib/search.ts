@@ -0,0 +1,210 @@
+import { sql } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { db, dialect } from "@/db";
+
+type DbClient = typeof db;
+type TxClient = typeof db extends { transaction: (fn: (tx: infer T) => any) => any } ? T : never;
+type AnyDbClient = DbClient | TxClient;
+
+/**
+ * Full-text search over notes.
+ *
+ * SQLite keeps an FTS5 table (`notes_fts`, rowid = notes.id) and PostgreSQL a
+ * `note_search` table with a weighted tsvector. Both are created by migrations
+ * and must be refreshed with updateNoteSearchIndex whenever a note's name,
+ * title or content changes.
+ */
+
+export const HIGHLIGHT_START = "<mark>";
+export const HIGHLIGHT_END = "</mark>";
+
+const MAX_QUERY_TERMS = 16;
+const MAX_LINE_MATCHES = 5;
+const MAX_LINE_LENGTH = 240;
+
+export interface SearchLineMatch {
+  lineNumber: number;
+  text: string;
+}
+
+export interface NoteSearchMatch {
+  id: number;
+  publicId: string;
+  name: string;
+  title: string;
+  folderId: number | null;
+  folderPublicId: string | null;
+  score: number;
+  snippet: string;
+  lines: SearchLineMatch[];
+}
+
+export interface SearchNotesOptions {
+  limit?: number;
+  offset?: number;
+}
+
+interface SearchRow {
+  id: number;
+  public_id: string;
+  name: string;
+  title: string;
+  content: string;
+  folder_id: number | null;
+  folder_public_id: string | null;
+  score: number;
+  snippet: string | null;
+}
+
+/**
+ * Split a free-text query into lowercase word terms.
+ * Operators and punctuation are dropped so user input can never break the
+ * FTS5 / tsquery syntax.
+ */
+export const extractSearchTerms = (query: string): string[] =>
+  Array.from(new Set(query.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [])).slice(0, MAX_QUERY_TERMS);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const truncateAroundMatch = (line: string, matchIndex: number) => {
+  if (line.length <= MAX_LINE_LENGTH) {
+    return line;
+  }
+
+  const start = Math.max(0, Math.min(matchIndex - 60, line.length - MAX_LINE_LENGTH));
+  const end = start + MAX_LINE_LENGTH;
+  return `${start > 0 ? "…" : ""}${line.slice(start, end)}${end < line.length ? "…" : ""}`;
+};
+
+/**
+ * Find content lines containing any of the terms, with the terms highlighted.
+ * Line numbers are 1-based to match noteLineBlame.
+ */
+export function findMatchingLines(content: string, terms: string[], maxLines = MAX_LINE_MATCHES): SearchLineMatch[] {
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const pattern = new RegExp(terms.map(escapeRegExp).join("|"), "giu");
+  const matches: SearchLineMatch[] = [];
+  const lines = content.split("\n");
+
+  for (let index = 0; index < lines.length && matches.length < maxLines; index += 1) {
+    const line = lines[index];
+    const matchIndex = line.search(pattern);
+    if (matchIndex === -1) {
+      continue;
+    }
+
+    const excerpt = truncateAroundMatch(line, matchIndex);
+    matches.push({
+      lineNumber: index + 1,
+      text: excerpt.replace(pattern, (match) => `${HIGHLIGHT_START}${match}${HIGHLIGHT_END}`),
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Synchronous SQLite variant of updateNoteSearchIndex, for use inside
+ * synchronous SQLite transactions.
+ */
+export function updateNoteSearchIndexSqlite(sqliteDb: BetterSQLite3Database<any>, noteId: number): void {
+  sqliteDb.run(sql`DELETE FROM notes_fts WHERE rowid = ${noteId}`);
+  sqliteDb.run(sql`
+    INSERT INTO notes_fts (rowid, name, title, content)
+    SELECT id, name, title, content FROM notes WHERE id = ${noteId}
+  `);
+}
+
+/**
+ * Refresh the full-text index entry of a note from its current row.
+ */
+export async function updateNoteSearchIndex(noteId: number, client: AnyDbClient = db): Promise<void> {
+  if (dialect === "sqlite") {
+    updateNoteSearchIndexSqlite(client as unknown as BetterSQLite3Database, noteId);
+    return;
+  }
+
+  await client.execute(sql`
+    INSERT INTO note_search (note_id, search_vector)
+    SELECT id,
+      setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(content, '')), 'B')
+    FROM notes WHERE id = ${noteId}
+    ON CONFLICT (note_id) DO UPDATE SET search_vector = excluded.search_vector
+  `);
+}
+
+/**
+ * Run a ranked full-text search over the live (non-deleted) notes of a workspace.
+ * Every term must match; the last characters of each term are prefix-matched.
+ */
+export async function searchNotes(
+  workspaceId: number,
+  query: string,
+  options: SearchNotesOptions = {}
+): Promise<NoteSearchMatch[]> {
+  const terms = extractSearchTerms(query);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const limit = options.limit ?? 20;
+  const offset = options.offset ?? 0;
+
+  let rows: SearchRow[];
+
+  if (dialect === "sqlite") {
+    const matchExpression = terms.map((term) => `"${term}"*`).join(" ");
+    const sqliteDb = db as unknown as BetterSQLite3Database;
+    // bm25 returns lower-is-better scores; name and title outweigh body text
+    rows = sqliteDb.all<SearchRow>(sql`
+      SELECT n.id, n.public_id, n.name, n.title, n.content, n.folder_id,
+        f.public_id AS folder_public_id,
+        -bm25(notes_fts, 10.0, 10.0, 1.0) AS score,
+        snippet(notes_fts, -1, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}, '…', 16) AS snippet
+      FROM notes_fts
+      JOIN notes n ON n.id = notes_fts.rowid
+      LEFT JOIN folders f ON f.id = n.folder_id
+      WHERE notes_fts MATCH ${matchExpression}
+        AND n.workspace_id = ${workspaceId}
+        AND n.deleted_at IS NULL
+      ORDER BY score DESC
+      LIMIT ${limit} OFFSET ${offset}
+    `);
+  } else {
+    const tsQuery = terms.map((term) => `${term}:*`).join(" & ");
+    const headlineOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxFragments=2, MaxWords=24, MinWords=8, FragmentDelimiter=" … "`;
+    const result = await db.execute(sql`
+      SELECT n.id, n.public_id, n.name, n.title, n.content, n.folder_id,
+        f.public_id AS folder_public_id,
+        ts_rank_cd(s.search_vector, q) AS score,
+        ts_headline('english', n.content, q, ${headlineOptions}) AS snippet
+      FROM note_search s
+      JOIN notes n ON n.id = s.note_id
+      LEFT JOIN folders f ON f.id = n.folder_id,
+      to_tsquery('english', ${tsQuery}) q
+      WHERE s.search_vector @@ q
+        AND n.workspace_id = ${workspaceId}
+        AND n.deleted_at IS NULL
+      ORDER BY score DESC
+      LIMIT ${limit} OFFSET ${offset}
+    `);
+    rows = result.rows as unknown as SearchRow[];
+  }
+
+  return rows.map((row) => ({
+    id: Number(row.id),
+    publicId: row.public_id,
+    name: row.name,
+    title: row.title,
+    folderId: row.folder_id === null ? null : Number(row.folder_id),
+    folderPublicId: row.folder_public_id ?? null,
+    score: Number(row.score),
+    snippet: row.snippet ?? "",
+    lines: findMatchingLines(row.content, terms),
+  }));
+}
@@ -1,6 +1,14 @@
 type WorkspaceEvent = {
   workspaceId: number;
-  type: "folder.created" | "note.created" | "folder.updated" | "note.updated" | "note.deleted" | "folder.deleted" | "ready";
+  type:
+    | "folder.created"
+    | "note.created"
+    | "folder.updated"
+    | "note.updated"
+    | "note.deleted"
+    | "folder.deleted"
+    | "batch.applied"
+    | "ready";
   data: unknown;
 };
 
@@ -8,6 +16,7 @@ type EventHandler = (event: WorkspaceEvent) => void;
 
 class WorkspaceEventHub {
   private listeners = new Map<number, Set<EventHandler>>();
+  private allListeners = new Set<EventHandler>();
 
   subscribe(workspaceId: number, handler: EventHandler) {
     const bucket = this.listeners.get(workspaceId) ?? new Set<EventHandler>();
@@ -26,7 +35,21 @@ class WorkspaceEventHub {
     };
   }
 
+  /**
+   * Receive the events of every workspace. The handler is responsible for
+   * dropping events of workspaces its user may not see.
+   */
+  subscribeAll(handler: EventHandler) {
+    this.allListeners.add(handler);
+
+    return () => {
+      this.allListeners.delete(handler);
+    };
+  }
+
   publish(event: WorkspaceEvent) {
+    this.allListeners.forEach((handler) => handler(event));
+
     const bucket = this.listeners.get(event.workspaceId);
     if (!bucket) {
       return;
@@ -0,0 +1,700 @@
+import { and, desc, eq, inArray, isNotNull, isNull, lt, notInArray, sql } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { config } from "@/config";
+import { db, dialect } from "@/db";
+import { folders, noteLineBlame, noteLinks, noteMetadata, notes, revisions } from "@/db/schema";
+import type * as sqliteSchema from "@/db/schema/sqlite";
+import { refreshNoteLinks, refreshWorkspaceLinks } from "@/lib/note-links";
+import { generateUniqueFolderName, generateUniqueName, resolveFolderIdFromPath } from "@/lib/note-paths";
+import { updateNoteSearchIndex } from "@/lib/search";
+import { workspaceEventHub } from "@/lib/sse-hub";
+import { buildNoteFolderPath } from "@/lib/resolvers";
+
+/**
+ * Trash for soft-deleted notes and folders.
+ *
+ * Deleting a note only sets notes.deletedAt and remembers the folder path it
+ * lived in, so the note can be restored even after its folder is gone.
+ * Deleting a folder stamps the whole subtree and the notes in it with the same
+ * deletedAt; that shared timestamp is what makes them one restorable unit.
+ * Anything older than config.trash.retentionDays is purged by startTrashPurgeJob.
+ */
+
+type DbClient = typeof db;
+type TxClient = typeof db extends { transaction: (fn: (tx: infer T) => any) => any } ? T : never;
+type AnyDbClient = DbClient | TxClient;
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Keeps IN (...) lists below SQLite's bound parameter limit
+const ID_CHUNK_SIZE = 500;
+
+const chunk = <T>(values: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let index = 0; index < values.length; index += size) {
+    chunks.push(values.slice(index, index + size));
+  }
+  return chunks;
+};
+
+export interface TrashedNote {
+  publicId: string;
+  name: string;
+  title: string;
+  /** Folder path the note will be restored into ("" for the workspace root) */
+  folderPath: string;
+  deletedAt: Date;
+}
+
+export interface TrashedFolder {
+  publicId: string;
+  name: string;
+  displayName: string;
+  /** Full folder path at deletion time, including the folder itself */
+  folderPath: string;
+  deletedAt: Date;
+  /** Number of folders deleted with this one, including itself */
+  folderCount: number;
+  /** Number of notes deleted with this folder */
+  noteCount: number;
+}
+
+export interface RestoredNote {
+  id: number;
+  publicId: string;
+  name: string;
+  title: string;
+  content: string;
+  folderId: number | null;
+  folderPath: string;
+  updatedAt: Date;
+  /** True when the note had to be renamed because its name was taken */
+  renamed: boolean;
+}
+
+export interface RestoredFolder {
+  publicId: string;
+  name: string;
+  displayName: string;
+  folderPath: string;
+  /** True when the folder had to be renamed because its name was taken */
+  renamed: boolean;
+  folderCount: number;
+  noteCount: number;
+}
+
+interface DeletedFolderRow {
+  id: number;
+  publicId: string;
+  name: string;
+  displayName: string;
+  parentId: number | null;
+  deletedAt: Date | null;
+}
+
+const sameInstant = (a: Date | null, b: Date | null) =>
+  a !== null && b !== null && a.getTime() === b.getTime();
+
+/**
+ * Move notes to the trash, recording the folder path each one lived in.
+ * Notes deleted together with a folder share the folder's deletedAt.
+ */
+export async function trashNotes(
+  workspaceId: number,
+  noteIds: number[],
+  client: AnyDbClient = db,
+  deletedAt: Date = new Date()
+): Promise<void> {
+  if (noteIds.length === 0) {
+    return;
+  }
+
+  const rows = await client
+    .select({ id: notes.id, folderId: notes.folderId })
+    .from(notes)
+    .where(and(eq(notes.workspaceId, workspaceId), inArray(notes.id, noteIds), isNull(notes.deletedAt)));
+
+  const folderPaths = new Map<number, string>();
+
+  for (const row of rows) {
+    let folderPath: string | null = null;
+    if (row.folderId !== null) {
+      if (!folderPaths.has(row.folderId)) {
+        folderPaths.set(row.folderId, await buildNoteFolderPath(row.folderId, workspaceId, client as DbClient));
+      }
+      folderPath = folderPaths.get(row.folderId) || null;
+    }
+
+    await client
+      .update(notes)
+      .set({ deletedAt, deletedFolderPath: folderPath })
+      .where(eq(notes.id, row.id));
+  }
+
+  // Links to the trashed notes now resolve to another note of the same name or to nothing
+  if (rows.length > 0) {
+    await refreshWorkspaceLinks(workspaceId, client);
+  }
+}
+
+async function collectLiveFolderIds(folderId: number, workspaceId: number, client: AnyDbClient): Promise<number[]> {
+  const childFolders = await client
+    .select({ id: folders.id })
+    .from(folders)
+    .where(and(eq(folders.parentId, folderId), eq(folders.workspaceId, workspaceId), isNull(folders.deletedAt)));
+
+  let allIds = [folderId];
+  for (const child of childFolders) {
+    allIds = allIds.concat(await collectLiveFolderIds(child.id, workspaceId, client));
+  }
+  return allIds;
+}
+
+/**
+ * Move a folder, its subfolders and all notes in them to the trash as one unit.
+ */
+export async function trashFolder(
+  workspaceId: number,
+  folderId: number,
+  client: AnyDbClient = db
+): Promise<{ folderIds: number[]; noteIds: number[] }> {
+  const deletedAt = new Date();
+  const folderIds = await collectLiveFolderIds(folderId, workspaceId, client);
+
+  const noteRows = await client
+    .select({ id: notes.id })
+    .from(notes)
+    .where(and(eq(notes.workspaceId, workspaceId), inArray(notes.folderId, folderIds), isNull(notes.deletedAt)));
+  const noteIds = noteRows.map((row) => row.id);
+
+  await trashNotes(workspaceId, noteIds, client, deletedAt);
+  await client.update(folders).set({ deletedAt }).where(inArray(folders.id, folderIds));
+
+  return { folderIds, noteIds };
+}
+
+async function loadDeletedFolders(workspaceId: number): Promise<DeletedFolderRow[]> {
+  return db
+    .select({
+      id: folders.id,
+      publicId: folders.publicId,
+      name: folders.name,
+      displayName: folders.displayName,
+      parentId: folders.parentId,
+      deletedAt: folders.deletedAt,
+    })
+    .from(folders)
+    .where(and(eq(folders.workspaceId, workspaceId), isNotNull(folders.deletedAt)));
+}
+
+/**
+ * Collect the folders deleted together with root, parents before children.
+ */
+function collectDeletedUnit(root: DeletedFolderRow, deletedFolders: DeletedFolderRow[]): number[] {
+  const unitIds = [root.id];
+  for (let index = 0; index < unitIds.length; index += 1) {
+    const parentId = unitIds[index];
+    for (const folder of deletedFolders) {
+      if (folder.parentId === parentId && sameInstant(folder.deletedAt, root.deletedAt)) {
+        unitIds.push(folder.id);
+      }
+    }
+  }
+  return unitIds;
+}
+
+/**
+ * List the trashed notes of a workspace, most recently deleted first.
+ */
+export async function listTrashedNotes(workspaceId: number): Promise<TrashedNote[]> {
+  const rows = await db
+    .select({
+      publicId: notes.publicId,
+      name: notes.name,
+      title: notes.title,
+      folderId: notes.folderId,
+      deletedFolderPath: notes.deletedFolderPath,
+      deletedAt: notes.deletedAt,
+    })
+    .from(notes)
+    .where(and(eq(notes.workspaceId, workspaceId), isNotNull(notes.deletedAt)))
+    .orderBy(desc(notes.deletedAt));
+
+  // Notes deleted together with their folder are restored through the folder
+  const deletedFolders = new Map(
+    (await loadDeletedFolders(workspaceId)).map((folder) => [folder.id, folder.deletedAt])
+  );
+
+  const folderPaths = new Map<number, string>();
+  const trashed: TrashedNote[] = [];
+
+  for (const row of rows) {
+    if (row.folderId !== null && sameInstant(deletedFolders.get(row.folderId) ?? null, row.deletedAt)) {
+      continue;
+    }
+
+    let folderPath = row.deletedFolderPath ?? "";
+    if (row.folderId !== null) {
+      if (!folderPaths.has(row.folderId)) {
+        folderPaths.set(row.folderId, await buildNoteFolderPath(row.folderId, workspaceId, db));
+      }
+      folderPath = folderPaths.get(row.folderId) || folderPath;
+    }
+
+    trashed.push({
+      publicId: row.publicId,
+      name: row.name,
+      title: row.title,
+      folderPath,
+      deletedAt: row.deletedAt!,
+    });
+  }
+
+  return trashed;
+}
+
+/**
+ * Restore a trashed note.
+ * The note goes back to its folder if that is still live, otherwise the
+ * recorded folder path is recreated. If a live note already uses the name in
+ * the target folder, the restored note gets a numeric suffix.
+ * @returns The restored note, or null if no trashed note matches
+ */
+export async function restoreTrashedNote(workspaceId: number, notePublicId: string): Promise<RestoredNote | null> {
+  const rows = await db
+    .select({
+      id: notes.id,
+      name: notes.name,
+      folderId: notes.folderId,
+      deletedFolderPath: notes.deletedFolderPath,
+    })
+    .from(notes)
+    .where(and(eq(notes.publicId, notePublicId), eq(notes.workspaceId, workspaceId), isNotNull(notes.deletedAt)))
+    .limit(1);
+
+  const trashed = rows[0];
+  if (!trashed) {
+    return null;
+  }
+
+  let folderId: number | null = null;
+  if (trashed.folderId !== null) {
+    const folderRows = await db
+      .select({ id: folders.id })
+      .from(folders)
+      .where(and(eq(folders.id, trashed.folderId), eq(folders.workspaceId, workspaceId), isNull(folders.deletedAt)))
+      .limit(1);
+    folderId = folderRows[0]?.id ?? null;
+  }
+
+  if (folderId === null && trashed.deletedFolderPath) {
+    folderId = await resolveFolderIdFromPath(trashed.deletedFolderPath, workspaceId, db);
+  }
+
+  const name = await generateUniqueName(trashed.name, folderId, workspaceId, db);
+  const now = new Date();
+
+  const updatedRows = await db
+    .update(notes)
+    .set({ deletedAt: null, deletedFolderPath: null, folderId, name, updatedAt: now })
+    .where(eq(notes.id, trashed.id))
+    .returning({
+      id: notes.id,
+      publicId: notes.publicId,
+      name: notes.name,
+      title: notes.title,
+      content: notes.content,
+      folderId: notes.folderId,
+      updatedAt: notes.updatedAt,
+    });
+
+  const restored = updatedRows[0];
+  await updateNoteSearchIndex(restored.id);
+  await refreshNoteLinks(restored.id);
+  await refreshWorkspaceLinks(workspaceId);
+
+  const folderPath = restored.folderId !== null
+    ? await buildNoteFolderPath(restored.folderId, workspaceId, db)
+    : "";
+
+  // Restored notes reappear for clients and sync exactly like newly created ones
+  workspaceEventHub.publish({
+    workspaceId,
+    type: "note.created",
+    data: {
+      id: restored.id,
+      publicId: restored.publicId,
+      name: restored.name,
+      title: restored.title,
+      content: restored.content,
+      folderId: restored.folderId,
+      folderPath: folderPath || null,
+      updatedAt: restored.updatedAt.toISOString(),
+    },
+  });
+
+  return {
+    ...restored,
+    folderPath,
+    renamed: restored.name !== trashed.name,
+  };
+}
+
+/**
+ * List the deleted folders of a workspace, most recently deleted first.
+ * Only the top folder of each deletion is listed; its subfolders and notes
+ * are counted into it.
+ */
+export async function listTrashedFolders(workspaceId: number): Promise<TrashedFolder[]> {
+  const deletedFolders = await loadDeletedFolders(workspaceId);
+  const deletedById = new Map(deletedFolders.map((folder) => [folder.id, folder]));
+
+  const roots = deletedFolders.filter((folder) => {
+    const parent = folder.parentId !== null ? deletedById.get(folder.parentId) : undefined;
+    return !parent || !sameInstant(parent.deletedAt, folder.deletedAt);
+  });
+
+  const trashed: TrashedFolder[] = [];
+  for (const root of roots) {
+    const unitIds = collectDeletedUnit(root, deletedFolders);
+    const noteRows = await db
+      .select({ id: notes.id })
+      .from(notes)
+      .where(and(inArray(notes.folderId, unitIds), eq(notes.deletedAt, root.deletedAt!)));
+
+    trashed.push({
+      publicId: root.publicId,
+      name: root.name,
+      displayName: root.displayName,
+      folderPath: await buildNoteFolderPath(root.id, workspaceId, db),
+      deletedAt: root.deletedAt!,
+      folderCount: unitIds.length,
+      noteCount: noteRows.length,
+    });
+  }
+
+  return trashed.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+}
+
+/**
+ * Restore a deleted folder together with the subfolders and notes deleted with it.
+ * The folder goes back under its parent if that is still live, otherwise the
+ * parent path is recreated. A name clash with a live folder adds a numeric suffix.
+ * @returns The restored folder, or null if no deleted folder matches
+ */
+export async function restoreTrashedFolder(
+  workspaceId: number,
+  folderPublicId: string
+): Promise<RestoredFolder | null> {
+  const deletedFolders = await loadDeletedFolders(workspaceId);
+  const root = deletedFolders.find((folder) => folder.publicId === folderPublicId);
+  if (!root) {
+    return null;
+  }
+
+  const unitIds = collectDeletedUnit(root, deletedFolders);
+
+  let parentId: number | null = null;
+  if (root.parentId !== null) {
+    const parentRows = await db
+      .select({ id: folders.id })
+      .from(folders)
+      .where(and(eq(folders.id, root.parentId), eq(folders.workspaceId, workspaceId), isNull(folders.deletedAt)))
+      .limit(1);
+
+    parentId = parentRows[0]?.id
+      ?? await resolveFolderIdFromPath(await buildNoteFolderPath(root.parentId, workspaceId, db), workspaceId, db);
+  }
+
+  const name = await generateUniqueFolderName(root.name, parentId, workspaceId, db);
+  const renamed = name !== root.name;
+  const displayName = renamed ? `${root.displayName} (${name.slice(root.name.length + 1)})` : root.displayName;
+  const now = new Date();
+
+  await db
+    .update(folders)
+    .set({ parentId, name, displayName, deletedAt: null, updatedAt: now })
+    .where(eq(folders.id, root.id));
+
+  if (unitIds.length > 1) {
+    await db
+      .update(folders)
+      .set({ deletedAt: null, updatedAt: now })
+      .where(inArray(folders.id, unitIds.slice(1)));
+  }
+
+  // Nothing could be created inside the deleted folders, so note names cannot clash
+  const restoredNotes = await db
+    .update(notes)
+    .set({ deletedAt: null, deletedFolderPath: null, updatedAt: now })
+    .where(and(inArray(notes.folderId, unitIds), eq(notes.deletedAt, root.deletedAt!)))
+    .returning({
+      id: notes.id,
+      publicId: notes.publicId,
+      name: notes.name,
+      title: notes.title,
+      content: notes.content,
+      folderId: notes.folderId,
+      updatedAt: notes.updatedAt,
+    });
+
+  if (restoredNotes.length > 0) {
+    await refreshWorkspaceLinks(workspaceId);
+  }
+
+  // Restored items reappear for clients and sync exactly like newly created ones,
+  // parents before children
+  const folderPaths = new Map<number, string>();
+  const restoredFolders = await db
+    .select({
+      id: folders.id,
+      publicId: folders.publicId,
+      name: folders.name,
+      displayName: folders.displayName,
+      parentId: folders.parentId,
+      updatedAt: folders.updatedAt,
+    })
+    .from(folders)
+    .where(inArray(folders.id, unitIds));
+  const restoredById = new Map(restoredFolders.map((folder) => [folder.id, folder]));
+
+  for (const folderId of unitIds) {
+    const folder = restoredById.get(folderId)!;
+    const folderPath = await buildNoteFolderPath(folder.id, workspaceId, db);
+    folderPaths.set(folder.id, folderPath);
+
+    workspaceEventHub.publish({
+      workspaceId,
+      type: "folder.created",
+      data: {
+        id: folder.id,
+        publicId: folder.publicId,
+        name: folder.name,
+        displayName: folder.displayName,
+        parentId: folder.parentId,
+        folderPath,
+        updatedAt: folder.updatedAt.toISOString(),
+      },
+    });
+  }
+
+  for (const note of restoredNotes) {
+    workspaceEventHub.publish({
+      workspaceId,
+      type: "note.created",
+      data: {
+        id: note.id,
+        publicId: note.publicId,
+        name: note.name,
+        title: note.title,
+        content: note.content,
+        folderId: note.folderId,
+        folderPath: note.folderId !== null ? folderPaths.get(note.folderId) ?? null : null,
+        updatedAt: note.updatedAt.toISOString(),
+      },
+    });
+  }
+
+  return {
+    publicId: root.publicId,
+    name,
+    displayName,
+    folderPath: folderPaths.get(root.id) ?? name,
+    renamed,
+    folderCount: unitIds.length,
+    noteCount: restoredNotes.length,
+  };
+}
+
+/**
+ * Permanently delete notes together with their revisions, blame, links, metadata and search entries.
+ * Runs in one transaction, so a failure leaves the notes in the trash intact;
+ * the IDs are deleted in chunks to keep each statement within parameter limits.
+ */
+async function purgeNotes(noteIds: number[]): Promise<void> {
+  if (noteIds.length === 0) {
+    return;
+  }
+
+  if (dialect === "sqlite") {
+    const sqliteDb = db as unknown as BetterSQLite3Database<typeof sqliteSchema>;
+    const tables = {
+      noteLineBlame: noteLineBlame as unknown as typeof sqliteSchema.noteLineBlame,
+      noteLinks: noteLinks as unknown as typeof sqliteSchema.noteLinks,
+      noteMetadata: noteMetadata as unknown as typeof sqliteSchema.noteMetadata,
+      notes: notes as unknown as typeof sqliteSchema.notes,
+      revisions: revisions as unknown as typeof sqliteSchema.revisions,
+    };
+
+    sqliteDb.transaction((tx) => {
+      for (const ids of chunk(noteIds, ID_CHUNK_SIZE)) {
+        for (const noteId of ids) {
+          tx.run(sql`DELETE FROM notes_fts WHERE rowid = ${noteId}`);
+        }
+        tx.delete(tables.noteMetadata).where(inArray(tables.noteMetadata.noteId, ids)).run();
+        tx.delete(tables.noteLinks).where(inArray(tables.noteLinks.sourceNoteId, ids)).run();
+        tx
+          .update(tables.noteLinks)
+          .set({ targetNoteId: null })
+          .where(inArray(tables.noteLinks.targetNoteId, ids))
+          .run();
+        tx.delete(tables.noteLineBlame).where(inArray(tables.noteLineBlame.noteId, ids)).run();
+        tx.delete(tables.revisions).where(inArray(tables.revisions.noteId, ids)).run();
+        tx.delete(tables.notes).where(inArray(tables.notes.id, ids)).run();
+      }
+    });
+    return;
+  }
+
+  // note_search rows on PostgreSQL are removed by their ON DELETE CASCADE
+  await db.transaction(async (tx) => {
+    for (const ids of chunk(noteIds, ID_CHUNK_SIZE)) {
+      await tx.delete(noteMetadata).where(inArray(noteMetadata.noteId, ids));
+      await tx.delete(noteLinks).where(inArray(noteLinks.sourceNoteId, ids));
+      await tx.update(noteLinks).set({ targetNoteId: null }).where(inArray(noteLinks.targetNoteId, ids));
+      await tx.delete(noteLineBlame).where(inArray(noteLineBlame.noteId, ids));
+      await tx.delete(revisions).where(inArray(revisions.noteId, ids));
+      await tx.delete(notes).where(inArray(notes.id, ids));
+    }
+  });
+}
+
+/**
+ * Permanently delete folders, in one transaction.
+ * Trashed notes and folders deleted separately that still point at them keep
+ * their recorded path but lose the reference.
+ */
+async function purgeFolders(folderIds: number[]): Promise<void> {
+  if (folderIds.length === 0) {
+    return;
+  }
+
+  if (dialect === "sqlite") {
+    const sqliteDb = db as unknown as BetterSQLite3Database<typeof sqliteSchema>;
+    const tables = {
+      folders: folders as unknown as typeof sqliteSchema.folders,
+      notes: notes as unknown as typeof sqliteSchema.notes,
+    };
+
+    sqliteDb.transaction((tx) => {
+      for (const ids of chunk(folderIds, ID_CHUNK_SIZE)) {
+        tx
+          .update(tables.notes)
+          .set({ folderId: null })
+          .where(and(inArray(tables.notes.folderId, ids), isNotNull(tables.notes.deletedAt)))
+          .run();
+        tx
+          .update(tables.folders)
+          .set({ parentId: null })
+          .where(and(inArray(tables.folders.parentId, ids), notInArray(tables.folders.id, ids)))
+          .run();
+        tx.delete(tables.folders).where(inArray(tables.folders.id, ids)).run();
+      }
+    });
+    return;
+  }
+
+  await db.transaction(async (tx) => {
+    for (const ids of chunk(folderIds, ID_CHUNK_SIZE)) {
+      await tx
+        .update(notes)
+        .set({ folderId: null })
+        .where(and(inArray(notes.folderId, ids), isNotNull(notes.deletedAt)));
+      await tx
+        .update(folders)
+        .set({ parentId: null })
+        .where(and(inArray(folders.parentId, ids), notInArray(folders.id, ids)));
+      await tx.delete(folders).where(inArray(folders.id, ids));
+    }
+  });
+}
+
+/**
+ * Permanently delete a single trashed note.
+ * @returns false if no trashed note matches
+ */
+export async function purgeTrashedNote(workspaceId: number, notePublicId: string): Promise<boolean> {
+  const rows = await db
+    .select({ id: notes.id })
+    .from(notes)
+    .where(and(eq(notes.publicId, notePublicId), eq(notes.workspaceId, workspaceId), isNotNull(notes.deletedAt)))
+    .limit(1);
+
+  if (!rows[0]) {
+    return false;
+  }
+
+  await purgeNotes([rows[0].id]);
+  return true;
+}
+
+/**
+ * Permanently delete a deleted folder with everything that was deleted with it.
+ * @returns false if no deleted folder matches
+ */
+export async function purgeTrashedFolder(workspaceId: number, folderPublicId: string): Promise<boolean> {
+  const deletedFolders = await loadDeletedFolders(workspaceId);
+  const root = deletedFolders.find((folder) => folder.publicId === folderPublicId);
+  if (!root) {
+    return false;
+  }
+
+  const unitIds = collectDeletedUnit(root, deletedFolders);
+  const noteRows = await db
+    .select({ id: notes.id })
+    .from(notes)
+    .where(and(inArray(notes.folderId, unitIds), eq(notes.deletedAt, root.deletedAt!)));
+
+  await purgeNotes(noteRows.map((row) => row.id));
+  await purgeFolders(unitIds);
+  return true;
+}
+
+/**
+ * Permanently delete every note and folder that has been in the trash longer than the retention window.
+ * @returns The number of purged notes and folders
+ */
+export async function purgeExpiredTrash(retentionDays: number): Promise<{ notes: number; folders: number }> {
+  const cutoff = new Date(Date.now() - retentionDays * DAY_MS);
+  const noteRows = await db
+    .select({ id: notes.id })
+    .from(notes)
+    .where(and(isNotNull(notes.deletedAt), lt(notes.deletedAt, cutoff)));
+  const folderRows = await db
+    .select({ id: folders.id })
+    .from(folders)
+    .where(and(isNotNull(folders.deletedAt), lt(folders.deletedAt, cutoff)));
+
+  await purgeNotes(noteRows.map((row) => row.id));
+  await purgeFolders(folderRows.map((row) => row.id));
+  return { notes: noteRows.length, folders: folderRows.length };
+}
+
+/**
+ * Purge expired trash now and then hourly.
+ * Does nothing when config.trash.retentionDays is 0.
+ */
+export function startTrashPurgeJob(): void {
+  const { retentionDays } = config.trash;
+  if (retentionDays === 0) {
+    console.log("[trash] Retention is 0 days, deleted notes and folders are kept forever");
+    return;
+  }
+
+  const runPurge = async () => {
+    try {
+      const purged = await purgeExpiredTrash(retentionDays);
+      if (purged.notes > 0 || purged.folders > 0) {
+        console.log(
+          `[trash] Purged ${purged.notes} notes and ${purged.folders} folders deleted more than ${retentionDays} days ago`
+        );
+      }
+    } catch (error) {
+      console.error("[trash] Failed to purge expired notes:", error);
+    }
+  };
+
+  void runPurge();
+  const timer = setInterval(runPurge, PURGE_INTERVAL_MS);
+  timer.unref?.();
+}
@@ -0,0 +1,81 @@
+import { db } from "@/db";
+import { workspaceMembers } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+
+type DbClient = typeof db;
+type TxClient = typeof db extends { transaction: (fn: (tx: infer T) => any) => any } ? T : never;
+type AnyDbClient = DbClient | TxClient;
+
+export const WORKSPACE_ROLES = ["owner", "editor", "viewer"] as const;
+
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number];
+
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 0,
+  editor: 1,
+  owner: 2,
+};
+
+export interface WorkspaceAccessError {
+  status: 403 | 404;
+  error: string;
+}
+
+export const isWorkspaceRole = (value: unknown): value is WorkspaceRole =>
+  typeof value === "string" && (WORKSPACE_ROLES as readonly string[]).includes(value);
+
+/**
+ * Check whether a role grants at least the permissions of the required role.
+ * owner > editor > viewer.
+ */
+export const hasWorkspaceRole = (role: WorkspaceRole, required: WorkspaceRole): boolean =>
+  ROLE_RANK[role] >= ROLE_RANK[required];
+
+/**
+ * Look up the role a user holds in a workspace.
+ * @returns The member's role, or null if the user is not a member
+ */
+export async function getWorkspaceRole(
+  workspaceId: number,
+  userId: string,
+  client: AnyDbClient = db
+): Promise<WorkspaceRole | null> {
+  const rows = await client
+    .select({ role: workspaceMembers.role })
+    .from(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+    .limit(1);
+
+  const role = rows[0]?.role;
+  return isWorkspaceRole(role) ? role : null;
+}
+
+/**
+ * Verify that a user holds at least the required role in a workspace.
+ * Non-members get a 404 so that workspace existence is not leaked.
+ * @returns null when access is granted, otherwise the error to report
+ */
+export async function checkWorkspaceAccess(
+  workspaceId: number,
+  userId: string,
+  required: WorkspaceRole,
+  client: AnyDbClient = db
+): Promise<WorkspaceAccessError | null> {
+  const role = await getWorkspaceRole(workspaceId, userId, client);
+
+  if (!role) {
+    return { status: 404, error: "Workspace not found" };
+  }
+
+  if (!hasWorkspaceRole(role, required)) {
+    return { status: 403, error: `This action requires the ${required} role` };
+  }
+
+  return null;
+}
+
+/**
+ * Extract the user ID from a verified OAuth access token payload.
+ */
+export const getTokenUserId = (payload: Record<string, unknown> | null | undefined): string | null =>
+  typeof payload?.sub === "string" && payload.sub.length > 0 ? payload.sub : null;
@@ -0,0 +1,65 @@
+import { createHash, randomBytes } from "crypto";
+import { and, eq, gt, isNull } from "drizzle-orm";
+import { db } from "@/db";
+import { workspaceInvites } from "@/db/schema";
+import type { WorkspaceRole } from "@/lib/workspace-access";
+
+type DbClient = typeof db;
+type TxClient = typeof db extends { transaction: (fn: (tx: infer T) => any) => any } ? T : never;
+type AnyDbClient = DbClient | TxClient;
+
+export interface PendingInvite {
+  id: number;
+  workspaceId: number;
+  email: string;
+  role: WorkspaceRole;
+}
+
+/**
+ * How long an invitation link can be used after it was created
+ */
+const INVITE_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const inviteExpiresAt = (createdAt: Date): Date => new Date(createdAt.getTime() + INVITE_LIFETIME_MS);
+
+/**
+ * Create the secret carried by an invitation link.
+ * Only its hash is stored; the token itself is returned once to the inviter.
+ */
+export const createInviteToken = (): string => randomBytes(32).toString("base64url");
+
+export const hashInviteToken = (token: string): string =>
+  createHash("sha256").update(token).digest("hex");
+
+/**
+ * Find the pending (not accepted, revoked or expired) invite an invitation link token belongs to.
+ * @returns The invite, or null if the token is unknown or the invite is no longer pending
+ */
+export async function findPendingInviteByToken(
+  token: string,
+  client: AnyDbClient = db
+): Promise<PendingInvite | null> {
+  if (!token) {
+    return null;
+  }
+
+  const rows = await client
+    .select({
+      id: workspaceInvites.id,
+      workspaceId: workspaceInvites.workspaceId,
+      email: workspaceInvites.email,
+      role: workspaceInvites.role,
+    })
+    .from(workspaceInvites)
+    .where(
+      and(
+        eq(workspaceInvites.tokenHash, hashInviteToken(token)),
+        isNull(workspaceInvites.acceptedAt),
+        isNull(workspaceInvites.revokedAt),
+        gt(workspaceInvites.expiresAt, new Date())
+      )
+    )
+    .limit(1);
+
+  return rows[0] ?? null;
+}
@@ -9,6 +9,7 @@ export type NoteSummary = {
   name: string;
   title: string;
   folderPublicId: string | null;
+  tags: string[];
 };
 
 /**
@@ -56,6 +57,7 @@ export const transformFolderTree = (
       name: note.name,
       title: note.title,
       folderPublicId: note.folderId ? folderPublicIdMap.get(note.folderId) ?? null : null,
+      tags: note.tags,
     })),
     children: transformFolderTree(folder.children, folderPublicIdMap),
   }));
@@ -102,6 +104,7 @@ export const transformWorkspaceTree = (
       name: note.name,
       title: note.title,
       folderPublicId: note.folderId ? folderPublicIdMap.get(note.folderId) ?? null : null,
+      tags: note.tags,
     })),
     folders: transformFolderTree(tree.folders, folderPublicIdMap),
   };
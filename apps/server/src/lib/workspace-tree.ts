@@ -1,6 +1,7 @@
 import { eq, and, isNull } from "drizzle-orm";
 import { db } from "@/db";
 import { folders, notes, workspaces } from "@/db/schema";
+import { loadNoteTags } from "@/lib/frontmatter";
 
 export type NoteSummary = {
   id: number;
@@ -8,6 +9,8 @@ export type NoteSummary = {
   name: string;
   title: string;
   folderId: number | null;
+  /** Tags from the note's frontmatter */
+  tags: string[];
 };
 
 export type FolderNode = {
@@ -101,14 +104,18 @@ export const getWorkspaceTree = async (workspaceId: number): Promise<WorkspaceTr
       parentId: folders.parentId,
     })
     .from(folders)
-    .where(eq(folders.workspaceId, workspaceId));
+    .where(and(eq(folders.workspaceId, workspaceId), isNull(folders.deletedAt)));
 
   const noteRows = await db
     .select({ id: notes.id, publicId: notes.publicId, name: notes.name, title: notes.title, folderId: notes.folderId })
     .from(notes)
     .where(and(eq(notes.workspaceId, workspaceId), isNull(notes.deletedAt)));
 
-  const tree = buildFolderTree(folderRows, noteRows);
+  const tagsByNote = await loadNoteTags(noteRows.map((note) => note.id));
+  const tree = buildFolderTree(
+    folderRows,
+    noteRows.map((note) => ({ ...note, tags: tagsByNote.get(note.id) ?? [] }))
+  );
 
   return {
     workspaceId,
@@ -1,12 +1,24 @@
 import { db } from "@/db";
-import { notes, folders, revisions } from "@/db/schema";
+import { notes, folders } from "@/db/schema";
 import { and, eq, isNull } from "drizzle-orm";
 import { parseSlug, parsePublicId } from "@/lib/params";
-import { resolveWorkspaceId, resolveFolderId, resolveNoteId, resolveNote } from "@/lib/resolvers";
+import { resolveWorkspaceId, resolveFolderId, resolveNoteId, resolveNote, buildNoteFolderPath } from "@/lib/resolvers";
 import { workspaceEventHub } from "@/lib/sse-hub";
 import { isValidFolderName } from "@/lib/folder-name";
-import { pushExternalUpdateToRoom } from "@/collab-ws/checkpoints";
-import { buildNoteFolderPath } from "@/routes/workspaces/note-content";
+import { checkWorkspaceAccess } from "@/lib/workspace-access";
+import { assertExpectedRevision } from "@/lib/revision-conflicts";
+import { writeNoteContent } from "@/lib/revisions";
+import {
+  applyUnifiedDiff,
+  NoteSectionError,
+  patchNoteSection,
+  type NoteSection,
+  type SectionPatchMode,
+} from "@/lib/note-sections";
+import { updateNoteSearchIndex } from "@/lib/search";
+import { findBacklinks, refreshNoteLinks, refreshWorkspaceLinks, relinkBacklinks } from "@/lib/note-links";
+import { refreshNoteMetadata } from "@/lib/frontmatter";
+import { restoreTrashedNote, trashFolder, trashNotes } from "@/lib/trash";
 
 // ============================================================================
 // Types
@@ -14,6 +26,8 @@ import { buildNoteFolderPath } from "@/routes/workspaces/note-content";
 
 export interface CreateFolderParams {
   workspaceSlug: string;
+  /** ID of the user performing the write; must hold the editor role */
+  userId: string;
   name: string;
   displayName: string;
   parentPublicId?: string;
@@ -28,6 +42,8 @@ export interface CreateFolderResult {
 
 export interface CreateNoteParams {
   workspaceSlug: string;
+  /** ID of the user performing the write; must hold the editor role */
+  userId: string;
   name: string;
   title: string;
   folderPublicId?: string;
@@ -44,8 +60,12 @@ export interface CreateNoteResult {
 
 export interface UpdateNoteContentParams {
   workspaceSlug: string;
+  /** ID of the user performing the write; must hold the editor role */
+  userId: string;
   notePublicId: string;
   content: string;
+  /** Latest revision the caller has read; when set, a newer revision fails the write */
+  expectedRevisionId?: number | null;
 }
 
 export interface UpdateNoteContentResult {
@@ -54,6 +74,121 @@ export interface UpdateNoteContentResult {
   updatedAt: Date;
 }
 
+export interface PatchNoteSectionParams {
+  workspaceSlug: string;
+  /** ID of the user performing the write; must hold the editor role */
+  userId: string;
+  notePublicId: string;
+  /** Latest revision the caller has seen, null if the note had none */
+  expectedRevisionId: number | null;
+  /** Section modes need a heading; "diff" applies content as a unified diff to the whole note */
+  mode: SectionPatchMode | "diff";
+  heading?: string;
+  content: string;
+}
+
+export interface PatchNoteSectionResult {
+  publicId: string;
+  /** Revision holding the patched content; unchanged if the patch was a no-op */
+  revisionId: number | null;
+  updatedAt: Date;
+  changed: boolean;
+  /** The patched section after the change; null for diffs */
+  section: NoteSection | null;
+}
+
+export interface NoteTrashParams {
+  workspaceSlug: string;
+  /** ID of the user performing the write; must hold the editor role */
+  userId: string;
+  notePublicId: string;
+}
+
+export interface DeleteNoteResult {
+  publicId: string;
+  deletedAt: Date;
+}
+
+export interface RestoreNoteResult {
+  publicId: string;
+  name: string;
+  title: string;
+  folderPath: string;
+  /** True when the note was renamed because its name was taken */
+  renamed: boolean;
+}
+
+export interface FolderTrashParams {
+  workspaceSlug: string;
+  /** ID of the user performing the write; must hold the editor role */
+  userId: string;
+  folderPublicId: string;
+}
+
+export interface DeleteFolderResult {
+  publicId: string;
+  deletedAt: Date;
+  /** Folders moved to the trash, including the folder itself */
+  folderCount: number;
+  noteCount: number;
+}
+
+export interface MoveNoteParams {
+  workspaceSlug: string;
+  /** ID of the user performing the write; must hold the editor role */
+  userId: string;
+  notePublicId: string;
+  /** Target folder; omit or null for the workspace root */
+  folderPublicId?: string | null;
+}
+
+export interface RenameNoteParams {
+  workspaceSlug: string;
+  /** ID of the user performing the write; must hold the editor role */
+  userId: string;
+  notePublicId: string;
+  /** New URL-safe name; links to the note are rewritten to it */
+  name?: string;
+  title?: string;
+}
+
+export interface NoteLocationResult {
+  publicId: string;
+  name: string;
+  title: string;
+  folderPublicId: string | null;
+  /** Folder path of the note, null at the workspace root */
+  folderPath: string | null;
+}
+
+export interface MoveFolderParams {
+  workspaceSlug: string;
+  /** ID of the user performing the write; must hold the editor role */
+  userId: string;
+  folderPublicId: string;
+  /** New parent folder; omit or null for the workspace root */
+  parentPublicId?: string | null;
+}
+
+export interface RenameFolderParams {
+  workspaceSlug: string;
+  /** ID of the user performing the write; must hold the editor role */
+  userId: string;
+  folderPublicId: string;
+  /** New URL-safe name */
+  name?: string;
+  displayName?: string;
+}
+
+export interface FolderLocationResult {
+  publicId: string;
+  name: string;
+  displayName: string;
+  parentPublicId: string | null;
+  /** Path of the folder from the workspace root */
+  path: string;
+}
+
 // ============================================================================
 // Error Classes
 // ============================================================================
@@ -79,10 +214,34 @@ export class DuplicateError extends Error {
   }
 }
 
+export class ForbiddenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ForbiddenError";
+  }
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
+/**
+ * Ensures the user is allowed to write to the workspace.
+ * Throws NotFoundError for non-members and ForbiddenError for viewers.
+ */
+async function assertCanWrite(workspaceId: number, userId: string): Promise<void> {
+  const accessError = await checkWorkspaceAccess(workspaceId, userId, "editor");
+  if (!accessError) {
+    return;
+  }
+
+  if (accessError.status === 404) {
+    throw new NotFoundError(accessError.error);
+  }
+
+  throw new ForbiddenError(accessError.error);
+}
+
 /**
  * Checks if a folder with the given name already exists in the same parent location.
  */
@@ -92,8 +251,8 @@ async function checkDuplicateFolderName(
   parentId: number | null
 ): Promise<boolean> {
   const condition = parentId === null
-    ? and(eq(folders.workspaceId, workspaceId), eq(folders.name, name), isNull(folders.parentId))
-    : and(eq(folders.workspaceId, workspaceId), eq(folders.name, name), eq(folders.parentId, parentId));
+    ? and(eq(folders.workspaceId, workspaceId), eq(folders.name, name), isNull(folders.parentId), isNull(folders.deletedAt))
+    : and(eq(folders.workspaceId, workspaceId), eq(folders.name, name), eq(folders.parentId, parentId), isNull(folders.deletedAt));
 
   const existing = await db
     .select({ id: folders.id })
@@ -125,6 +284,170 @@ async function checkDuplicateNoteName(
   return existing.length > 0;
 }
 
+/**
+ * Resolves a workspace the user may write to.
+ */
+export async function resolveWritableWorkspace(workspaceSlug: string, userId: string): Promise<number> {
+  const validatedSlug = parseSlug(workspaceSlug);
+  if (!validatedSlug) {
+    throw new ValidationError("Invalid workspace slug");
+  }
+
+  const workspaceId = await resolveWorkspaceId(validatedSlug);
+  if (!workspaceId) {
+    throw new NotFoundError("Workspace not found");
+  }
+
+  await assertCanWrite(workspaceId, userId);
+  return workspaceId;
+}
+
+/**
+ * Loads a live note of the workspace by public ID.
+ */
+async function loadLiveNote(workspaceId: number, notePublicId: string) {
+  const validatedNotePublicId = parsePublicId(notePublicId);
+  if (!validatedNotePublicId) {
+    throw new ValidationError("Invalid note public ID");
+  }
+
+  const rows = await db
+    .select({ id: notes.id, publicId: notes.publicId, name: notes.name, title: notes.title, folderId: notes.folderId })
+    .from(notes)
+    .where(and(eq(notes.publicId, validatedNotePublicId), eq(notes.workspaceId, workspaceId), isNull(notes.deletedAt)))
+    .limit(1);
+
+  if (!rows[0]) {
+    throw new NotFoundError("Note not found");
+  }
+  return rows[0];
+}
+
+/**
+ * Loads a live folder of the workspace by public ID.
+ */
+async function loadLiveFolder(workspaceId: number, folderPublicId: string, notFoundMessage = "Folder not found") {
+  const validatedFolderPublicId = parsePublicId(folderPublicId);
+  if (!validatedFolderPublicId) {
+    throw new ValidationError("Invalid folder public ID");
+  }
+
+  const rows = await db
+    .select({
+      id: folders.id,
+      publicId: folders.publicId,
+      name: folders.name,
+      displayName: folders.displayName,
+      parentId: folders.parentId,
+    })
+    .from(folders)
+    .where(
+      and(eq(folders.publicId, validatedFolderPublicId), eq(folders.workspaceId, workspaceId), isNull(folders.deletedAt))
+    )
+    .limit(1);
+
+  if (!rows[0]) {
+    throw new NotFoundError(notFoundMessage);
+  }
+  return rows[0];
+}
+
+async function getFolderPublicId(folderId: number | null): Promise<string | null> {
+  if (folderId === null) {
+    return null;
+  }
+
+  const rows = await db
+    .select({ publicId: folders.publicId })
+    .from(folders)
+    .where(eq(folders.id, folderId))
+    .limit(1);
+  return rows[0]?.publicId ?? null;
+}
+
+/**
+ * Publishes note.updated for a note whose name, title or folder changed and
+ * returns where the note is now.
+ */
+async function publishNoteLocation(workspaceId: number, noteId: number): Promise<NoteLocationResult> {
+  const rows = await db
+    .select({
+      id: notes.id,
+      publicId: notes.publicId,
+      name: notes.name,
+      title: notes.title,
+      content: notes.content,
+      folderId: notes.folderId,
+      updatedAt: notes.updatedAt,
+    })
+    .from(notes)
+    .where(eq(notes.id, noteId))
+    .limit(1);
+
+  const note = rows[0];
+  const folderPath = note.folderId ? await buildNoteFolderPath(note.folderId, workspaceId, db) : null;
+
+  workspaceEventHub.publish({
+    workspaceId,
+    type: "note.updated",
+    data: {
+      id: note.id,
+      publicId: note.publicId,
+      name: note.name,
+      title: note.title,
+      content: note.content,
+      folderId: note.folderId,
+      folderPath,
+      updatedAt: note.updatedAt.toISOString(),
+    },
+  });
+
+  return {
+    publicId: note.publicId,
+    name: note.name,
+    title: note.title,
+    folderPublicId: await getFolderPublicId(note.folderId),
+    folderPath: folderPath || null,
+  };
+}
+
+/**
+ * Publishes folder.updated for a renamed or moved folder and returns where
+ * the folder is now. Wiki links with paths through the folder are refreshed
+ * first, since they no longer match.
+ */
+async function publishFolderLocation(workspaceId: number, folderId: number): Promise<FolderLocationResult> {
+  await refreshWorkspaceLinks(workspaceId);
+
+  const rows = await db
+    .select({
+      id: folders.id,
+      publicId: folders.publicId,
+      name: folders.name,
+      displayName: folders.displayName,
+      parentId: folders.parentId,
+    })
+    .from(folders)
+    .where(eq(folders.id, folderId))
+    .limit(1);
+
+  const folder = rows[0];
+
+  workspaceEventHub.publish({
+    workspaceId,
+    type: "folder.updated",
+    data: folder,
+  });
+
+  return {
+    publicId: folder.publicId,
+    name: folder.name,
+    displayName: folder.displayName,
+    parentPublicId: await getFolderPublicId(folder.parentId),
+    path: await buildNoteFolderPath(folder.id, workspaceId, db),
+  };
+}
+
 // ============================================================================
 // Write Operations
 // ============================================================================
@@ -147,6 +470,8 @@ export async function createFolderInWorkspace(
     throw new NotFoundError("Workspace not found");
   }
 
+  await assertCanWrite(workspaceId, params.userId);
+
   // Validate folder name
   if (!params.name || !params.name.trim()) {
     throw new ValidationError("Folder name is required");
@@ -174,7 +499,7 @@ export async function createFolderInWorkspace(
       throw new ValidationError("Invalid parent folder ID");
     }
 
-    parentId = await resolveFolderId(validatedParentId);
+    parentId = await resolveFolderId(validatedParentId, workspaceId);
     if (!parentId) {
       throw new NotFoundError("Parent folder not found");
     }
@@ -248,6 +573,8 @@ export async function createNoteInWorkspace(
     throw new NotFoundError("Workspace not found");
   }
 
+  await assertCanWrite(workspaceId, params.userId);
+
   // Validate note name
   if (!params.name || !params.name.trim()) {
     throw new ValidationError("Note name is required");
@@ -275,7 +602,7 @@ export async function createNoteInWorkspace(
       throw new ValidationError("Invalid folder ID");
     }
 
-    folderId = await resolveFolderId(validatedFolderId);
+    folderId = await resolveFolderId(validatedFolderId, workspaceId);
     if (!folderId) {
       throw new NotFoundError("Folder not found");
     }
@@ -300,6 +627,7 @@ export async function createNoteInWorkspace(
       content,
     })
     .returning({
+      id: notes.id,
       publicId: notes.publicId,
       name: notes.name,
       title: notes.title,
@@ -307,7 +635,11 @@ export async function createNoteInWorkspace(
       content: notes.content,
     });
 
-  const note = insertedRows[0];
+  const { id: noteId, ...note } = insertedRows[0];
+  await updateNoteSearchIndex(noteId);
+  await refreshNoteLinks(noteId);
+  await refreshWorkspaceLinks(workspaceId);
+  await refreshNoteMetadata(noteId);
 
   // Get folder's publicId if folder exists
   let folderPublicId: string | null = null;
@@ -338,7 +670,9 @@ export async function createNoteInWorkspace(
 
 /**
  * Updates the content of a note in a workspace.
- * Creates a revision record and publishes an SSE event.
+ * Saved as a revision by the user through writeNoteContent, which pushes it
+ * to the live collab room and publishes an SSE event.
+ * Throws StaleRevisionError if expectedRevisionId is given and outdated.
  */
 export async function updateNoteContentInWorkspace(
   params: UpdateNoteContentParams
@@ -361,6 +695,8 @@ export async function updateNoteContentInWorkspace(
     throw new NotFoundError("Workspace not found");
   }
 
+  await assertCanWrite(workspaceId, params.userId);
+
   // Resolve note and verify it belongs to workspace
   const note = await resolveNote(validatedNotePublicId);
   if (!note) {
@@ -371,88 +707,390 @@ export async function updateNoteContentInWorkspace(
     throw new NotFoundError("Note not found");
   }
 
-  const noteId = note.id;
-  const now = new Date();
+  // The expected revision is checked in the same transaction that writes the new one
+  const written = await writeNoteContent({
+    workspaceId,
+    noteId: note.id,
+    notePublicId: validatedNotePublicId,
+    content: params.content,
+    authorUserId: params.userId,
+    expectedRevisionId: params.expectedRevisionId,
+  });
+  await refreshNoteLinks(note.id);
+  await refreshNoteMetadata(note.id);
 
-  // Insert revision record
-  // Note: authorUserId is required (notNull), use placeholder for AI-initiated writes
-  const revisionRows = await db
-    .insert(revisions)
-    .values({
-      workspaceId,
-      noteId,
-      authorUserId: "system",
-      content: params.content,
-      createdAt: now,
-    })
-    .returning({ id: revisions.id });
+  return {
+    publicId: validatedNotePublicId,
+    revisionId: written.revisionId,
+    updatedAt: written.updatedAt,
+  };
+}
 
-  const revision = revisionRows[0];
-  const revisionId = revision.id;
+/**
+ * Patches part of a note: the section under a heading, or the lines touched
+ * by a unified diff. The write only goes through if the note's latest
+ * revision is still the one the caller read, so concurrent writers cannot
+ * silently overwrite each other. Saved as a revision by the user and pushed
+ * to the live collab room like any other external write.
+ */
+export async function patchNoteSectionInWorkspace(
+  params: PatchNoteSectionParams
+): Promise<PatchNoteSectionResult> {
+  const validatedSlug = parseSlug(params.workspaceSlug);
+  if (!validatedSlug) {
+    throw new ValidationError("Invalid workspace slug");
+  }
 
-  // Update note content and timestamp
-  const updatedNoteRows = await db
-    .update(notes)
-    .set({ content: params.content, updatedAt: now })
-    .where(eq(notes.id, noteId))
-    .returning({ publicId: notes.publicId, updatedAt: notes.updatedAt });
+  const validatedNotePublicId = parsePublicId(params.notePublicId);
+  if (!validatedNotePublicId) {
+    throw new ValidationError("Invalid note public ID");
+  }
 
-  const updatedNote = updatedNoteRows[0];
+  const workspaceId = await resolveWorkspaceId(validatedSlug);
+  if (!workspaceId) {
+    throw new NotFoundError("Workspace not found");
+  }
+
+  await assertCanWrite(workspaceId, params.userId);
+
+  const note = await resolveNote(validatedNotePublicId);
+  if (!note || note.workspaceId !== workspaceId) {
+    throw new NotFoundError("Note not found");
+  }
 
-  // Push external update to active Yjs room if any users are connected
-  // This syncs MCP/skill updates in real-time to connected users
-  const roomName = `${workspaceId}/${params.notePublicId}`;
+  const currentContent = note.content ?? "";
+  const currentRevisionId = await assertExpectedRevision(note.id, params.expectedRevisionId, currentContent);
+  let content: string;
+  let section: NoteSection | null = null;
   try {
-    const pushed = await pushExternalUpdateToRoom(roomName, params.content, "system");
-    if (pushed) {
-      console.log(`[write-ops] Successfully pushed external update to room: ${roomName}`);
+    if (params.mode === "diff") {
+      content = applyUnifiedDiff(currentContent, params.content);
     } else {
-      console.log(`[write-ops] No active room for external update: ${roomName}`);
+      if (!params.heading || !params.heading.trim()) {
+        throw new ValidationError(`Heading is required for ${params.mode}`);
+      }
+      ({ content, section } = patchNoteSection(currentContent, params.heading, params.mode, params.content));
     }
   } catch (error) {
-    console.warn(`[write-ops] Failed to push external update to room: ${roomName}`, error);
+    if (error instanceof NoteSectionError) {
+      throw new ValidationError(error.message);
+    }
+    throw error;
   }
 
-  // Publish SSE event with complete note data
-  const noteRow = await db
-    .select({
-      id: notes.id,
-      publicId: notes.publicId,
-      name: notes.name,
-      title: notes.title,
-      content: notes.content,
-      folderId: notes.folderId,
-      updatedAt: notes.updatedAt,
-    })
+  if (content === currentContent) {
+    const noteRows = await db
+      .select({ updatedAt: notes.updatedAt })
+      .from(notes)
+      .where(eq(notes.id, note.id))
+      .limit(1);
+    return {
+      publicId: validatedNotePublicId,
+      revisionId: currentRevisionId,
+      updatedAt: noteRows[0].updatedAt,
+      changed: false,
+      section,
+    };
+  }
+
+  // The patch was computed from the expected revision's content, so the write
+  // re-checks that revision in its own transaction before saving
+  const written = await writeNoteContent({
+    workspaceId,
+    noteId: note.id,
+    notePublicId: validatedNotePublicId,
+    content,
+    authorUserId: params.userId,
+    expectedRevisionId: params.expectedRevisionId,
+  });
+  await refreshNoteLinks(note.id);
+  await refreshNoteMetadata(note.id);
+
+  return {
+    publicId: validatedNotePublicId,
+    revisionId: written.revisionId,
+    updatedAt: written.updatedAt,
+    changed: true,
+    section,
+  };
+}
+
+/**
+ * Moves a note to the trash.
+ * The note can be brought back with restoreNoteInWorkspace until the trash
+ * retention window purges it.
+ */
+export async function deleteNoteInWorkspace(
+  params: NoteTrashParams
+): Promise<DeleteNoteResult> {
+  const validatedSlug = parseSlug(params.workspaceSlug);
+  if (!validatedSlug) {
+    throw new ValidationError("Invalid workspace slug");
+  }
+
+  const validatedNotePublicId = parsePublicId(params.notePublicId);
+  if (!validatedNotePublicId) {
+    throw new ValidationError("Invalid note public ID");
+  }
+
+  const workspaceId = await resolveWorkspaceId(validatedSlug);
+  if (!workspaceId) {
+    throw new NotFoundError("Workspace not found");
+  }
+
+  await assertCanWrite(workspaceId, params.userId);
+
+  const note = await resolveNote(validatedNotePublicId);
+  if (!note || note.workspaceId !== workspaceId) {
+    throw new NotFoundError("Note not found");
+  }
+
+  await trashNotes(workspaceId, [note.id]);
+
+  const deletedRows = await db
+    .select({ deletedAt: notes.deletedAt })
     .from(notes)
-    .where(eq(notes.id, noteId))
+    .where(eq(notes.id, note.id))
     .limit(1);
 
-  if (noteRow[0]) {
-    // Build folder path
-    const folderPath = noteRow[0].folderId
-      ? await buildNoteFolderPath(noteRow[0].folderId, workspaceId, db)
-      : null;
+  workspaceEventHub.publish({
+    workspaceId,
+    type: "note.deleted",
+    data: { publicId: validatedNotePublicId, id: note.id },
+  });
 
-    workspaceEventHub.publish({
-      workspaceId,
-      type: "note.updated",
-      data: {
-        id: noteRow[0].id,
-        publicId: noteRow[0].publicId,
-        name: noteRow[0].name,
-        title: noteRow[0].title,
-        content: noteRow[0].content,
-        folderId: noteRow[0].folderId,
-        folderPath,
-        updatedAt: noteRow[0].updatedAt.toISOString(),
-      },
-    });
+  return {
+    publicId: validatedNotePublicId,
+    deletedAt: deletedRows[0].deletedAt!,
+  };
+}
+
+/**
+ * Restores a note from the trash.
+ * Missing folders are recreated and the note is renamed with a numeric
+ * suffix if its name is already taken.
+ */
+export async function restoreNoteInWorkspace(
+  params: NoteTrashParams
+): Promise<RestoreNoteResult> {
+  const validatedSlug = parseSlug(params.workspaceSlug);
+  if (!validatedSlug) {
+    throw new ValidationError("Invalid workspace slug");
+  }
+
+  const validatedNotePublicId = parsePublicId(params.notePublicId);
+  if (!validatedNotePublicId) {
+    throw new ValidationError("Invalid note public ID");
+  }
+
+  const workspaceId = await resolveWorkspaceId(validatedSlug);
+  if (!workspaceId) {
+    throw new NotFoundError("Workspace not found");
+  }
+
+  await assertCanWrite(workspaceId, params.userId);
+
+  const restored = await restoreTrashedNote(workspaceId, validatedNotePublicId);
+  if (!restored) {
+    throw new NotFoundError("Note not found in trash");
   }
 
   return {
-    publicId: updatedNote.publicId,
-    revisionId,
-    updatedAt: updatedNote.updatedAt,
+    publicId: restored.publicId,
+    name: restored.name,
+    title: restored.title,
+    folderPath: restored.folderPath,
+    renamed: restored.renamed,
+  };
+}
+
+/**
+ * Moves a folder, its subfolders and all notes in them to the trash as one
+ * unit. The folder can be restored from the trash like a single note.
+ */
+export async function deleteFolderInWorkspace(
+  params: FolderTrashParams
+): Promise<DeleteFolderResult> {
+  const workspaceId = await resolveWritableWorkspace(params.workspaceSlug, params.userId);
+  const folder = await loadLiveFolder(workspaceId, params.folderPublicId);
+
+  const trashed = await trashFolder(workspaceId, folder.id);
+
+  const deletedRows = await db
+    .select({ deletedAt: folders.deletedAt })
+    .from(folders)
+    .where(eq(folders.id, folder.id))
+    .limit(1);
+
+  workspaceEventHub.publish({
+    workspaceId,
+    type: "folder.deleted",
+    data: { publicId: folder.publicId },
+  });
+
+  return {
+    publicId: folder.publicId,
+    deletedAt: deletedRows[0].deletedAt!,
+    folderCount: trashed.folderIds.length,
+    noteCount: trashed.noteIds.length,
   };
 }
+
+/**
+ * Moves a note to another folder or to the workspace root.
+ * Links to the note's old path are rewritten to the new one.
+ */
+export async function moveNoteInWorkspace(
+  params: MoveNoteParams
+): Promise<NoteLocationResult> {
+  const workspaceId = await resolveWritableWorkspace(params.workspaceSlug, params.userId);
+  const note = await loadLiveNote(workspaceId, params.notePublicId);
+
+  const folderId = params.folderPublicId
+    ? (await loadLiveFolder(workspaceId, params.folderPublicId)).id
+    : null;
+
+  if (folderId !== note.folderId) {
+    const isDuplicate = await checkDuplicateNoteName(workspaceId, note.name, folderId);
+    if (isDuplicate) {
+      throw new DuplicateError("Note with this name already exists in the target folder");
+    }
+
+    const backlinks = await findBacklinks(note.id);
+
+    await db
+      .update(notes)
+      .set({ folderId, updatedAt: new Date() })
+      .where(eq(notes.id, note.id));
+
+    // Point links to the old path at the new one
+    await relinkBacklinks(workspaceId, note.id, backlinks, params.userId);
+  }
+
+  return publishNoteLocation(workspaceId, note.id);
+}
+
+/**
+ * Renames a note and/or changes its title.
+ * Links to the note's old name are rewritten to the new one.
+ */
+export async function renameNoteInWorkspace(
+  params: RenameNoteParams
+): Promise<NoteLocationResult> {
+  const workspaceId = await resolveWritableWorkspace(params.workspaceSlug, params.userId);
+  const note = await loadLiveNote(workspaceId, params.notePublicId);
+
+  if (params.name === undefined && params.title === undefined) {
+    throw new ValidationError("A new name or title is required");
+  }
+
+  const name = params.name?.trim() || note.name;
+  const title = params.title?.trim() || note.title;
+
+  if (!isValidFolderName(name)) {
+    throw new ValidationError(
+      "Note name must be kebab-case, camelCase, snake_case, or PascalCase"
+    );
+  }
+
+  if (name !== note.name) {
+    const isDuplicate = await checkDuplicateNoteName(workspaceId, name, note.folderId);
+    if (isDuplicate) {
+      throw new DuplicateError("Note with this name already exists in this folder");
+    }
+  }
+
+  const backlinks = name !== note.name ? await findBacklinks(note.id) : [];
+
+  await db
+    .update(notes)
+    .set({ name, title, updatedAt: new Date() })
+    .where(eq(notes.id, note.id));
+  await updateNoteSearchIndex(note.id);
+
+  // Point links to the old name at the new one
+  if (name !== note.name) {
+    await relinkBacklinks(workspaceId, note.id, backlinks, params.userId);
+  }
+
+  return publishNoteLocation(workspaceId, note.id);
+}
+
+/**
+ * Moves a folder with everything in it under another folder or to the
+ * workspace root.
+ */
+export async function moveFolderInWorkspace(
+  params: MoveFolderParams
+): Promise<FolderLocationResult> {
+  const workspaceId = await resolveWritableWorkspace(params.workspaceSlug, params.userId);
+  const folder = await loadLiveFolder(workspaceId, params.folderPublicId);
+
+  const parentId = params.parentPublicId
+    ? (await loadLiveFolder(workspaceId, params.parentPublicId, "Parent folder not found")).id
+    : null;
+
+  if (parentId !== folder.parentId) {
+    // Walk up from the new parent; meeting the folder means it would move into itself
+    const folderRows = await db
+      .select({ id: folders.id, parentId: folders.parentId })
+      .from(folders)
+      .where(eq(folders.workspaceId, workspaceId));
+    const parentMap = new Map(folderRows.map((row) => [row.id, row.parentId]));
+
+    for (let current = parentId; current !== null; current = parentMap.get(current) ?? null) {
+      if (current === folder.id) {
+        throw new ValidationError("Folder cannot be moved into itself or its descendant");
+      }
+    }
+
+    const isDuplicate = await checkDuplicateFolderName(workspaceId, folder.name, parentId);
+    if (isDuplicate) {
+      throw new DuplicateError("Folder with this name already exists in the target location");
+    }
+
+    await db
+      .update(folders)
+      .set({ parentId, updatedAt: new Date() })
+      .where(eq(folders.id, folder.id));
+  }
+
+  return publishFolderLocation(workspaceId, folder.id);
+}
+
+/**
+ * Renames a folder and/or changes its display name.
+ */
+export async function renameFolderInWorkspace(
+  params: RenameFolderParams
+): Promise<FolderLocationResult> {
+  const workspaceId = await resolveWritableWorkspace(params.workspaceSlug, params.userId);
+  const folder = await loadLiveFolder(workspaceId, params.folderPublicId);
+
+  if (params.name === undefined && params.displayName === undefined) {
+    throw new ValidationError("A new name or display name is required");
+  }
+
+  const name = params.name?.trim() || folder.name;
+  const displayName = params.displayName?.trim() || folder.displayName;
+
+  if (!isValidFolderName(name)) {
+    throw new ValidationError(
+      "Folder name must be kebab-case, camelCase, snake_case, or PascalCase"
+    );
+  }
+
+  if (name !== folder.name) {
+    const isDuplicate = await checkDuplicateFolderName(workspaceId, name, folder.parentId);
+    if (isDuplicate) {
+      throw new DuplicateError("Folder with this name already exists in this location");
+    }
+  }
+
+  await db
+    .update(folders)
+    .set({ name, displayName, updatedAt: new Date() })
+    .where(eq(folders.id, folder.id));
+
+  return publishFolderLocation(workspaceId, folder.id);
+}
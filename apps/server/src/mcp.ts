@@ -1,13 +1,45 @@
 import { mcpHandler } from "@better-auth/oauth-provider";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { db, dialect } from "@/db";
+import { db } from "@/db";
 import { notes, folders } from "@/db/schema";
-import { and, eq, ilike, or, asc, sql, isNull } from "drizzle-orm";
+import { and, eq, isNull } from "drizzle-orm";
 import { parseSlug, parsePublicId } from "@/lib/params";
 import { resolveWorkspaceId, resolveNoteId } from "@/lib/resolvers";
+import { searchNotes } from "@/lib/search";
+import { MAX_QUERY_LIMIT, NoteQueryError, parseNoteQueryInput, queryNotes } from "@/lib/note-query";
+import { loadNoteMetadata } from "@/lib/frontmatter";
+import { findUnresolvedLinks, traverseNoteLinks, type LinkDirection } from "@/lib/note-links";
+import { findNoteSection, NoteSectionError, parseNoteOutline } from "@/lib/note-sections";
+import { getLatestRevisionId } from "@/lib/revision-store";
+import { StaleRevisionError } from "@/lib/revision-conflicts";
+import { batchWriteInWorkspace, MAX_BATCH_OPERATIONS } from "@/lib/batch-write";
 import { getAuthBaseUrl } from "@/lib/auth-utils";
+import { McpSessionStore } from "@/lib/mcp-sessions";
+import { config } from "@/config";
+import { checkWorkspaceAccess, getTokenUserId, getWorkspaceRole } from "@/lib/workspace-access";
+import { workspaceEventHub, type WorkspaceEvent } from "@/lib/sse-hub";
+import {
+  NOTE_RESOURCE_URI_TEMPLATE,
+  PROMPTS_FOLDER_NAME,
+  findNoteByPath,
+  findWorkspacePrompt,
+  listMemberWorkspaces,
+  listWorkspaceNotePaths,
+  listWorkspacePrompts,
+  notePath,
+  noteResourceUri,
+  renderPrompt,
+} from "@/lib/mcp-resources";
 import { getWorkspaceTree, type FolderNode, type WorkspaceTree } from "@/lib/workspace-tree";
 import {
   type NoteSummary,
@@ -20,28 +52,27 @@ import {
   createFolderInWorkspace,
   createNoteInWorkspace,
   updateNoteContentInWorkspace,
+  patchNoteSectionInWorkspace,
+  deleteNoteInWorkspace,
+  restoreNoteInWorkspace,
+  deleteFolderInWorkspace,
+  moveNoteInWorkspace,
+  renameNoteInWorkspace,
+  moveFolderInWorkspace,
+  renameFolderInWorkspace,
   ValidationError,
   NotFoundError,
   DuplicateError,
 } from "@/lib/write-operations";
 
 
-/**
- * Case-insensitive LIKE that works with both PostgreSQL and SQLite
- */
-function caseInsensitiveLike(column: unknown, pattern: string) {
-  if (dialect === "sqlite") {
-    return sql`LOWER(${column}) LIKE LOWER(${pattern})`;
-  }
-  return ilike(column as any, pattern);
-}
-
 // Note summary schema for MCP tools
 const noteSummarySchema = z.object({
   publicId: z.string(),
   name: z.string(),
   title: z.string(),
   folderPublicId: z.string().nullable(),
+  tags: z.array(z.string()).optional(),
 });
 
 // Folder schema for MCP tools
@@ -82,12 +113,57 @@ const noteSchema = z.object({
 });
 
 const searchNotesSchema = z.object({
-  matches: z.array(noteSummarySchema),
+  matches: z.array(
+    noteSummarySchema.extend({
+      score: z.number(),
+      snippet: z.string(),
+      lines: z.array(z.object({ lineNumber: z.number(), text: z.string() })),
+    })
+  ),
 });
 
+// Link graph tools never return more notes than this, whatever the depth
+const MAX_LINKED_NOTES = 100;
+
+const linkGraphInputSchema = {
+  workspaceSlug: z.string().describe('The slug of the workspace'),
+  notePublicId: z.string().describe('The public ID of the note to start from'),
+  depth: z.number().int().min(1).max(5).optional().describe('How many links away to follow (default: 1)'),
+  includeContent: z.boolean().optional().describe('Include the content of each linked note (default: false)'),
+};
 
-// Factory function to create a new MCP server per request (stateless mode)
-const getServer = () => {
+interface LinkGraphInput {
+  workspaceSlug: string;
+  notePublicId: string;
+  depth?: number;
+  includeContent?: boolean;
+}
+
+
+// Result of a write rejected because the note changed since expectedRevisionId.
+// The text diff only lists changed lines; structuredContent has the full diff.
+const staleRevisionResult = (error: StaleRevisionError) => {
+  const { conflict } = error;
+  const changes = conflict.diff
+    ? { ...conflict.diff, lines: conflict.diff.lines.filter((line) => line.type !== 'equal') }
+    : null;
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `Error: ${error.message}. Nothing was written; merge the changes below and retry with expectedRevisionId ${conflict.currentRevisionId ?? 'null'}.`,
+      },
+      { type: 'text' as const, text: JSON.stringify({ ...conflict, diff: changes }, null, 2) },
+    ],
+    structuredContent: { conflict: conflict as unknown as { [x: string]: unknown } },
+    isError: true,
+  };
+};
+
+// Factory function to create a new MCP server per session, or per request in stateless mode
+// Every tool acts on behalf of userId and is limited to that user's workspaces
+const getServer = (userId: string, options: { watchChanges?: AbortSignal } = {}) => {
   const server = new McpServer({
     name: 'kontexted-mcp-server',
     version: '1.0.0'
@@ -117,6 +193,14 @@ const getServer = () => {
       };
     }
 
+    const accessError = await checkWorkspaceAccess(workspaceIdValue, userId, 'viewer');
+    if (accessError) {
+      return {
+        content: [{ type: 'text', text: `${accessError.error}.` }],
+        isError: true,
+      };
+    }
+
     const tree = await getWorkspaceTree(workspaceIdValue);
 
     if (!tree) {
@@ -140,7 +224,7 @@ const getServer = () => {
   // Register searchNotesByQuery tool
   server.registerTool('searchNotesByQuery', {
     title: 'Search Notes',
-    description: 'Search notes by query in a workspace',
+    description: 'Full-text search over note names, titles and content in a workspace. Returns matches ranked by relevance, each with a highlighted snippet and the matching line numbers (1-based).',
     inputSchema: {
       workspaceSlug: z.string().describe('The slug of the workspace'),
       query: z.string().min(1).describe('Search query'),
@@ -163,33 +247,24 @@ const getServer = () => {
       };
     }
 
-    const pattern = `%${query.trim()}%`;
-    const rows = await db
-      .select({
-        id: notes.id,
-        publicId: notes.publicId,
-        name: notes.name,
-        title: notes.title,
-        folderId: notes.folderId,
-        folderPublicId: folders.publicId,
-      })
-      .from(notes)
-      .leftJoin(folders, eq(notes.folderId, folders.id))
-      .where(
-        and(
-          eq(notes.workspaceId, workspaceIdValue),
-          isNull(notes.deletedAt),
-          or(caseInsensitiveLike(notes.title, pattern), caseInsensitiveLike(notes.name, pattern))
-        )
-      )
-      .orderBy(asc(notes.title))
-      .limit(limit ?? 20);
-
-    const matches = rows.map((row) => ({
-      publicId: row.publicId,
-      name: row.name,
-      title: row.title,
-      folderPublicId: row.folderPublicId ?? null,
+    const accessError = await checkWorkspaceAccess(workspaceIdValue, userId, 'viewer');
+    if (accessError) {
+      return {
+        content: [{ type: 'text', text: `${accessError.error}.` }],
+        isError: true,
+      };
+    }
+
+    const results = await searchNotes(workspaceIdValue, query, { limit: limit ?? 20 });
+
+    const matches = results.map((result) => ({
+      publicId: result.publicId,
+      name: result.name,
+      title: result.title,
+      folderPublicId: result.folderPublicId,
+      score: result.score,
+      snippet: result.snippet,
+      lines: result.lines,
     }));
 
     return {
@@ -201,6 +276,76 @@ const getServer = () => {
     };
   });
 
+  // Register queryNotes tool
+  server.registerTool('queryNotes', {
+    title: 'Query Notes',
+    description: 'Find notes by structured filters instead of text: frontmatter tags and fields, folder subtree, author and last update time. All given filters must match. Returns paginated note summaries with their metadata, most recently updated first; pass nextOffset as offset to get the next page.',
+    inputSchema: {
+      workspaceSlug: z.string().describe('The slug of the workspace'),
+      tags: z.array(z.string()).optional().describe('Notes must have all of these frontmatter tags'),
+      fields: z.record(z.string(), z.string().nullable()).optional().describe('Frontmatter key -> value the note must have; null only requires the key, e.g. {"status": "draft", "owner": null}'),
+      folderPath: z.string().optional().describe('Only notes in this folder or its subfolders, as a slash-separated path of folder names, e.g. "specs/api"'),
+      author: z.string().optional().describe('User ID, email or name of someone who saved a revision of the note'),
+      updatedAfter: z.string().optional().describe('Only notes updated at or after this ISO 8601 date'),
+      updatedBefore: z.string().optional().describe('Only notes updated at or before this ISO 8601 date'),
+      limit: z.number().int().positive().max(MAX_QUERY_LIMIT).optional().describe('Maximum number of results (default: 20)'),
+      offset: z.number().int().min(0).optional().describe('Number of results to skip (default: 0)')
+    }
+  }, async ({ workspaceSlug, ...input }: {
+    workspaceSlug: string;
+    tags?: string[];
+    fields?: Record<string, string | null>;
+    folderPath?: string;
+    author?: string;
+    updatedAfter?: string;
+    updatedBefore?: string;
+    limit?: number;
+    offset?: number;
+  }) => {
+    const workspaceSlugValue = parseSlug(workspaceSlug);
+    if (!workspaceSlugValue) {
+      return {
+        content: [{ type: 'text', text: 'Invalid workspace slug.' }],
+        isError: true,
+      };
+    }
+
+    const workspaceIdValue = await resolveWorkspaceId(workspaceSlugValue);
+    if (!workspaceIdValue) {
+      return {
+        content: [{ type: 'text', text: 'Workspace not found.' }],
+        isError: true,
+      };
+    }
+
+    const accessError = await checkWorkspaceAccess(workspaceIdValue, userId, 'viewer');
+    if (accessError) {
+      return {
+        content: [{ type: 'text', text: `${accessError.error}.` }],
+        isError: true,
+      };
+    }
+
+    try {
+      const result = await queryNotes(workspaceIdValue, parseNoteQueryInput(input));
+      return {
+        content: [
+          { type: 'text', text: `Found ${result.total} matching notes, showing ${result.notes.length} from offset ${result.offset}.` },
+          { type: 'text', text: JSON.stringify(result, null, 2) },
+        ],
+        structuredContent: { ...result },
+      };
+    } catch (error) {
+      if (error instanceof NoteQueryError) {
+        return {
+          content: [{ type: 'text', text: `${error.message}.` }],
+          isError: true,
+        };
+      }
+      throw error;
+    }
+  });
+
   // Register getNoteById tool
   server.registerTool('getNoteById', {
     title: 'Get Note by ID',
@@ -234,6 +379,14 @@ const getServer = () => {
       };
     }
 
+    const accessError = await checkWorkspaceAccess(workspaceIdValue, userId, 'viewer');
+    if (accessError) {
+      return {
+        content: [{ type: 'text', text: `${accessError.error}.` }],
+        isError: true,
+      };
+    }
+
     const noteIdValue = await resolveNoteId(notePublicIdValue);
     if (!noteIdValue) {
       return {
@@ -274,17 +427,133 @@ const getServer = () => {
       content: row.content,
       folderPublicId: row.folderPublicId ?? null,
       updatedAt: row.updatedAt.toISOString(),
+      revisionId: await getLatestRevisionId(row.id),
+      metadata: await loadNoteMetadata(row.id),
     };
 
     return {
       content: [
-        { type: 'text', text: `Loaded note ${notePublicId}.` },
+        { type: 'text', text: `Loaded note ${notePublicId} at revision ${result.revisionId ?? 'none'}.` },
         { type: 'text', text: result.content },
       ],
       structuredContent: { note: result },
     };
   });
 
+  // Shared by getNoteOutline and getNoteSection: the note's content and latest revision
+  const loadNoteForSections = async (workspaceSlug: string, notePublicId: string) => {
+    const fail = (text: string) => ({
+      error: { content: [{ type: 'text' as const, text }], isError: true },
+    });
+
+    const workspaceSlugValue = parseSlug(workspaceSlug);
+    if (!workspaceSlugValue) {
+      return fail('Invalid workspace slug.');
+    }
+
+    const notePublicIdValue = parsePublicId(notePublicId);
+    if (!notePublicIdValue) {
+      return fail('Invalid note public ID.');
+    }
+
+    const workspaceIdValue = await resolveWorkspaceId(workspaceSlugValue);
+    if (!workspaceIdValue) {
+      return fail('Workspace not found.');
+    }
+
+    const accessError = await checkWorkspaceAccess(workspaceIdValue, userId, 'viewer');
+    if (accessError) {
+      return fail(`${accessError.error}.`);
+    }
+
+    const noteRows = await db
+      .select({ id: notes.id, publicId: notes.publicId, content: notes.content })
+      .from(notes)
+      .where(and(eq(notes.workspaceId, workspaceIdValue), eq(notes.publicId, notePublicIdValue), isNull(notes.deletedAt)))
+      .limit(1);
+
+    const note = noteRows[0];
+    if (!note) {
+      return fail('Note not found.');
+    }
+
+    return {
+      note: {
+        publicId: note.publicId,
+        content: note.content ?? '',
+        revisionId: await getLatestRevisionId(note.id),
+      },
+    };
+  };
+
+  // Register getNoteOutline tool
+  server.registerTool('getNoteOutline', {
+    title: 'Get Note Outline',
+    description: 'Get the heading tree of a note with the line range of each section (1-based, inclusive, subsections included), without its content. Use it to find the section to read with getNoteSection or to change with patchNoteSection. Also returns the current revisionId to pass to patchNoteSection.',
+    inputSchema: {
+      workspaceSlug: z.string().describe('The slug of the workspace'),
+      notePublicId: z.string().describe('The public ID of the note')
+    }
+  }, async ({ workspaceSlug, notePublicId }: { workspaceSlug: string; notePublicId: string }) => {
+    const loaded = await loadNoteForSections(workspaceSlug, notePublicId);
+    if ('error' in loaded) {
+      return loaded.error;
+    }
+
+    const result = {
+      publicId: loaded.note.publicId,
+      revisionId: loaded.note.revisionId,
+      lineCount: loaded.note.content.split('\n').length,
+      outline: parseNoteOutline(loaded.note.content),
+    };
+
+    return {
+      content: [
+        { type: 'text', text: `Loaded outline of note ${notePublicId} at revision ${result.revisionId ?? 'none'}.` },
+        { type: 'text', text: JSON.stringify(result, null, 2) },
+      ],
+      structuredContent: result,
+    };
+  });
+
+  // Register getNoteSection tool
+  server.registerTool('getNoteSection', {
+    title: 'Get Note Section',
+    description: 'Get one section of a note: its heading line and everything up to the next heading of the same or a higher level. Headings match on their title, ignoring case; use a path such as "Design > API" when titles repeat. Also returns the current revisionId to pass to patchNoteSection.',
+    inputSchema: {
+      workspaceSlug: z.string().describe('The slug of the workspace'),
+      notePublicId: z.string().describe('The public ID of the note'),
+      heading: z.string().min(1).describe('Title of the section heading, or a path of titles separated by ">"')
+    }
+  }, async ({ workspaceSlug, notePublicId, heading }: { workspaceSlug: string; notePublicId: string; heading: string }) => {
+    const loaded = await loadNoteForSections(workspaceSlug, notePublicId);
+    if ('error' in loaded) {
+      return loaded.error;
+    }
+
+    try {
+      const section = findNoteSection(loaded.note.content, heading);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Loaded section "${section.path.join(' > ')}" (lines ${section.startLine}-${section.endLine}) of note ${notePublicId} at revision ${loaded.note.revisionId ?? 'none'}.`,
+          },
+          { type: 'text', text: section.content },
+        ],
+        structuredContent: { publicId: loaded.note.publicId, revisionId: loaded.note.revisionId, section },
+      };
+    } catch (error) {
+      if (error instanceof NoteSectionError) {
+        return {
+          content: [{ type: 'text', text: error.message }],
+          isError: true,
+        };
+      }
+      throw error;
+    }
+  });
+
   // Register createFolder tool
   server.registerTool('createFolder', {
     title: 'Create Folder',
@@ -299,6 +568,7 @@ const getServer = () => {
     try {
       const result = await createFolderInWorkspace({
         workspaceSlug,
+        userId,
         name,
         displayName,
         parentPublicId,
@@ -335,6 +605,7 @@ const getServer = () => {
     try {
       const result = await createNoteInWorkspace({
         workspaceSlug,
+        userId,
         name,
         title,
         folderPublicId,
@@ -360,18 +631,21 @@ const getServer = () => {
   // Register updateNoteContent tool
   server.registerTool('updateNoteContent', {
     title: 'Update Note Content',
-    description: 'Update the content of an existing note. This creates a new revision and notifies connected clients. Returns the note public ID and revision ID.',
+    description: 'Update the content of an existing note. This creates a new revision and notifies connected clients. Pass the revisionId you read the note at (from getNoteById) as expectedRevisionId: if someone changed the note since, nothing is written and you get the current content and a diff of their changes to merge. Returns the note public ID and revision ID.',
     inputSchema: {
       workspaceSlug: z.string().describe('The slug of the workspace'),
       notePublicId: z.string().describe('The public ID of the note to update'),
-      content: z.string().describe('The new content for the note')
+      content: z.string().describe('The new content for the note'),
+      expectedRevisionId: z.number().int().nullable().optional().describe('The revisionId you read the note at; null if it had none. Omit to overwrite unconditionally')
     }
-  }, async ({ workspaceSlug, notePublicId, content }) => {
+  }, async ({ workspaceSlug, notePublicId, content, expectedRevisionId }) => {
     try {
       const result = await updateNoteContentInWorkspace({
         workspaceSlug,
+        userId,
         notePublicId,
         content,
+        expectedRevisionId,
       });
       
       const response = {
@@ -388,6 +662,62 @@ const getServer = () => {
         structuredContent: response,
       };
     } catch (error) {
+      if (error instanceof StaleRevisionError) {
+        return staleRevisionResult(error);
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: 'text', text: `Error: ${message}` }],
+        isError: true,
+      };
+    }
+  });
+
+  // Register patchNoteSection tool
+  server.registerTool('patchNoteSection', {
+    title: 'Patch Note Section',
+    description: 'Change part of a note instead of rewriting it. Modes: "replace" swaps the body of the section under heading (the heading line is kept), "insert" adds content right below the heading, "append" adds it at the end of the section, and "diff" applies content as a unified diff to the whole note. Fails without writing if the note changed since expectedRevisionId (from getNoteOutline or getNoteSection); read it again and retry. Returns the new revision ID.',
+    inputSchema: {
+      workspaceSlug: z.string().describe('The slug of the workspace'),
+      notePublicId: z.string().describe('The public ID of the note to patch'),
+      expectedRevisionId: z.number().int().nullable().describe('The revisionId you read the note at; null if it had none'),
+      mode: z.enum(['replace', 'append', 'insert', 'diff']).describe('How to apply content'),
+      heading: z.string().optional().describe('Section heading title or path ("Design > API"); required unless mode is "diff"'),
+      content: z.string().describe('The text to write into the section, or the unified diff for mode "diff"')
+    }
+  }, async ({ workspaceSlug, notePublicId, expectedRevisionId, mode, heading, content }) => {
+    try {
+      const result = await patchNoteSectionInWorkspace({
+        workspaceSlug,
+        userId,
+        notePublicId,
+        expectedRevisionId,
+        mode,
+        heading,
+        content,
+      });
+
+      const response = {
+        publicId: result.publicId,
+        revisionId: result.revisionId,
+        updatedAt: result.updatedAt.toISOString(),
+        changed: result.changed,
+        section: result.section
+          ? { path: result.section.path, startLine: result.section.startLine, endLine: result.section.endLine }
+          : null,
+      };
+
+      return {
+        content: [
+          { type: 'text', text: result.changed ? `Patched note: ${notePublicId}` : `Note unchanged: ${notePublicId}` },
+          { type: 'text', text: JSON.stringify(response, null, 2) },
+        ],
+        structuredContent: response,
+      };
+    } catch (error) {
+      if (error instanceof StaleRevisionError) {
+        return staleRevisionResult(error);
+      }
       const message = error instanceof Error ? error.message : 'Unknown error';
       return {
         content: [{ type: 'text', text: `Error: ${message}` }],
@@ -396,9 +726,711 @@ const getServer = () => {
     }
   });
 
+  // Register deleteNote tool
+  server.registerTool('deleteNote', {
+    title: 'Delete Note',
+    description: 'Move a note to the trash. The note disappears from the workspace but can be brought back with restoreNote until the trash retention window expires.',
+    inputSchema: {
+      workspaceSlug: z.string().describe('The slug of the workspace'),
+      notePublicId: z.string().describe('The public ID of the note to delete')
+    }
+  }, async ({ workspaceSlug, notePublicId }) => {
+    try {
+      const result = await deleteNoteInWorkspace({
+        workspaceSlug,
+        userId,
+        notePublicId,
+      });
+
+      const response = {
+        publicId: result.publicId,
+        deletedAt: result.deletedAt.toISOString(),
+      };
+
+      return {
+        content: [
+          { type: 'text', text: `Moved note to trash: ${notePublicId}` },
+          { type: 'text', text: JSON.stringify(response, null, 2) },
+        ],
+        structuredContent: response,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: 'text', text: `Error: ${message}` }],
+        isError: true,
+      };
+    }
+  });
+
+  // Register restoreNote tool
+  server.registerTool('restoreNote', {
+    title: 'Restore Note',
+    description: 'Restore a note from the trash. Missing folders are recreated and the note is renamed with a numeric suffix if its name is already taken. Returns the restored name and folder path.',
+    inputSchema: {
+      workspaceSlug: z.string().describe('The slug of the workspace'),
+      notePublicId: z.string().describe('The public ID of the deleted note')
+    }
+  }, async ({ workspaceSlug, notePublicId }) => {
+    try {
+      const result = await restoreNoteInWorkspace({
+        workspaceSlug,
+        userId,
+        notePublicId,
+      });
+
+      return {
+        content: [
+          { type: 'text', text: result.renamed ? `Restored note as ${result.name}` : `Restored note: ${result.title}` },
+          { type: 'text', text: JSON.stringify(result, null, 2) },
+        ],
+        structuredContent: result as unknown as { [x: string]: unknown },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: 'text', text: `Error: ${message}` }],
+        isError: true,
+      };
+    }
+  });
+
+  // Register deleteFolder tool
+  server.registerTool('deleteFolder', {
+    title: 'Delete Folder',
+    description: 'Move a folder, its subfolders and all notes in them to the trash as one unit. They can be restored from the trash until the trash retention window expires. Returns how many folders and notes were deleted.',
+    inputSchema: {
+      workspaceSlug: z.string().describe('The slug of the workspace'),
+      folderPublicId: z.string().describe('The public ID of the folder to delete')
+    }
+  }, async ({ workspaceSlug, folderPublicId }) => {
+    try {
+      const result = await deleteFolderInWorkspace({
+        workspaceSlug,
+        userId,
+        folderPublicId,
+      });
+
+      const response = {
+        publicId: result.publicId,
+        deletedAt: result.deletedAt.toISOString(),
+        folderCount: result.folderCount,
+        noteCount: result.noteCount,
+      };
+
+      return {
+        content: [
+          { type: 'text', text: `Moved folder to trash with ${result.noteCount} notes: ${folderPublicId}` },
+          { type: 'text', text: JSON.stringify(response, null, 2) },
+        ],
+        structuredContent: response,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: 'text', text: `Error: ${message}` }],
+        isError: true,
+      };
+    }
+  });
+
+  // Register moveNote tool
+  server.registerTool('moveNote', {
+    title: 'Move Note',
+    description: 'Move a note to another folder, or to the workspace root when folderPublicId is omitted. [[...]] links to the note are rewritten to its new path. Returns the new folder path.',
+    inputSchema: {
+      workspaceSlug: z.string().describe('The slug of the workspace'),
+      notePublicId: z.string().describe('The public ID of the note to move'),
+      folderPublicId: z.string().nullable().optional().describe('Public ID of the target folder (omit or null for root level)')
+    }
+  }, async ({ workspaceSlug, notePublicId, folderPublicId }) => {
+    try {
+      const result = await moveNoteInWorkspace({
+        workspaceSlug,
+        userId,
+        notePublicId,
+        folderPublicId,
+      });
+
+      return {
+        content: [
+          { type: 'text', text: `Moved note ${result.name} to ${result.folderPath ?? 'the workspace root'}` },
+          { type: 'text', text: JSON.stringify(result, null, 2) },
+        ],
+        structuredContent: result as unknown as { [x: string]: unknown },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: 'text', text: `Error: ${message}` }],
+        isError: true,
+      };
+    }
+  });
+
+  // Register renameNote tool
+  server.registerTool('renameNote', {
+    title: 'Rename Note',
+    description: 'Change the name and/or title of a note. [[...]] links to the old name are rewritten to the new one.',
+    inputSchema: {
+      workspaceSlug: z.string().describe('The slug of the workspace'),
+      notePublicId: z.string().describe('The public ID of the note to rename'),
+      name: z.string().min(1).optional().describe('New URL-safe note name (kebab-case, camelCase, snake_case, or PascalCase)'),
+      title: z.string().min(1).optional().describe('New human-readable title')
+    }
+  }, async ({ workspaceSlug, notePublicId, name, title }) => {
+    try {
+      const result = await renameNoteInWorkspace({
+        workspaceSlug,
+        userId,
+        notePublicId,
+        name,
+        title,
+      });
+
+      return {
+        content: [
+          { type: 'text', text: `Renamed note: ${result.name} (${result.title})` },
+          { type: 'text', text: JSON.stringify(result, null, 2) },
+        ],
+        structuredContent: result as unknown as { [x: string]: unknown },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: 'text', text: `Error: ${message}` }],
+        isError: true,
+      };
+    }
+  });
+
+  // Register moveFolder tool
+  server.registerTool('moveFolder', {
+    title: 'Move Folder',
+    description: 'Move a folder with everything in it under another folder, or to the workspace root when parentPublicId is omitted. A folder cannot be moved into itself or one of its subfolders. Returns the new folder path.',
+    inputSchema: {
+      workspaceSlug: z.string().describe('The slug of the workspace'),
+      folderPublicId: z.string().describe('The public ID of the folder to move'),
+      parentPublicId: z.string().nullable().optional().describe('Public ID of the new parent folder (omit or null for root level)')
+    }
+  }, async ({ workspaceSlug, folderPublicId, parentPublicId }) => {
+    try {
+      const result = await moveFolderInWorkspace({
+        workspaceSlug,
+        userId,
+        folderPublicId,
+        parentPublicId,
+      });
+
+      return {
+        content: [
+          { type: 'text', text: `Moved folder to ${result.path}` },
+          { type: 'text', text: JSON.stringify(result, null, 2) },
+        ],
+        structuredContent: result as unknown as { [x: string]: unknown },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: 'text', text: `Error: ${message}` }],
+        isError: true,
+      };
+    }
+  });
+
+  // Register renameFolder tool
+  server.registerTool('renameFolder', {
+    title: 'Rename Folder',
+    description: 'Change the name and/or display name of a folder. Returns the new folder path.',
+    inputSchema: {
+      workspaceSlug: z.string().describe('The slug of the workspace'),
+      folderPublicId: z.string().describe('The public ID of the folder to rename'),
+      name: z.string().min(1).optional().describe('New URL-safe folder name (kebab-case, camelCase, snake_case, or PascalCase)'),
+      displayName: z.string().min(1).optional().describe('New human-readable display name')
+    }
+  }, async ({ workspaceSlug, folderPublicId, name, displayName }) => {
+    try {
+      const result = await renameFolderInWorkspace({
+        workspaceSlug,
+        userId,
+        folderPublicId,
+        name,
+        displayName,
+      });
+
+      return {
+        content: [
+          { type: 'text', text: `Renamed folder: ${result.displayName}` },
+          { type: 'text', text: JSON.stringify(result, null, 2) },
+        ],
+        structuredContent: result as unknown as { [x: string]: unknown },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: 'text', text: `Error: ${message}` }],
+        isError: true,
+      };
+    }
+  });
+
+  // Register batchWrite tool
+  const refOrPublicId = (what: string) =>
+    z.string().describe(`Public ID of the ${what}, or $<ref> of one created earlier in the batch`);
+
+  server.registerTool('batchWrite', {
+    title: 'Batch Write',
+    description: `Apply several folder and note writes as one transaction: either all of them are written or none is, and connected clients get a single change event. Operations run in order. Give a create-folder or create-note operation a ref to point later operations at the new item as "$<ref>" (e.g. folderPublicId: "$specs"). Each existing note whose content changes gets one revision. Prefer this over many single writes when creating or reorganizing several notes. At most ${MAX_BATCH_OPERATIONS} operations. Returns the public ID of every item written, in operation order.`,
+    inputSchema: {
+      workspaceSlug: z.string().describe('The slug of the workspace'),
+      operations: z.array(z.discriminatedUnion('type', [
+        z.object({
+          type: z.literal('create-folder'),
+          ref: z.string().optional().describe('Name to refer to the new folder by in later operations'),
+          name: z.string().describe('URL-safe folder name (kebab-case, camelCase, snake_case, or PascalCase)'),
+          displayName: z.string().describe('Human-readable display name'),
+          parentPublicId: refOrPublicId('parent folder').nullable().optional(),
+        }),
+        z.object({
+          type: z.literal('create-note'),
+          ref: z.string().optional().describe('Name to refer to the new note by in later operations'),
+          name: z.string().describe('URL-safe note name (kebab-case, camelCase, snake_case, or PascalCase)'),
+          title: z.string().describe('Human-readable title'),
+          folderPublicId: refOrPublicId('folder').nullable().optional(),
+          content: z.string().optional().describe('Initial content'),
+        }),
+        z.object({
+          type: z.literal('update-note'),
+          notePublicId: refOrPublicId('note'),
+          content: z.string().describe('The new content for the note'),
+          expectedRevisionId: z.number().int().nullable().optional().describe('The revisionId you read the note at; null if it had none'),
+        }),
+        z.object({
+          type: z.literal('move-note'),
+          notePublicId: refOrPublicId('note'),
+          folderPublicId: refOrPublicId('target folder').nullable().optional(),
+        }),
+        z.object({
+          type: z.literal('move-folder'),
+          folderPublicId: refOrPublicId('folder'),
+          parentPublicId: refOrPublicId('new parent folder').nullable().optional(),
+        }),
+        z.object({
+          type: z.literal('delete-note'),
+          notePublicId: refOrPublicId('note'),
+        }),
+        z.object({
+          type: z.literal('delete-folder'),
+          folderPublicId: refOrPublicId('folder'),
+        }),
+      ])).min(1).max(MAX_BATCH_OPERATIONS).describe('The operations, applied in order')
+    }
+  }, async ({ workspaceSlug, operations }) => {
+    try {
+      const result = await batchWriteInWorkspace({
+        workspaceSlug,
+        userId,
+        operations,
+      });
+
+      const response = {
+        operations: result.operations,
+        appliedAt: result.appliedAt.toISOString(),
+      };
+
+      return {
+        content: [
+          { type: 'text', text: `Applied ${result.operations.length} operations` },
+          { type: 'text', text: JSON.stringify(response, null, 2) },
+        ],
+        structuredContent: response,
+      };
+    } catch (error) {
+      if (error instanceof StaleRevisionError) {
+        return staleRevisionResult(error);
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: 'text', text: `Error: ${message}` }],
+        isError: true,
+      };
+    }
+  });
+
+  // Shared by getBacklinks, getOutgoingLinks and getRelatedNotes
+  const loadLinkGraph = async (
+    direction: LinkDirection,
+    { workspaceSlug, notePublicId, depth, includeContent }: LinkGraphInput
+  ) => {
+    const workspaceSlugValue = parseSlug(workspaceSlug);
+    if (!workspaceSlugValue) {
+      return {
+        content: [{ type: 'text' as const, text: 'Invalid workspace slug.' }],
+        isError: true,
+      };
+    }
+
+    const notePublicIdValue = parsePublicId(notePublicId);
+    if (!notePublicIdValue) {
+      return {
+        content: [{ type: 'text' as const, text: 'Invalid note public ID.' }],
+        isError: true,
+      };
+    }
+
+    const workspaceIdValue = await resolveWorkspaceId(workspaceSlugValue);
+    if (!workspaceIdValue) {
+      return {
+        content: [{ type: 'text' as const, text: 'Workspace not found.' }],
+        isError: true,
+      };
+    }
+
+    const accessError = await checkWorkspaceAccess(workspaceIdValue, userId, 'viewer');
+    if (accessError) {
+      return {
+        content: [{ type: 'text' as const, text: `${accessError.error}.` }],
+        isError: true,
+      };
+    }
+
+    const noteRows = await db
+      .select({ id: notes.id })
+      .from(notes)
+      .where(and(eq(notes.workspaceId, workspaceIdValue), eq(notes.publicId, notePublicIdValue), isNull(notes.deletedAt)))
+      .limit(1);
+
+    if (!noteRows[0]) {
+      return {
+        content: [{ type: 'text' as const, text: 'Note not found.' }],
+        isError: true,
+      };
+    }
+
+    const linked = await traverseNoteLinks(workspaceIdValue, noteRows[0].id, {
+      direction,
+      depth: depth ?? 1,
+      limit: MAX_LINKED_NOTES,
+    });
+
+    const linkedNotes = linked.map((note) => ({
+      publicId: note.publicId,
+      name: note.name,
+      title: note.title,
+      folderPublicId: note.folderPublicId,
+      depth: note.depth,
+      viaPublicId: note.viaPublicId,
+      direction: note.direction,
+      ...(includeContent ? { content: note.content } : {}),
+    }));
+
+    const result: { notes: typeof linkedNotes; unresolvedTargets?: string[] } = { notes: linkedNotes };
+    if (direction !== 'incoming') {
+      result.unresolvedTargets = await findUnresolvedLinks(noteRows[0].id);
+    }
+
+    return {
+      content: [
+        { type: 'text' as const, text: `Found ${linkedNotes.length} linked notes.` },
+        { type: 'text' as const, text: JSON.stringify(result, null, 2) },
+      ],
+      structuredContent: result,
+    };
+  };
+
+  // Register getBacklinks tool
+  server.registerTool('getBacklinks', {
+    title: 'Get Backlinks',
+    description: 'List the notes that link to a note with [[...]] wiki links. With depth > 1, also the notes linking to those, and so on. Each result has its depth and the public ID of the note it links to (viaPublicId).',
+    inputSchema: linkGraphInputSchema,
+  }, (input) => loadLinkGraph('incoming', input));
+
+  // Register getOutgoingLinks tool
+  server.registerTool('getOutgoingLinks', {
+    title: 'Get Outgoing Links',
+    description: 'List the notes a note links to with [[...]] wiki links. With depth > 1, also the notes those link to, and so on. Link targets of the starting note that match no note are returned as unresolvedTargets.',
+    inputSchema: linkGraphInputSchema,
+  }, (input) => loadLinkGraph('outgoing', input));
+
+  // Register getRelatedNotes tool
+  server.registerTool('getRelatedNotes', {
+    title: 'Get Related Notes',
+    description: 'List the notes connected to a note by wiki links in either direction, up to the given depth, closest first. Use includeContent to pull in e.g. the architecture docs a spec links to in one call.',
+    inputSchema: linkGraphInputSchema,
+  }, (input) => loadLinkGraph('both', input));
+
+  // Resolve a workspace the user may read by slug, for resources and prompts
+  const resolveReadableWorkspace = async (slug: string | undefined) => {
+    const workspaceSlugValue = slug ? parseSlug(slug) : null;
+    const workspaceIdValue = workspaceSlugValue ? await resolveWorkspaceId(workspaceSlugValue) : null;
+    if (!workspaceIdValue || (await checkWorkspaceAccess(workspaceIdValue, userId, 'viewer'))) {
+      return null;
+    }
+    return workspaceIdValue;
+  };
+
+  const templateVariable = (value: string | string[] | undefined) =>
+    Array.isArray(value) ? value.join('/') : value ?? '';
+
+  // Every note is a resource at kontexted://<workspace>/<folder path>/<note name>
+  server.registerResource('note', new ResourceTemplate(NOTE_RESOURCE_URI_TEMPLATE, {
+    list: async () => {
+      const resources = [];
+      for (const workspace of await listMemberWorkspaces(userId)) {
+        for (const note of await listWorkspaceNotePaths(workspace.id)) {
+          resources.push({
+            uri: noteResourceUri(workspace.slug, note.path),
+            name: `${workspace.slug}/${note.path}`,
+            title: note.title,
+            description: `Note in workspace ${workspace.name}`,
+            mimeType: 'text/markdown',
+          });
+        }
+      }
+      return { resources };
+    },
+    complete: {
+      workspace: async (value) =>
+        (await listMemberWorkspaces(userId))
+          .map((workspace) => workspace.slug)
+          .filter((slug) => slug.startsWith(value)),
+      path: async (value, context) => {
+        const workspaceIdValue = await resolveReadableWorkspace(context?.arguments?.workspace);
+        if (!workspaceIdValue) {
+          return [];
+        }
+        return (await listWorkspaceNotePaths(workspaceIdValue))
+          .map((note) => note.path)
+          .filter((path) => path.startsWith(value))
+          .slice(0, 100);
+      },
+    },
+  }), {
+    title: 'Workspace Note',
+    description: 'The Markdown content of a note, addressed by workspace slug, folder path and note name',
+    mimeType: 'text/markdown',
+  }, async (uri, variables) => {
+    const workspaceIdValue = await resolveReadableWorkspace(templateVariable(variables.workspace));
+    let path: string;
+    try {
+      path = decodeURIComponent(templateVariable(variables.path));
+    } catch {
+      path = templateVariable(variables.path);
+    }
+    const note = workspaceIdValue ? await findNoteByPath(workspaceIdValue, path) : null;
+    if (!note) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri.href}`);
+    }
+
+    return {
+      contents: [{ uri: uri.href, mimeType: 'text/markdown', text: note.content }],
+    };
+  });
+
+  // Clients subscribe to resources to be told when a note changes
+  const subscribedUris = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async ({ params }) => {
+    subscribedUris.add(params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async ({ params }) => {
+    subscribedUris.delete(params.uri);
+    return {};
+  });
+
+  // Notes in the prompts folder of a workspace are prompts named <workspace>/<note path>.
+  // They change with the notes, so they are served directly instead of registered up front.
+  server.server.registerCapabilities({ prompts: { listChanged: true } });
+  server.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    const prompts = [];
+    for (const workspace of await listMemberWorkspaces(userId)) {
+      for (const prompt of await listWorkspacePrompts(workspace.id)) {
+        prompts.push({
+          name: `${workspace.slug}/${prompt.name}`,
+          title: prompt.title,
+          description: prompt.description,
+          arguments: prompt.arguments.map((argument) => ({ ...argument, required: true })),
+        });
+      }
+    }
+    return { prompts };
+  });
+  server.server.setRequestHandler(GetPromptRequestSchema, async ({ params }) => {
+    const separator = params.name.indexOf('/');
+    const workspaceIdValue = separator > 0 ? await resolveReadableWorkspace(params.name.slice(0, separator)) : null;
+    const prompt = workspaceIdValue ? await findWorkspacePrompt(workspaceIdValue, params.name.slice(separator + 1)) : null;
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt not found: ${params.name}`);
+    }
+
+    const args = params.arguments ?? {};
+    const missing = prompt.arguments.filter((argument) => args[argument.name] === undefined);
+    if (missing.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing arguments for prompt ${params.name}: ${missing.map((argument) => argument.name).join(', ')}`
+      );
+    }
+
+    return {
+      description: prompt.description ?? prompt.title,
+      messages: [{ role: 'user' as const, content: { type: 'text' as const, text: renderPrompt(prompt.template, args) } }],
+    };
+  });
+
+  // Forward workspace changes to the client as resource and prompt notifications
+  // while `watchChanges` is not aborted
+  if (options.watchChanges) {
+    const signal = options.watchChanges;
+    watchWorkspaceChanges(server, userId, subscribedUris)
+      .then((stopWatching) => {
+        if (signal.aborted) {
+          stopWatching();
+        } else {
+          signal.addEventListener('abort', stopWatching, { once: true });
+        }
+      })
+      .catch((error) => console.error('Failed to watch workspace changes for MCP:', error));
+  }
+
   return server;
 };
 
+const notify = (notification: Promise<void>) => {
+  notification.catch((error) => console.error('Failed to send MCP notification:', error));
+};
+
+// Watch workspace events and turn those of the user's workspaces into MCP
+// notifications. Folder events and created or deleted notes change the
+// resource list; updated notes also notify subscribers of their URI, and
+// change the list when the note was renamed or moved. Any change that may
+// touch a prompts folder changes the prompt list. Membership is checked for
+// every event, so workspaces the user joins later are watched too and a user
+// removed from a workspace stops hearing about it.
+// Returns a function that stops watching.
+const watchWorkspaceChanges = async (server: McpServer, userId: string, subscribedUris: Set<string>) => {
+  // Current path of every note by public ID, to tell renames from edits
+  const notePaths = new Map<string, string>();
+  // Slugs of the member workspaces whose note paths are loaded, by ID
+  const workspaceSlugs = new Map<number, string>();
+  const loadWorkspace = async (workspace: { id: number; slug: string }) => {
+    for (const note of await listWorkspaceNotePaths(workspace.id)) {
+      notePaths.set(note.publicId, noteResourceUri(workspace.slug, note.path));
+    }
+    workspaceSlugs.set(workspace.id, workspace.slug);
+  };
+
+  for (const workspace of await listMemberWorkspaces(userId)) {
+    await loadWorkspace(workspace);
+  }
+
+  const isPromptUri = (uri: string | undefined, workspaceSlug: string) =>
+    uri !== undefined && uri.startsWith(noteResourceUri(workspaceSlug, `${PROMPTS_FOLDER_NAME}/`));
+
+  const handleEvent = (workspaceSlug: string, event: WorkspaceEvent) => {
+    const data = (event.data ?? {}) as { publicId?: string; name?: string; folderPath?: string | null };
+    const previousUri = data.publicId ? notePaths.get(data.publicId) : undefined;
+    const currentUri =
+      data.name !== undefined && data.folderPath !== undefined
+        ? noteResourceUri(workspaceSlug, notePath(data.folderPath, data.name))
+        : undefined;
+
+    switch (event.type) {
+      case 'folder.created':
+      case 'folder.updated':
+      case 'folder.deleted':
+        // Folder events carry no paths; a renamed folder moves every note inside it
+        notify(server.server.sendResourceListChanged());
+        notify(server.server.sendPromptListChanged());
+        break;
+      case 'note.created':
+        if (data.publicId && currentUri) {
+          notePaths.set(data.publicId, currentUri);
+        }
+        notify(server.server.sendResourceListChanged());
+        if (currentUri === undefined || isPromptUri(currentUri, workspaceSlug)) {
+          notify(server.server.sendPromptListChanged());
+        }
+        break;
+      case 'note.deleted':
+        if (data.publicId) {
+          notePaths.delete(data.publicId);
+        }
+        notify(server.server.sendResourceListChanged());
+        if (previousUri === undefined || isPromptUri(previousUri, workspaceSlug)) {
+          notify(server.server.sendPromptListChanged());
+        }
+        if (previousUri && subscribedUris.has(previousUri)) {
+          notify(server.server.sendResourceUpdated({ uri: previousUri }));
+        }
+        break;
+      case 'batch.applied':
+        for (const batched of (event.data as { events?: Pick<WorkspaceEvent, 'type' | 'data'>[] }).events ?? []) {
+          handleEvent(workspaceSlug, { ...batched, workspaceId: event.workspaceId });
+        }
+        break;
+      case 'note.updated':
+        if (!currentUri) {
+          break;
+        }
+        if (data.publicId) {
+          notePaths.set(data.publicId, currentUri);
+        }
+        for (const uri of new Set([previousUri, currentUri])) {
+          if (uri && subscribedUris.has(uri)) {
+            notify(server.server.sendResourceUpdated({ uri }));
+          }
+        }
+        if (previousUri !== currentUri) {
+          notify(server.server.sendResourceListChanged());
+        }
+        if (isPromptUri(previousUri, workspaceSlug) || isPromptUri(currentUri, workspaceSlug)) {
+          notify(server.server.sendPromptListChanged());
+        }
+        break;
+    }
+  };
+
+  // Events of every workspace are handled one at a time, in order, behind the
+  // membership check, so workspaces joined after the session started are
+  // picked up and workspaces the user was removed from go quiet
+  let pending = Promise.resolve();
+  let stopped = false;
+  const unsubscribe = workspaceEventHub.subscribeAll((event) => {
+    pending = pending
+      .then(async () => {
+        if (stopped) {
+          return;
+        }
+
+        if (!(await getWorkspaceRole(event.workspaceId, userId))) {
+          workspaceSlugs.delete(event.workspaceId);
+          return;
+        }
+
+        let workspaceSlug = workspaceSlugs.get(event.workspaceId);
+        if (workspaceSlug === undefined) {
+          const joined = (await listMemberWorkspaces(userId)).find((workspace) => workspace.id === event.workspaceId);
+          if (!joined) {
+            return;
+          }
+          await loadWorkspace(joined);
+          workspaceSlug = joined.slug;
+        }
+        handleEvent(workspaceSlug, event);
+      })
+      .catch((error) => console.error('Failed to forward workspace change to MCP:', error));
+  });
+
+  return () => {
+    stopped = true;
+    unsubscribe();
+  };
+};
+
+const sessions = new McpSessionStore(getServer, config.mcp.sessionIdleMinutes * 60 * 1000);
+
 // Export the MCP handler wrapped with Better Auth's mcpHandler
 const authBaseUrl = getAuthBaseUrl();
 
@@ -412,9 +1444,25 @@ export const mcpRoute = mcpHandler(
     scopes: ["openid", "profile", "email"],
   },
   async (req: Request, jwt: any) => {
-    // Create a fresh transport and server per request (stateless mode)
+    const userId = getTokenUserId(jwt);
+    if (!userId) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Requests of a session, and initialize requests that start one
+    const sessionResponse = await sessions.handleRequest(req, userId);
+    if (sessionResponse) {
+      return sessionResponse;
+    }
+
+    // Otherwise create a fresh transport and server per request (stateless mode).
+    // A GET request opens the stream for server-initiated notifications, so
+    // its server forwards workspace changes until the client disconnects.
     const transport = new WebStandardStreamableHTTPServerTransport();
-    const server = getServer();
+    const server = getServer(userId, { watchChanges: req.method === 'GET' ? req.signal : undefined });
     await server.connect(transport);
     return transport.handleRequest(req);
   }
@@ -0,0 +1,17 @@
+CREATE TABLE "workspace_invites" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"public_id" text NOT NULL,
+	"workspace_id" integer NOT NULL,
+	"email" text NOT NULL,
+	"role" text NOT NULL,
+	"invited_by_user_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"accepted_at" timestamp,
+	"revoked_at" timestamp,
+	CONSTRAINT "workspace_invites_public_id_unique" UNIQUE("public_id")
+);
+--> statement-breakpoint
+ALTER TABLE "workspace_invites" ADD CONSTRAINT "workspace_invites_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workspace_invites" ADD CONSTRAINT "workspace_invites_invited_by_user_id_user_id_fk" FOREIGN KEY ("invited_by_user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "workspace_invites_workspace_idx" ON "workspace_invites" USING btree ("workspace_id");--> statement-breakpoint
+CREATE INDEX "workspace_invites_email_idx" ON "workspace_invites" USING btree ("email");
\ No newline at end of file
@@ -0,0 +1,14 @@
+-- Full-text index over note name, title and content
+CREATE TABLE "note_search" (
+	"note_id" integer PRIMARY KEY NOT NULL,
+	"search_vector" tsvector NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "note_search" ADD CONSTRAINT "note_search_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "note_search_vector_idx" ON "note_search" USING gin ("search_vector");--> statement-breakpoint
+INSERT INTO "note_search" ("note_id", "search_vector")
+SELECT "id",
+	setweight(to_tsvector('english', coalesce("name", '')), 'A') ||
+	setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+	setweight(to_tsvector('english', coalesce("content", '')), 'B')
+FROM "notes";
@@ -0,0 +1 @@
+ALTER TABLE "notes" ADD COLUMN "deleted_folder_path" text;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "revisions" ALTER COLUMN "content" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "revisions" ADD COLUMN "kind" text DEFAULT 'snapshot' NOT NULL;--> statement-breakpoint
+ALTER TABLE "revisions" ADD COLUMN "base_revision_id" integer;--> statement-breakpoint
+ALTER TABLE "revisions" ADD COLUMN "delta" text;--> statement-breakpoint
+CREATE INDEX "revisions_note_kind_idx" ON "revisions" USING btree ("note_id","kind");
\ No newline at end of file
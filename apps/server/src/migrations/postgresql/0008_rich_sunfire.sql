@@ -0,0 +1,13 @@
+CREATE TABLE "note_links" (
+	"source_note_id" integer NOT NULL,
+	"target" text NOT NULL,
+	"workspace_id" integer NOT NULL,
+	"target_note_id" integer,
+	CONSTRAINT "note_links_source_note_id_target_pk" PRIMARY KEY("source_note_id","target")
+);
+--> statement-breakpoint
+ALTER TABLE "note_links" ADD CONSTRAINT "note_links_source_note_id_notes_id_fk" FOREIGN KEY ("source_note_id") REFERENCES "public"."notes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "note_links" ADD CONSTRAINT "note_links_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "note_links" ADD CONSTRAINT "note_links_target_note_id_notes_id_fk" FOREIGN KEY ("target_note_id") REFERENCES "public"."notes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "note_links_target_idx" ON "note_links" USING btree ("target_note_id");--> statement-breakpoint
+CREATE INDEX "note_links_workspace_idx" ON "note_links" USING btree ("workspace_id");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "note_metadata" (
+	"note_id" integer NOT NULL,
+	"workspace_id" integer NOT NULL,
+	"key" text NOT NULL,
+	"value" text NOT NULL,
+	CONSTRAINT "note_metadata_note_id_key_value_pk" PRIMARY KEY("note_id","key","value")
+);
+--> statement-breakpoint
+ALTER TABLE "note_metadata" ADD CONSTRAINT "note_metadata_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "note_metadata" ADD CONSTRAINT "note_metadata_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "note_metadata_lookup_idx" ON "note_metadata" USING btree ("workspace_id","key","value");
\ No newline at end of file
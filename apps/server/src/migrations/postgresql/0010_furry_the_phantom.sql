@@ -0,0 +1,2 @@
+ALTER TABLE "workspace_invites" ADD COLUMN "token_hash" text;--> statement-breakpoint
+CREATE UNIQUE INDEX "workspace_invites_token_hash_idx" ON "workspace_invites" USING btree ("token_hash");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `workspace_invites` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`public_id` text NOT NULL,
+	`workspace_id` integer NOT NULL,
+	`email` text NOT NULL,
+	`role` text NOT NULL,
+	`invited_by_user_id` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch() * 1000) NOT NULL,
+	`accepted_at` integer,
+	`revoked_at` integer,
+	FOREIGN KEY (`workspace_id`) REFERENCES `workspaces`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`invited_by_user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `workspace_invites_public_id_unique` ON `workspace_invites` (`public_id`);--> statement-breakpoint
+CREATE INDEX `workspace_invites_workspace_idx` ON `workspace_invites` (`workspace_id`);--> statement-breakpoint
+CREATE INDEX `workspace_invites_email_idx` ON `workspace_invites` (`email`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- Full-text index over note name, title and content (rowid = notes.id)
+CREATE VIRTUAL TABLE `notes_fts` USING fts5(`name`, `title`, `content`, tokenize = 'porter unicode61');--> statement-breakpoint
+INSERT INTO `notes_fts` (`rowid`, `name`, `title`, `content`) SELECT `id`, `name`, `title`, `content` FROM `notes`;
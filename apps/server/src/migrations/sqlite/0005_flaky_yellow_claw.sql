@@ -0,0 +1 @@
+ALTER TABLE `notes` ADD `deleted_folder_path` text;
\ No newline at end of file
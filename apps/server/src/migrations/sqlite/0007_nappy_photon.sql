@@ -0,0 +1,22 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_revisions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`workspace_id` integer NOT NULL,
+	`note_id` integer NOT NULL,
+	`author_user_id` text NOT NULL,
+	`kind` text DEFAULT 'snapshot' NOT NULL,
+	`content` text,
+	`base_revision_id` integer,
+	`delta` text,
+	`created_at` integer DEFAULT (unixepoch() * 1000) NOT NULL,
+	FOREIGN KEY (`workspace_id`) REFERENCES `workspaces`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`note_id`) REFERENCES `notes`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`author_user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_revisions`("id", "workspace_id", "note_id", "author_user_id", "content", "created_at") SELECT "id", "workspace_id", "note_id", "author_user_id", "content", "created_at" FROM `revisions`;--> statement-breakpoint
+DROP TABLE `revisions`;--> statement-breakpoint
+ALTER TABLE `__new_revisions` RENAME TO `revisions`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE INDEX `revisions_note_created_idx` ON `revisions` (`note_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `revisions_note_kind_idx` ON `revisions` (`note_id`,`kind`);
\ No newline at end of file
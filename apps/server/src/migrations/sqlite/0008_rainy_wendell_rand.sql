@@ -0,0 +1,13 @@
+CREATE TABLE `note_links` (
+	`source_note_id` integer NOT NULL,
+	`target` text NOT NULL,
+	`workspace_id` integer NOT NULL,
+	`target_note_id` integer,
+	PRIMARY KEY(`source_note_id`, `target`),
+	FOREIGN KEY (`source_note_id`) REFERENCES `notes`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`workspace_id`) REFERENCES `workspaces`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`target_note_id`) REFERENCES `notes`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `note_links_target_idx` ON `note_links` (`target_note_id`);--> statement-breakpoint
+CREATE INDEX `note_links_workspace_idx` ON `note_links` (`workspace_id`);
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `note_metadata` (
+	`note_id` integer NOT NULL,
+	`workspace_id` integer NOT NULL,
+	`key` text NOT NULL,
+	`value` text NOT NULL,
+	PRIMARY KEY(`note_id`, `key`, `value`),
+	FOREIGN KEY (`note_id`) REFERENCES `notes`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`workspace_id`) REFERENCES `workspaces`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `note_metadata_lookup_idx` ON `note_metadata` (`workspace_id`,`key`,`value`);
\ No newline at end of file
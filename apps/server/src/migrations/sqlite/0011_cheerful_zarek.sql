@@ -0,0 +1,5 @@
+ALTER TABLE `workspace_invites` ADD `expires_at` integer;--> statement-breakpoint
+-- Invitation links expire a week after they were created
+UPDATE `workspace_invites` SET `expires_at` = `created_at` + 7 * 24 * 60 * 60 * 1000 WHERE `token_hash` IS NOT NULL;--> statement-breakpoint
+-- Invites from before invitation links have no token and can never be accepted
+UPDATE `workspace_invites` SET `expires_at` = `created_at` WHERE `token_hash` IS NULL;
\ No newline at end of file
@@ -4,6 +4,7 @@ import { and, eq } from "drizzle-orm";
 import { notes } from "@/db/schema";
 import { parseSlug, parsePublicId } from "@/lib/params";
 import { resolveWorkspaceId, resolveNoteId } from "@/lib/resolvers";
+import { checkWorkspaceAccess } from "@/lib/workspace-access";
 import { requireAuth } from "@/routes/middleware/require-auth";
 import type { Variables } from "@/routes/types";
 import { isRecord } from "@/routes/types";
@@ -47,6 +48,11 @@ app.post("/", requireAuth, async (c) => {
     return c.json({ error: "Workspace not found" }, 404);
   }
 
+  const accessError = await checkWorkspaceAccess(workspaceIdValue, session.user.id, "viewer");
+  if (accessError) {
+    return c.json({ error: accessError.error }, accessError.status);
+  }
+
   const noteIdValue = await resolveNoteId(notePublicIdValue);
   if (!noteIdValue) {
     return c.json({ error: "Note not found" }, 404);
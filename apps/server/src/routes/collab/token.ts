@@ -4,6 +4,7 @@ import { and, eq } from "drizzle-orm";
 import { notes } from "@/db/schema";
 import { parseSlug, parsePublicId } from "@/lib/params";
 import { resolveWorkspaceId, resolveNoteId } from "@/lib/resolvers";
+import { getWorkspaceRole, hasWorkspaceRole } from "@/lib/workspace-access";
 import { requireAuth } from "@/routes/middleware/require-auth";
 import type { Variables } from "@/routes/types";
 import { isRecord } from "@/routes/types";
@@ -44,6 +45,11 @@ app.post("/", requireAuth, async (c) => {
     return c.json({ error: "Workspace not found" }, 404);
   }
 
+  const role = await getWorkspaceRole(workspaceIdValue, session.user.id);
+  if (!role) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
   const noteIdValue = await resolveNoteId(notePublicIdValue);
   if (!noteIdValue) {
     return c.json({ error: "Note not found" }, 404);
@@ -66,6 +72,8 @@ app.post("/", requireAuth, async (c) => {
     notePublicId: notePublicIdValue,
     noteId: noteIdValue,
     userId: session.user.id,
+    // Viewers may follow live edits but their document updates are dropped
+    readOnly: !hasWorkspaceRole(role, "editor"),
   })
     .setProtectedHeader({ alg: "HS256" })
     .setIssuedAt(now)
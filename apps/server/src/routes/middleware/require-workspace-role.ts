@@ -0,0 +1,35 @@
+import type { Context, Next } from "hono";
+import { parseSlug } from "@/lib/params";
+import { resolveWorkspaceId } from "@/lib/resolvers";
+import { getWorkspaceRole, hasWorkspaceRole, type WorkspaceRole } from "@/lib/workspace-access";
+import type { Variables } from "@/routes/types";
+
+/**
+ * Require the signed-in user to hold at least `required` in the workspace
+ * identified by the :workspaceSlug route param. Must run after requireAuth.
+ */
+export const requireWorkspaceRole = (required: WorkspaceRole) =>
+  async (c: Context<{ Variables: Variables }>, next: Next) => {
+    const workspaceSlug = parseSlug(c.req.param("workspaceSlug") ?? "");
+    if (!workspaceSlug) {
+      return c.json({ error: "Invalid workspace slug" }, 400);
+    }
+
+    const workspaceId = await resolveWorkspaceId(workspaceSlug);
+    if (!workspaceId) {
+      return c.json({ error: "Workspace not found" }, 404);
+    }
+
+    // Non-members get a 404 so that workspace existence is not leaked
+    const role = await getWorkspaceRole(workspaceId, c.get("session").user.id);
+    if (!role) {
+      return c.json({ error: "Workspace not found" }, 404);
+    }
+
+    if (!hasWorkspaceRole(role, required)) {
+      return c.json({ error: `This action requires the ${required} role` }, 403);
+    }
+
+    c.set("workspaceRole", role);
+    await next();
+  };
@@ -2,7 +2,10 @@ import { Hono } from "hono";
 import { createRemoteJWKSet, jwtVerify } from "jose";
 import { parseSlug, parsePublicId } from "@/lib/params";
 import { resolveWorkspaceId, resolveNoteId } from "@/lib/resolvers";
+import { searchNotes } from "@/lib/search";
+import { NoteQueryError, parseNoteQueryInput, queryNotes } from "@/lib/note-query";
 import { getAuthBaseUrl } from "@/lib/auth-utils";
+import { checkWorkspaceAccess, getTokenUserId } from "@/lib/workspace-access";
 import { getWorkspaceTree, type FolderNode, type WorkspaceTree } from "@/lib/workspace-tree";
 import {
   type NoteSummary,
@@ -11,29 +14,30 @@ import {
   transformFolderTree,
   transformWorkspaceTree,
 } from "@/lib/workspace-tree-transform";
-import { db, dialect } from "@/db";
+import { db } from "@/db";
+import { loadNoteMetadata } from "@/lib/frontmatter";
+import { getLatestRevisionId } from "@/lib/revision-store";
+import { StaleRevisionError } from "@/lib/revision-conflicts";
+import { BatchConflictError, batchWriteInWorkspace } from "@/lib/batch-write";
 import { notes, folders } from "@/db/schema";
-import { and, eq, ilike, or, asc, sql, isNull } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import {
   createFolderInWorkspace,
   createNoteInWorkspace,
   updateNoteContentInWorkspace,
+  deleteNoteInWorkspace,
+  restoreNoteInWorkspace,
+  deleteFolderInWorkspace,
+  moveNoteInWorkspace,
+  renameNoteInWorkspace,
+  moveFolderInWorkspace,
+  renameFolderInWorkspace,
   ValidationError,
   NotFoundError,
   DuplicateError,
+  ForbiddenError,
 } from "@/lib/write-operations";
 
-
-/**
- * Case-insensitive LIKE that works with both PostgreSQL and SQLite
- */
-function caseInsensitiveLike(column: unknown, pattern: string) {
-  if (dialect === "sqlite") {
-    return sql`LOWER(${column}) LIKE LOWER(${pattern})`;
-  }
-  return ilike(column as any, pattern);
-}
-
 // Create JWKS function
 let jwksFunction: ReturnType<typeof createRemoteJWKSet> | null = null;
 
@@ -80,7 +84,8 @@ const skillApp = new Hono();
 skillApp.post("/workspace-tree", async (c) => {
   // Verify JWT Bearer token
   const payload = await verifyBearerToken(c.req.raw);
-  if (!payload) {
+  const userId = getTokenUserId(payload);
+  if (!userId) {
     return c.json({ error: "Unauthorized" }, 401);
   }
 
@@ -104,6 +109,11 @@ skillApp.post("/workspace-tree", async (c) => {
     return c.json({ error: "Workspace not found" }, 404);
   }
 
+  const accessError = await checkWorkspaceAccess(workspaceId, userId, "viewer");
+  if (accessError) {
+    return c.json({ error: accessError.error }, accessError.status);
+  }
+
   // Get workspace tree
   const tree = await getWorkspaceTree(workspaceId);
   if (!tree) {
@@ -119,7 +129,8 @@ skillApp.post("/workspace-tree", async (c) => {
 skillApp.post("/search-notes", async (c) => {
   // Verify JWT Bearer token
   const payload = await verifyBearerToken(c.req.raw);
-  if (!payload) {
+  const userId = getTokenUserId(payload);
+  if (!userId) {
     return c.json({ error: "Unauthorized" }, 401);
   }
 
@@ -151,6 +162,11 @@ skillApp.post("/search-notes", async (c) => {
     return c.json({ error: "Workspace not found" }, 404);
   }
 
+  const accessError = await checkWorkspaceAccess(workspaceId, userId, "viewer");
+  if (accessError) {
+    return c.json({ error: accessError.error }, accessError.status);
+  }
+
   // Validate limit parameter
   let searchLimit = 20;
   if (limit !== undefined && limit !== null) {
@@ -163,45 +179,73 @@ skillApp.post("/search-notes", async (c) => {
     searchLimit = limit;
   }
 
-  // Perform search
-  const pattern = `%${query.trim()}%`;
-
-  const rows = await db
-    .select({
-      id: notes.id,
-      publicId: notes.publicId,
-      name: notes.name,
-      title: notes.title,
-      folderId: notes.folderId,
-      folderPublicId: folders.publicId,
-    })
-    .from(notes)
-    .leftJoin(folders, eq(notes.folderId, folders.id))
-    .where(
-      and(
-        eq(notes.workspaceId, workspaceId),
-        isNull(notes.deletedAt),
-        or(caseInsensitiveLike(notes.title, pattern), caseInsensitiveLike(notes.name, pattern))
-      )
-    )
-    .orderBy(asc(notes.title))
-    .limit(searchLimit);
-
-  const matches = rows.map((row) => ({
-    publicId: row.publicId,
-    name: row.name,
-    title: row.title,
-    folderPublicId: row.folderPublicId ?? null,
+  // Perform full-text search
+  const results = await searchNotes(workspaceId, query, { limit: searchLimit });
+
+  const matches = results.map((result) => ({
+    publicId: result.publicId,
+    name: result.name,
+    title: result.title,
+    folderPublicId: result.folderPublicId,
+    score: result.score,
+    snippet: result.snippet,
+    lines: result.lines,
   }));
 
   return c.json({ matches });
 });
 
+// POST /api/skill/query-notes
+skillApp.post("/query-notes", async (c) => {
+  // Verify JWT Bearer token
+  const payload = await verifyBearerToken(c.req.raw);
+  const userId = getTokenUserId(payload);
+  if (!userId) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  // Parse request body
+  const body = (await c.req.json()) as Record<string, unknown>;
+  const { workspaceSlug } = body;
+
+  if (!workspaceSlug || typeof workspaceSlug !== "string") {
+    return c.json({ error: "Invalid workspace slug" }, 400);
+  }
+
+  // Validate slug
+  const slugValue = parseSlug(workspaceSlug);
+  if (!slugValue) {
+    return c.json({ error: "Invalid workspace slug" }, 400);
+  }
+
+  // Resolve workspace ID
+  const workspaceId = await resolveWorkspaceId(slugValue);
+  if (!workspaceId) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const accessError = await checkWorkspaceAccess(workspaceId, userId, "viewer");
+  if (accessError) {
+    return c.json({ error: accessError.error }, accessError.status);
+  }
+
+  try {
+    const result = await queryNotes(workspaceId, parseNoteQueryInput(body));
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof NoteQueryError) {
+      return c.json({ error: error.message }, 400);
+    }
+    throw error;
+  }
+});
+
 // POST /api/skill/note-by-id
 skillApp.post("/note-by-id", async (c) => {
   // Verify JWT Bearer token
   const payload = await verifyBearerToken(c.req.raw);
-  if (!payload) {
+  const userId = getTokenUserId(payload);
+  if (!userId) {
     return c.json({ error: "Unauthorized" }, 401);
   }
 
@@ -232,6 +276,11 @@ skillApp.post("/note-by-id", async (c) => {
     return c.json({ error: "Workspace not found" }, 404);
   }
 
+  const accessError = await checkWorkspaceAccess(workspaceId, userId, "viewer");
+  if (accessError) {
+    return c.json({ error: accessError.error }, accessError.status);
+  }
+
   // Validate and parse note public ID
   const notePublicIdValue = parsePublicId(notePublicId);
   if (!notePublicIdValue) {
@@ -273,6 +322,8 @@ skillApp.post("/note-by-id", async (c) => {
     content: row.content,
     folderPublicId: row.folderPublicId ?? null,
     updatedAt: row.updatedAt.toISOString(),
+    revisionId: await getLatestRevisionId(row.id),
+    metadata: await loadNoteMetadata(row.id),
   };
 
   return c.json({ note: result });
@@ -281,7 +332,8 @@ skillApp.post("/note-by-id", async (c) => {
 // POST /api/skill/create-folder
 skillApp.post("/create-folder", async (c) => {
   const payload = await verifyBearerToken(c.req.raw);
-  if (!payload) {
+  const userId = getTokenUserId(payload);
+  if (!userId) {
     return c.json({ error: "Unauthorized" }, 401);
   }
 
@@ -291,6 +343,7 @@ skillApp.post("/create-folder", async (c) => {
   try {
     const result = await createFolderInWorkspace({
       workspaceSlug,
+      userId,
       name,
       displayName,
       parentPublicId,
@@ -300,6 +353,9 @@ skillApp.post("/create-folder", async (c) => {
     if (error instanceof ValidationError) {
       return c.json({ error: error.message }, 400);
     }
+    if (error instanceof ForbiddenError) {
+      return c.json({ error: error.message }, 403);
+    }
     if (error instanceof NotFoundError) {
       return c.json({ error: error.message }, 404);
     }
@@ -313,7 +369,8 @@ skillApp.post("/create-folder", async (c) => {
 // POST /api/skill/create-note
 skillApp.post("/create-note", async (c) => {
   const payload = await verifyBearerToken(c.req.raw);
-  if (!payload) {
+  const userId = getTokenUserId(payload);
+  if (!userId) {
     return c.json({ error: "Unauthorized" }, 401);
   }
 
@@ -323,6 +380,7 @@ skillApp.post("/create-note", async (c) => {
   try {
     const result = await createNoteInWorkspace({
       workspaceSlug,
+      userId,
       name,
       title,
       folderPublicId,
@@ -333,6 +391,9 @@ skillApp.post("/create-note", async (c) => {
     if (error instanceof ValidationError) {
       return c.json({ error: error.message }, 400);
     }
+    if (error instanceof ForbiddenError) {
+      return c.json({ error: error.message }, 403);
+    }
     if (error instanceof NotFoundError) {
       return c.json({ error: error.message }, 404);
     }
@@ -346,24 +407,73 @@ skillApp.post("/create-note", async (c) => {
 // POST /api/skill/update-note-content
 skillApp.post("/update-note-content", async (c) => {
   const payload = await verifyBearerToken(c.req.raw);
-  if (!payload) {
+  const userId = getTokenUserId(payload);
+  if (!userId) {
     return c.json({ error: "Unauthorized" }, 401);
   }
 
   const body = await c.req.json();
-  const { workspaceSlug, notePublicId, content } = body;
+  const { workspaceSlug, notePublicId, content, expectedRevisionId } = body;
+
+  if (
+    expectedRevisionId !== undefined &&
+    expectedRevisionId !== null &&
+    (typeof expectedRevisionId !== "number" || !Number.isInteger(expectedRevisionId) || expectedRevisionId < 1)
+  ) {
+    return c.json({ error: "Invalid expectedRevisionId" }, 400);
+  }
 
   try {
     const result = await updateNoteContentInWorkspace({
       workspaceSlug,
+      userId,
       notePublicId,
       content,
+      expectedRevisionId,
+    });
+    return c.json({ note: result });
+  } catch (error) {
+    if (error instanceof StaleRevisionError) {
+      return c.json({ error: error.message, conflict: error.conflict }, 409);
+    }
+    if (error instanceof ValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
+    if (error instanceof ForbiddenError) {
+      return c.json({ error: error.message }, 403);
+    }
+    if (error instanceof NotFoundError) {
+      return c.json({ error: error.message }, 404);
+    }
+    throw error;
+  }
+});
+
+// POST /api/skill/delete-note
+skillApp.post("/delete-note", async (c) => {
+  const payload = await verifyBearerToken(c.req.raw);
+  const userId = getTokenUserId(payload);
+  if (!userId) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const body = await c.req.json();
+  const { workspaceSlug, notePublicId } = body;
+
+  try {
+    const result = await deleteNoteInWorkspace({
+      workspaceSlug,
+      userId,
+      notePublicId,
     });
     return c.json({ note: result });
   } catch (error) {
     if (error instanceof ValidationError) {
       return c.json({ error: error.message }, 400);
     }
+    if (error instanceof ForbiddenError) {
+      return c.json({ error: error.message }, 403);
+    }
     if (error instanceof NotFoundError) {
       return c.json({ error: error.message }, 404);
     }
@@ -371,5 +481,253 @@ skillApp.post("/update-note-content", async (c) => {
   }
 });
 
+// POST /api/skill/restore-note
+skillApp.post("/restore-note", async (c) => {
+  const payload = await verifyBearerToken(c.req.raw);
+  const userId = getTokenUserId(payload);
+  if (!userId) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const body = await c.req.json();
+  const { workspaceSlug, notePublicId } = body;
+
+  try {
+    const result = await restoreNoteInWorkspace({
+      workspaceSlug,
+      userId,
+      notePublicId,
+    });
+    return c.json({ note: result });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
+    if (error instanceof ForbiddenError) {
+      return c.json({ error: error.message }, 403);
+    }
+    if (error instanceof NotFoundError) {
+      return c.json({ error: error.message }, 404);
+    }
+    throw error;
+  }
+});
+
+// POST /api/skill/delete-folder
+skillApp.post("/delete-folder", async (c) => {
+  const payload = await verifyBearerToken(c.req.raw);
+  const userId = getTokenUserId(payload);
+  if (!userId) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const body = await c.req.json();
+  const { workspaceSlug, folderPublicId } = body;
+
+  try {
+    const result = await deleteFolderInWorkspace({
+      workspaceSlug,
+      userId,
+      folderPublicId,
+    });
+    return c.json({ folder: result });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
+    if (error instanceof ForbiddenError) {
+      return c.json({ error: error.message }, 403);
+    }
+    if (error instanceof NotFoundError) {
+      return c.json({ error: error.message }, 404);
+    }
+    throw error;
+  }
+});
+
+// POST /api/skill/move-note
+skillApp.post("/move-note", async (c) => {
+  const payload = await verifyBearerToken(c.req.raw);
+  const userId = getTokenUserId(payload);
+  if (!userId) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const body = await c.req.json();
+  const { workspaceSlug, notePublicId, folderPublicId } = body;
+
+  try {
+    const result = await moveNoteInWorkspace({
+      workspaceSlug,
+      userId,
+      notePublicId,
+      folderPublicId,
+    });
+    return c.json({ note: result });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
+    if (error instanceof ForbiddenError) {
+      return c.json({ error: error.message }, 403);
+    }
+    if (error instanceof NotFoundError) {
+      return c.json({ error: error.message }, 404);
+    }
+    if (error instanceof DuplicateError) {
+      return c.json({ error: error.message }, 409);
+    }
+    throw error;
+  }
+});
+
+// POST /api/skill/rename-note
+skillApp.post("/rename-note", async (c) => {
+  const payload = await verifyBearerToken(c.req.raw);
+  const userId = getTokenUserId(payload);
+  if (!userId) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const body = await c.req.json();
+  const { workspaceSlug, notePublicId, name, title } = body;
+
+  try {
+    const result = await renameNoteInWorkspace({
+      workspaceSlug,
+      userId,
+      notePublicId,
+      name,
+      title,
+    });
+    return c.json({ note: result });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
+    if (error instanceof ForbiddenError) {
+      return c.json({ error: error.message }, 403);
+    }
+    if (error instanceof NotFoundError) {
+      return c.json({ error: error.message }, 404);
+    }
+    if (error instanceof DuplicateError) {
+      return c.json({ error: error.message }, 409);
+    }
+    throw error;
+  }
+});
+
+// POST /api/skill/move-folder
+skillApp.post("/move-folder", async (c) => {
+  const payload = await verifyBearerToken(c.req.raw);
+  const userId = getTokenUserId(payload);
+  if (!userId) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const body = await c.req.json();
+  const { workspaceSlug, folderPublicId, parentPublicId } = body;
+
+  try {
+    const result = await moveFolderInWorkspace({
+      workspaceSlug,
+      userId,
+      folderPublicId,
+      parentPublicId,
+    });
+    return c.json({ folder: result });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
+    if (error instanceof ForbiddenError) {
+      return c.json({ error: error.message }, 403);
+    }
+    if (error instanceof NotFoundError) {
+      return c.json({ error: error.message }, 404);
+    }
+    if (error instanceof DuplicateError) {
+      return c.json({ error: error.message }, 409);
+    }
+    throw error;
+  }
+});
+
+// POST /api/skill/rename-folder
+skillApp.post("/rename-folder", async (c) => {
+  const payload = await verifyBearerToken(c.req.raw);
+  const userId = getTokenUserId(payload);
+  if (!userId) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const body = await c.req.json();
+  const { workspaceSlug, folderPublicId, name, displayName } = body;
+
+  try {
+    const result = await renameFolderInWorkspace({
+      workspaceSlug,
+      userId,
+      folderPublicId,
+      name,
+      displayName,
+    });
+    return c.json({ folder: result });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
+    if (error instanceof ForbiddenError) {
+      return c.json({ error: error.message }, 403);
+    }
+    if (error instanceof NotFoundError) {
+      return c.json({ error: error.message }, 404);
+    }
+    if (error instanceof DuplicateError) {
+      return c.json({ error: error.message }, 409);
+    }
+    throw error;
+  }
+});
+
+// POST /api/skill/batch
+skillApp.post("/batch", async (c) => {
+  const payload = await verifyBearerToken(c.req.raw);
+  const userId = getTokenUserId(payload);
+  if (!userId) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const body = await c.req.json();
+  const { workspaceSlug, operations } = body;
+
+  try {
+    const result = await batchWriteInWorkspace({
+      workspaceSlug,
+      userId,
+      operations,
+    });
+    return c.json({ batch: result });
+  } catch (error) {
+    if (error instanceof StaleRevisionError) {
+      return c.json({ error: error.message, conflict: error.conflict }, 409);
+    }
+    if (error instanceof ValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
+    if (error instanceof ForbiddenError) {
+      return c.json({ error: error.message }, 403);
+    }
+    if (error instanceof NotFoundError) {
+      return c.json({ error: error.message }, 404);
+    }
+    if (error instanceof DuplicateError || error instanceof BatchConflictError) {
+      return c.json({ error: error.message }, 409);
+    }
+    throw error;
+  }
+});
+
 export { skillApp };
 export default skillApp;
@@ -3,6 +3,7 @@ import { parseSlug } from "@/lib/params";
 import { resolveWorkspaceId } from "@/lib/resolvers";
 import { workspaceEventHub } from "@/lib/sse-hub";
 import { verifyBearerToken } from "@/lib/auth-utils";
+import { checkWorkspaceAccess, getTokenUserId } from "@/lib/workspace-access";
 
 const eventsApp = new Hono();
 
@@ -17,7 +18,8 @@ const eventsApp = new Hono();
 eventsApp.get("/", async (c) => {
   // Verify JWT Bearer token
   const payload = await verifyBearerToken(c.req.raw);
-  if (!payload) {
+  const userId = getTokenUserId(payload);
+  if (!userId) {
     return c.json({ error: "Unauthorized" }, 401);
   }
 
@@ -36,6 +38,11 @@ eventsApp.get("/", async (c) => {
     return c.json({ error: "Workspace not found" }, 404);
   }
 
+  const accessError = await checkWorkspaceAccess(workspaceIdValue, userId, "viewer");
+  if (accessError) {
+    return c.json({ error: accessError.error }, accessError.status);
+  }
+
   const encoder = new TextEncoder();
   const request = c.req.raw;
 
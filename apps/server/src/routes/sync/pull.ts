@@ -4,6 +4,7 @@ import { notes, folders } from "@/db/schema";
 import { parseSlug } from "@/lib/params";
 import { resolveWorkspaceId } from "@/lib/resolvers";
 import { verifyBearerToken } from "@/lib/auth-utils";
+import { checkWorkspaceAccess, getTokenUserId } from "@/lib/workspace-access";
 import { db } from "@/db";
 
 const pullApp = new Hono();
@@ -83,13 +84,15 @@ async function buildFolderPath(
  *   notes: RemoteNote[],
  *   deleted: { publicId: string, deletedAt: string }[],
  *   folders: RemoteFolder[],
+ *   deletedFolders: { publicId: string, folderPath: string, deletedAt: string }[],
  *   syncTimestamp: string
  * }
  */
 pullApp.get("/", async (c) => {
   // Verify JWT Bearer token
   const payload = await verifyBearerToken(c.req.raw);
-  if (!payload) {
+  const userId = getTokenUserId(payload);
+  if (!userId) {
     return c.json({ error: "Unauthorized" }, 401);
   }
 
@@ -110,6 +113,11 @@ pullApp.get("/", async (c) => {
     return c.json({ error: "Workspace not found" }, 404);
   }
 
+  const accessError = await checkWorkspaceAccess(workspaceIdValue, userId, "viewer");
+  if (accessError) {
+    return c.json({ error: accessError.error }, accessError.status);
+  }
+
   // Parse the since timestamp if provided
   let since: Date | null = null;
   if (sinceParam) {
@@ -123,6 +131,7 @@ pullApp.get("/", async (c) => {
   let noteRows;
   let folderRows;
   let deletedNoteRows;
+  let deletedFolderRows;
 
   if (since) {
     // Query notes where updatedAt > since (exclude soft-deleted notes)
@@ -131,11 +140,11 @@ pullApp.get("/", async (c) => {
       .from(notes)
       .where(and(eq(notes.workspaceId, workspaceIdValue), gt(notes.updatedAt, since), isNull(notes.deletedAt)));
 
-    // Query folders where updatedAt > since
+    // Query folders where updatedAt > since (exclude soft-deleted folders)
     folderRows = await db
       .select()
       .from(folders)
-      .where(and(eq(folders.workspaceId, workspaceIdValue), gt(folders.updatedAt, since)));
+      .where(and(eq(folders.workspaceId, workspaceIdValue), gt(folders.updatedAt, since), isNull(folders.deletedAt)));
 
     // Query deleted notes where deletedAt > since
     deletedNoteRows = await db
@@ -148,6 +157,18 @@ pullApp.get("/", async (c) => {
           gt(notes.deletedAt, since)
         )
       );
+
+    // Query deleted folders where deletedAt > since
+    deletedFolderRows = await db
+      .select({ id: folders.id, publicId: folders.publicId, deletedAt: folders.deletedAt })
+      .from(folders)
+      .where(
+        and(
+          eq(folders.workspaceId, workspaceIdValue),
+          isNotNull(folders.deletedAt),
+          gt(folders.deletedAt, since)
+        )
+      );
   } else {
     // Return all notes and folders in workspace (exclude soft-deleted notes)
     noteRows = await db
@@ -158,7 +179,7 @@ pullApp.get("/", async (c) => {
     folderRows = await db
       .select()
       .from(folders)
-      .where(eq(folders.workspaceId, workspaceIdValue));
+      .where(and(eq(folders.workspaceId, workspaceIdValue), isNull(folders.deletedAt)));
 
     // Return all deleted notes in workspace
     deletedNoteRows = await db
@@ -170,6 +191,17 @@ pullApp.get("/", async (c) => {
           isNotNull(notes.deletedAt)
         )
       );
+
+    // Return all deleted folders in workspace
+    deletedFolderRows = await db
+      .select({ id: folders.id, publicId: folders.publicId, deletedAt: folders.deletedAt })
+      .from(folders)
+      .where(
+        and(
+          eq(folders.workspaceId, workspaceIdValue),
+          isNotNull(folders.deletedAt)
+        )
+      );
   }
 
   // Build folder paths for each note
@@ -228,10 +260,22 @@ pullApp.get("/", async (c) => {
       deletedAt: new Date(note.deletedAt!).toISOString(),
     }));
 
+  // Build deleted folders list; the path lets clients find folders they never tracked by ID
+  const deletedFolders = await Promise.all(
+    deletedFolderRows
+      .filter((folder) => folder.deletedAt !== null)
+      .map(async (folder) => ({
+        publicId: folder.publicId,
+        folderPath: await buildFolderPath(folder.id, workspaceIdValue, db),
+        deletedAt: new Date(folder.deletedAt!).toISOString(),
+      }))
+  );
+
   const response = {
     notes: remoteNotes,
     deleted: deletedNotes,
     folders: remoteFolders,
+    deletedFolders,
     syncTimestamp: new Date().toISOString(),
   };
 
@@ -1,15 +1,21 @@
 import { Hono } from "hono";
-import { eq, and, isNull, type SQL } from "drizzle-orm";
+import { eq, and, isNull } from "drizzle-orm";
 import { createId } from "@paralleldrive/cuid2";
-import { notes, folders, revisions } from "@/db/schema";
+import { notes, folders } from "@/db/schema";
 import { parseSlug, parsePublicId } from "@/lib/params";
-import { resolveWorkspaceId } from "@/lib/resolvers";
+import { resolveWorkspaceId, buildNoteFolderPath } from "@/lib/resolvers";
+import { resolveFolderIdFromPath } from "@/lib/note-paths";
+import { trashFolder, trashNotes } from "@/lib/trash";
 import { verifyBearerToken } from "@/lib/auth-utils";
+import { checkWorkspaceAccess, getTokenUserId } from "@/lib/workspace-access";
 import { db } from "@/db";
 import { isValidFolderName } from "@/lib/folder-name";
 import { isRecord } from "@/routes/types";
 import { workspaceEventHub } from "@/lib/sse-hub";
-import { buildNoteFolderPath } from "@/routes/workspaces/note-content";
+import { insertRevision } from "@/lib/revision-store";
+import { updateNoteSearchIndex } from "@/lib/search";
+import { findBacklinks, refreshNoteLinks, refreshWorkspaceLinks, relinkBacklinks } from "@/lib/note-links";
+import { refreshNoteMetadata } from "@/lib/frontmatter";
 import { pushExternalUpdateToRoom } from "@/collab-ws/checkpoints";
 
 const pushApp = new Hono();
@@ -39,6 +45,13 @@ interface SyncPushChangeDelete {
   publicId: string;
 }
 
+interface SyncPushChangeMove {
+  type: "move";
+  publicId: string;
+  name: string;
+  folderPath?: string | null;
+}
+
 interface SyncPushChangeFolderCreate {
   type: "folder.create";
   name: string;
@@ -54,6 +67,7 @@ type SyncPushChange =
   | SyncPushChangeCreate
   | SyncPushChangeUpdate
   | SyncPushChangeDelete
+  | SyncPushChangeMove
   | SyncPushChangeFolderCreate
   | SyncPushChangeFolderDelete;
 
@@ -95,81 +109,6 @@ interface SyncPushResponse {
   errors: ErrorItem[];
 }
 
-/**
- * Resolve folder ID from folder path
- * Creates intermediate folders if they don't exist
- */
-async function resolveFolderIdFromPath(
-  folderPath: string | undefined,
-  workspaceId: number,
-  dbClient: typeof db
-): Promise<number | null> {
-  if (!folderPath || folderPath === "") {
-    return null;
-  }
-
-  const pathParts = folderPath.split("/").filter(Boolean);
-  if (pathParts.length === 0) {
-    return null;
-  }
-
-  let parentId: number | null = null;
-  let currentFolderId: number | null = null;
-
-  for (const part of pathParts) {
-    if (!isValidFolderName(part)) {
-      // Invalid folder name, skip
-      continue;
-    }
-
-    // Try to find existing folder
-    const folderFilter: SQL = parentId === null
-      ? and(
-          eq(folders.workspaceId, workspaceId),
-          eq(folders.name, part),
-          isNull(folders.parentId)
-        )!
-      : and(
-          eq(folders.workspaceId, workspaceId),
-          eq(folders.name, part),
-          eq(folders.parentId, parentId)
-        )!;
-
-    const existingFolder: Array<{ id: number; name: string; parentId: number | null }> = await dbClient
-      .select({
-        id: folders.id,
-        name: folders.name,
-        parentId: folders.parentId,
-      })
-      .from(folders)
-      .where(folderFilter)
-      .limit(1);
-
-    if (existingFolder[0]) {
-      currentFolderId = existingFolder[0].id;
-    } else {
-      // Create the folder
-      const inserted: Array<{ id: number }> = await dbClient
-        .insert(folders)
-        .values({
-          workspaceId,
-          parentId,
-          name: part,
-          displayName: part,
-        })
-        .returning({
-          id: folders.id,
-        });
-
-      currentFolderId = inserted[0]!.id;
-    }
-
-    parentId = currentFolderId;
-  }
-
-  return currentFolderId;
-}
-
 /**
  * POST /api/sync/push - Push local changes to remote
  *
@@ -177,7 +116,7 @@ async function resolveFolderIdFromPath(
  * {
  *   workspaceSlug: string,
  *   changes: Array<{
- *     type: "create" | "update" | "delete",
+ *     type: "create" | "update" | "delete" | "move",
  *     name?: string,
  *     title?: string,
  *     content?: string,
@@ -199,7 +138,8 @@ async function resolveFolderIdFromPath(
 pushApp.post("/", async (c) => {
   // Verify JWT Bearer token
   const payload = await verifyBearerToken(c.req.raw);
-  if (!payload) {
+  const userId = getTokenUserId(payload);
+  if (!userId) {
     return c.json({ error: "Unauthorized" }, 401);
   }
 
@@ -232,6 +172,11 @@ pushApp.post("/", async (c) => {
     return c.json({ error: "Workspace not found" }, 404);
   }
 
+  const accessError = await checkWorkspaceAccess(workspaceIdValue, userId, "editor");
+  if (accessError) {
+    return c.json({ error: accessError.error }, accessError.status);
+  }
+
   // Process each change
   const accepted: AcceptedItem[] = [];
   const created: CreatedItem[] = [];
@@ -295,6 +240,9 @@ pushApp.post("/", async (c) => {
           });
 
         const inserted = insertedRows[0]!;
+        await updateNoteSearchIndex(inserted.id);
+        await refreshNoteLinks(inserted.id);
+        await refreshNoteMetadata(inserted.id);
 
         created.push({
           tempId,
@@ -364,7 +312,13 @@ pushApp.post("/", async (c) => {
             updatedAt: notes.updatedAt,
           })
           .from(notes)
-          .where(and(eq(notes.publicId, publicIdValue), isNull(notes.deletedAt)))
+          .where(
+            and(
+              eq(notes.publicId, publicIdValue),
+              eq(notes.workspaceId, workspaceIdValue),
+              isNull(notes.deletedAt)
+            )
+          )
           .limit(1);
 
         if (!existingNote[0]) {
@@ -394,7 +348,7 @@ pushApp.post("/", async (c) => {
         const folderIdValue = await resolveFolderIdFromPath(folderPath, workspaceIdValue, db);
 
         // Create a revision record for history tracking
-        await db.insert(revisions).values({
+        await insertRevision({
           workspaceId: workspaceIdValue,
           noteId: noteId,
           authorUserId: "sync", // Use "sync" to identify sync-pushed changes
@@ -413,6 +367,9 @@ pushApp.post("/", async (c) => {
             updatedAt: new Date(),
           })
           .where(eq(notes.id, noteId));
+        await updateNoteSearchIndex(noteId);
+        await refreshNoteLinks(noteId);
+        await refreshNoteMetadata(noteId);
 
         // Push update to Yjs collaboration room if active
         // This ensures connected users see the sync update in real-time
@@ -451,6 +408,86 @@ pushApp.post("/", async (c) => {
             updatedAt: new Date().toISOString(),
           },
         });
+      } else if (changeType === "move") {
+        // Process move change: a renamed or moved file keeps its note, revisions and blame
+        const publicIdRaw = changeRaw.publicId as string | undefined;
+        const name = typeof changeRaw.name === "string" ? changeRaw.name.trim() : "";
+        const folderPath = typeof changeRaw.folderPath === "string" ? changeRaw.folderPath : undefined;
+
+        if (!publicIdRaw) {
+          errors.push({ error: "publicId is required for move" });
+          continue;
+        }
+
+        if (!name || !isValidFolderName(name)) {
+          errors.push({
+            publicId: publicIdRaw,
+            error: "Note name must be kebab-case, camelCase, snake_case, or PascalCase",
+          });
+          continue;
+        }
+
+        const publicIdValue = parsePublicId(publicIdRaw);
+        if (!publicIdValue) {
+          errors.push({ publicId: publicIdRaw, error: "Invalid publicId" });
+          continue;
+        }
+
+        // Find the note (exclude soft-deleted notes)
+        const existingNote = await db
+          .select({ id: notes.id, title: notes.title, content: notes.content })
+          .from(notes)
+          .where(
+            and(
+              eq(notes.publicId, publicIdValue),
+              eq(notes.workspaceId, workspaceIdValue),
+              isNull(notes.deletedAt)
+            )
+          )
+          .limit(1);
+
+        if (!existingNote[0]) {
+          errors.push({ publicId: publicIdRaw, error: "Note not found" });
+          continue;
+        }
+
+        const noteId = existingNote[0].id;
+        const folderIdValue = await resolveFolderIdFromPath(folderPath, workspaceIdValue, db);
+        const backlinks = await findBacklinks(noteId);
+
+        const updatedRows = await db
+          .update(notes)
+          .set({ name, folderId: folderIdValue, updatedAt: new Date() })
+          .where(eq(notes.id, noteId))
+          .returning({ updatedAt: notes.updatedAt });
+        await updateNoteSearchIndex(noteId);
+
+        // Point links to the old path at the new one
+        await relinkBacklinks(workspaceIdValue, noteId, backlinks, userId);
+
+        accepted.push({
+          publicId: publicIdRaw,
+          status: "moved",
+        });
+
+        const movedFolderPath = folderIdValue
+          ? await buildNoteFolderPath(folderIdValue, workspaceIdValue, db)
+          : null;
+
+        workspaceEventHub.publish({
+          workspaceId: workspaceIdValue,
+          type: "note.updated",
+          data: {
+            id: noteId,
+            publicId: publicIdRaw,
+            name,
+            title: existingNote[0].title,
+            content: existingNote[0].content ?? "",
+            folderId: folderIdValue,
+            folderPath: movedFolderPath,
+            updatedAt: updatedRows[0]!.updatedAt.toISOString(),
+          },
+        });
       } else if (changeType === "delete") {
         // Process delete change
         const publicIdRaw = changeRaw.publicId as string | undefined;
@@ -470,7 +507,7 @@ pushApp.post("/", async (c) => {
         const existingNote = await db
           .select({ id: notes.id })
           .from(notes)
-          .where(eq(notes.publicId, publicIdValue))
+          .where(and(eq(notes.publicId, publicIdValue), eq(notes.workspaceId, workspaceIdValue)))
           .limit(1);
 
         if (!existingNote[0]) {
@@ -480,11 +517,8 @@ pushApp.post("/", async (c) => {
 
         const noteId = existingNote[0].id;
 
-        // Soft delete: mark note as deleted instead of hard deleting
-        await db
-          .update(notes)
-          .set({ deletedAt: new Date() })
-          .where(eq(notes.id, noteId));
+        // Soft delete: move the note to the trash instead of hard deleting
+        await trashNotes(workspaceIdValue, [noteId], db);
 
         accepted.push({
           publicId: publicIdRaw,
@@ -530,7 +564,8 @@ pushApp.post("/", async (c) => {
             and(
               eq(folders.workspaceId, workspaceIdValue),
               eq(folders.name, name),
-              parentId ? eq(folders.parentId, parentId) : isNull(folders.parentId)
+              parentId ? eq(folders.parentId, parentId) : isNull(folders.parentId),
+              isNull(folders.deletedAt)
             )
           )
           .limit(1);
@@ -594,7 +629,13 @@ pushApp.post("/", async (c) => {
         const folder = await db
           .select({ id: folders.id })
           .from(folders)
-          .where(eq(folders.publicId, publicIdValue))
+          .where(
+            and(
+              eq(folders.publicId, publicIdValue),
+              eq(folders.workspaceId, workspaceIdValue),
+              isNull(folders.deletedAt)
+            )
+          )
           .limit(1);
 
         if (!folder[0]) {
@@ -617,8 +658,8 @@ pushApp.post("/", async (c) => {
           continue;
         }
 
-        // Delete folder
-        await db.delete(folders).where(eq(folders.id, folder[0].id));
+        // Soft delete: the folder goes to the trash and can be restored from there
+        await trashFolder(workspaceIdValue, folder[0].id, db);
 
         accepted.push({
           publicId: publicIdRaw,
@@ -650,6 +691,11 @@ pushApp.post("/", async (c) => {
     }
   }
 
+  // Created, renamed and moved notes may change what existing links resolve to
+  if (accepted.length > 0 || created.length > 0) {
+    await refreshWorkspaceLinks(workspaceIdValue);
+  }
+
   const response: SyncPushResponse = {
     accepted,
     created,
@@ -4,6 +4,7 @@ import { notes, folders } from "@/db/schema";
 import { parseSlug } from "@/lib/params";
 import { resolveWorkspaceId } from "@/lib/resolvers";
 import { verifyBearerToken } from "@/lib/auth-utils";
+import { checkWorkspaceAccess, getTokenUserId } from "@/lib/workspace-access";
 import { db } from "@/db";
 
 const statusApp = new Hono();
@@ -25,7 +26,8 @@ const statusApp = new Hono();
 statusApp.get("/", async (c) => {
   // Verify JWT Bearer token
   const payload = await verifyBearerToken(c.req.raw);
-  if (!payload) {
+  const userId = getTokenUserId(payload);
+  if (!userId) {
     return c.json({ error: "Unauthorized" }, 401);
   }
 
@@ -45,6 +47,11 @@ statusApp.get("/", async (c) => {
     return c.json({ error: "Workspace not found" }, 404);
   }
 
+  const accessError = await checkWorkspaceAccess(workspaceIdValue, userId, "viewer");
+  if (accessError) {
+    return c.json({ error: accessError.error }, accessError.status);
+  }
+
   // Get note count (exclude soft-deleted notes)
   const noteCountResult = await db
     .select({ count: count() })
@@ -53,11 +60,11 @@ statusApp.get("/", async (c) => {
 
   const noteCount = noteCountResult[0]?.count ?? 0;
 
-  // Get folder count
+  // Get folder count (exclude soft-deleted folders)
   const folderCountResult = await db
     .select({ count: count() })
     .from(folders)
-    .where(eq(folders.workspaceId, workspaceIdValue));
+    .where(and(eq(folders.workspaceId, workspaceIdValue), isNull(folders.deletedAt)));
 
   const folderCount = folderCountResult[0]?.count ?? 0;
 
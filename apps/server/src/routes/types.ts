@@ -1,5 +1,6 @@
 import { db } from "@/db";
 import { auth } from "@/auth";
+import type { WorkspaceRole } from "@/lib/workspace-access";
 
 /**
  * Type guard to check if a value is a plain object (record)
@@ -26,10 +27,12 @@ export type Session = NonNullable<
 /**
  * Hono context variables type
  * Available in all route handlers via c.get("session") and c.get("db")
+ * workspaceRole is set by requireWorkspaceRole on workspace-scoped routes
  */
 export interface Variables {
   session: Session;
   db: DbClient;
+  workspaceRole: WorkspaceRole;
 }
 
 /**
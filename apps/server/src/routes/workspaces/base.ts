@@ -1,20 +1,116 @@
 import { Hono } from "hono";
-import { desc } from "drizzle-orm";
-import { workspaces } from "@/db/schema";
+import { desc, eq } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { dialect } from "@/db";
+import { workspaceInvites, workspaceMembers, workspaces } from "@/db/schema";
+import * as sqliteSchema from "@/db/schema/sqlite";
+import { getWorkspaceRole } from "@/lib/workspace-access";
+import { findPendingInviteByToken } from "@/lib/workspace-invites";
 import { toSlug } from "@/routes/workspaces/helpers";
 import { requireAuth } from "@/routes/middleware/require-auth";
-import type { Variables, CreateWorkspaceBody } from "@/routes/types";
+import type { Variables, CreateWorkspaceBody, DbClient } from "@/routes/types";
 import { isRecord } from "@/routes/types";
 
 const baseApp = new Hono<{ Variables: Variables }>();
 
-// GET /api/workspaces - List all workspaces
+type NewWorkspace = { name: string; slug: string; createdByUserId: string };
+type CreatedWorkspace = { id: number; name: string; slug: string };
+
+const createWorkspaceSqlite = (dbClient: DbClient, values: NewWorkspace): CreatedWorkspace | undefined => {
+  const sqliteDb = dbClient as unknown as BetterSQLite3Database<typeof sqliteSchema>;
+
+  return sqliteDb.transaction((tx) => {
+    const workspace = tx
+      .insert(sqliteSchema.workspaces)
+      .values(values)
+      .returning({ id: sqliteSchema.workspaces.id, name: sqliteSchema.workspaces.name, slug: sqliteSchema.workspaces.slug })
+      .get();
+
+    tx
+      .insert(sqliteSchema.workspaceMembers)
+      .values({ workspaceId: workspace.id, userId: values.createdByUserId, role: "owner" })
+      .run();
+
+    return workspace;
+  });
+};
+
+const createWorkspacePostgres = (dbClient: DbClient, values: NewWorkspace): Promise<CreatedWorkspace | undefined> =>
+  dbClient.transaction(async (tx) => {
+    const insertedRows = await tx
+      .insert(workspaces)
+      .values(values)
+      .returning({ id: workspaces.id, name: workspaces.name, slug: workspaces.slug });
+
+    const workspace = insertedRows[0];
+    if (workspace) {
+      await tx.insert(workspaceMembers).values({
+        workspaceId: workspace.id,
+        userId: values.createdByUserId,
+        role: "owner",
+      });
+    }
+
+    return workspace;
+  });
+
+// GET /api/workspaces - List workspaces the user is a member of
 baseApp.get("/", requireAuth, async (c) => {
-  const rows = await c.get("db").select({ id: workspaces.id, slug: workspaces.slug, name: workspaces.name }).from(workspaces).orderBy(desc(workspaces.createdAt));
+  const session = c.get("session");
+  const rows = await c.get("db")
+    .select({ id: workspaces.id, slug: workspaces.slug, name: workspaces.name, role: workspaceMembers.role })
+    .from(workspaces)
+    .innerJoin(workspaceMembers, eq(workspaceMembers.workspaceId, workspaces.id))
+    .where(eq(workspaceMembers.userId, session.user.id))
+    .orderBy(desc(workspaces.createdAt));
 
   return c.json(rows, 200);
 });
 
+// POST /api/workspaces/invites/accept - Accept an invite using the token from its invitation link
+// The invitee is not a member yet, so the link token and the invite's email are what grant access
+baseApp.post("/invites/accept", requireAuth, async (c) => {
+  const db = c.get("db");
+  const session = c.get("session");
+  const body = await c.req.json<unknown>().catch(() => null);
+
+  if (!isRecord(body) || typeof body.token !== "string" || !body.token) {
+    return c.json({ error: "Invite token is required" }, 400);
+  }
+
+  const invite = await findPendingInviteByToken(body.token, db);
+  if (!invite || invite.email !== session.user.email.trim().toLowerCase()) {
+    return c.json({ error: "Invite not found or expired" }, 404);
+  }
+
+  const workspaceRows = await db
+    .select({ slug: workspaces.slug })
+    .from(workspaces)
+    .where(eq(workspaces.id, invite.workspaceId))
+    .limit(1);
+
+  const workspace = workspaceRows[0];
+  if (!workspace) {
+    return c.json({ error: "Invite not found" }, 404);
+  }
+
+  const existingRole = await getWorkspaceRole(invite.workspaceId, session.user.id, db);
+  if (!existingRole) {
+    await db.insert(workspaceMembers).values({
+      workspaceId: invite.workspaceId,
+      userId: session.user.id,
+      role: invite.role,
+    });
+  }
+
+  await db
+    .update(workspaceInvites)
+    .set({ acceptedAt: new Date() })
+    .where(eq(workspaceInvites.id, invite.id));
+
+  return c.json({ workspaceSlug: workspace.slug, role: existingRole ?? invite.role }, 200);
+});
+
 // POST /api/workspaces - Create workspace
 baseApp.post("/", requireAuth, async (c) => {
   const session = c.get("session");
@@ -33,13 +129,18 @@ baseApp.post("/", requireAuth, async (c) => {
   const slugBase = toSlug(name) || "workspace";
   const slug = `${slugBase}-${crypto.randomUUID().split("-")[0]}`;
 
-  const insertedRows = await c.get("db").insert(workspaces).values({
-    name,
-    slug,
-    createdByUserId: session.user.id,
-  }).returning({ id: workspaces.id, name: workspaces.name, slug: workspaces.slug });
+  // The workspace and its owner membership are written together: a workspace
+  // without members could never be reached again
+  const values = { name, slug, createdByUserId: session.user.id };
+  const workspace = dialect === "sqlite"
+    ? createWorkspaceSqlite(c.get("db"), values)
+    : await createWorkspacePostgres(c.get("db"), values);
+
+  if (!workspace) {
+    return c.json({ error: "Failed to create workspace" }, 500);
+  }
 
-  return c.json(insertedRows[0], 201);
+  return c.json({ ...workspace, role: "owner" }, 201);
 });
 
 export { baseApp };
@@ -4,12 +4,13 @@ import { resolveWorkspaceId } from "@/lib/resolvers";
 import { workspaces } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { requireAuth } from "@/routes/middleware/require-auth";
+import { requireWorkspaceRole } from "@/routes/middleware/require-workspace-role";
 import type { Variables } from "@/routes/types";
 
 const app = new Hono<{ Variables: Variables }>();
 
 // GET /api/workspaces/:workspaceSlug - Get workspace details by slug
-app.get("/", requireAuth, async (c) => {
+app.get("/", requireAuth, requireWorkspaceRole("viewer"), async (c) => {
   const workspaceSlug = c.req.param("workspaceSlug");
   const validatedSlug = parseSlug(workspaceSlug);
 
@@ -36,7 +37,7 @@ app.get("/", requireAuth, async (c) => {
     return c.json({ error: "Workspace not found" }, 404);
   }
 
-  return c.json(rows[0], 200);
+  return c.json({ ...rows[0], role: c.get("workspaceRole") }, 200);
 });
 
 export { app };
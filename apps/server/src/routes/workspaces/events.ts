@@ -3,11 +3,12 @@ import { parseSlug } from "@/lib/params";
 import { resolveWorkspaceId } from "@/lib/resolvers";
 import { workspaceEventHub } from "@/lib/sse-hub";
 import { requireAuth } from "@/routes/middleware/require-auth";
+import { requireWorkspaceRole } from "@/routes/middleware/require-workspace-role";
 import type { Variables } from "@/routes/types";
 
 const app = new Hono<{ Variables: Variables }>();
 
-app.get("/", requireAuth, async (c) => {
+app.get("/", requireAuth, requireWorkspaceRole("viewer"), async (c) => {
   const workspaceSlug = c.req.param("workspaceSlug");
   const workspaceSlugValue = parseSlug(workspaceSlug);
 
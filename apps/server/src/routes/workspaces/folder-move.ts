@@ -3,8 +3,10 @@ import { and, eq } from "drizzle-orm";
 import { folders } from "@/db/schema";
 import { parseSlug, parsePublicId } from "@/lib/params";
 import { resolveWorkspaceId, resolveFolderId } from "@/lib/resolvers";
+import { refreshWorkspaceLinks } from "@/lib/note-links";
 import { workspaceEventHub } from "@/lib/sse-hub";
 import { requireAuth } from "@/routes/middleware/require-auth";
+import { requireWorkspaceRole } from "@/routes/middleware/require-workspace-role";
 import type { Variables, DbClient } from "@/routes/types";
 import { isRecord } from "@/routes/types";
 
@@ -26,7 +28,7 @@ const isDescendant = (
 };
 
 // PATCH /:workspaceSlug/folders/:folderId/move - Move a folder to a new parent
-app.patch("/", requireAuth, async (c) => {
+app.patch("/", requireAuth, requireWorkspaceRole("editor"), async (c) => {
   const db = c.get("db");
   const workspaceSlug = c.req.param("workspaceSlug");
   const folderPublicId = c.req.param("folderId");
@@ -46,7 +48,7 @@ app.patch("/", requireAuth, async (c) => {
     return c.json({ error: "Workspace not found" }, 404);
   }
 
-  const folderIdValue = await resolveFolderId(folderPublicIdValue);
+  const folderIdValue = await resolveFolderId(folderPublicIdValue, workspaceIdValue);
   if (!folderIdValue) {
     return c.json({ error: "Folder not found" }, 404);
   }
@@ -65,7 +67,7 @@ app.patch("/", requireAuth, async (c) => {
 
   let resolvedParentId: number | null = null;
   if (parentIdValue) {
-    resolvedParentId = await resolveFolderId(parentIdValue);
+    resolvedParentId = await resolveFolderId(parentIdValue, workspaceIdValue);
     if (!resolvedParentId) {
       return c.json({ error: "Parent folder not found" }, 404);
     }
@@ -124,6 +126,8 @@ app.patch("/", requireAuth, async (c) => {
     });
 
   const updated = updatedRows[0];
+  // Path links through the moved folder no longer match
+  await refreshWorkspaceLinks(workspaceIdValue);
 
   workspaceEventHub.publish({
     workspaceId: workspaceIdValue,
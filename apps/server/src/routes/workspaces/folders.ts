@@ -1,40 +1,21 @@
 import { Hono } from "hono";
-import { and, eq, inArray, isNull } from "drizzle-orm";
-import { folders, notes, noteLineBlame, revisions } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { folders } from "@/db/schema";
 import { parseSlug, parsePublicId } from "@/lib/params";
 import { isValidFolderName } from "@/lib/folder-name";
 import { resolveWorkspaceId, resolveFolderId } from "@/lib/resolvers";
+import { refreshWorkspaceLinks } from "@/lib/note-links";
 import { workspaceEventHub } from "@/lib/sse-hub";
+import { trashFolder } from "@/lib/trash";
 import { requireAuth } from "@/routes/middleware/require-auth";
-import type { Variables, DbClient, FolderBody } from "@/routes/types";
+import { requireWorkspaceRole } from "@/routes/middleware/require-workspace-role";
+import type { Variables, FolderBody } from "@/routes/types";
 import { isRecord } from "@/routes/types";
 
 const app = new Hono<{ Variables: Variables }>();
 
-async function collectFolderIds(folderId: number, workspaceId: number, db: DbClient): Promise<number[]> {
-  const childFolders = await db
-    .select({ id: folders.id })
-    .from(folders)
-    .where(and(eq(folders.parentId, folderId), eq(folders.workspaceId, workspaceId)));
-
-  let allIds = [folderId];
-  for (const child of childFolders) {
-    allIds = allIds.concat(await collectFolderIds(child.id, workspaceId, db));
-  }
-  return allIds;
-}
-
-async function collectNoteIds(folderIds: number[], workspaceId: number, db: DbClient): Promise<number[]> {
-  const noteRows = await db
-    .select({ id: notes.id })
-    .from(notes)
-    .where(and(eq(notes.workspaceId, workspaceId), inArray(notes.folderId, folderIds), isNull(notes.deletedAt)));
-
-  return noteRows.map((row: { id: number }) => row.id);
-}
-
 // POST /api/workspaces/:workspaceSlug/folders - Create a folder
-app.post("/", requireAuth, async (c) => {
+app.post("/", requireAuth, requireWorkspaceRole("editor"), async (c) => {
   const db = c.get("db");
   const workspaceSlug = c.req.param("workspaceSlug");
   const validatedSlug = parseSlug(workspaceSlug);
@@ -85,7 +66,7 @@ app.post("/", requireAuth, async (c) => {
 
   let resolvedParentId: number | null = null;
   if (parentIdValue) {
-    resolvedParentId = await resolveFolderId(parentIdValue);
+    resolvedParentId = await resolveFolderId(parentIdValue, workspaceIdValue);
     if (!resolvedParentId) {
       return c.json({ error: "Parent folder not found" }, 404);
     }
@@ -119,7 +100,7 @@ app.post("/", requireAuth, async (c) => {
 });
 
 // PATCH /api/workspaces/:workspaceSlug/folders/:folderId - Update a folder
-app.patch("/:folderId", requireAuth, async (c) => {
+app.patch("/:folderId", requireAuth, requireWorkspaceRole("editor"), async (c) => {
   const db = c.get("db");
   const workspaceSlug = c.req.param("workspaceSlug");
   const folderPublicId = c.req.param("folderId");
@@ -139,7 +120,7 @@ app.patch("/:folderId", requireAuth, async (c) => {
     return c.json({ error: "Workspace not found" }, 404);
   }
 
-  const folderIdValue = await resolveFolderId(folderPublicIdValue);
+  const folderIdValue = await resolveFolderId(folderPublicIdValue, workspaceIdValue);
   if (!folderIdValue) {
     return c.json({ error: "Folder not found" }, 404);
   }
@@ -196,6 +177,8 @@ app.patch("/:folderId", requireAuth, async (c) => {
     });
 
   const updated = updatedRows[0];
+  // Path links through the renamed folder no longer match
+  await refreshWorkspaceLinks(workspaceIdValue);
 
   workspaceEventHub.publish({
     workspaceId: workspaceIdValue,
@@ -207,7 +190,7 @@ app.patch("/:folderId", requireAuth, async (c) => {
 });
 
 // DELETE /api/workspaces/:workspaceSlug/folders/:folderId - Delete a folder recursively
-app.delete("/:folderId", requireAuth, async (c) => {
+app.delete("/:folderId", requireAuth, requireWorkspaceRole("editor"), async (c) => {
   const db = c.get("db");
   const workspaceSlug = c.req.param("workspaceSlug");
   const folderPublicId = c.req.param("folderId");
@@ -227,7 +210,7 @@ app.delete("/:folderId", requireAuth, async (c) => {
     return c.json({ error: "Workspace not found" }, 404);
   }
 
-  const folderIdValue = await resolveFolderId(folderPublicIdValue);
+  const folderIdValue = await resolveFolderId(folderPublicIdValue, workspaceIdValue);
   if (!folderIdValue) {
     return c.json({ error: "Folder not found" }, 404);
   }
@@ -242,18 +225,8 @@ app.delete("/:folderId", requireAuth, async (c) => {
     return c.json({ error: "Folder not found" }, 404);
   }
 
-  const allFolderIds = await collectFolderIds(folderIdValue, workspaceIdValue, db);
-  const allNoteIds = await collectNoteIds(allFolderIds, workspaceIdValue, db);
-
-  if (allNoteIds.length > 0) {
-    // Soft delete: mark all notes in the folder as deleted
-    await db
-      .update(notes)
-      .set({ deletedAt: new Date() })
-      .where(inArray(notes.id, allNoteIds));
-  }
-
-  await db.delete(folders).where(inArray(folders.id, allFolderIds));
+  // Soft delete: the folder, its subfolders and their notes go to the trash as one unit
+  await trashFolder(workspaceIdValue, folderIdValue, db);
 
   workspaceEventHub.publish({
     workspaceId: workspaceIdValue,
@@ -8,6 +8,10 @@ import { app as foldersApp } from "@/routes/workspaces/folders";
 import { app as folderMoveApp } from "@/routes/workspaces/folder-move";
 import { app as uploadApp } from "@/routes/workspaces/upload";
 import { app as detailApp } from "@/routes/workspaces/detail";
+import { app as membersApp } from "@/routes/workspaces/members";
+import { app as searchApp } from "@/routes/workspaces/search";
+import { app as trashApp } from "@/routes/workspaces/trash";
+import { app as metadataApp } from "@/routes/workspaces/metadata";
 
 // Compose all sub-routers
 const workspacesApp = new Hono()
@@ -19,6 +23,10 @@ const workspacesApp = new Hono()
   .route("/:workspaceSlug/folders", foldersApp)
   .route("/:workspaceSlug/folders/:folderId/move", folderMoveApp)
   .route("/:workspaceSlug/upload", uploadApp)
+  .route("/:workspaceSlug/members", membersApp)
+  .route("/:workspaceSlug/search", searchApp)
+  .route("/:workspaceSlug/trash", trashApp)
+  .route("/:workspaceSlug/metadata", metadataApp)
   .route("/:workspaceSlug/notes/:noteId/content", noteContentApp);
 
 export { workspacesApp };
@@ -0,0 +1,267 @@
+import { Hono } from "hono";
+import { and, asc, count, desc, eq, gt, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { users, workspaceInvites, workspaceMembers } from "@/db/schema";
+import { parsePublicId, parseSlug } from "@/lib/params";
+import { resolveWorkspaceId } from "@/lib/resolvers";
+import { getWorkspaceRole, isWorkspaceRole } from "@/lib/workspace-access";
+import { createInviteToken, hashInviteToken, inviteExpiresAt } from "@/lib/workspace-invites";
+import { requireAuth } from "@/routes/middleware/require-auth";
+import { requireWorkspaceRole } from "@/routes/middleware/require-workspace-role";
+import type { DbClient, Variables } from "@/routes/types";
+import { isRecord } from "@/routes/types";
+
+const app = new Hono<{ Variables: Variables }>();
+
+const normalizeEmail = (value: string) => value.trim().toLowerCase();
+
+const isValidEmail = (value: string) => z.string().email().safeParse(value).success;
+
+const pendingInviteCondition = (workspaceId: number) =>
+  and(
+    eq(workspaceInvites.workspaceId, workspaceId),
+    isNull(workspaceInvites.acceptedAt),
+    isNull(workspaceInvites.revokedAt)
+  );
+
+async function countOwners(db: DbClient, workspaceId: number): Promise<number> {
+  const rows = await db
+    .select({ count: count() })
+    .from(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.role, "owner")));
+  return rows[0]?.count ?? 0;
+}
+
+// GET /api/workspaces/:workspaceSlug/members - List workspace members
+app.get("/", requireAuth, requireWorkspaceRole("viewer"), async (c) => {
+  const db = c.get("db");
+  const workspaceIdValue = await resolveWorkspaceId(parseSlug(c.req.param("workspaceSlug")) ?? "");
+  if (!workspaceIdValue) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const rows = await db
+    .select({
+      userId: workspaceMembers.userId,
+      name: users.name,
+      email: users.email,
+      role: workspaceMembers.role,
+      joinedAt: workspaceMembers.createdAt,
+    })
+    .from(workspaceMembers)
+    .innerJoin(users, eq(workspaceMembers.userId, users.id))
+    .where(eq(workspaceMembers.workspaceId, workspaceIdValue))
+    .orderBy(asc(workspaceMembers.createdAt));
+
+  return c.json(rows, 200);
+});
+
+// GET /api/workspaces/:workspaceSlug/members/invites - List pending invites
+// Expired invites stay listed, marked as no longer usable, until they are revoked
+app.get("/invites", requireAuth, requireWorkspaceRole("owner"), async (c) => {
+  const db = c.get("db");
+  const workspaceIdValue = await resolveWorkspaceId(parseSlug(c.req.param("workspaceSlug")) ?? "");
+  if (!workspaceIdValue) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const rows = await db
+    .select({
+      publicId: workspaceInvites.publicId,
+      email: workspaceInvites.email,
+      role: workspaceInvites.role,
+      invitedByName: users.name,
+      createdAt: workspaceInvites.createdAt,
+      expiresAt: workspaceInvites.expiresAt,
+    })
+    .from(workspaceInvites)
+    .leftJoin(users, eq(workspaceInvites.invitedByUserId, users.id))
+    .where(pendingInviteCondition(workspaceIdValue))
+    .orderBy(desc(workspaceInvites.createdAt));
+
+  const now = Date.now();
+  return c.json(
+    rows.map((row) => ({ ...row, expired: !row.expiresAt || row.expiresAt.getTime() <= now })),
+    200
+  );
+});
+
+// POST /api/workspaces/:workspaceSlug/members/invites - Invite a user by email
+app.post("/invites", requireAuth, requireWorkspaceRole("owner"), async (c) => {
+  const db = c.get("db");
+  const session = c.get("session");
+  const workspaceIdValue = await resolveWorkspaceId(parseSlug(c.req.param("workspaceSlug")) ?? "");
+  if (!workspaceIdValue) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const body = await c.req.json<unknown>().catch(() => null);
+  if (!isRecord(body)) {
+    return c.json({ error: "Invalid payload" }, 400);
+  }
+
+  const email = typeof body.email === "string" ? normalizeEmail(body.email) : "";
+  if (!email || !isValidEmail(email)) {
+    return c.json({ error: "A valid email is required" }, 400);
+  }
+
+  const role = body.role ?? "editor";
+  if (!isWorkspaceRole(role)) {
+    return c.json({ error: "Role must be owner, editor, or viewer" }, 400);
+  }
+
+  const existingMember = await db
+    .select({ userId: workspaceMembers.userId })
+    .from(workspaceMembers)
+    .innerJoin(users, eq(workspaceMembers.userId, users.id))
+    .where(and(eq(workspaceMembers.workspaceId, workspaceIdValue), eq(users.email, email)))
+    .limit(1);
+
+  if (existingMember.length > 0) {
+    return c.json({ error: "User is already a member of this workspace" }, 409);
+  }
+
+  const existingInvite = await db
+    .select({ id: workspaceInvites.id })
+    .from(workspaceInvites)
+    .where(
+      and(
+        pendingInviteCondition(workspaceIdValue),
+        eq(workspaceInvites.email, email),
+        gt(workspaceInvites.expiresAt, new Date())
+      )
+    )
+    .limit(1);
+
+  if (existingInvite.length > 0) {
+    return c.json({ error: "An invite for this email is already pending" }, 409);
+  }
+
+  // The token is only ever shown here; the invitee proves they received the link by presenting it
+  const token = createInviteToken();
+  const now = new Date();
+  const insertedRows = await db
+    .insert(workspaceInvites)
+    .values({
+      workspaceId: workspaceIdValue,
+      email,
+      tokenHash: hashInviteToken(token),
+      role,
+      invitedByUserId: session.user.id,
+      createdAt: now,
+      expiresAt: inviteExpiresAt(now),
+    })
+    .returning({
+      publicId: workspaceInvites.publicId,
+      email: workspaceInvites.email,
+      role: workspaceInvites.role,
+      createdAt: workspaceInvites.createdAt,
+      expiresAt: workspaceInvites.expiresAt,
+    });
+
+  return c.json({ ...insertedRows[0], invitedByName: session.user.name, expired: false, token }, 201);
+});
+
+// DELETE /api/workspaces/:workspaceSlug/members/invites/:inviteId - Revoke a pending invite
+app.delete("/invites/:inviteId", requireAuth, requireWorkspaceRole("owner"), async (c) => {
+  const db = c.get("db");
+  const workspaceIdValue = await resolveWorkspaceId(parseSlug(c.req.param("workspaceSlug")) ?? "");
+  if (!workspaceIdValue) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const invitePublicId = parsePublicId(c.req.param("inviteId"));
+  if (!invitePublicId) {
+    return c.json({ error: "Invalid invite ID" }, 400);
+  }
+
+  const revokedRows = await db
+    .update(workspaceInvites)
+    .set({ revokedAt: new Date() })
+    .where(and(pendingInviteCondition(workspaceIdValue), eq(workspaceInvites.publicId, invitePublicId)))
+    .returning({ publicId: workspaceInvites.publicId });
+
+  if (revokedRows.length === 0) {
+    return c.json({ error: "Invite not found" }, 404);
+  }
+
+  return c.json({ success: true }, 200);
+});
+
+// PATCH /api/workspaces/:workspaceSlug/members/:userId - Change a member's role
+app.patch("/:userId", requireAuth, requireWorkspaceRole("owner"), async (c) => {
+  const db = c.get("db");
+  const workspaceIdValue = await resolveWorkspaceId(parseSlug(c.req.param("workspaceSlug")) ?? "");
+  if (!workspaceIdValue) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const userId = parsePublicId(c.req.param("userId"));
+  if (!userId) {
+    return c.json({ error: "Invalid user ID" }, 400);
+  }
+
+  const body = await c.req.json<unknown>().catch(() => null);
+  if (!isRecord(body)) {
+    return c.json({ error: "Invalid payload" }, 400);
+  }
+
+  if (!isWorkspaceRole(body.role)) {
+    return c.json({ error: "Role must be owner, editor, or viewer" }, 400);
+  }
+  const role = body.role;
+
+  const currentRole = await getWorkspaceRole(workspaceIdValue, userId, db);
+  if (!currentRole) {
+    return c.json({ error: "Member not found" }, 404);
+  }
+
+  if (currentRole === "owner" && role !== "owner" && (await countOwners(db, workspaceIdValue)) <= 1) {
+    return c.json({ error: "Workspace must have at least one owner" }, 409);
+  }
+
+  const updatedRows = await db
+    .update(workspaceMembers)
+    .set({ role, updatedAt: new Date() })
+    .where(and(eq(workspaceMembers.workspaceId, workspaceIdValue), eq(workspaceMembers.userId, userId)))
+    .returning({ userId: workspaceMembers.userId, role: workspaceMembers.role });
+
+  return c.json(updatedRows[0], 200);
+});
+
+// DELETE /api/workspaces/:workspaceSlug/members/:userId - Remove a member
+// Owners can remove anyone; other members can only remove themselves (leave)
+app.delete("/:userId", requireAuth, requireWorkspaceRole("viewer"), async (c) => {
+  const db = c.get("db");
+  const session = c.get("session");
+  const workspaceIdValue = await resolveWorkspaceId(parseSlug(c.req.param("workspaceSlug")) ?? "");
+  if (!workspaceIdValue) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const userId = parsePublicId(c.req.param("userId"));
+  if (!userId) {
+    return c.json({ error: "Invalid user ID" }, 400);
+  }
+
+  if (userId !== session.user.id && c.get("workspaceRole") !== "owner") {
+    return c.json({ error: "This action requires the owner role" }, 403);
+  }
+
+  const currentRole = await getWorkspaceRole(workspaceIdValue, userId, db);
+  if (!currentRole) {
+    return c.json({ error: "Member not found" }, 404);
+  }
+
+  if (currentRole === "owner" && (await countOwners(db, workspaceIdValue)) <= 1) {
+    return c.json({ error: "Workspace must have at least one owner" }, 409);
+  }
+
+  await db
+    .delete(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceIdValue), eq(workspaceMembers.userId, userId)));
+
+  return c.json({ success: true }, 200);
+});
+
+export { app };
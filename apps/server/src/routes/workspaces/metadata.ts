@@ -0,0 +1,64 @@
+import { Hono } from "hono";
+import { parseSlug } from "@/lib/params";
+import { resolveWorkspaceId } from "@/lib/resolvers";
+import { countMetadataKeys, countMetadataValues, TAGS_KEY } from "@/lib/frontmatter";
+import { requireAuth } from "@/routes/middleware/require-auth";
+import { requireWorkspaceRole } from "@/routes/middleware/require-workspace-role";
+import type { Variables } from "@/routes/types";
+
+const app = new Hono<{ Variables: Variables }>();
+
+// GET /api/workspaces/:workspaceSlug/metadata/tags - List frontmatter tags with their note counts
+app.get("/tags", requireAuth, requireWorkspaceRole("viewer"), async (c) => {
+  const workspaceSlug = parseSlug(c.req.param("workspaceSlug"));
+  if (!workspaceSlug) {
+    return c.json({ error: "Invalid workspace slug" }, 400);
+  }
+
+  const workspaceIdValue = await resolveWorkspaceId(workspaceSlug);
+  if (!workspaceIdValue) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const counts = await countMetadataValues(workspaceIdValue, TAGS_KEY);
+  return c.json({ tags: counts.map(({ value, count }) => ({ tag: value, count })) }, 200);
+});
+
+// GET /api/workspaces/:workspaceSlug/metadata/keys - List frontmatter keys with their note counts
+app.get("/keys", requireAuth, requireWorkspaceRole("viewer"), async (c) => {
+  const workspaceSlug = parseSlug(c.req.param("workspaceSlug"));
+  if (!workspaceSlug) {
+    return c.json({ error: "Invalid workspace slug" }, 400);
+  }
+
+  const workspaceIdValue = await resolveWorkspaceId(workspaceSlug);
+  if (!workspaceIdValue) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const counts = await countMetadataKeys(workspaceIdValue);
+  return c.json({ keys: counts.map(({ value, count }) => ({ key: value, count })) }, 200);
+});
+
+// GET /api/workspaces/:workspaceSlug/metadata/keys/:key - List the values of a frontmatter key with their note counts
+app.get("/keys/:key", requireAuth, requireWorkspaceRole("viewer"), async (c) => {
+  const workspaceSlug = parseSlug(c.req.param("workspaceSlug"));
+  if (!workspaceSlug) {
+    return c.json({ error: "Invalid workspace slug" }, 400);
+  }
+
+  const key = c.req.param("key").trim();
+  if (!key) {
+    return c.json({ error: "Key is required" }, 400);
+  }
+
+  const workspaceIdValue = await resolveWorkspaceId(workspaceSlug);
+  if (!workspaceIdValue) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const values = await countMetadataValues(workspaceIdValue, key);
+  return c.json({ key, values }, 200);
+});
+
+export { app };
@@ -1,17 +1,16 @@
 import { Hono } from "hono";
-import { and, asc, eq, gt, sql } from "drizzle-orm";
-import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { asc, eq } from "drizzle-orm";
 
-import { dialect } from "@/db";
-import { db } from "@/db";
-import { noteLineBlame, notes, revisions, users, workspaces, folders } from "@/db/schema";
-import * as sqliteSchema from "@/db/schema/sqlite";
+import { noteLineBlame, users } from "@/db/schema";
 import { parseSlug, parsePublicId } from "@/lib/params";
-import { buildNextBlame } from "@/lib/blame";
-import { workspaceEventHub } from "@/lib/sse-hub";
+import { refreshNoteLinks } from "@/lib/note-links";
+import { refreshNoteMetadata } from "@/lib/frontmatter";
+import { writeNoteContent } from "@/lib/revisions";
+import { InvalidETagError, parseIfMatch, revisionETag, StaleRevisionError } from "@/lib/revision-conflicts";
 import { resolveWorkspaceId, resolveNote } from "@/lib/resolvers";
 import { requireAuth } from "@/routes/middleware/require-auth";
-import type { Variables, DbClient } from "@/routes/types";
+import { requireWorkspaceRole } from "@/routes/middleware/require-workspace-role";
+import type { Variables } from "@/routes/types";
 import { isRecord } from "@/routes/types";
 
 const toIso = (value: Date | number) => (value instanceof Date ? value : new Date(value)).toISOString();
@@ -28,50 +27,10 @@ class NoteNotInWorkspaceError extends Error {
   name = "NoteNotInWorkspaceError";
 }
 
-/**
- * Build folder path from folder hierarchy
- * @param folderId - The folder ID to build path for
- * @param workspaceId - The workspace ID
- * @param dbClient - Database client
- * @returns The folder path string
- */
-async function buildNoteFolderPath(
-  folderId: number | null,
-  workspaceId: number,
-  dbClient: typeof db
-): Promise<string> {
-  if (!folderId) {
-    return "";
-  }
-
-  const pathParts: string[] = [];
-  let currentId: number | null = folderId;
-
-  while (currentId) {
-    const folderRows = await dbClient
-      .select({
-        id: folders.id,
-        name: folders.name,
-        parentId: folders.parentId,
-      })
-      .from(folders)
-      .where(and(eq(folders.id, currentId), eq(folders.workspaceId, workspaceId)))
-      .limit(1);
-
-    if (!folderRows[0]) {
-      break;
-    }
-
-    pathParts.unshift(folderRows[0].name);
-    currentId = folderRows[0].parentId;
-  }
-
-  return pathParts.join("/");
-}
-
 const app = new Hono<{ Variables: Variables }>();
 
 app.use(requireAuth);
+app.use(requireWorkspaceRole("editor"));
 
 app.patch("/", async (c) => {
   const session = c.get("session");
@@ -99,6 +58,29 @@ app.patch("/", async (c) => {
     return c.json({ error: "Invalid includeBlame" }, 400);
   }
 
+  // The latest revision the client has read, from the body or If-Match;
+  // undefined skips the check and overwrites whatever is there
+  let expectedRevisionId: number | null | undefined;
+  const expectedRevisionBody = body.expectedRevisionId;
+  if (expectedRevisionBody !== undefined) {
+    if (
+      expectedRevisionBody !== null &&
+      (typeof expectedRevisionBody !== "number" || !Number.isInteger(expectedRevisionBody) || expectedRevisionBody < 1)
+    ) {
+      return c.json({ error: "Invalid expectedRevisionId" }, 400);
+    }
+    expectedRevisionId = expectedRevisionBody;
+  } else {
+    try {
+      expectedRevisionId = parseIfMatch(c.req.header("If-Match"));
+    } catch (error) {
+      if (error instanceof InvalidETagError) {
+        return c.json({ error: error.message }, 400);
+      }
+      throw error;
+    }
+  }
+
   let stage = "start";
   let workspaceSlugValue: string | null = null;
   let notePublicIdValue: string | null = null;
@@ -117,327 +99,59 @@ app.patch("/", async (c) => {
     const workspaceSlugResolved = workspaceSlugValue!;
     const notePublicIdResolved = notePublicIdValue!;
 
-    const newLineCount = content.split("\n").length;
-    const now = new Date();
-
-    const runManualSaveSqlite = () => {
-      const sqliteDb = dbClient as unknown as BetterSQLite3Database<typeof sqliteSchema>;
-      const sqliteTables = sqliteSchema;
-
-      return sqliteDb.transaction((tx) => {
-        stage = "resolve-ids";
-        const workspaceRows = tx
-          .select({ id: sqliteTables.workspaces.id })
-          .from(sqliteTables.workspaces)
-          .where(eq(sqliteTables.workspaces.slug, workspaceSlugResolved))
-          .all();
-        const workspaceRow = workspaceRows[0];
-        if (!workspaceRow) {
-          throw new WorkspaceNotFoundError();
-        }
-        const workspaceIdValue = workspaceRow.id;
-
-        const noteRows = tx
-          .select({ id: sqliteTables.notes.id, workspaceId: sqliteTables.notes.workspaceId, content: sqliteTables.notes.content })
-          .from(sqliteTables.notes)
-          .where(eq(sqliteTables.notes.publicId, notePublicIdResolved))
-          .all();
-        const note = noteRows[0];
-        if (!note) {
-          throw new NoteNotFoundError();
-        }
-        if (note.workspaceId !== workspaceIdValue) {
-          throw new NoteNotInWorkspaceError();
-        }
-
-        const noteIdValue = note.id;
-        const previousContent = note.content;
-
-        stage = "fetch-blame";
-        const previousBlameRows = tx
-          .select({
-            lineNumber: sqliteTables.noteLineBlame.lineNumber,
-            authorUserId: sqliteTables.noteLineBlame.authorUserId,
-            revisionId: sqliteTables.noteLineBlame.revisionId,
-            touchedAt: sqliteTables.noteLineBlame.touchedAt,
-          })
-          .from(sqliteTables.noteLineBlame)
-          .where(eq(sqliteTables.noteLineBlame.noteId, noteIdValue))
-          .orderBy(asc(sqliteTables.noteLineBlame.lineNumber))
-          .all();
-
-        stage = "insert-revision";
-        const inserted = tx
-          .insert(sqliteTables.revisions)
-          .values({
-            workspaceId: workspaceIdValue,
-            noteId: noteIdValue,
-            authorUserId: session.user.id,
-            content: content,
-            createdAt: now,
-          })
-          .run();
-        const revisionId = Number(inserted.lastInsertRowid);
-
-        stage = "update-note";
-        tx
-          .update(sqliteTables.notes)
-          .set({ content: content, updatedAt: now })
-          .where(eq(sqliteTables.notes.id, noteIdValue))
-          .run();
-
-        const nextBlame = buildNextBlame(
-          previousContent,
-          content,
-          previousBlameRows,
-          session.user.id,
-          revisionId
-        );
-
-        stage = "upsert-blame";
-        for (const blameRow of nextBlame) {
-          tx
-            .insert(sqliteTables.noteLineBlame)
-            .values({
-              noteId: noteIdValue,
-              lineNumber: blameRow.lineNumber,
-              authorUserId: blameRow.authorUserId,
-              revisionId: blameRow.revisionId,
-              touchedAt: blameRow.touchedAt,
-            })
-            .onConflictDoUpdate({
-              target: [sqliteTables.noteLineBlame.noteId, sqliteTables.noteLineBlame.lineNumber],
-              set: {
-                authorUserId: sql`excluded.author_user_id`,
-                revisionId: sql`excluded.revision_id`,
-                touchedAt: sql`excluded.touched_at`,
-              },
-            })
-            .run();
-        }
-
-        stage = "delete-trailing";
-        tx
-          .delete(sqliteTables.noteLineBlame)
-          .where(
-            and(
-              eq(sqliteTables.noteLineBlame.noteId, noteIdValue),
-              gt(sqliteTables.noteLineBlame.lineNumber, newLineCount)
-            )
-          )
-          .run();
-
-        let blame;
-        if (includeBlame) {
-          stage = "select-blame";
-          const blameRows = tx
-            .select({
-              lineNumber: sqliteTables.noteLineBlame.lineNumber,
-              authorUserId: sqliteTables.noteLineBlame.authorUserId,
-              authorName: sqliteTables.users.name,
-              authorEmail: sqliteTables.users.email,
-              revisionId: sqliteTables.noteLineBlame.revisionId,
-              touchedAt: sqliteTables.noteLineBlame.touchedAt,
-            })
-            .from(sqliteTables.noteLineBlame)
-            .leftJoin(sqliteTables.users, eq(sqliteTables.noteLineBlame.authorUserId, sqliteTables.users.id))
-            .where(eq(sqliteTables.noteLineBlame.noteId, noteIdValue))
-            .orderBy(asc(sqliteTables.noteLineBlame.lineNumber))
-            .all();
-
-          blame = blameRows.map((row) => ({
-            ...row,
-            touchedAt: toIso(row.touchedAt),
-          }));
-        }
-
-        return {
-          revisionId,
-          updatedAt: now,
-          blame,
-          noteId: noteIdValue,
-          workspaceId: workspaceIdValue,
-        };
-      });
-    };
-
-    const runManualSavePostgres = async () => {
-      return dbClient.transaction(async (tx) => {
-        stage = "resolve-ids";
-        const workspaceIdValue = await resolveWorkspaceId(workspaceSlugResolved, tx);
-
-        if (workspaceIdValue === null) {
-          throw new WorkspaceNotFoundError();
-        }
-
-        const note = await resolveNote(notePublicIdResolved, tx);
-
-        if (note === null) {
-          throw new NoteNotFoundError();
-        }
-
-        if (note.workspaceId !== workspaceIdValue) {
-          throw new NoteNotInWorkspaceError();
-        }
-
-        const noteIdValue = note.id;
-        const previousContent = note.content;
-
-        stage = "fetch-blame";
-        const previousBlameRows = await tx
-          .select({
-            lineNumber: noteLineBlame.lineNumber,
-            authorUserId: noteLineBlame.authorUserId,
-            revisionId: noteLineBlame.revisionId,
-            touchedAt: noteLineBlame.touchedAt,
-          })
-          .from(noteLineBlame)
-          .where(eq(noteLineBlame.noteId, noteIdValue))
-          .orderBy(asc(noteLineBlame.lineNumber));
-
-        stage = "insert-revision";
-        const revisionRows = await tx
-          .insert(revisions)
-          .values({
-            workspaceId: workspaceIdValue,
-            noteId: noteIdValue,
-            authorUserId: session.user.id,
-            content: content,
-            createdAt: now,
-          })
-          .returning({ id: revisions.id });
-
-        const revision = revisionRows[0];
-        const revisionId = revision.id;
-
-        stage = "update-note";
-        const updatedNoteRows = await tx
-          .update(notes)
-          .set({ content: content, updatedAt: now })
-          .where(eq(notes.id, noteIdValue))
-          .returning({ id: notes.id, updatedAt: notes.updatedAt });
-
-        if (updatedNoteRows.length === 0) {
-          throw new NoteNotFoundError();
-        }
-
-        const updatedNote = updatedNoteRows[0];
-
-        const nextBlame = buildNextBlame(
-          previousContent,
-          content,
-          previousBlameRows,
-          session.user.id,
-          revisionId
-        );
-
-        stage = "upsert-blame";
-        for (const blameRow of nextBlame) {
-          await tx
-            .insert(noteLineBlame)
-            .values({
-              noteId: noteIdValue,
-              lineNumber: blameRow.lineNumber,
-              authorUserId: blameRow.authorUserId,
-              revisionId: blameRow.revisionId,
-              touchedAt: blameRow.touchedAt,
-            })
-            .onConflictDoUpdate({
-              target: [noteLineBlame.noteId, noteLineBlame.lineNumber],
-              set: {
-                authorUserId: blameRow.authorUserId,
-                revisionId: blameRow.revisionId,
-                touchedAt: blameRow.touchedAt,
-              },
-             });
-        }
-
-        stage = "delete-trailing";
-        await tx
-          .delete(noteLineBlame)
-          .where(
-            and(
-              eq(noteLineBlame.noteId, noteIdValue),
-              gt(noteLineBlame.lineNumber, newLineCount)
-            )
-           );
+    stage = "resolve-ids";
+    const workspaceIdValue = await resolveWorkspaceId(workspaceSlugResolved, dbClient);
+    if (workspaceIdValue === null) {
+      throw new WorkspaceNotFoundError();
+    }
 
-        let blame;
-        if (includeBlame) {
-          stage = "select-blame";
-          const blameRows = await tx
-            .select({
-              lineNumber: noteLineBlame.lineNumber,
-              authorUserId: noteLineBlame.authorUserId,
-              authorName: users.name,
-              authorEmail: users.email,
-              revisionId: noteLineBlame.revisionId,
-              touchedAt: noteLineBlame.touchedAt,
-            })
-            .from(noteLineBlame)
-            .leftJoin(users, eq(noteLineBlame.authorUserId, users.id))
-            .where(eq(noteLineBlame.noteId, noteIdValue))
-            .orderBy(asc(noteLineBlame.lineNumber));
+    const note = await resolveNote(notePublicIdResolved, dbClient);
+    if (note === null) {
+      throw new NoteNotFoundError();
+    }
+    if (note.workspaceId !== workspaceIdValue) {
+      throw new NoteNotInWorkspaceError();
+    }
 
-          blame = blameRows.map((row) => ({
-            ...row,
-            touchedAt: toIso(row.touchedAt),
-          }));
-        }
+    // Saved as a revision by the user, with the expected revision checked in
+    // the same transaction; also pushed to the live collab room and announced
+    stage = "write-content";
+    const written = await writeNoteContent({
+      workspaceId: workspaceIdValue,
+      noteId: note.id,
+      notePublicId: notePublicIdResolved,
+      content,
+      authorUserId: session.user.id,
+      expectedRevisionId,
+    });
 
-        return {
-          revisionId,
-          updatedAt: updatedNote.updatedAt,
-          blame,
-          noteId: noteIdValue,
-          workspaceId: workspaceIdValue,
-        };
-      });
-    };
+    stage = "refresh-links";
+    await refreshNoteLinks(note.id);
 
-    const result = dialect === "sqlite" ? runManualSaveSqlite() : await runManualSavePostgres();
+    stage = "refresh-metadata";
+    await refreshNoteMetadata(note.id);
 
-    stage = "publish";
-    try {
-      // Fetch complete note data for SSE event
-      const noteRow = await db
+    let blame;
+    if (includeBlame) {
+      stage = "select-blame";
+      const blameRows = await dbClient
         .select({
-          id: notes.id,
-          publicId: notes.publicId,
-          name: notes.name,
-          title: notes.title,
-          content: notes.content,
-          folderId: notes.folderId,
-          updatedAt: notes.updatedAt,
+          lineNumber: noteLineBlame.lineNumber,
+          authorUserId: noteLineBlame.authorUserId,
+          authorName: users.name,
+          authorEmail: users.email,
+          revisionId: noteLineBlame.revisionId,
+          touchedAt: noteLineBlame.touchedAt,
         })
-        .from(notes)
-        .where(eq(notes.id, result.noteId))
-        .limit(1);
-
-      if (noteRow[0]) {
-        // Build folder path if needed
-        let folderPath: string | null = null;
-        if (noteRow[0].folderId) {
-          folderPath = await buildNoteFolderPath(noteRow[0].folderId, result.workspaceId, db);
-        }
-
-        workspaceEventHub.publish({
-          workspaceId: result.workspaceId,
-          type: "note.updated",
-          data: {
-            id: noteRow[0].id,
-            publicId: noteRow[0].publicId,
-            name: noteRow[0].name,
-            title: noteRow[0].title,
-            content: noteRow[0].content,
-            folderId: noteRow[0].folderId,
-            folderPath,
-            updatedAt: noteRow[0].updatedAt.toISOString(),
-          },
-        });
-      }
-    } catch (err) {
-      console.warn("Failed to publish note.updated", { workspaceId: result.workspaceId, noteId: result.noteId, error: err });
+        .from(noteLineBlame)
+        .leftJoin(users, eq(noteLineBlame.authorUserId, users.id))
+        .where(eq(noteLineBlame.noteId, note.id))
+        .orderBy(asc(noteLineBlame.lineNumber));
+
+      blame = blameRows.map((row) => ({
+        ...row,
+        touchedAt: toIso(row.touchedAt),
+      }));
     }
 
     stage = "build-response";
@@ -453,16 +167,22 @@ app.patch("/", async (c) => {
         authorEmail: string | null;
       }>;
     } = {
-      updatedAt: toIso(result.updatedAt),
-      revisionId: result.revisionId,
+      updatedAt: toIso(written.updatedAt),
+      revisionId: written.revisionId,
     };
 
-    if (result.blame) {
-      responseData.blame = result.blame;
+    if (blame) {
+      responseData.blame = blame;
     }
 
+    c.header("ETag", revisionETag(written.revisionId));
     return c.json(responseData);
   } catch (error) {
+    if (error instanceof StaleRevisionError) {
+      c.header("ETag", error.conflict.etag);
+      return c.json({ error: "Note has changed since the expected revision", ...error.conflict }, 409);
+    }
+
     console.error("Manual save failed", {
       stage,
       workspaceSlug: workspaceSlugValue,
@@ -491,4 +211,3 @@ app.patch("/", async (c) => {
 });
 
 export { app };
-export { buildNoteFolderPath };
@@ -1,19 +1,35 @@
 import { Hono } from "hono";
-import { eq, and, asc, desc, isNull } from "drizzle-orm";
-import { notes, noteLineBlame, revisions, users } from "@/db/schema";
+import { eq, and, asc, desc, inArray, isNull } from "drizzle-orm";
+import { notes, noteLineBlame, noteLinks, revisions, users } from "@/db/schema";
 import { parseSlug, parsePublicId } from "@/lib/params";
-import { resolveWorkspaceId, resolveNoteId, resolveFolderId } from "@/lib/resolvers";
+import { resolveWorkspaceId, resolveNoteId, resolveFolderId, buildNoteFolderPath } from "@/lib/resolvers";
+import { updateNoteSearchIndex } from "@/lib/search";
 import { workspaceEventHub } from "@/lib/sse-hub";
+import { trashNotes } from "@/lib/trash";
+import { findNoteIdsByMetadata, loadNoteMetadata, type MetadataFilter } from "@/lib/frontmatter";
+import { findBacklinks, findLinkLines, refreshNoteLinks, refreshWorkspaceLinks, relinkBacklinks } from "@/lib/note-links";
+import { refreshNoteMetadata } from "@/lib/frontmatter";
+import { restoreNoteRevision, RevisionNotFoundError } from "@/lib/revisions";
+import { diffText } from "@/lib/diff";
+import { getLatestRevisionId, loadRevisionContents } from "@/lib/revision-store";
+import {
+  assertExpectedRevision,
+  InvalidETagError,
+  parseIfMatch,
+  revisionETag,
+  StaleRevisionError,
+} from "@/lib/revision-conflicts";
 import { isValidFolderName } from "@/lib/folder-name";
 import { requireAuth } from "@/routes/middleware/require-auth";
+import { requireWorkspaceRole } from "@/routes/middleware/require-workspace-role";
 import type { Variables, DbClient, NoteBody, NoteMoveBody } from "@/routes/types";
 import { isRecord } from "@/routes/types";
-import { buildNoteFolderPath } from "./note-content";
 
 const app = new Hono<{ Variables: Variables }>();
 
-// GET /api/workspaces/:workspaceSlug/notes/ - List notes in a workspace
-app.get("/", requireAuth, async (c) => {
+// GET /api/workspaces/:workspaceSlug/notes/?tag=...&key=...&value=... - List notes in a workspace
+// tag may be repeated; notes must have every tag and, if given, the frontmatter key (with that value)
+app.get("/", requireAuth, requireWorkspaceRole("viewer"), async (c) => {
   const db = c.get("db");
   const workspaceSlug = c.req.param("workspaceSlug");
   const validatedSlug = parseSlug(workspaceSlug);
@@ -27,17 +43,40 @@ app.get("/", requireAuth, async (c) => {
     return c.json({ error: "Workspace not found" }, 404);
   }
 
+  const tags = (c.req.queries("tag") ?? []).map((tag) => tag.trim()).filter(Boolean);
+  const key = c.req.query("key")?.trim() ?? "";
+  const value = c.req.query("value");
+  if (value !== undefined && !key) {
+    return c.json({ error: "value requires key" }, 400);
+  }
+
+  const filter: MetadataFilter = {
+    tags,
+    fields: key ? [{ key, value: value ?? null }] : [],
+  };
+  const filtered = tags.length > 0 || key !== "";
+  const matchingIds = filtered ? await findNoteIdsByMetadata(workspaceIdValue, filter) : [];
+  if (filtered && matchingIds.length === 0) {
+    return c.json([], 200);
+  }
+
   // Filter out soft-deleted notes
   const rows = await db
     .select()
     .from(notes)
-    .where(and(eq(notes.workspaceId, workspaceIdValue), isNull(notes.deletedAt)));
+    .where(
+      and(
+        eq(notes.workspaceId, workspaceIdValue),
+        isNull(notes.deletedAt),
+        filtered ? inArray(notes.id, matchingIds) : undefined
+      )
+    );
 
   return c.json(rows, 200);
 });
 
 // GET /api/workspaces/:workspaceSlug/notes/:noteId - Get a specific note
-app.get("/:noteId", requireAuth, async (c) => {
+app.get("/:noteId", requireAuth, requireWorkspaceRole("viewer"), async (c) => {
   const db = c.get("db");
   const workspaceSlug = c.req.param("workspaceSlug");
   const notePublicId = c.req.param("noteId");
@@ -104,11 +143,21 @@ app.get("/:noteId", requireAuth, async (c) => {
     touchedAt: new Date(row.touchedAt).toISOString(),
   }));
 
-  return c.json({ ...note, blame }, 200);
+  const metadata = await loadNoteMetadata(noteIdValue);
+  const revisionId = await getLatestRevisionId(noteIdValue);
+
+  // The ETag names the latest revision; send it back as If-Match on writes
+  const etag = revisionETag(revisionId);
+  c.header("ETag", etag);
+  if (c.req.header("If-None-Match") === etag) {
+    return c.body(null, 304);
+  }
+
+  return c.json({ ...note, revisionId, metadata, blame }, 200);
 });
 
 // GET /api/workspaces/:workspaceSlug/notes/:noteId/history - Get note revision history
-app.get("/:noteId/history", requireAuth, async (c) => {
+app.get("/:noteId/history", requireAuth, requireWorkspaceRole("viewer"), async (c) => {
   const db = c.get("db");
   const workspaceSlug = c.req.param("workspaceSlug");
   const notePublicId = c.req.param("noteId");
@@ -166,7 +215,6 @@ app.get("/:noteId/history", requireAuth, async (c) => {
       createdAt: revisions.createdAt,
       authorName: users.name,
       authorEmail: users.email,
-      content: revisions.content,
     })
     .from(revisions)
     .leftJoin(users, eq(revisions.authorUserId, users.id))
@@ -174,20 +222,289 @@ app.get("/:noteId/history", requireAuth, async (c) => {
     .orderBy(desc(revisions.createdAt))
     .limit(limit);
 
+  const contents = await loadRevisionContents(noteIdValue, revisionRows.map((row) => row.id));
+
   const revisionsData = revisionRows.map((row) => ({
     id: row.id,
     authorUserId: row.authorUserId,
     createdAt: new Date(row.createdAt).toISOString(),
     authorName: row.authorName,
     authorEmail: row.authorEmail,
-    content: row.content,
+    content: contents.get(row.id) ?? "",
   }));
 
   return c.json({ revisions: revisionsData }, 200);
 });
 
+// GET /api/workspaces/:workspaceSlug/notes/:noteId/history/diff?from=...&to=... - Diff two revisions (to defaults to the current content)
+app.get("/:noteId/history/diff", requireAuth, requireWorkspaceRole("viewer"), async (c) => {
+  const db = c.get("db");
+  const workspaceSlug = c.req.param("workspaceSlug");
+  const notePublicId = c.req.param("noteId");
+
+  const validatedSlug = parseSlug(workspaceSlug);
+  if (!validatedSlug) {
+    return c.json({ error: "Invalid workspace slug" }, 400);
+  }
+
+  const fromRevisionId = Number(c.req.query("from"));
+  if (!Number.isInteger(fromRevisionId) || fromRevisionId < 1) {
+    return c.json({ error: "Invalid from revision id" }, 400);
+  }
+
+  const toParam = c.req.query("to") ?? "current";
+  const toRevisionId = toParam === "current" ? null : Number(toParam);
+  if (toRevisionId !== null && (!Number.isInteger(toRevisionId) || toRevisionId < 1)) {
+    return c.json({ error: "Invalid to revision id" }, 400);
+  }
+
+  const workspaceIdValue = await resolveWorkspaceId(validatedSlug);
+  if (!workspaceIdValue) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const notePublicIdValue = parsePublicId(notePublicId);
+  if (!notePublicIdValue) {
+    return c.json({ error: "Invalid note id" }, 400);
+  }
+
+  const noteRows = await db
+    .select({ id: notes.id, content: notes.content })
+    .from(notes)
+    .where(
+      and(
+        eq(notes.workspaceId, workspaceIdValue),
+        eq(notes.publicId, notePublicIdValue),
+        isNull(notes.deletedAt)
+      )
+    )
+    .limit(1);
+
+  const note = noteRows[0];
+  if (!note) {
+    return c.json({ error: "Note not found" }, 404);
+  }
+
+  const revisionIds = toRevisionId === null ? [fromRevisionId] : [fromRevisionId, toRevisionId];
+  const revisionRows = await db
+    .select({
+      id: revisions.id,
+      authorUserId: revisions.authorUserId,
+      createdAt: revisions.createdAt,
+      authorName: users.name,
+      authorEmail: users.email,
+    })
+    .from(revisions)
+    .leftJoin(users, eq(revisions.authorUserId, users.id))
+    .where(and(eq(revisions.noteId, note.id), inArray(revisions.id, revisionIds)));
+
+  const fromRevision = revisionRows.find((row) => row.id === fromRevisionId);
+  const toRevision = toRevisionId === null ? null : revisionRows.find((row) => row.id === toRevisionId);
+  if (!fromRevision || toRevision === undefined) {
+    return c.json({ error: "Revision not found" }, 404);
+  }
+
+  const toMeta = (row: typeof fromRevision) => ({
+    id: row.id,
+    authorUserId: row.authorUserId,
+    createdAt: new Date(row.createdAt).toISOString(),
+    authorName: row.authorName,
+    authorEmail: row.authorEmail,
+  });
+
+  const contents = await loadRevisionContents(note.id, revisionIds);
+  const diff = diffText(
+    contents.get(fromRevision.id) ?? "",
+    toRevision ? contents.get(toRevision.id) ?? "" : note.content
+  );
+
+  return c.json({
+    from: toMeta(fromRevision),
+    // null when comparing against the current note content
+    to: toRevision ? toMeta(toRevision) : null,
+    ...diff,
+  }, 200);
+});
+
+// GET /api/workspaces/:workspaceSlug/notes/:noteId/backlinks - List the notes linking to a note
+app.get("/:noteId/backlinks", requireAuth, requireWorkspaceRole("viewer"), async (c) => {
+  const db = c.get("db");
+  const workspaceSlug = c.req.param("workspaceSlug");
+  const notePublicId = c.req.param("noteId");
+
+  const validatedSlug = parseSlug(workspaceSlug);
+  if (!validatedSlug) {
+    return c.json({ error: "Invalid workspace slug" }, 400);
+  }
+
+  const workspaceIdValue = await resolveWorkspaceId(validatedSlug);
+  if (!workspaceIdValue) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const notePublicIdValue = parsePublicId(notePublicId);
+  if (!notePublicIdValue) {
+    return c.json({ error: "Invalid note id" }, 400);
+  }
+
+  const noteIdValue = await resolveNoteId(notePublicIdValue);
+  if (!noteIdValue) {
+    return c.json({ error: "Note not found" }, 404);
+  }
+
+  const noteCheck = await db
+    .select({ id: notes.id })
+    .from(notes)
+    .where(
+      and(
+        eq(notes.workspaceId, workspaceIdValue),
+        eq(notes.id, noteIdValue),
+        isNull(notes.deletedAt)
+      )
+    )
+    .limit(1);
+
+  if (!noteCheck[0]) {
+    return c.json({ error: "Note not found" }, 404);
+  }
+
+  const linkRows = await db
+    .select({
+      sourceNoteId: noteLinks.sourceNoteId,
+      target: noteLinks.target,
+      publicId: notes.publicId,
+      name: notes.name,
+      title: notes.title,
+      folderId: notes.folderId,
+      content: notes.content,
+    })
+    .from(noteLinks)
+    .innerJoin(notes, eq(notes.id, noteLinks.sourceNoteId))
+    .where(
+      and(
+        eq(noteLinks.targetNoteId, noteIdValue),
+        eq(notes.workspaceId, workspaceIdValue),
+        isNull(notes.deletedAt)
+      )
+    );
+
+  const sources = new Map<number, { row: (typeof linkRows)[number]; targets: Set<string> }>();
+  for (const row of linkRows) {
+    const source = sources.get(row.sourceNoteId) ?? { row, targets: new Set<string>() };
+    source.targets.add(row.target);
+    sources.set(row.sourceNoteId, source);
+  }
+
+  const folderPaths = new Map<number, string>();
+  const backlinks = [];
+  for (const { row, targets } of sources.values()) {
+    let folderPath: string | null = null;
+    if (row.folderId !== null) {
+      if (!folderPaths.has(row.folderId)) {
+        folderPaths.set(row.folderId, await buildNoteFolderPath(row.folderId, workspaceIdValue, db));
+      }
+      folderPath = folderPaths.get(row.folderId) || null;
+    }
+
+    backlinks.push({
+      publicId: row.publicId,
+      name: row.name,
+      title: row.title,
+      folderPath,
+      lines: findLinkLines(row.content ?? "", targets),
+    });
+  }
+
+  backlinks.sort((a, b) => a.title.localeCompare(b.title));
+
+  return c.json({ backlinks }, 200);
+});
+
+// POST /api/workspaces/:workspaceSlug/notes/:noteId/history/:revisionId/restore - Restore a note to a previous revision
+app.post("/:noteId/history/:revisionId/restore", requireAuth, requireWorkspaceRole("editor"), async (c) => {
+  const db = c.get("db");
+  const session = c.get("session");
+  const workspaceSlug = c.req.param("workspaceSlug");
+  const notePublicId = c.req.param("noteId");
+
+  const validatedSlug = parseSlug(workspaceSlug);
+  if (!validatedSlug) {
+    return c.json({ error: "Invalid workspace slug" }, 400);
+  }
+
+  const revisionIdValue = Number(c.req.param("revisionId"));
+  if (!Number.isInteger(revisionIdValue) || revisionIdValue < 1) {
+    return c.json({ error: "Invalid revision id" }, 400);
+  }
+
+  let expectedRevisionId: number | null | undefined;
+  try {
+    expectedRevisionId = parseIfMatch(c.req.header("If-Match"));
+  } catch (error) {
+    if (error instanceof InvalidETagError) {
+      return c.json({ error: error.message }, 400);
+    }
+    throw error;
+  }
+
+  const workspaceIdValue = await resolveWorkspaceId(validatedSlug);
+  if (!workspaceIdValue) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const notePublicIdValue = parsePublicId(notePublicId);
+  if (!notePublicIdValue) {
+    return c.json({ error: "Invalid note id" }, 400);
+  }
+
+  const noteRows = await db
+    .select({ id: notes.id, content: notes.content })
+    .from(notes)
+    .where(
+      and(
+        eq(notes.workspaceId, workspaceIdValue),
+        eq(notes.publicId, notePublicIdValue),
+        isNull(notes.deletedAt)
+      )
+    )
+    .limit(1);
+
+  if (!noteRows[0]) {
+    return c.json({ error: "Note not found" }, 404);
+  }
+
+  try {
+    await assertExpectedRevision(noteRows[0].id, expectedRevisionId, noteRows[0].content);
+    const restored = await restoreNoteRevision({
+      workspaceId: workspaceIdValue,
+      noteId: noteRows[0].id,
+      notePublicId: notePublicIdValue,
+      revisionId: revisionIdValue,
+      authorUserId: session.user.id,
+    });
+    await refreshNoteLinks(noteRows[0].id);
+    await refreshNoteMetadata(noteRows[0].id);
+
+    c.header("ETag", revisionETag(restored.revisionId));
+    return c.json({
+      revisionId: restored.revisionId,
+      restoredFromRevisionId: restored.restoredFromRevisionId,
+      updatedAt: restored.updatedAt.toISOString(),
+    }, 200);
+  } catch (error) {
+    if (error instanceof RevisionNotFoundError) {
+      return c.json({ error: "Revision not found" }, 404);
+    }
+    if (error instanceof StaleRevisionError) {
+      c.header("ETag", error.conflict.etag);
+      return c.json({ error: "Note has changed since the expected revision", ...error.conflict }, 409);
+    }
+    throw error;
+  }
+});
+
 // POST /api/workspaces/:workspaceSlug/notes/ - Create a new note in a workspace
-app.post("/", requireAuth, async (c) => {
+app.post("/", requireAuth, requireWorkspaceRole("editor"), async (c) => {
   const db = c.get("db");
   const workspaceSlug = c.req.param("workspaceSlug");
   const validatedSlug = parseSlug(workspaceSlug);
@@ -238,7 +555,7 @@ app.post("/", requireAuth, async (c) => {
       return c.json({ error: "Invalid folder id" }, 400);
     }
 
-    folderIdValue = await resolveFolderId(folderPublicIdValue);
+    folderIdValue = await resolveFolderId(folderPublicIdValue, workspaceIdValue);
     if (!folderIdValue) {
       return c.json({ error: "Folder not found" }, 404);
     }
@@ -262,6 +579,8 @@ app.post("/", requireAuth, async (c) => {
     });
 
   const note = insertedRows[0];
+  await updateNoteSearchIndex(note.id);
+  await refreshWorkspaceLinks(workspaceIdValue);
 
   workspaceEventHub.publish({
     workspaceId: workspaceIdValue,
@@ -273,8 +592,9 @@ app.post("/", requireAuth, async (c) => {
 });
 
 // PATCH /api/workspaces/:workspaceSlug/notes/:noteId - Update a note
-app.patch("/:noteId", requireAuth, async (c) => {
+app.patch("/:noteId", requireAuth, requireWorkspaceRole("editor"), async (c) => {
   const db = c.get("db");
+  const session = c.get("session");
   const workspaceSlug = c.req.param("workspaceSlug");
   const notePublicId = c.req.param("noteId");
 
@@ -329,7 +649,7 @@ app.patch("/:noteId", requireAuth, async (c) => {
 
   // Check if note exists and is not soft-deleted, fetch content for SSE event
   const existing = await db
-    .select({ id: notes.id, folderId: notes.folderId, content: notes.content })
+    .select({ id: notes.id, name: notes.name, folderId: notes.folderId, content: notes.content })
     .from(notes)
     .where(
       and(
@@ -345,6 +665,7 @@ app.patch("/:noteId", requireAuth, async (c) => {
   }
 
   const currentContent = existing[0].content ?? "";
+  const backlinks = name !== existing[0].name ? await findBacklinks(noteIdValue) : [];
 
   const updatedRows = await db
     .update(notes)
@@ -366,6 +687,12 @@ app.patch("/:noteId", requireAuth, async (c) => {
     });
 
   const updated = updatedRows[0];
+  await updateNoteSearchIndex(updated.id);
+
+  // Point links to the old name at the new one
+  if (name !== existing[0].name) {
+    await relinkBacklinks(workspaceIdValue, updated.id, backlinks, session.user.id);
+  }
 
   // Build folder path for SSE event
   const folderPath = updated.folderId
@@ -391,7 +718,7 @@ app.patch("/:noteId", requireAuth, async (c) => {
 });
 
 // DELETE /api/workspaces/:workspaceSlug/notes/:noteId - Delete a note
-app.delete("/:noteId", requireAuth, async (c) => {
+app.delete("/:noteId", requireAuth, requireWorkspaceRole("editor"), async (c) => {
   const db = c.get("db");
   const workspaceSlug = c.req.param("workspaceSlug");
   const notePublicId = c.req.param("noteId");
@@ -435,16 +762,8 @@ app.delete("/:noteId", requireAuth, async (c) => {
 
   const note = existing[0];
 
-  // Soft delete: mark note as deleted instead of hard deleting
-  await db
-    .update(notes)
-    .set({ deletedAt: new Date() })
-    .where(
-      and(
-        eq(notes.workspaceId, workspaceIdValue),
-        eq(notes.id, noteIdValue)
-      )
-    );
+  // Soft delete: move the note to the trash instead of hard deleting
+  await trashNotes(workspaceIdValue, [noteIdValue], db);
 
   workspaceEventHub.publish({
     workspaceId: workspaceIdValue,
@@ -456,8 +775,9 @@ app.delete("/:noteId", requireAuth, async (c) => {
 });
 
 // PATCH /api/workspaces/:workspaceSlug/notes/:noteId/move - Move a note to a different folder
-app.patch("/:noteId/move", requireAuth, async (c) => {
+app.patch("/:noteId/move", requireAuth, requireWorkspaceRole("editor"), async (c) => {
   const db = c.get("db");
+  const session = c.get("session");
   const workspaceSlug = c.req.param("workspaceSlug");
   const notePublicId = c.req.param("noteId");
 
@@ -495,7 +815,7 @@ app.patch("/:noteId/move", requireAuth, async (c) => {
 
   let resolvedFolderId: number | null = null;
   if (folderIdValue) {
-    resolvedFolderId = await resolveFolderId(folderIdValue);
+    resolvedFolderId = await resolveFolderId(folderIdValue, workspaceIdValue);
     if (!resolvedFolderId) {
       return c.json({ error: "Folder not found" }, 404);
     }
@@ -518,6 +838,7 @@ app.patch("/:noteId/move", requireAuth, async (c) => {
   }
 
   const currentContent = existing[0].content ?? "";
+  const backlinks = await findBacklinks(noteIdValue);
 
   const updatedRows = await db
     .update(notes)
@@ -535,6 +856,9 @@ app.patch("/:noteId/move", requireAuth, async (c) => {
 
   const updated = updatedRows[0];
 
+  // Point links to the old path at the new one
+  await relinkBacklinks(workspaceIdValue, updated.id, backlinks, session.user.id);
+
   // Build folder path for SSE event
   const folderPath = updated.folderId
     ? await buildNoteFolderPath(updated.folderId, workspaceIdValue, db)
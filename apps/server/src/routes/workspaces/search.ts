@@ -0,0 +1,66 @@
+import { Hono } from "hono";
+import { parseSlug } from "@/lib/params";
+import { resolveWorkspaceId, buildNoteFolderPath } from "@/lib/resolvers";
+import { searchNotes } from "@/lib/search";
+import { requireAuth } from "@/routes/middleware/require-auth";
+import { requireWorkspaceRole } from "@/routes/middleware/require-workspace-role";
+import type { Variables } from "@/routes/types";
+
+const app = new Hono<{ Variables: Variables }>();
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+// GET /api/workspaces/:workspaceSlug/search?q=...&limit=... - Full-text search over notes
+app.get("/", requireAuth, requireWorkspaceRole("viewer"), async (c) => {
+  const db = c.get("db");
+  const workspaceSlug = parseSlug(c.req.param("workspaceSlug"));
+  if (!workspaceSlug) {
+    return c.json({ error: "Invalid workspace slug" }, 400);
+  }
+
+  const query = c.req.query("q")?.trim() ?? "";
+  if (!query) {
+    return c.json({ error: "Query is required" }, 400);
+  }
+
+  const limitParam = c.req.query("limit");
+  let limit = DEFAULT_LIMIT;
+  if (limitParam !== undefined) {
+    const parsedLimit = Number(limitParam);
+    if (!Number.isInteger(parsedLimit) || parsedLimit <= 0 || parsedLimit > MAX_LIMIT) {
+      return c.json({ error: `Limit must be an integer between 1 and ${MAX_LIMIT}` }, 400);
+    }
+    limit = parsedLimit;
+  }
+
+  const workspaceIdValue = await resolveWorkspaceId(workspaceSlug);
+  if (!workspaceIdValue) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const results = await searchNotes(workspaceIdValue, query, { limit });
+
+  // Several matches often share a folder, so resolve each path once
+  const folderPaths = new Map<number, string>();
+  for (const result of results) {
+    if (result.folderId !== null && !folderPaths.has(result.folderId)) {
+      folderPaths.set(result.folderId, await buildNoteFolderPath(result.folderId, workspaceIdValue, db));
+    }
+  }
+
+  const matches = results.map((result) => ({
+    publicId: result.publicId,
+    name: result.name,
+    title: result.title,
+    folderPublicId: result.folderPublicId,
+    folderPath: result.folderId !== null ? folderPaths.get(result.folderId) ?? null : null,
+    score: result.score,
+    snippet: result.snippet,
+    lines: result.lines,
+  }));
+
+  return c.json({ query, matches }, 200);
+});
+
+export { app };
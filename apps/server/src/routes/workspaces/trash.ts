@@ -0,0 +1,173 @@
+import { Hono } from "hono";
+import { parseSlug, parsePublicId } from "@/lib/params";
+import { resolveWorkspaceId } from "@/lib/resolvers";
+import {
+  listTrashedFolders,
+  listTrashedNotes,
+  purgeTrashedFolder,
+  purgeTrashedNote,
+  restoreTrashedFolder,
+  restoreTrashedNote,
+} from "@/lib/trash";
+import { requireAuth } from "@/routes/middleware/require-auth";
+import { requireWorkspaceRole } from "@/routes/middleware/require-workspace-role";
+import type { Variables } from "@/routes/types";
+
+const app = new Hono<{ Variables: Variables }>();
+
+// GET /api/workspaces/:workspaceSlug/trash - List deleted notes
+app.get("/", requireAuth, requireWorkspaceRole("viewer"), async (c) => {
+  const workspaceSlug = parseSlug(c.req.param("workspaceSlug"));
+  if (!workspaceSlug) {
+    return c.json({ error: "Invalid workspace slug" }, 400);
+  }
+
+  const workspaceIdValue = await resolveWorkspaceId(workspaceSlug);
+  if (!workspaceIdValue) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const trashed = await listTrashedNotes(workspaceIdValue);
+
+  return c.json(
+    trashed.map((note) => ({
+      ...note,
+      deletedAt: note.deletedAt.toISOString(),
+    })),
+    200
+  );
+});
+
+// POST /api/workspaces/:workspaceSlug/trash/:noteId/restore - Restore a deleted note
+app.post("/:noteId/restore", requireAuth, requireWorkspaceRole("editor"), async (c) => {
+  const workspaceSlug = parseSlug(c.req.param("workspaceSlug"));
+  if (!workspaceSlug) {
+    return c.json({ error: "Invalid workspace slug" }, 400);
+  }
+
+  const notePublicId = parsePublicId(c.req.param("noteId"));
+  if (!notePublicId) {
+    return c.json({ error: "Invalid note id" }, 400);
+  }
+
+  const workspaceIdValue = await resolveWorkspaceId(workspaceSlug);
+  if (!workspaceIdValue) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const restored = await restoreTrashedNote(workspaceIdValue, notePublicId);
+  if (!restored) {
+    return c.json({ error: "Note not found in trash" }, 404);
+  }
+
+  return c.json(
+    {
+      publicId: restored.publicId,
+      name: restored.name,
+      title: restored.title,
+      folderPath: restored.folderPath,
+      renamed: restored.renamed,
+    },
+    200
+  );
+});
+
+// DELETE /api/workspaces/:workspaceSlug/trash/:noteId - Permanently delete a note from the trash
+app.delete("/:noteId", requireAuth, requireWorkspaceRole("editor"), async (c) => {
+  const workspaceSlug = parseSlug(c.req.param("workspaceSlug"));
+  if (!workspaceSlug) {
+    return c.json({ error: "Invalid workspace slug" }, 400);
+  }
+
+  const notePublicId = parsePublicId(c.req.param("noteId"));
+  if (!notePublicId) {
+    return c.json({ error: "Invalid note id" }, 400);
+  }
+
+  const workspaceIdValue = await resolveWorkspaceId(workspaceSlug);
+  if (!workspaceIdValue) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const purged = await purgeTrashedNote(workspaceIdValue, notePublicId);
+  if (!purged) {
+    return c.json({ error: "Note not found in trash" }, 404);
+  }
+
+  return c.json({ success: true }, 200);
+});
+
+// GET /api/workspaces/:workspaceSlug/trash/folders - List deleted folders
+app.get("/folders", requireAuth, requireWorkspaceRole("viewer"), async (c) => {
+  const workspaceSlug = parseSlug(c.req.param("workspaceSlug"));
+  if (!workspaceSlug) {
+    return c.json({ error: "Invalid workspace slug" }, 400);
+  }
+
+  const workspaceIdValue = await resolveWorkspaceId(workspaceSlug);
+  if (!workspaceIdValue) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const trashed = await listTrashedFolders(workspaceIdValue);
+
+  return c.json(
+    trashed.map((folder) => ({
+      ...folder,
+      deletedAt: folder.deletedAt.toISOString(),
+    })),
+    200
+  );
+});
+
+// POST /api/workspaces/:workspaceSlug/trash/folders/:folderId/restore - Restore a deleted folder with its contents
+app.post("/folders/:folderId/restore", requireAuth, requireWorkspaceRole("editor"), async (c) => {
+  const workspaceSlug = parseSlug(c.req.param("workspaceSlug"));
+  if (!workspaceSlug) {
+    return c.json({ error: "Invalid workspace slug" }, 400);
+  }
+
+  const folderPublicId = parsePublicId(c.req.param("folderId"));
+  if (!folderPublicId) {
+    return c.json({ error: "Invalid folder public ID" }, 400);
+  }
+
+  const workspaceIdValue = await resolveWorkspaceId(workspaceSlug);
+  if (!workspaceIdValue) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const restored = await restoreTrashedFolder(workspaceIdValue, folderPublicId);
+  if (!restored) {
+    return c.json({ error: "Folder not found in trash" }, 404);
+  }
+
+  return c.json(restored, 200);
+});
+
+// DELETE /api/workspaces/:workspaceSlug/trash/folders/:folderId - Permanently delete a folder and its contents from the trash
+app.delete("/folders/:folderId", requireAuth, requireWorkspaceRole("editor"), async (c) => {
+  const workspaceSlug = parseSlug(c.req.param("workspaceSlug"));
+  if (!workspaceSlug) {
+    return c.json({ error: "Invalid workspace slug" }, 400);
+  }
+
+  const folderPublicId = parsePublicId(c.req.param("folderId"));
+  if (!folderPublicId) {
+    return c.json({ error: "Invalid folder public ID" }, 400);
+  }
+
+  const workspaceIdValue = await resolveWorkspaceId(workspaceSlug);
+  if (!workspaceIdValue) {
+    return c.json({ error: "Workspace not found" }, 404);
+  }
+
+  const purged = await purgeTrashedFolder(workspaceIdValue, folderPublicId);
+  if (!purged) {
+    return c.json({ error: "Folder not found in trash" }, 404);
+  }
+
+  return c.json({ success: true }, 200);
+});
+
+export { app };
@@ -4,12 +4,13 @@ import { resolveWorkspaceId } from "@/lib/resolvers";
 import { getWorkspaceTree } from "@/lib/workspace-tree";
 import { transformWorkspaceTree } from "@/lib/workspace-tree-transform";
 import { requireAuth } from "@/routes/middleware/require-auth";
+import { requireWorkspaceRole } from "@/routes/middleware/require-workspace-role";
 import type { Variables } from "@/routes/types";
 
 const app = new Hono<{ Variables: Variables }>();
 
 // GET /api/workspaces/:workspaceSlug/tree - Get workspace tree with folders and notes
-app.get("/", requireAuth, async (c) => {
+app.get("/", requireAuth, requireWorkspaceRole("viewer"), async (c) => {
   const workspaceSlug = c.req.param("workspaceSlug");
   const validatedSlug = parseSlug(workspaceSlug);
 
@@ -3,9 +3,14 @@ import { and, eq, isNull } from "drizzle-orm";
 import { folders, notes } from "@/db/schema";
 import { parseSlug, parsePublicId } from "@/lib/params";
 import { resolveWorkspaceId, resolveFolderId } from "@/lib/resolvers";
+import { generateUniqueName } from "@/lib/note-paths";
+import { refreshNoteLinks, refreshWorkspaceLinks } from "@/lib/note-links";
+import { refreshNoteMetadata } from "@/lib/frontmatter";
+import { updateNoteSearchIndex } from "@/lib/search";
 import { workspaceEventHub } from "@/lib/sse-hub";
 import { isValidFolderName } from "@/lib/folder-name";
 import { requireAuth } from "@/routes/middleware/require-auth";
+import { requireWorkspaceRole } from "@/routes/middleware/require-workspace-role";
 import type { Variables, DbClient, UploadEntry, UploadResponse } from "@/routes/types";
 import { isRecord } from "@/routes/types";
 
@@ -13,36 +18,6 @@ const app = new Hono<{ Variables: Variables }>();
 
 type ParsedEntry = UploadEntry & { index: number };
 
-const generateUniqueName = async (
-  db: DbClient,
-  baseName: string,
-  folderId: number | null,
-  workspaceId: number
-): Promise<string> => {
-  const existingNotes = await db
-    .select({ name: notes.name })
-    .from(notes)
-    .where(
-      folderId === null
-        ? and(eq(notes.workspaceId, workspaceId), isNull(notes.folderId), isNull(notes.deletedAt))
-        : and(eq(notes.workspaceId, workspaceId), eq(notes.folderId, folderId!), isNull(notes.deletedAt))
-    );
-
-  const existingNames = new Set(existingNotes.map((n) => n.name));
-
-  if (!existingNames.has(baseName)) {
-    return baseName;
-  }
-
-  let suffix = 2;
-  let newName: string;
-  do {
-    newName = `${baseName}-${suffix}`;
-    suffix++;
-  } while (existingNames.has(newName));
-
-  return newName;
-};
 
 const createFolderRecursively = async (
   db: DbClient,
@@ -59,6 +34,7 @@ const createFolderRecursively = async (
   const conditions = [
     eq(folders.workspaceId, workspaceId),
     eq(folders.name, currentPart),
+    isNull(folders.deletedAt),
   ];
   if (parentFolderId === null) {
     conditions.push(isNull(folders.parentId));
@@ -99,7 +75,7 @@ const createFolderRecursively = async (
   return createFolderRecursively(db, remainingParts, folderId, workspaceId);
 };
 
-app.post("/", requireAuth, async (c) => {
+app.post("/", requireAuth, requireWorkspaceRole("editor"), async (c) => {
   const db = c.get("db");
   const workspaceSlug = c.req.param("workspaceSlug");
   const validatedSlug = parseSlug(workspaceSlug);
@@ -131,7 +107,7 @@ app.post("/", requireAuth, async (c) => {
     if (!targetFolderIdValue) {
       return c.json({ error: "Invalid target folder id" }, 400);
     }
-    resolvedTargetFolderId = await resolveFolderId(targetFolderIdValue);
+    resolvedTargetFolderId = await resolveFolderId(targetFolderIdValue, workspaceIdValue);
     if (!resolvedTargetFolderId) {
       return c.json({ error: "Target folder not found" }, 404);
     }
@@ -209,7 +185,7 @@ app.post("/", requireAuth, async (c) => {
         continue;
       }
 
-      const uniqueName = await generateUniqueName(db, entry.name, finalFolderId, workspaceIdValue);
+      const uniqueName = await generateUniqueName(entry.name, finalFolderId, workspaceIdValue, db);
 
       const inserted = await db
         .insert(notes)
@@ -221,6 +197,9 @@ app.post("/", requireAuth, async (c) => {
           content: entry.content,
         })
         .returning({ id: notes.id, publicId: notes.publicId, name: notes.name, title: notes.title, folderId: notes.folderId });
+      await updateNoteSearchIndex(inserted[0].id);
+      await refreshNoteLinks(inserted[0].id);
+      await refreshNoteMetadata(inserted[0].id);
 
       workspaceEventHub.publish({
         workspaceId: workspaceIdValue,
@@ -237,6 +216,10 @@ app.post("/", requireAuth, async (c) => {
     }
   }
 
+  if (response.created > 0) {
+    await refreshWorkspaceLinks(workspaceIdValue);
+  }
+
   return c.json(response, 200);
 });
 